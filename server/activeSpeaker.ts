@@ -0,0 +1,59 @@
+import { types as mediasoupTypes } from 'mediasoup';
+
+// Who is talking in a room. Every producer has a copy on the room's primary router, so one
+// ActiveSpeakerObserver (dominant speaker) and one AudioLevelObserver (volumes) there hear everyone.
+
+export interface SpeakerObservers {
+  // Router the observers live on; a replaced primary router needs new ones
+  router: mediasoupTypes.Router;
+  activeSpeaker: mediasoupTypes.ActiveSpeakerObserver;
+  audioLevel: mediasoupTypes.AudioLevelObserver;
+}
+
+export interface AudioLevel {
+  producerId: string;
+  // dBov, from -127 (silence) to 0 (loudest)
+  volume: number;
+}
+
+export interface SpeakerObserverHandlers {
+  onDominantSpeaker: (producerId: string) => void;
+  // Loudest producers first; empty once everyone is quiet
+  onAudioLevels: (levels: AudioLevel[]) => void;
+}
+
+const DOMINANT_SPEAKER_INTERVAL_MS = 300;
+const AUDIO_LEVEL_INTERVAL_MS = 500;
+// Quieter producers (room noise of an open microphone) are left out of the levels
+const AUDIO_LEVEL_THRESHOLD_DBOV = -70;
+const MAX_AUDIO_LEVEL_ENTRIES = 10;
+
+// The main slot of a mosaic follows the dominant speaker at most this often; every switch restarts FFmpeg
+export const SPEAKER_SWITCH_MIN_INTERVAL_MS = 5000;
+
+export async function createSpeakerObservers(router: mediasoupTypes.Router, handlers: SpeakerObserverHandlers): Promise<SpeakerObservers> {
+  const activeSpeaker = await router.createActiveSpeakerObserver({ interval: DOMINANT_SPEAKER_INTERVAL_MS });
+  const audioLevel = await router.createAudioLevelObserver({
+    interval: AUDIO_LEVEL_INTERVAL_MS,
+    threshold: AUDIO_LEVEL_THRESHOLD_DBOV,
+    maxEntries: MAX_AUDIO_LEVEL_ENTRIES
+  });
+
+  activeSpeaker.on('dominantspeaker', ({ producer }) => handlers.onDominantSpeaker(producer.id));
+  audioLevel.on('volumes', volumes => handlers.onAudioLevels(volumes.map(({ producer, volume }) => ({ producerId: producer.id, volume }))));
+  audioLevel.on('silence', () => handlers.onAudioLevels([]));
+
+  return { router, activeSpeaker, audioLevel };
+}
+
+// Audio producers only; failures (a producer already observed or gone from the router) are logged and skipped
+export async function observeSpeakerProducer(observers: SpeakerObservers, producerId: string) {
+  for (const observer of [observers.activeSpeaker, observers.audioLevel]) {
+    if (observer.closed) continue;
+    try {
+      await observer.addProducer({ producerId });
+    } catch (error) {
+      console.warn(`Could not observe producer ${producerId} for speaker detection:`, error);
+    }
+  }
+}
@@ -0,0 +1,408 @@
+import { spawn, ChildProcess, StdioOptions } from 'child_process';
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Every long-running FFmpeg is a job of this supervisor: an HLS output, the mosaic, a recording, a restream
+// or an ingest relay. The supervisor spawns the process, turns its stderr stats into numbers, kills it when
+// its output stalls and stops it with SIGTERM, then SIGKILL. HLS outputs restart after an unexpected exit
+// with an exponential backoff; jobs whose owner reacts to exits itself (a recording finishes its take, a
+// restream has its own retries, a relay waits for its encoder) run once.
+
+export type FfmpegJobKind = 'hls' | 'mosaic' | 'slate' | 'recording' | 'restream' | 'rtmp-relay' | 'srt-relay';
+
+// 'starting' until FFmpeg reports progress; 'stalled' while a stalled process is being killed;
+// 'backoff' while waiting to restart. 'stopped' and 'failed' jobs are gone from the registry.
+export type FfmpegJobState = 'starting' | 'running' | 'stalled' | 'backoff' | 'stopping' | 'stopped' | 'failed';
+
+// From FFmpeg's stats line ("frame=  250 fps= 30 ... bitrate=2097.2kbits/s dup=0 drop=3 speed=1.01x");
+// null until reported. Bitrate and size add up every output of the process.
+export interface FfmpegStats {
+  frame: number | null;
+  fps: number | null;
+  bitrateKbps: number | null;
+  speed: number | null;
+  droppedFrames: number | null;
+  duplicatedFrames: number | null;
+  // Media time written so far
+  outTimeSeconds: number | null;
+  updatedAt: number | null;
+}
+
+export interface FfmpegJobExit {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+  // 'stopped' when the owner stopped the job, 'failed' when it ended on its own, 'backoff' when it restarts
+  state: FfmpegJobState;
+  reason: string;
+}
+
+export interface FfmpegJobOptions {
+  kind: FfmpegJobKind;
+  // What the job works for, in logs and the API ("stream <id> in room <id>")
+  label: string;
+  roomId?: string;
+  // A function is called for every spawn, e.g. so each run writes into a folder of its own
+  args: string[] | (() => string[]);
+  stdio?: StdioOptions;
+  // Spawn again after an unexpected exit
+  restart?: boolean;
+  // Kill the process when it writes nothing for this long
+  stallTimeoutMs?: number;
+  // Latest output on disk, e.g. the newest segment; without it, the stats line counts once FFmpeg is running
+  getLastOutputAt?: () => number | null;
+  // Ask FFmpeg to finish on its own (e.g. 'q' on stdin) before SIGTERM
+  requestQuit?: (child: ChildProcess) => void;
+  // Grace between the stop request and SIGTERM (with requestQuit), and between SIGTERM and SIGKILL
+  stopTimeoutMs?: number;
+  // Hides secrets (stream keys, passphrases) in logged arguments and output
+  redact?: (text: string) => string;
+  // Every spawn, restarts included
+  onSpawn?: (child: ChildProcess) => void;
+  onStderr?: (output: string) => void;
+  // Every exit, restarts included
+  onExit?: (exit: FfmpegJobExit) => void;
+}
+
+export interface FfmpegJob {
+  id: string;
+  options: FfmpegJobOptions;
+  state: FfmpegJobState;
+  process: ChildProcess | null;
+  createdAt: number;
+  // Start of the current process
+  startedAt: number | null;
+  // Spawns after the first
+  restarts: number;
+  // Exits since the last run that stayed up HEALTHY_RUN_MS (the backoff exponent)
+  consecutiveFailures: number;
+  lastExit: (FfmpegJobExit & { at: number }) | null;
+  nextRestartAt: number | null;
+  stats: FfmpegStats;
+  // When the stats line last showed new frames or media time
+  lastProgressAt: number | null;
+  // Last line that is not a stats line; usually why FFmpeg gave up
+  lastOutputLine: string;
+  stopPromise?: Promise<void>;
+  restartTimer?: ReturnType<typeof setTimeout>;
+  stallTimer?: ReturnType<typeof setInterval>;
+  killTimers: ReturnType<typeof setTimeout>[];
+}
+
+const RESTART_BASE_DELAY_MS = 1000;
+const RESTART_MAX_DELAY_MS = 30000;
+// A restarting job gives up after this many exits in a row
+const MAX_CONSECUTIVE_FAILURES = 6;
+// A run that stays up this long resets the backoff
+const HEALTHY_RUN_MS = 30000;
+const STALL_CHECK_INTERVAL_MS = 2000;
+const DEFAULT_STOP_TIMEOUT_MS = 5000;
+
+const jobs = new Map<string, FfmpegJob>();
+
+function getFfmpegPath(): string {
+  return process.env.FFMPEG_PATH || 'ffmpeg';
+}
+
+function redact(job: FfmpegJob, text: string): string {
+  return job.options.redact ? job.options.redact(text) : text;
+}
+
+export function getRestartDelayMs(consecutiveFailures: number): number {
+  return Math.min(RESTART_BASE_DELAY_MS * 2 ** Math.max(0, consecutiveFailures - 1), RESTART_MAX_DELAY_MS);
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const number = parseFloat(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+// "00:01:02.50" in seconds; FFmpeg prints N/A (and briefly negative times) before the first packet
+function parseTimestamp(value: string | undefined): number | null {
+  const match = /^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/.exec(value ?? '');
+  return match ? Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) : null;
+}
+
+// Latest stats line in a chunk of stderr; stats lines end in '\r' so they overwrite each other on a terminal
+export function parseFfmpegProgress(output: string): Omit<FfmpegStats, 'updatedAt'> | null {
+  const line = output.split(/[\r\n]+/).reverse().find(candidate => /\btime=\s*\S/.test(candidate) && /\bspeed=\s*\S/.test(candidate));
+  if (!line) return null;
+  const field = (name: string) => new RegExp(`\\b${name}=\\s*(\\S+)`).exec(line)?.[1];
+  return {
+    frame: parseNumber(field('frame')),
+    fps: parseNumber(field('fps')),
+    bitrateKbps: parseNumber(field('bitrate')),
+    speed: parseNumber(field('speed')),
+    droppedFrames: parseNumber(field('drop')),
+    duplicatedFrames: parseNumber(field('dup')),
+    outTimeSeconds: parseTimestamp(field('time'))
+  };
+}
+
+// Newest modification time of the files in a folder and its subfolders (renditions), for stall checks
+export function getNewestFileTime(folder: string, depth = 1): number | null {
+  let newest: number | null = null;
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(folder, { withFileTypes: true });
+  } catch {
+    return null;
+  }
+  for (const entry of entries) {
+    const entryPath = path.join(folder, entry.name);
+    const time = entry.isDirectory()
+      ? (depth > 0 ? getNewestFileTime(entryPath, depth - 1) : null)
+      : (() => { try { return fs.statSync(entryPath).mtimeMs; } catch { return null; } })();
+    if (time !== null && (newest === null || time > newest)) newest = time;
+  }
+  return newest;
+}
+
+function recordProgress(job: FfmpegJob, output: string) {
+  const progress = parseFfmpegProgress(output);
+  if (!progress) return;
+  const advanced = (progress.frame ?? 0) > (job.stats.frame ?? 0) || (progress.outTimeSeconds ?? 0) > (job.stats.outTimeSeconds ?? 0);
+  job.stats = { ...progress, updatedAt: Date.now() };
+  if (advanced) {
+    job.lastProgressAt = Date.now();
+    if (job.state === 'starting') job.state = 'running';
+  }
+}
+
+function checkForStall(job: FfmpegJob) {
+  const { stallTimeoutMs, getLastOutputAt } = job.options;
+  const child = job.process;
+  if (!stallTimeoutMs || !child || (job.state !== 'starting' && job.state !== 'running')) return;
+  // Without a file to watch, a process that has not started yet (waiting for its encoder) is not stalled
+  if (!getLastOutputAt && job.lastProgressAt === null) return;
+  const lastOutputAt = Math.max(job.startedAt ?? 0, (getLastOutputAt ? getLastOutputAt() : job.lastProgressAt) ?? 0);
+  if (Date.now() - lastOutputAt < stallTimeoutMs) return;
+
+  console.warn(`FFmpeg ${job.options.kind} job ${job.id} (${job.options.label}) wrote nothing for ${stallTimeoutMs} ms, killing it`);
+  job.state = 'stalled';
+  terminate(job, child);
+}
+
+// SIGTERM, then SIGKILL if the process is still there after the grace period
+function terminate(job: FfmpegJob, child: ChildProcess) {
+  const graceMs = job.options.stopTimeoutMs ?? DEFAULT_STOP_TIMEOUT_MS;
+  try {
+    child.kill('SIGTERM');
+  } catch (error) {
+    console.error(`Error sending SIGTERM to FFmpeg job ${job.id}:`, error);
+  }
+  job.killTimers.push(setTimeout(() => {
+    if (child.exitCode !== null || child.signalCode !== null) return;
+    console.warn(`FFmpeg job ${job.id} (${job.options.label}) ignored SIGTERM, killing it`);
+    child.kill('SIGKILL');
+  }, graceMs));
+}
+
+function clearJobTimers(job: FfmpegJob) {
+  clearInterval(job.stallTimer);
+  job.stallTimer = undefined;
+  job.killTimers.forEach(timer => clearTimeout(timer));
+  job.killTimers = [];
+}
+
+function handleExit(job: FfmpegJob, child: ChildProcess, code: number | null, signal: NodeJS.Signals | null, error?: Error) {
+  if (job.process !== child) return;
+  clearJobTimers(job);
+  job.process = null;
+
+  const wasStopping = job.state === 'stopping';
+  const reason = error ? error.message
+    : job.state === 'stalled' ? 'output stalled'
+    : wasStopping ? 'stopped'
+    : job.lastOutputLine || `exited with code ${code}`;
+  const ranFor = Date.now() - (job.startedAt ?? Date.now());
+  if (ranFor >= HEALTHY_RUN_MS) job.consecutiveFailures = 0;
+
+  let state: FfmpegJobState;
+  if (wasStopping) {
+    state = 'stopped';
+  } else if (job.options.restart && job.consecutiveFailures + 1 < MAX_CONSECUTIVE_FAILURES) {
+    // A live output never ends on its own, so a clean exit counts as a failure too
+    job.consecutiveFailures++;
+    state = 'backoff';
+  } else {
+    job.consecutiveFailures++;
+    state = job.options.restart || code !== 0 ? 'failed' : 'stopped';
+  }
+  job.state = state;
+  job.lastExit = { code, signal, state, reason, at: Date.now() };
+  console.log(`FFmpeg ${job.options.kind} job ${job.id} (${job.options.label}) exited with code ${code}, signal ${signal}: ${reason}`);
+
+  if (state === 'backoff') {
+    const delay = getRestartDelayMs(job.consecutiveFailures);
+    job.nextRestartAt = Date.now() + delay;
+    console.warn(`Restarting FFmpeg job ${job.id} (${job.options.label}) in ${delay} ms`);
+    job.restartTimer = setTimeout(() => {
+      job.restartTimer = undefined;
+      job.nextRestartAt = null;
+      if (job.state !== 'backoff') return;
+      job.restarts++;
+      try {
+        spawnJob(job);
+      } catch (error: any) {
+        // Arguments could not be prepared (e.g. the output folder is gone); the job ends here
+        console.error(`Could not restart FFmpeg job ${job.id} (${job.options.label}):`, error);
+        job.state = 'failed';
+        job.lastExit = { code: null, signal: null, state: 'failed', reason: error.message, at: Date.now() };
+        jobs.delete(job.id);
+        job.options.onExit?.(job.lastExit);
+      }
+    }, delay);
+  } else {
+    jobs.delete(job.id);
+  }
+
+  try {
+    job.options.onExit?.(job.lastExit);
+  } catch (callbackError) {
+    console.error(`Error handling exit of FFmpeg job ${job.id}:`, callbackError);
+  }
+}
+
+function spawnJob(job: FfmpegJob) {
+  const { stdio } = job.options;
+  const args = typeof job.options.args === 'function' ? job.options.args() : job.options.args;
+  console.log(`Starting FFmpeg ${job.options.kind} job ${job.id} (${job.options.label}):`, getFfmpegPath(), redact(job, args.join(' ')));
+  const child = spawn(getFfmpegPath(), args, {
+    cwd: process.cwd(),
+    stdio: stdio ?? ['ignore', 'pipe', 'pipe'],
+    shell: false  // Filter graphs contain ';' and '()', which a shell would interpret
+  });
+  job.process = child;
+  job.state = 'starting';
+  job.startedAt = Date.now();
+  job.lastProgressAt = null;
+  job.lastOutputLine = '';
+  job.stats = { ...job.stats, updatedAt: null };
+
+  child.stderr?.on('data', (data: Buffer) => {
+    const output = redact(job, data.toString());
+    const lines = output.split(/[\r\n]+/).map(line => line.trim()).filter(line => line && !/^frame=|^size=/.test(line));
+    job.lastOutputLine = lines.pop() ?? job.lastOutputLine;
+    recordProgress(job, output);
+    console.log(`FFMPEG ${job.options.kind} [${job.options.label}]:`, output.trim());
+    job.options.onStderr?.(output);
+  });
+  // A failed spawn emits 'error' without 'exit'; a failed kill emits one for a process that still runs
+  child.on('error', (error: Error) => {
+    if (child.pid === undefined) handleExit(job, child, null, null, error);
+    else console.error(`FFmpeg job ${job.id} (${job.options.label}) error:`, error);
+  });
+  child.on('exit', (code: number | null, signal: NodeJS.Signals | null) => handleExit(job, child, code, signal));
+
+  if (job.options.stallTimeoutMs) {
+    job.stallTimer = setInterval(() => checkForStall(job), STALL_CHECK_INTERVAL_MS);
+  }
+  job.options.onSpawn?.(child);
+}
+
+export function startFfmpegJob(options: FfmpegJobOptions): FfmpegJob {
+  const job: FfmpegJob = {
+    id: randomUUID(),
+    options,
+    state: 'starting',
+    process: null,
+    createdAt: Date.now(),
+    startedAt: null,
+    restarts: 0,
+    consecutiveFailures: 0,
+    lastExit: null,
+    nextRestartAt: null,
+    stats: {
+      frame: null, fps: null, bitrateKbps: null, speed: null, droppedFrames: null, duplicatedFrames: null, outTimeSeconds: null, updatedAt: null
+    },
+    lastProgressAt: null,
+    lastOutputLine: '',
+    killTimers: []
+  };
+  jobs.set(job.id, job);
+  try {
+    spawnJob(job);
+  } catch (error) {
+    jobs.delete(job.id);
+    throw error;
+  }
+  return job;
+}
+
+// Resolves once the process has exited; a job waiting to restart stops at once
+export function stopFfmpegJob(job: FfmpegJob | null | undefined): Promise<void> {
+  if (!job) return Promise.resolve();
+  if (job.stopPromise) return job.stopPromise;
+  clearTimeout(job.restartTimer);
+  job.restartTimer = undefined;
+  job.nextRestartAt = null;
+
+  const child = job.process;
+  if (!child || job.state === 'stopped' || job.state === 'failed') {
+    if (job.state !== 'failed') job.state = 'stopped';
+    jobs.delete(job.id);
+    return Promise.resolve();
+  }
+
+  job.state = 'stopping';
+  job.stopPromise = new Promise(resolve => {
+    child.once('exit', () => resolve());
+    if (child.pid === undefined) child.once('error', () => resolve());
+  });
+  if (job.options.requestQuit) {
+    try {
+      job.options.requestQuit(child);
+    } catch (error) {
+      console.error(`Error asking FFmpeg job ${job.id} to finish:`, error);
+    }
+    job.killTimers.push(setTimeout(() => {
+      if (job.process !== child) return;
+      console.warn(`FFmpeg job ${job.id} (${job.options.label}) did not finish in time, terminating it`);
+      terminate(job, child);
+    }, job.options.stopTimeoutMs ?? DEFAULT_STOP_TIMEOUT_MS));
+  } else {
+    terminate(job, child);
+  }
+  return job.stopPromise;
+}
+
+// Kill the running process so the supervisor starts a new one; only for jobs that restart
+export function restartFfmpegJob(job: FfmpegJob): boolean {
+  if (!job.options.restart || !job.process || (job.state !== 'starting' && job.state !== 'running')) return false;
+  console.log(`Restarting FFmpeg job ${job.id} (${job.options.label}) on request`);
+  // A requested restart is no failure of the job
+  job.consecutiveFailures = Math.max(0, job.consecutiveFailures - 1);
+  terminate(job, job.process);
+  return true;
+}
+
+export function getFfmpegJob(jobId: string): FfmpegJob | undefined {
+  return jobs.get(jobId);
+}
+
+export function listFfmpegJobs(roomId?: string): FfmpegJob[] {
+  return Array.from(jobs.values()).filter(job => roomId === undefined || job.options.roomId === roomId);
+}
+
+export function toFfmpegJobResponse(job: FfmpegJob) {
+  return {
+    id: job.id,
+    kind: job.options.kind,
+    label: job.options.label,
+    roomId: job.options.roomId ?? null,
+    state: job.state,
+    // Running and writing; a job still waiting for its input is not unhealthy
+    healthy: job.state === 'running' || (job.state === 'starting' && !job.options.getLastOutputAt),
+    pid: job.process?.pid ?? null,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    restarts: job.restarts,
+    consecutiveFailures: job.consecutiveFailures,
+    nextRestartAt: job.nextRestartAt,
+    lastExit: job.lastExit,
+    lastProgressAt: job.lastProgressAt,
+    stats: job.stats
+  };
+}
@@ -0,0 +1,359 @@
+import path from 'path';
+
+// Adaptive bitrate ladder for the live HLS outputs. One FFmpeg process encodes every rendition;
+// the master playlist is written here rather than by FFmpeg so it can advertise exact codecs.
+
+export interface HlsVideoRendition {
+  height: number;
+  bitrateKbps: number;
+  maxrateKbps: number;
+  profile: 'baseline' | 'main' | 'high';
+  level: string;
+}
+
+export interface HlsRendition {
+  // Sub-folder of the output and the var_stream_map name
+  name: string;
+  // Absent for the audio-only rendition
+  video?: HlsVideoRendition;
+  audioBitrateKbps: number;
+}
+
+export const HLS_RENDITION_PRESETS: Record<string, HlsRendition> = {
+  '1080p': { name: '1080p', video: { height: 1080, bitrateKbps: 5000, maxrateKbps: 5350, profile: 'high', level: '4.1' }, audioBitrateKbps: 128 },
+  '720p': { name: '720p', video: { height: 720, bitrateKbps: 2800, maxrateKbps: 2996, profile: 'main', level: '3.1' }, audioBitrateKbps: 128 },
+  '480p': { name: '480p', video: { height: 480, bitrateKbps: 1400, maxrateKbps: 1498, profile: 'main', level: '3.0' }, audioBitrateKbps: 96 },
+  '360p': { name: '360p', video: { height: 360, bitrateKbps: 800, maxrateKbps: 856, profile: 'baseline', level: '3.0' }, audioBitrateKbps: 96 },
+  audio: { name: 'audio', audioBitrateKbps: 64 }
+};
+
+export const DEFAULT_HLS_LADDER = '720p,480p,360p,audio';
+
+export const HLS_SEGMENT_SECONDS = 2;
+export const HLS_FRAME_RATE = 30;
+
+// Segments a live playlist lists without DVR, i.e. about 20 s to seek back in
+export const HLS_LIVE_WINDOW_SEGMENTS = 10;
+// Longest DVR window a stream may ask for; all of it stays on disk for every rendition
+export const MAX_DVR_WINDOW_SECONDS = 6 * 60 * 60;
+
+// DVR window in whole seconds; 0 keeps just the plain live window
+export function isDvrWindowSeconds(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_DVR_WINDOW_SECONDS;
+}
+
+// Segments listed in (and kept on disk for) the sliding playlist of a DVR window
+export function getHlsWindowSegments(dvrWindowSeconds: number): number {
+  return Math.max(HLS_LIVE_WINDOW_SEGMENTS, Math.ceil(dvrWindowSeconds / HLS_SEGMENT_SECONDS));
+}
+
+// Container of classic HLS segments: MPEG-TS, or CMAF (fragmented MP4) shared with an MPEG-DASH manifest
+export const HLS_SEGMENT_FORMATS = ['mpegts', 'cmaf'] as const;
+export type HlsSegmentFormat = typeof HLS_SEGMENT_FORMATS[number];
+
+export function isHlsSegmentFormat(value: unknown): value is HlsSegmentFormat {
+  return typeof value === 'string' && (HLS_SEGMENT_FORMATS as readonly string[]).includes(value);
+}
+
+export const DASH_MANIFEST_NAME = 'manifest.mpd';
+
+// Comma-separated preset names, e.g. HLS_LADDER=1080p,720p,480p,audio
+export function parseHlsLadder(spec: string | undefined = DEFAULT_HLS_LADDER): HlsRendition[] {
+  const names = spec.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  const ladder: HlsRendition[] = [];
+  for (const name of names) {
+    const preset = HLS_RENDITION_PRESETS[name];
+    if (!preset) {
+      console.warn(`Unknown HLS rendition "${name}" ignored; known renditions: ${Object.keys(HLS_RENDITION_PRESETS).join(', ')}`);
+      continue;
+    }
+    if (!ladder.includes(preset)) ladder.push(preset);
+  }
+  if (ladder.length === 0 && spec !== DEFAULT_HLS_LADDER) {
+    console.warn(`HLS ladder "${spec}" has no known renditions, using ${DEFAULT_HLS_LADDER}`);
+    return parseHlsLadder(DEFAULT_HLS_LADDER);
+  }
+  // Highest quality first, audio-only last
+  return ladder.sort((a, b) => (b.video?.height ?? 0) - (a.video?.height ?? 0));
+}
+
+// Renditions that can actually be produced from a source with the given kinds
+export function getRenditionsFor(ladder: HlsRendition[], hasVideo: boolean, hasAudio: boolean): HlsRendition[] {
+  const audioOnly = ladder.find(rendition => !rendition.video) ?? HLS_RENDITION_PRESETS.audio;
+  if (!hasVideo) return hasAudio ? [audioOnly] : [];
+
+  const videoRenditions = ladder.filter(rendition => !!rendition.video);
+  if (videoRenditions.length === 0) return hasAudio ? [audioOnly] : [];
+  return hasAudio && ladder.includes(audioOnly) ? [...videoRenditions, audioOnly] : videoRenditions;
+}
+
+export function evenWidth(height: number): number {
+  return Math.round(height * 16 / 9 / 2) * 2;
+}
+
+// RFC 6381 codec string of the H.264 stream x264 writes for a rendition
+function getVideoCodecString(video: HlsVideoRendition): string {
+  const profileIdc = { baseline: '42e0', main: '4d40', high: '6400' }[video.profile];
+  const levelIdc = Math.round(parseFloat(video.level) * 10).toString(16).padStart(2, '0');
+  return `avc1.${profileIdc}${levelIdc}`;
+}
+
+const AAC_LC_CODEC = 'mp4a.40.2';
+
+export interface HlsLadderSources {
+  // Filter graph pads feeding the ladder, e.g. '[0:v]' or '[vout]'; null when the source lacks that kind
+  video: string | null;
+  audio: string | null;
+}
+
+export interface HlsLadderOutput {
+  // Filters to append to the -filter_complex graph
+  filters: string[];
+  // Everything after -filter_complex: maps, encoders, and the HLS muxer writing <folder>/<name>/index.m3u8
+  args: string[];
+}
+
+// Paths inside a filter option: forward slashes, and ':' escaped so Windows drive letters survive
+export function escapeFilterPath(file: string): string {
+  return `'${path.resolve(file).replace(/\\/g, '/').replace(/:/g, '\\:')}'`;
+}
+
+// Stand-in input for a paused track, so the output keeps its renditions and goes on producing segments:
+// a "Paused" card at the size of the top video rendition, in the slate's font, or silence. -re paces it
+// like a live track.
+export function getPausedSlateInputArgs(kind: 'video' | 'audio', renditions: HlsRendition[], fontFile?: string): string[] {
+  if (kind === 'audio') return ['-re', '-f', 'lavfi', '-i', 'anullsrc=r=48000:cl=stereo'];
+  const height = renditions.find(rendition => !!rendition.video)?.video!.height ?? 720;
+  const card = `color=c=0x202020:s=${evenWidth(height)}x${height}:r=${HLS_FRAME_RATE}`;
+  const font = fontFile ? `:fontfile=${escapeFilterPath(fontFile)}` : '';
+  const label = `drawtext=text='Paused'${font}:fontcolor=white:fontsize=${Math.round(height / 8)}:x=(w-text_w)/2:y=(h-text_h)/2`;
+  return ['-re', '-f', 'lavfi', '-i', `${card},${label}`];
+}
+
+// Split the sources once per rendition: pads [renditionv<i>] for video renditions, [renditiona<i>] for each one with audio
+function buildLadderFilters(renditions: HlsRendition[], sources: HlsLadderSources) {
+  const videoRenditions = sources.video ? renditions.filter(rendition => !!rendition.video) : [];
+  const audioRenditions = sources.audio ? renditions.filter(rendition => !rendition.video || videoRenditions.includes(rendition)) : [];
+  const filters: string[] = [];
+
+  if (videoRenditions.length > 0) {
+    filters.push(`${sources.video}split=${videoRenditions.length}${videoRenditions.map((_, i) => `[ladderv${i}]`).join('')}`);
+    videoRenditions.forEach((rendition, i) => {
+      filters.push(`[ladderv${i}]scale=-2:${rendition.video!.height},setsar=1[renditionv${i}]`);
+    });
+  }
+  if (audioRenditions.length > 0) {
+    filters.push(`${sources.audio}asplit=${audioRenditions.length}${audioRenditions.map((_, i) => `[renditiona${i}]`).join('')}`);
+  }
+  return { filters, videoRenditions, audioRenditions };
+}
+
+// Fixed GOP aligned with the segment length so every rendition switches on the same boundaries
+export function getCommonVideoEncoderArgs(): string[] {
+  const gop = String(HLS_SEGMENT_SECONDS * HLS_FRAME_RATE);
+  return [
+    '-c:v', 'libx264',
+    '-preset', 'veryfast',
+    '-tune', 'zerolatency',
+    '-pix_fmt', 'yuv420p',
+    '-r', String(HLS_FRAME_RATE),
+    '-g', gop,
+    '-keyint_min', gop,
+    '-sc_threshold', '0'
+  ];
+}
+
+// `specifier` targets one output stream (e.g. ':v:1') when several renditions share an output
+export function getVideoRateArgs(video: HlsVideoRendition, specifier = ':v'): string[] {
+  return [
+    `-b${specifier}`, `${video.bitrateKbps}k`,
+    `-maxrate${specifier}`, `${video.maxrateKbps}k`,
+    `-bufsize${specifier}`, `${video.maxrateKbps * 2}k`,
+    `-profile${specifier}`, video.profile,
+    `-level${specifier}`, video.level
+  ];
+}
+
+// Opus from WebRTC is not valid in MPEG-TS or CMAF, so audio becomes AAC
+export const AUDIO_ENCODER_ARGS = ['-c:a', 'aac', '-ar', '48000'];
+
+export function buildHlsLadderOutput(renditions: HlsRendition[], sources: HlsLadderSources, outputFolder: string, windowSegments = HLS_LIVE_WINDOW_SEGMENTS): HlsLadderOutput {
+  const { filters, videoRenditions, audioRenditions } = buildLadderFilters(renditions, sources);
+  const args: string[] = [];
+
+  const streamMap: string[] = [];
+  videoRenditions.forEach((rendition, i) => {
+    args.push('-map', `[renditionv${i}]`);
+    const audioIndex = audioRenditions.indexOf(rendition);
+    if (audioIndex !== -1) args.push('-map', `[renditiona${audioIndex}]`);
+    streamMap.push(audioIndex !== -1 ? `v:${i},a:${audioIndex},name:${rendition.name}` : `v:${i},name:${rendition.name}`);
+  });
+  audioRenditions.forEach((rendition, i) => {
+    if (rendition.video) return;
+    args.push('-map', `[renditiona${i}]`);
+    streamMap.push(`a:${i},name:${rendition.name}`);
+  });
+
+  if (videoRenditions.length > 0) {
+    args.push(...getCommonVideoEncoderArgs());
+    videoRenditions.forEach((rendition, i) => args.push(...getVideoRateArgs(rendition.video!, `:v:${i}`)));
+  }
+  if (audioRenditions.length > 0) {
+    args.push(...AUDIO_ENCODER_ARGS);
+    audioRenditions.forEach((rendition, i) => args.push(`-b:a:${i}`, `${rendition.audioBitrateKbps}k`));
+  }
+
+  const variantFolder = path.join(outputFolder, '%v');
+  args.push(
+    '-f', 'hls',
+    '-hls_time', String(HLS_SEGMENT_SECONDS),
+    '-hls_list_size', String(windowSegments),
+    // EXT-X-PROGRAM-DATE-TIME lets players show the wall-clock time of a DVR position
+    '-hls_flags', 'delete_segments+append_list+independent_segments+program_date_time',
+    '-hls_segment_type', 'mpegts',
+    '-hls_segment_filename', path.join(variantFolder, 'segment_%03d.ts'),
+    '-var_stream_map', streamMap.join(' '),
+    '-start_number', '0',
+    '-y',
+    path.join(variantFolder, 'index.m3u8')
+  );
+
+  return { filters, args };
+}
+
+// One fragmented MP4 output per rendition, written to pipe:<firstFd + index> in `renditions` order.
+// Fragments close at every keyframe and just under `fragmentSeconds`, so each one can be served as a part.
+export function buildFragmentedMp4LadderOutput(renditions: HlsRendition[], sources: HlsLadderSources, fragmentSeconds: number, firstFd: number): HlsLadderOutput {
+  const { filters, videoRenditions, audioRenditions } = buildLadderFilters(renditions, sources);
+  const fragmentMicroseconds = Math.round((fragmentSeconds - 1 / HLS_FRAME_RATE) * 1000000);
+  const args: string[] = [];
+
+  renditions.forEach((rendition, index) => {
+    const videoIndex = videoRenditions.indexOf(rendition);
+    const audioIndex = audioRenditions.indexOf(rendition);
+    if (videoIndex !== -1) {
+      args.push('-map', `[renditionv${videoIndex}]`, ...getCommonVideoEncoderArgs(), ...getVideoRateArgs(rendition.video!));
+    }
+    if (audioIndex !== -1) {
+      args.push('-map', `[renditiona${audioIndex}]`, ...AUDIO_ENCODER_ARGS, '-b:a', `${rendition.audioBitrateKbps}k`);
+    }
+    args.push(
+      '-f', 'mp4',
+      '-movflags', 'empty_moov+default_base_moof+frag_keyframe',
+      '-frag_duration', String(fragmentMicroseconds),
+      `pipe:${firstFd + index}`
+    );
+  });
+
+  return { filters, args };
+}
+
+// CMAF tracks carry a single kind, so audio is encoded once (at the best bitrate of the ladder) and
+// shared by every video rendition. FFmpeg's DASH muxer writes the segments, the .mpd, and one HLS
+// media playlist per track (media_<track>.m3u8, tracks numbered in -map order: video renditions, then audio).
+export function getCmafAudioBitrateKbps(renditions: HlsRendition[]): number {
+  return Math.max(...renditions.map(rendition => rendition.audioBitrateKbps));
+}
+
+export function buildCmafLadderOutput(renditions: HlsRendition[], sources: HlsLadderSources, outputFolder: string, windowSegments = HLS_LIVE_WINDOW_SEGMENTS): HlsLadderOutput {
+  // Audio is not split per rendition; it passes through once as [renditiona0]
+  const { filters, videoRenditions } = buildLadderFilters(renditions, { video: sources.video, audio: null });
+  if (sources.audio) filters.push(`${sources.audio}anull[renditiona0]`);
+  const args: string[] = [];
+
+  if (videoRenditions.length > 0) {
+    videoRenditions.forEach((_, i) => args.push('-map', `[renditionv${i}]`));
+    args.push(...getCommonVideoEncoderArgs());
+    videoRenditions.forEach((rendition, i) => args.push(...getVideoRateArgs(rendition.video!, `:v:${i}`)));
+  }
+  if (sources.audio) {
+    args.push('-map', '[renditiona0]', ...AUDIO_ENCODER_ARGS, '-b:a', `${getCmafAudioBitrateKbps(renditions)}k`);
+  }
+
+  const adaptationSets = [
+    ...(videoRenditions.length > 0 ? ['id=0,streams=v'] : []),
+    ...(sources.audio ? [`id=${videoRenditions.length > 0 ? 1 : 0},streams=a`] : [])
+  ];
+  args.push(
+    '-f', 'dash',
+    '-dash_segment_type', 'mp4',
+    '-seg_duration', String(HLS_SEGMENT_SECONDS),
+    '-use_template', '1',
+    '-use_timeline', '1',
+    '-window_size', String(windowSegments),
+    '-extra_window_size', '5',
+    '-adaptation_sets', adaptationSets.join(' '),
+    '-init_seg_name', 'init_$RepresentationID$.m4s',
+    '-media_seg_name', 'segment_$RepresentationID$_$Number%05d$.m4s',
+    // The media playlists are used as-is; the master is written by buildCmafMasterPlaylist instead
+    '-hls_playlist', '1',
+    '-hls_master_name', 'dash_master.m3u8',
+    '-y',
+    path.join(outputFolder, DASH_MANIFEST_NAME)
+  );
+
+  return { filters, args };
+}
+
+export function getCmafMediaPlaylistName(trackIndex: number): string {
+  return `media_${trackIndex}.m3u8`;
+}
+
+// Video variants reference the shared audio track through an EXT-X-MEDIA group
+export function buildCmafMasterPlaylist(renditions: HlsRendition[], hasAudio: boolean): string {
+  const videoRenditions = renditions.filter(rendition => !!rendition.video);
+  const audioKbps = hasAudio ? getCmafAudioBitrateKbps(renditions) : 0;
+  const audioPlaylist = getCmafMediaPlaylistName(videoRenditions.length);
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:7', '#EXT-X-INDEPENDENT-SEGMENTS'];
+
+  if (hasAudio) {
+    lines.push(`#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="audio",NAME="audio",DEFAULT=YES,AUTOSELECT=YES,URI="${audioPlaylist}"`);
+  }
+  videoRenditions.forEach((rendition, i) => {
+    const video = rendition.video!;
+    const codecs = [getVideoCodecString(video), ...(hasAudio ? [AAC_LC_CODEC] : [])];
+    const attributes = [
+      `BANDWIDTH=${(video.maxrateKbps + audioKbps) * 1000}`,
+      `AVERAGE-BANDWIDTH=${(video.bitrateKbps + audioKbps) * 1000}`,
+      `RESOLUTION=${evenWidth(video.height)}x${video.height}`,
+      `FRAME-RATE=${HLS_FRAME_RATE.toFixed(3)}`,
+      `CODECS="${codecs.join(',')}"`,
+      ...(hasAudio ? ['AUDIO="audio"'] : [])
+    ];
+    lines.push(`#EXT-X-STREAM-INF:${attributes.join(',')}`);
+    lines.push(getCmafMediaPlaylistName(i));
+  });
+  // Audio-only variant when the ladder has one, or when there is no video at all
+  if (hasAudio && (videoRenditions.length === 0 || renditions.some(rendition => !rendition.video))) {
+    lines.push(`#EXT-X-STREAM-INF:BANDWIDTH=${audioKbps * 1000},CODECS="${AAC_LC_CODEC}",AUDIO="audio"`);
+    lines.push(audioPlaylist);
+  }
+  return lines.join('\n') + '\n';
+}
+
+// Resolutions assume a 16:9 picture; players only use them to rank renditions
+export function buildMasterPlaylist(renditions: HlsRendition[], hasAudio: boolean, uriPrefix = ''): string {
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:3', '#EXT-X-INDEPENDENT-SEGMENTS'];
+  for (const rendition of renditions) {
+    const attributes: string[] = [];
+    const audioKbps = hasAudio ? rendition.audioBitrateKbps : 0;
+    if (rendition.video) {
+      const codecs = [getVideoCodecString(rendition.video), ...(hasAudio ? [AAC_LC_CODEC] : [])];
+      attributes.push(
+        `BANDWIDTH=${(rendition.video.maxrateKbps + audioKbps) * 1000}`,
+        `AVERAGE-BANDWIDTH=${(rendition.video.bitrateKbps + audioKbps) * 1000}`,
+        `RESOLUTION=${evenWidth(rendition.video.height)}x${rendition.video.height}`,
+        `FRAME-RATE=${HLS_FRAME_RATE.toFixed(3)}`,
+        `CODECS="${codecs.join(',')}"`
+      );
+    } else {
+      attributes.push(
+        `BANDWIDTH=${rendition.audioBitrateKbps * 1000}`,
+        `CODECS="${AAC_LC_CODEC}"`
+      );
+    }
+    lines.push(`#EXT-X-STREAM-INF:${attributes.join(',')}`);
+    lines.push(`${uriPrefix}${rendition.name}/index.m3u8`);
+  }
+  return lines.join('\n') + '\n';
+}
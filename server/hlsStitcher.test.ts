@@ -0,0 +1,151 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { followStitchedHlsOutput, openStitchedHlsOutput, startStitchedHlsRun } from './hlsStitcher';
+
+const PLAYLIST = '720p/index.m3u8';
+
+let tempFolder: string;
+
+// What FFmpeg's HLS muxer leaves in a run: the newest `count` segments of a 2 s segment stream
+function writeRunPlaylist(runFolder: string, mediaSequence: number, count: number) {
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:3', '#EXT-X-TARGETDURATION:2', `#EXT-X-MEDIA-SEQUENCE:${mediaSequence}`];
+  for (let sequence = mediaSequence; sequence < mediaSequence + count; sequence++) {
+    lines.push('#EXTINF:2.000000,', `segment_${String(sequence).padStart(3, '0')}.ts`);
+  }
+  fs.mkdirSync(path.join(runFolder, path.dirname(PLAYLIST)), { recursive: true });
+  fs.writeFileSync(path.join(runFolder, PLAYLIST), lines.join('\n') + '\n');
+}
+
+// The stitched playlist as players load it, reduced to its sequence tags and entries
+function readStitchedPlaylist(folder: string) {
+  const lines = fs.readFileSync(path.join(folder, PLAYLIST), 'utf8').split('\n');
+  const tag = (name: string) => Number(lines.find(line => line.startsWith(`#EXT-X-${name}:`))?.split(':')[1]);
+  return {
+    mediaSequence: tag('MEDIA-SEQUENCE'),
+    discontinuitySequence: tag('DISCONTINUITY-SEQUENCE'),
+    entries: lines.filter(line => line === '#EXT-X-DISCONTINUITY' || (line !== '' && !line.startsWith('#')))
+  };
+}
+
+// One poll of every stitched output
+const poll = () => vi.advanceTimersByTime(500);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'hls-stitcher-'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  fs.rmSync(tempFolder, { recursive: true, force: true });
+});
+
+describe('startStitchedHlsRun', () => {
+  it('keeps counting media sequence numbers across runs, with a discontinuity at each new run', () => {
+    const folder = path.join(tempFolder, 'stream');
+    const output = openStitchedHlsOutput(folder, 'mpegts', 6);
+    writeRunPlaylist(startStitchedHlsRun(output, [PLAYLIST]), 0, 2);
+    poll();
+    expect(readStitchedPlaylist(folder)).toEqual({
+      mediaSequence: 0,
+      discontinuitySequence: 0,
+      entries: ['../runs/1/720p/segment_000.ts', '../runs/1/720p/segment_001.ts']
+    });
+
+    // The restarted FFmpeg numbers its segments from 0 again
+    writeRunPlaylist(startStitchedHlsRun(output, [PLAYLIST]), 0, 2);
+    poll();
+    expect(readStitchedPlaylist(folder)).toEqual({
+      mediaSequence: 0,
+      discontinuitySequence: 0,
+      entries: [
+        '../runs/1/720p/segment_000.ts', '../runs/1/720p/segment_001.ts',
+        '#EXT-X-DISCONTINUITY', '../runs/2/720p/segment_000.ts', '../runs/2/720p/segment_001.ts'
+      ]
+    });
+  });
+
+  it('only takes segments a run has not listed before', () => {
+    const folder = path.join(tempFolder, 'stream');
+    const output = openStitchedHlsOutput(folder, 'mpegts', 6);
+    const runFolder = startStitchedHlsRun(output, [PLAYLIST]);
+    writeRunPlaylist(runFolder, 0, 2);
+    poll();
+    // The run's own window slides on; segment_001 is still listed there
+    writeRunPlaylist(runFolder, 1, 3);
+    poll();
+    expect(readStitchedPlaylist(folder).entries).toEqual([0, 1, 2, 3].map(sequence => `../runs/1/720p/segment_00${sequence}.ts`));
+  });
+
+  it('counts a discontinuity once it leaves the window', () => {
+    const folder = path.join(tempFolder, 'stream');
+    const output = openStitchedHlsOutput(folder, 'mpegts', 3);
+    writeRunPlaylist(startStitchedHlsRun(output, [PLAYLIST]), 0, 2);
+    poll();
+    const runFolder = startStitchedHlsRun(output, [PLAYLIST]);
+    writeRunPlaylist(runFolder, 0, 2);
+    poll();
+    expect(readStitchedPlaylist(folder)).toEqual({
+      mediaSequence: 1,
+      discontinuitySequence: 0,
+      entries: ['../runs/1/720p/segment_001.ts', '#EXT-X-DISCONTINUITY', '../runs/2/720p/segment_000.ts', '../runs/2/720p/segment_001.ts']
+    });
+
+    writeRunPlaylist(runFolder, 0, 4);
+    poll();
+    expect(readStitchedPlaylist(folder)).toEqual({
+      mediaSequence: 3,
+      discontinuitySequence: 1,
+      entries: ['../runs/2/720p/segment_001.ts', '../runs/2/720p/segment_002.ts', '../runs/2/720p/segment_003.ts']
+    });
+  });
+});
+
+describe('followStitchedHlsOutput', () => {
+  it('joins the source at its newest segment and then takes every new one', () => {
+    const sourceFolder = path.join(tempFolder, 'program');
+    const source = openStitchedHlsOutput(sourceFolder, 'mpegts', 6);
+    const sourceRunFolder = startStitchedHlsRun(source, [PLAYLIST]);
+    writeRunPlaylist(sourceRunFolder, 0, 4);
+    const folder = path.join(tempFolder, 'lobby');
+    const output = openStitchedHlsOutput(folder, 'mpegts', 6);
+    writeRunPlaylist(startStitchedHlsRun(output, [PLAYLIST]), 0, 2);
+    poll();
+
+    followStitchedHlsOutput(output, source, [PLAYLIST], (_name, sourcePlaylists) => sourcePlaylists[0]);
+    expect(readStitchedPlaylist(folder)).toEqual({
+      mediaSequence: 0,
+      discontinuitySequence: 0,
+      entries: [
+        '../runs/1/720p/segment_000.ts', '../runs/1/720p/segment_001.ts',
+        '#EXT-X-DISCONTINUITY', '../../program/runs/1/720p/segment_003.ts'
+      ]
+    });
+
+    writeRunPlaylist(sourceRunFolder, 1, 4);
+    poll();
+    expect(readStitchedPlaylist(folder).entries.slice(-3)).toEqual([
+      '#EXT-X-DISCONTINUITY', '../../program/runs/1/720p/segment_003.ts', '../../program/runs/1/720p/segment_004.ts'
+    ]);
+  });
+
+  it('carries over a discontinuity of the source when the source restarts', () => {
+    const sourceFolder = path.join(tempFolder, 'program');
+    const source = openStitchedHlsOutput(sourceFolder, 'mpegts', 6);
+    writeRunPlaylist(startStitchedHlsRun(source, [PLAYLIST]), 0, 2);
+    const folder = path.join(tempFolder, 'lobby');
+    const output = openStitchedHlsOutput(folder, 'mpegts', 6);
+    poll();
+    followStitchedHlsOutput(output, source, [PLAYLIST], (_name, sourcePlaylists) => sourcePlaylists[0]);
+
+    writeRunPlaylist(startStitchedHlsRun(source, [PLAYLIST]), 0, 1);
+    poll();
+    expect(readStitchedPlaylist(folder)).toEqual({
+      mediaSequence: 0,
+      discontinuitySequence: 0,
+      entries: ['../../program/runs/1/720p/segment_001.ts', '#EXT-X-DISCONTINUITY', '../../program/runs/2/720p/segment_000.ts']
+    });
+  });
+});
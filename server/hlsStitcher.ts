@@ -0,0 +1,343 @@
+import fs from 'fs';
+import path from 'path';
+
+// Continuous classic HLS across FFmpeg runs. Each run of an output's FFmpeg writes into runs/<n>/ of the
+// output folder, and the stitcher copies every new segment of the run into the playlists viewers load.
+// Those playlists never go away while the output lives: media sequence numbers keep counting, the first
+// segment of every run after the first carries EXT-X-DISCONTINUITY, and a finished run's folder is deleted
+// once none of its segments is listed any more.
+// Instead of a run of its own, an output can follow another output: its playlists then continue with the
+// segments the other lists, after a discontinuity, without a second encode (see followStitchedHlsOutput).
+
+const RUNS_FOLDER_NAME = 'runs';
+// Runs write a segment every HLS_SEGMENT_SECONDS; a quarter of that keeps the stitched playlists close behind
+const POLL_INTERVAL_MS = 500;
+
+interface StitchedSegment {
+  // Relative to the stitched playlist, e.g. '../runs/3/720p/segment_004.ts'
+  uri: string;
+  duration: number;
+  discontinuity: boolean;
+  programDateTime: string | null;
+  // EXT-X-MAP URI of CMAF segments, relative like uri
+  mapUri: string | null;
+  run: number;
+}
+
+// Another output whose segments are taken instead of a run's
+interface StitchedSource {
+  output: StitchedHlsOutput;
+  // The source playlist a playlist of the following output continues, chosen from those the source's run writes
+  pickPlaylist: (name: string, sourcePlaylists: string[]) => string | undefined;
+}
+
+interface StitchedPlaylist {
+  // Path relative to the output folder, the same for the stitched playlist and the run's own
+  name: string;
+  // Sequence number of segments[0]
+  mediaSequence: number;
+  // Discontinuities that have left the window
+  discontinuitySequence: number;
+  // Never lowered; EXT-X-TARGETDURATION may not change while a playlist lives
+  targetDuration: number;
+  version: number;
+  independentSegments: boolean;
+  segments: StitchedSegment[];
+  // Source sequence number of the last segment taken from the current run
+  lastSourceSequence: number;
+  // The next segment taken starts a new run
+  discontinuityPending: boolean;
+  // Playlist of the followed output the segments come from
+  sourceName?: string;
+}
+
+export interface StitchedHlsOutput {
+  folder: string;
+  // What the runs write ('mpegts', 'cmaf'); an output only continues with runs of the same kind
+  format: string;
+  windowSegments: number;
+  run: number;
+  // Playlists the current run writes
+  runPlaylists: string[];
+  // MPEG-DASH manifest of the run, mirrored into the output folder with a BaseURL pointing into the run
+  dashManifest?: string;
+  mirroredDashManifest?: string;
+  playlists: Map<string, StitchedPlaylist>;
+  // Set while the output follows another one rather than a run
+  source?: StitchedSource;
+  pollTimer?: ReturnType<typeof setInterval>;
+}
+
+// Readers never see a half-written file: the new content replaces the old in one rename
+export function writeFileAtomic(filePath: string, content: string) {
+  const temporaryPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(temporaryPath, content);
+  fs.renameSync(temporaryPath, filePath);
+}
+
+function getRunFolder(output: StitchedHlsOutput, run: number): string {
+  return path.join(output.folder, RUNS_FOLDER_NAME, String(run));
+}
+
+// The output previously used for the folder when it still fits, otherwise a new one in an emptied folder
+export function openStitchedHlsOutput(folder: string, format: string, windowSegments: number, previous?: StitchedHlsOutput): StitchedHlsOutput {
+  if (previous && previous.folder === folder && previous.format === format) {
+    // A new window applies as the stitched playlists move on
+    previous.windowSegments = windowSegments;
+    return previous;
+  }
+  if (previous) stopStitchedHlsOutput(previous);
+  fs.rmSync(folder, { recursive: true, force: true });
+  fs.mkdirSync(folder, { recursive: true });
+  return { folder, format, windowSegments, run: 0, runPlaylists: [], playlists: new Map() };
+}
+
+// Folder the next FFmpeg run writes to; `playlists` are the media playlists it writes there
+export function startStitchedHlsRun(output: StitchedHlsOutput, playlists: string[], dashManifest?: string): string {
+  if (output.runPlaylists.length > 0) pollStitchedHlsOutput(output);
+  output.run++;
+  output.runPlaylists = playlists;
+  output.dashManifest = dashManifest;
+  output.source = undefined;
+  output.playlists.forEach(playlist => {
+    playlist.lastSourceSequence = -1;
+    playlist.discontinuityPending = playlist.segments.length > 0;
+  });
+  const runFolder = getRunFolder(output, output.run);
+  fs.mkdirSync(runFolder, { recursive: true });
+  startPolling(output);
+  return runFolder;
+}
+
+// Continues `playlists` of the output with what `source` lists from its newest segment on, after a
+// discontinuity. Source and output share one process, so the segments are taken from memory; their URIs
+// point into the source folder, which has to outlive them (see the window of the output).
+export function followStitchedHlsOutput(
+  output: StitchedHlsOutput,
+  source: StitchedHlsOutput,
+  playlists: string[],
+  pickPlaylist: StitchedSource['pickPlaylist']
+) {
+  if (output.source?.output === source) {
+    // Already following it; the playlists may have changed, the segments go on without a discontinuity
+    output.runPlaylists = playlists;
+    output.source.pickPlaylist = pickPlaylist;
+    startPolling(output);
+    return;
+  }
+  if (output.runPlaylists.length > 0) pollStitchedHlsOutput(output);
+  output.run++;
+  output.runPlaylists = playlists;
+  output.dashManifest = undefined;
+  output.source = { output: source, pickPlaylist };
+  output.playlists.forEach(playlist => { playlist.sourceName = undefined; });
+  startPolling(output);
+  pollStitchedHlsOutput(output);
+}
+
+function startPolling(output: StitchedHlsOutput) {
+  if (!output.pollTimer) {
+    output.pollTimer = setInterval(() => pollStitchedHlsOutput(output), POLL_INTERVAL_MS);
+  }
+}
+
+// FFmpeg has stopped; takes what the run wrote last. The stitched playlists stay for the next run.
+export function stopStitchedHlsOutput(output: StitchedHlsOutput) {
+  if (!output.pollTimer) return;
+  clearInterval(output.pollTimer);
+  output.pollTimer = undefined;
+  pollStitchedHlsOutput(output);
+}
+
+// Nothing continues the output: its playlists get EXT-X-ENDLIST, so players stop after the last segment
+// instead of waiting for more. The files stay until the owner deletes the folder.
+export function endStitchedHlsOutput(output: StitchedHlsOutput) {
+  stopStitchedHlsOutput(output);
+  output.source = undefined;
+  output.playlists.forEach(playlist => {
+    try {
+      writeFileAtomic(path.join(output.folder, playlist.name), `${renderStitchedPlaylist(playlist)}#EXT-X-ENDLIST\n`);
+    } catch (error) {
+      console.error(`Error ending HLS playlist ${playlist.name} of ${output.folder}:`, error);
+    }
+  });
+}
+
+function parseAttribute(line: string, name: string): string | null {
+  return new RegExp(`${name}="([^"]*)"`).exec(line)?.[1] ?? null;
+}
+
+interface SourcePlaylist {
+  mediaSequence: number;
+  targetDuration: number;
+  version: number;
+  independentSegments: boolean;
+  segments: Array<{ uri: string; duration: number; programDateTime: string | null; mapUri: string | null; discontinuity?: boolean }>;
+}
+
+function parseSourcePlaylist(content: string): SourcePlaylist {
+  const playlist: SourcePlaylist = { mediaSequence: 0, targetDuration: 0, version: 3, independentSegments: false, segments: [] };
+  let duration: number | null = null;
+  let programDateTime: string | null = null;
+  let mapUri: string | null = null;
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (line.startsWith('#EXT-X-MEDIA-SEQUENCE:')) playlist.mediaSequence = parseInt(line.slice(22), 10) || 0;
+    else if (line.startsWith('#EXT-X-TARGETDURATION:')) playlist.targetDuration = parseInt(line.slice(22), 10) || 0;
+    else if (line.startsWith('#EXT-X-VERSION:')) playlist.version = parseInt(line.slice(15), 10) || 3;
+    else if (line === '#EXT-X-INDEPENDENT-SEGMENTS') playlist.independentSegments = true;
+    else if (line.startsWith('#EXT-X-MAP:')) mapUri = parseAttribute(line, 'URI');
+    else if (line.startsWith('#EXT-X-PROGRAM-DATE-TIME:')) programDateTime = line.slice(25);
+    else if (line.startsWith('#EXTINF:')) duration = parseFloat(line.slice(8));
+    else if (line && !line.startsWith('#') && duration !== null) {
+      playlist.segments.push({ uri: line, duration, programDateTime, mapUri });
+      duration = null;
+      programDateTime = null;
+    }
+  }
+  return playlist;
+}
+
+function createStitchedPlaylist(name: string): StitchedPlaylist {
+  return {
+    name, mediaSequence: 0, discontinuitySequence: 0, targetDuration: 0, version: 3, independentSegments: false,
+    segments: [], lastSourceSequence: -1, discontinuityPending: false
+  };
+}
+
+// The playlist of the current run, or of the followed output, and the URI prefix from the stitched
+// playlist to its segments
+function readRunPlaylist(output: StitchedHlsOutput, playlist: StitchedPlaylist): { source: SourcePlaylist; prefix: string } | null {
+  if (output.source) {
+    const sourceOutput = output.source.output;
+    const sourceName = output.source.pickPlaylist(playlist.name, sourceOutput.runPlaylists);
+    const source = sourceName === undefined ? undefined : sourceOutput.playlists.get(sourceName);
+    if (!source || sourceName === undefined) return null;
+    if (playlist.sourceName !== sourceName) {
+      // Joins the source at its newest segment; what came before is not live any more
+      playlist.sourceName = sourceName;
+      playlist.lastSourceSequence = source.mediaSequence + source.segments.length - 2;
+      playlist.discontinuityPending = playlist.segments.length > 0;
+    }
+    const relative = path.relative(path.dirname(path.join(output.folder, playlist.name)), path.dirname(path.join(sourceOutput.folder, sourceName)));
+    return { source, prefix: `${relative.split(path.sep).join('/')}/` };
+  }
+  let content: string;
+  try {
+    content = fs.readFileSync(path.join(getRunFolder(output, output.run), playlist.name), 'utf8');
+  } catch {
+    return null;  // The run has not written this playlist yet
+  }
+  const prefix = `${path.posix.relative(path.posix.dirname(playlist.name), path.posix.join(RUNS_FOLDER_NAME, String(output.run), path.posix.dirname(playlist.name)))}/`;
+  return { source: parseSourcePlaylist(content), prefix };
+}
+
+// New segments of the run's playlist; returns whether the stitched playlist changed
+function takeRunSegments(output: StitchedHlsOutput, playlist: StitchedPlaylist): boolean {
+  const runPlaylist = readRunPlaylist(output, playlist);
+  if (!runPlaylist) return false;
+  const { source, prefix } = runPlaylist;
+  let changed = false;
+  source.segments.forEach((segment, index) => {
+    const sourceSequence = source.mediaSequence + index;
+    if (sourceSequence <= playlist.lastSourceSequence) return;
+    playlist.lastSourceSequence = sourceSequence;
+    playlist.segments.push({
+      uri: path.posix.normalize(prefix + segment.uri),
+      duration: segment.duration,
+      // A followed output has discontinuities of its own (its restarts)
+      discontinuity: playlist.discontinuityPending || !!segment.discontinuity,
+      programDateTime: segment.programDateTime,
+      mapUri: segment.mapUri === null ? null : path.posix.normalize(prefix + segment.mapUri),
+      run: output.run
+    });
+    playlist.discontinuityPending = false;
+    changed = true;
+  });
+  if (!changed) return false;
+
+  playlist.targetDuration = Math.max(playlist.targetDuration, source.targetDuration);
+  playlist.version = Math.max(playlist.version, source.version);
+  playlist.independentSegments = playlist.independentSegments || source.independentSegments;
+  while (playlist.segments.length > output.windowSegments) {
+    const expired = playlist.segments.shift()!;
+    playlist.mediaSequence++;
+    if (expired.discontinuity) playlist.discontinuitySequence++;
+  }
+  return true;
+}
+
+function renderStitchedPlaylist(playlist: StitchedPlaylist): string {
+  const longestSegment = Math.max(0, ...playlist.segments.map(segment => segment.duration));
+  playlist.targetDuration = Math.max(playlist.targetDuration, Math.ceil(longestSegment));
+  const lines = [
+    '#EXTM3U',
+    `#EXT-X-VERSION:${playlist.version}`,
+    `#EXT-X-TARGETDURATION:${playlist.targetDuration}`,
+    `#EXT-X-MEDIA-SEQUENCE:${playlist.mediaSequence}`,
+    `#EXT-X-DISCONTINUITY-SEQUENCE:${playlist.discontinuitySequence}`,
+    ...(playlist.independentSegments ? ['#EXT-X-INDEPENDENT-SEGMENTS'] : [])
+  ];
+  let mapUri: string | null = null;
+  for (const segment of playlist.segments) {
+    if (segment.discontinuity) lines.push('#EXT-X-DISCONTINUITY');
+    // Every run has an initialization segment of its own
+    if (segment.mapUri !== null && segment.mapUri !== mapUri) lines.push(`#EXT-X-MAP:URI="${segment.mapUri}"`);
+    mapUri = segment.mapUri;
+    if (segment.programDateTime) lines.push(`#EXT-X-PROGRAM-DATE-TIME:${segment.programDateTime}`);
+    lines.push(`#EXTINF:${segment.duration.toFixed(6)},`, segment.uri);
+  }
+  return lines.join('\n') + '\n';
+}
+
+// DASH has no equivalent of a discontinuity in one period; the manifest just follows the current run
+function mirrorDashManifest(output: StitchedHlsOutput) {
+  if (!output.dashManifest) return;
+  let content: string;
+  try {
+    content = fs.readFileSync(path.join(getRunFolder(output, output.run), output.dashManifest), 'utf8');
+  } catch {
+    return;
+  }
+  const periodIndex = content.indexOf('<Period');
+  if (periodIndex === -1 || content === output.mirroredDashManifest) return;
+  output.mirroredDashManifest = content;
+  const baseUrl = `<BaseURL>${RUNS_FOLDER_NAME}/${output.run}/</BaseURL>`;
+  writeFileAtomic(path.join(output.folder, output.dashManifest), `${content.slice(0, periodIndex)}${baseUrl}\n\t${content.slice(periodIndex)}`);
+}
+
+function deleteUnlistedRuns(output: StitchedHlsOutput) {
+  const listedRuns = new Set([output.run]);
+  output.playlists.forEach(playlist => playlist.segments.forEach(segment => listedRuns.add(segment.run)));
+  let runNames: string[];
+  try {
+    runNames = fs.readdirSync(path.join(output.folder, RUNS_FOLDER_NAME));
+  } catch {
+    return;
+  }
+  runNames.filter(name => !listedRuns.has(Number(name))).forEach(name => {
+    fs.rm(path.join(output.folder, RUNS_FOLDER_NAME, name), { recursive: true, force: true }, () => {});
+  });
+}
+
+function pollStitchedHlsOutput(output: StitchedHlsOutput) {
+  try {
+    let changed = false;
+    for (const name of output.runPlaylists) {
+      let playlist = output.playlists.get(name);
+      if (!playlist) {
+        playlist = createStitchedPlaylist(name);
+        output.playlists.set(name, playlist);
+      }
+      if (!takeRunSegments(output, playlist)) continue;
+      const playlistPath = path.join(output.folder, name);
+      fs.mkdirSync(path.dirname(playlistPath), { recursive: true });
+      writeFileAtomic(playlistPath, renderStitchedPlaylist(playlist));
+      changed = true;
+    }
+    mirrorDashManifest(output);
+    if (changed) deleteUnlistedRuns(output);
+  } catch (error) {
+    console.error(`Error stitching HLS output ${output.folder}:`, error);
+  }
+}
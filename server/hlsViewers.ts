@@ -0,0 +1,38 @@
+// Rough HLS audience per room: distinct clients (address and user agent) that loaded one of the room's
+// playlists lately. Players reload live playlists every few seconds, so a client that stops is gone
+// from the count well within the timeout.
+
+const HLS_VIEWER_TIMEOUT_MS = 30000;
+
+// Last playlist request per client, by room id (null for the lobby playlist at /hls/playlist.m3u8)
+const playlistRequests = new Map<string | null, Map<string, number>>();
+let lastPrunedAt = 0;
+
+function pruneRoom(roomId: string | null, cutoff: number) {
+  const clients = playlistRequests.get(roomId);
+  if (!clients) return;
+  clients.forEach((lastSeen, client) => {
+    if (lastSeen < cutoff) clients.delete(client);
+  });
+  if (clients.size === 0) playlistRequests.delete(roomId);
+}
+
+export function recordHlsPlaylistRequest(roomId: string | null, client: string) {
+  const now = Date.now();
+  // Rooms nobody asks about any more are dropped along the way
+  if (now - lastPrunedAt > HLS_VIEWER_TIMEOUT_MS) {
+    lastPrunedAt = now;
+    Array.from(playlistRequests.keys()).forEach(key => pruneRoom(key, now - HLS_VIEWER_TIMEOUT_MS));
+  }
+  let clients = playlistRequests.get(roomId);
+  if (!clients) {
+    clients = new Map();
+    playlistRequests.set(roomId, clients);
+  }
+  clients.set(client, now);
+}
+
+export function getHlsViewerCount(roomId: string | null): number {
+  pruneRoom(roomId, Date.now() - HLS_VIEWER_TIMEOUT_MS);
+  return playlistRequests.get(roomId)?.size ?? 0;
+}
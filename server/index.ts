@@ -1,99 +1,245 @@
 import express from 'express';
 import http from 'http';
 import { Server as SocketIOServer } from 'socket.io';
-import * as mediasoup from 'mediasoup';
 import { types as mediasoupTypes } from 'mediasoup';
 import os from 'os';
 import path from 'path';
-import ffmpeg from 'fluent-ffmpeg';
 import fs from 'fs';
 import { fileURLToPath } from 'url';
 import cors from 'cors';
 import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import {
+  Room, HlsComposition, HlsStreamInfo, HlsTrackSet, rooms, getOrCreateRoom, closeRoom, isValidRoomId,
+  assignMemberRouter, getMemberRouter, releaseMember, pipeProducerToRoom, recoverRoomsFromDeadWorker
+} from './rooms';
+import { createWorkerPool, onWorkerDied, getWorkerPoolStats, getLeastLoadedWorker } from './workerPool';
+import { MOSAIC_LAYOUTS, DEFAULT_MOSAIC_CANVAS, buildMosaicFilterGraph, isMosaicLayout, hasMainSlot } from './mosaicLayouts';
+import {
+  HlsSegmentFormat, HLS_SEGMENT_FORMATS, isHlsSegmentFormat, DASH_MANIFEST_NAME, parseHlsLadder, getRenditionsFor,
+  MAX_DVR_WINDOW_SECONDS, isDvrWindowSeconds, getHlsWindowSegments,
+  buildHlsLadderOutput, buildFragmentedMp4LadderOutput, buildCmafLadderOutput, buildMasterPlaylist, buildCmafMasterPlaylist,
+  HlsRendition, HLS_SEGMENT_SECONDS, getCmafMediaPlaylistName, getPausedSlateInputArgs
+} from './hlsLadder';
+import {
+  HlsMode, HLS_MODES, isHlsMode, LlHlsRendition, LL_HLS_PART_SECONDS, createLlHlsRendition, attachLlHlsRendition, closeLlHlsRendition,
+  endLlHlsRendition, isLlHlsRenditionReady, renderLlHlsPlaylist, getLlHlsLastMsn, waitForLlHlsPlaylist, waitForLlHlsPart
+} from './llHls';
+import { RtpPortPair, leaseRtpPorts, releaseRtpPorts, getRtpPortUsage } from './rtpPorts';
+import {
+  StitchedHlsOutput, openStitchedHlsOutput, startStitchedHlsRun, followStitchedHlsOutput, stopStitchedHlsOutput, endStitchedHlsOutput,
+  writeFileAtomic
+} from './hlsStitcher';
+import {
+  RecordingFormat, RecordingEntry, StreamRecorder, RECORDING_FORMATS, isRecordingFormat, isValidRecordingId,
+  createRecordingMetadata, buildRecordingOutputArgs, finishRecording, readRecording, listRecordings, deleteRecording,
+  recoverInterruptedRecordings
+} from './recordings';
+import {
+  RtmpIngestKey, createIngestKey, getIngestKey, listIngestKeys, revokeIngestKey, loadIngestKeys, startRtmpServer,
+  rejectRtmpSession, getRtmpUrl
+} from './rtmpIngest';
+import {
+  IngestRelayTarget, createRelaySsrc, buildIngestReaderArgs, parseIngestInputKinds, buildIngestRelayArgs, getRelayRtpParameters
+} from './ingestRelay';
+import {
+  SrtStream, setSrtBasePort, isValidSrtStreamId, isValidSrtPassphrase, createSrtStream, getSrtStream, listSrtStreams,
+  removeSrtStream, loadSrtStreams, getSrtUrl, getSrtListenUrl, maskSrtPassphrase, parseSrtCallerStreamId
+} from './srtIngest';
+import {
+  SdpOffer, SDP_CONTENT_TYPE, TRICKLE_ICE_CONTENT_TYPE, buildSdpAnswer, parseTrickleIceFragment, buildIceRestartFragment
+} from './webrtcSdp';
+import {
+  PushTarget, PushEgress, MAX_PUSH_TARGETS_PER_STREAM, isPushTargetUrl, maskPushTargetUrl, createPushTarget,
+  getPushRetryDelayMs, toPushTargetResponse, buildRestreamOutputArgs, parseProgressBytes
+} from './restream';
+import {
+  ConsumerLayers, hasSelectableLayers, selectLayersForBitrate, clampLayers, toAvailableBitrate
+} from './simulcast';
+import { SpeakerObservers, SPEAKER_SWITCH_MIN_INTERVAL_MS, createSpeakerObservers, observeSpeakerProducer } from './activeSpeaker';
+import {
+  FfmpegJob, startFfmpegJob, stopFfmpegJob, restartFfmpegJob, getFfmpegJob, listFfmpegJobs, toFfmpegJobResponse, getNewestFileTime
+} from './ffmpegSupervisor';
+import { parseWhipOffer } from './whip';
+import {
+  MAX_SLATE_TITLE_LENGTH, SLATE_TEXT_REFRESH_MS, createSlateState, parseSlateBackground, isSlateTitle, parseScheduledStart, writeSlateText, buildSlateInput
+} from './slate';
+import { recordHlsPlaylistRequest, getHlsViewerCount } from './hlsViewers';
+import { WhepRequestedTrack, parseWhepOffer, getWhepRouterCodec } from './whep';
+import { SignalingServer, checkProtocolVersion, onSignalingRequest, signalingError } from './signaling';
+import { SignalingAck, ProducerPausedResult } from '../src/lib/signaling';
 
 // Fix for __dirname in ES modules
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-let ffmpegProcess: ffmpeg.FfmpegCommand | null = null;
-let isFfmpegLaunching = false;
+// Port of the RTMP ingest for OBS and hardware encoders (RTMP_PORT)
+const RTMP_PORT = parseInt(process.env.RTMP_PORT || '1935', 10);
+// First UDP port of the SRT ingest routes; each route listens on a port of its own (SRT_BASE_PORT)
+const SRT_BASE_PORT = parseInt(process.env.SRT_BASE_PORT || '9000', 10);
 
-// Global store for all active producers
-const allProducers = new Map<string, { producer: mediasoupTypes.Producer, socketId: string, kind: mediasoupTypes.MediaKind, appData: mediasoupTypes.AppData }>();
+// Global index of all active producers across rooms (each room also keeps its own)
+const allProducers = new Map<string, { producer: mediasoupTypes.Producer, socketId: string, roomId: string, kind: mediasoupTypes.MediaKind, appData: mediasoupTypes.AppData }>();
 
 // Explicitly log FFMPEG path being used
-const ffmpegPathFromEnv = process.env.FFMPEG_PATH;
-if (ffmpegPathFromEnv) {
-  console.log(`Attempting to set FFMPEG path from FFMPEG_PATH environment variable: "${ffmpegPathFromEnv}"`);
-  try {
-    ffmpeg.setFfmpegPath(ffmpegPathFromEnv);
-    console.log("Successfully set FFMPEG path.");
-  } catch (e: any) {
-    console.error(`Error setting FFMPEG path from FFMPEG_PATH ("${ffmpegPathFromEnv}"): ${e.message}. Make sure this path points directly to the ffmpeg executable.`);
-  }
+if (process.env.FFMPEG_PATH) {
+  console.log(`Using ffmpeg from FFMPEG_PATH: "${process.env.FFMPEG_PATH}"`);
 } else {
-  console.warn("FFMPEG_PATH environment variable not set. fluent-ffmpeg will try to find ffmpeg in system PATH. If issues occur, please set FFMPEG_PATH to the full path of your ffmpeg executable.");
+  console.warn("FFMPEG_PATH environment variable not set. ffmpeg will be looked up in the system PATH. If issues occur, please set FFMPEG_PATH to the full path of your ffmpeg executable.");
 }
 
 const app = express();
 
-// Enable CORS for all routes
-app.use(cors());
+// Enable CORS for all routes; WHIP and WHEP clients read the session resource and ETag from the response headers
+app.use(cors({ exposedHeaders: ['Location', 'ETag'] }));
+app.use(express.json());
 
 const hlsOutputFolder = path.join(__dirname, '../public/hls');
 console.log('HLS Output Folder Path:', hlsOutputFolder);
 if (!fs.existsSync(hlsOutputFolder)) {
   fs.mkdirSync(hlsOutputFolder, { recursive: true });
 }
+// The lobby playlist (/hls/playlist.m3u8) belongs to no room; '@' keeps its folder apart from room ids
+const LOBBY_FOLDER_NAME = '@lobby';
+
+// Playlist reloads tell the slates how many are waiting
+app.use('/hls', (req, res, next) => {
+  if (req.path.endsWith('.m3u8')) {
+    const [first] = req.path.split('/').filter(Boolean);
+    const client = `${req.ip} ${req.get('user-agent') ?? ''}`;
+    if (first === 'playlist.m3u8' || first === LOBBY_FOLDER_NAME) recordHlsPlaylistRequest(null, client);
+    else if (isValidRoomId(first)) recordHlsPlaylistRequest(first, client);
+  }
+  next();
+});
+
 console.log('Static file serving /hls from:', hlsOutputFolder);
 app.use('/hls', express.static(hlsOutputFolder));
 
+// Recordings are kept outside public/hls so clearing the HLS cache never touches them
+const recordingsFolder = process.env.RECORDINGS_DIR ? path.resolve(process.env.RECORDINGS_DIR) : path.join(__dirname, '../recordings');
+if (!fs.existsSync(recordingsFolder)) {
+  fs.mkdirSync(recordingsFolder, { recursive: true });
+}
+recoverInterruptedRecordings(recordingsFolder);
+console.log('Recordings folder:', recordingsFolder);
+app.use('/recordings', express.static(recordingsFolder));
+
+// Each room writes its HLS output into its own sub-folder of /hls
+function getRoomHlsFolder(room: Room): string {
+  return path.join(hlsOutputFolder, room.id);
+}
+
+// Renditions behind the room playlist (the mosaic, or the slate while nobody is live) live next to the
+// per-broadcaster folders of the room
+const PROGRAM_FOLDER_NAME = 'program';
+
+function getProgramHlsFolder(room: Room): string {
+  return path.join(getRoomHlsFolder(room), PROGRAM_FOLDER_NAME);
+}
+
+// Rendition ladder encoded for every live HLS output (HLS_LADDER=1080p,720p,480p,360p,audio)
+const hlsLadder = parseHlsLadder(process.env.HLS_LADDER);
+console.log('HLS rendition ladder:', hlsLadder.map(rendition => rendition.name).join(', '));
+
+// Packaging for new broadcasters unless their producer asks otherwise (HLS_MODE=classic|ll-hls)
+const DEFAULT_HLS_MODE: HlsMode = isHlsMode(process.env.HLS_MODE) ? process.env.HLS_MODE : 'classic';
+
+// Classic HLS segment container unless the producer asks otherwise (HLS_SEGMENT_FORMAT=mpegts|cmaf)
+const DEFAULT_HLS_SEGMENT_FORMAT: HlsSegmentFormat = isHlsSegmentFormat(process.env.HLS_SEGMENT_FORMAT) ? process.env.HLS_SEGMENT_FORMAT : 'mpegts';
+
+// DVR window of new broadcasters unless their producer asks otherwise (HLS_DVR_WINDOW_SECONDS=7200); also used by mosaics
+const envDvrWindowSeconds = Number(process.env.HLS_DVR_WINDOW_SECONDS || 0);
+const DEFAULT_DVR_WINDOW_SECONDS = isDvrWindowSeconds(envDvrWindowSeconds) ? envDvrWindowSeconds : 0;
+
+// Container of recordings that do not name one (RECORDING_FORMAT=mp4|hls)
+const DEFAULT_RECORDING_FORMAT: RecordingFormat = isRecordingFormat(process.env.RECORDING_FORMAT) ? process.env.RECORDING_FORMAT : 'mp4';
+
+// A recorder gets this long to write the MP4 index or EXT-X-ENDLIST after 'q' before it is killed
+const RECORDING_STOP_TIMEOUT_MS = 10000;
+
+// An HLS, mosaic or slate FFmpeg that writes no segment this long is restarted (HLS_STALL_TIMEOUT_MS=20000)
+const HLS_STALL_TIMEOUT_MS = Number(process.env.HLS_STALL_TIMEOUT_MS) > 0 ? Number(process.env.HLS_STALL_TIMEOUT_MS) : 20000;
+
+// Picture behind the slate text (SLATE_CLIP, SLATE_IMAGE) and the font of the slate and "Paused" cards
+// (SLATE_FONT_FILE, FFmpeg's default otherwise)
+const slateBackground = parseSlateBackground(process.env.SLATE_IMAGE, process.env.SLATE_CLIP);
+const slateFontFile = process.env.SLATE_FONT_FILE || undefined;
+// A room slate watches for a ready broadcaster this often, well within a segment
+const SLATE_HANDOVER_POLL_MS = 500;
+// Slate and program output of the lobby playlist
+const lobby: Pick<HlsComposition, 'slate' | 'programOutput'> = { slate: createSlateState() };
+
+// stdio fd of the first LL-HLS rendition pipe; 0-2 are FFmpeg's own
+const LL_HLS_FIRST_PIPE_FD = 3;
+
+// Output folder of a departed broadcaster whose ended playlists are still up
+interface RetiredHlsFolder {
+  output?: StitchedHlsOutput;
+  removeTimer?: ReturnType<typeof setTimeout>;
+}
+const retiredHlsFolders = new Map<string, RetiredHlsFolder>();
+
+function clearHlsFiles(folder: string) {
+  if (!fs.existsSync(folder)) return;
+  const files = fs.readdirSync(folder);
+  files.forEach(file => {
+    if (file.endsWith('.ts') || file.endsWith('.m3u8') || file.endsWith('.sdp')) {
+      try {
+        fs.unlinkSync(path.join(folder, file));
+        console.log('Deleted:', file);
+      } catch (err) {
+        console.warn('Could not delete:', file);
+      }
+    }
+  });
+}
+
+function stopRoomComposition(room: Room) {
+  room.hlsComposition.activeStreams.forEach(streamInfo => stopStreamHls(streamInfo));
+  stopMosaicHls(room);
+  room.hlsComposition.isComposing = false;
+}
+
 // Add endpoint to clear HLS cache
 app.get('/api/clear-hls-cache', (req, res) => {
   try {
     console.log('Clearing HLS cache...');
     
-    // Stop current FFMPEG process
-    if (hlsComposition.ffmpegProcess) {
-      try {
-        hlsComposition.ffmpegProcess.kill('SIGTERM');
-        hlsComposition.ffmpegProcess = null;
-      } catch (error) {
-        console.error('Error stopping FFMPEG process:', error);
-      }
-    }
-    
-    // Reset port allocation
-    nextPortPair = 0;
+    // Stop current FFMPEG processes and slates; streams keep their RTP ports
+    rooms.forEach(room => {
+      stopRoomComposition(room);
+      stopSlate(room);
+    });
+    stopSlate();
     
     // Clear all HLS files
-    if (fs.existsSync(hlsOutputFolder)) {
-      const files = fs.readdirSync(hlsOutputFolder);
-      files.forEach(file => {
-        if (file.endsWith('.ts') || file.endsWith('.m3u8') || file.endsWith('.sdp')) {
-          try {
-            fs.unlinkSync(path.join(hlsOutputFolder, file));
-            console.log('Deleted:', file);
-          } catch (err) {
-            console.warn('Could not delete:', file);
-          }
-        }
+    clearHlsFiles(hlsOutputFolder);
+    discardSlatePlaylists();
+    rooms.forEach(room => {
+      clearHlsFiles(getRoomHlsFolder(room));
+      discardProgramHlsOutput(room);
+      fs.rmSync(getProgramHlsFolder(room), { recursive: true, force: true });
+      room.hlsComposition.activeStreams.forEach((streamInfo, streamId) => {
+        discardStreamHlsOutput(streamInfo);
+        fs.rmSync(getStreamHlsFolder(room, streamId), { recursive: true, force: true });
       });
-    }
-    
-    // Reset composition state
-    hlsComposition.isComposing = false;
+    });
     
     // Wait a bit for ports to be released
     setTimeout(() => {
-      // Restart composition if there are active streams
-      if (hlsComposition.activeStreams.size > 0) {
-        console.log('Restarting HLS composition after cache clear...');
-        restartHlsComposition().catch(err => console.error('Error restarting HLS after cache clear:', err));
-      }
+      // Restart composition for rooms that still have active streams
+      rooms.forEach(room => {
+        if (room.hlsComposition.activeStreams.size > 0) {
+          console.log(`Restarting HLS composition for room ${room.id} after cache clear...`);
+          restartHlsComposition(room).catch(err => console.error('Error restarting HLS after cache clear:', err));
+        }
+      });
     }, 2000); // Wait 2 seconds for ports to be released
     
-    res.json({ success: true, message: 'HLS cache cleared', activeStreams: hlsComposition.activeStreams.size });
+    const activeStreams = Array.from(rooms.values()).reduce((total, room) => total + room.hlsComposition.activeStreams.size, 0);
+    res.json({ success: true, message: 'HLS cache cleared', activeStreams });
   } catch (error: any) {
     console.error('Error clearing HLS cache:', error);
     res.status(500).json({ success: false, error: error.message });
@@ -120,14 +266,11 @@ test-segment0.ts
 });
 
 // Add fallback HLS generation endpoint
-app.get('/api/create-fallback-hls', (req, res) => {
+app.get('/api/create-fallback-hls', async (req, res) => {
   try {
-    console.log('Creating fallback HLS stream with test pattern...');
-    
-    // Use the new static informational stream
-    createStaticInformationalStream();
-    
-    res.json({ success: true, message: 'Static informational HLS generation started' });
+    console.log('Starting the lobby slate...');
+    await showSlate();
+    res.json({ success: true, message: 'Lobby slate started', url: '/hls/playlist.m3u8' });
   } catch (error: any) {
     console.error('Error creating fallback HLS:', error);
     res.status(500).json({ success: false, error: error.message });
@@ -153,22 +296,101 @@ app.get('/api/debug-path', (req, res) => {
 // Add debug endpoint to check active streams and codecs
 app.get('/api/debug-streams', (req, res) => {
   try {
-    const streamInfo = {
-      activeStreams: hlsComposition.activeStreams.size,
-      ffmpegRunning: !!hlsComposition.ffmpegProcess,
-      streams: Array.from(hlsComposition.activeStreams.entries()).map(([id, info]) => ({
-        producerId: id,
+    const roomInfo = Array.from(rooms.values()).map(room => ({
+      roomId: room.id,
+      routerId: room.router.id,
+      routers: room.routers.map(router => router.id),
+      members: room.members.size,
+      activeStreams: room.hlsComposition.activeStreams.size,
+      layout: room.hlsComposition.layout,
+      speakerStreamId: room.hlsComposition.speakerStreamId || null,
+      followSpeaker: room.hlsComposition.followSpeaker,
+      dominantSpeaker: room.dominantSpeaker ?? null,
+      ffmpegRunning: !!room.hlsComposition.ffmpegJob,
+      ffmpegJob: room.hlsComposition.ffmpegJob ? toFfmpegJobResponse(room.hlsComposition.ffmpegJob) : null,
+      streams: Array.from(room.hlsComposition.activeStreams.entries()).map(([id, info]) => ({
+        streamId: id,
+        source: getPublisherSource(id),
+        videoProducerId: info.videoConsumer?.producerId || null,
+        audioProducerId: info.audioConsumer?.producerId || null,
+        rtpPorts: info.rtpPorts,
+        playlistUrl: getStreamPlaylistUrl(room, id),
+        renditions: getRenditionsFor(hlsLadder, hasStreamVideo(info), hasStreamAudio(info)).map(rendition => rendition.name),
+        hlsMode: info.hlsMode,
+        segmentFormat: info.segmentFormat,
+        dvrWindowSeconds: info.dvrWindowSeconds,
+        dashManifestUrl: getStreamDashManifestUrl(room, id, info),
+        recordingId: info.recorder?.metadata.id ?? null,
+        recorderRtpPorts: info.recorder?.rtpPorts ?? null,
+        pushTargets: Array.from(info.pushTargets.values()).map(target => ({
+          ...toPushTargetResponse(target),
+          rtpPorts: target.egress?.rtpPorts ?? null,
+          egressRunning: !!target.egress?.ffmpegJob,
+          egressJobId: target.egress?.ffmpegJob?.id ?? null
+        })),
+        ffmpegRunning: !!info.ffmpegJob,
+        ffmpegJob: info.ffmpegJob ? toFfmpegJobResponse(info.ffmpegJob) : null,
         hasVideo: !!info.videoConsumer,
         hasAudio: !!info.audioConsumer,
         videoCodec: info.videoConsumer?.rtpParameters?.codecs?.[0]?.mimeType || 'none',
         audioCodec: info.audioConsumer?.rtpParameters?.codecs?.[0]?.mimeType || 'none',
         videoPaused: info.videoConsumer?.paused || false,
-        audioPaused: info.audioConsumer?.paused || false
+        audioPaused: info.audioConsumer?.paused || false,
+        screenShare: info.screenShare ? {
+          videoProducerId: info.screenShare.videoConsumer?.producerId || null,
+          audioProducerId: info.screenShare.audioConsumer?.producerId || null,
+          rtpPorts: info.screenShare.rtpPorts
+        } : null
+      }))
+    }));
+    const streamInfo = {
+      workers: getWorkerPoolStats(),
+      rtpPorts: getRtpPortUsage(),
+      rtmpIngest: Array.from(rtmpIngestSessions.values()).map(session => ({
+        sessionId: session.sessionId,
+        publisherId: session.publisherId,
+        roomId: session.ingestKey.roomId,
+        producers: session.producers.map(producer => producer.id),
+        readerJobId: session.readerJob?.id ?? null,
+        relayRunning: !!session.relayJob,
+        relayJobId: session.relayJob?.id ?? null
+      })),
+      srtIngest: Array.from(srtIngestSessions.values()).map(session => ({
+        streamId: session.stream.streamId,
+        roomId: session.stream.roomId,
+        port: session.stream.port,
+        state: session.state,
+        publisherId: session.state === 'connected' ? session.publisherId : null,
+        connectedAt: session.connectedAt,
+        connections: session.connections,
+        producers: session.producers.map(producer => producer.id),
+        readerJobId: session.readerJob?.id ?? null,
+        relayRunning: !!session.relayJob,
+        relayJobId: session.relayJob?.id ?? null
+      })),
+      whipIngest: Array.from(whipSessions.values()).map(session => ({
+        sessionId: session.id,
+        publisherId: session.publisherId,
+        roomId: session.room.id,
+        producers: session.producers.map(producer => producer.id),
+        iceState: session.transport.iceState,
+        dtlsState: session.transport.dtlsState
       })),
+      whepPlayback: Array.from(whepSessions.values()).map(session => ({
+        sessionId: session.id,
+        roomId: session.room.id,
+        streamId: session.streamId,
+        consumers: session.consumers.map(consumer => consumer.id),
+        iceState: session.transport.iceState,
+        dtlsState: session.transport.dtlsState
+      })),
+      hlsLadder: hlsLadder.map(rendition => rendition.name),
+      rooms: roomInfo,
       allProducers: Array.from(allProducers.entries()).map(([id, data]) => ({
         id,
         kind: data.kind,
         socketId: data.socketId,
+        roomId: data.roomId,
         codec: data.producer.rtpParameters?.codecs?.[0]?.mimeType || 'unknown'
       }))
     };
@@ -178,29 +400,46 @@ app.get('/api/debug-streams', (req, res) => {
   }
 });
 
-// Direct HLS playlist endpoint as fallback
-app.get('/hls/playlist.m3u8', (req, res) => {
-  try {
-    const playlistPath = path.join(hlsOutputFolder, 'playlist.m3u8');
-    if (fs.existsSync(playlistPath)) {
-      const content = fs.readFileSync(playlistPath, 'utf8');
-      res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
-      res.setHeader('Access-Control-Allow-Origin', '*');
-      res.send(content);
-    } else {
-      // Create a basic playlist if none exists
-      const basicPlaylist = `#EXTM3U
-#EXT-X-VERSION:3
-#EXT-X-TARGETDURATION:10
-#EXT-X-MEDIA-SEQUENCE:0
-#EXT-X-PLAYLIST-TYPE:VOD
-#EXTINF:10.0,
-demo-segment.ts
-#EXT-X-ENDLIST`;
+// The slate serving this playlist is still starting; players retry after a segment
+function sendSlateStarting(res: express.Response) {
+  res.setHeader('Retry-After', String(HLS_SEGMENT_SECONDS));
+  res.status(503).json({ success: false, error: 'Slate is starting, retry shortly' });
+}
+
+// Playlist, segment and part names: dot-separated words, so never '..' or a path separator
+const HLS_FILE_NAME_PATTERN = /^[\w-]+(\.[\w-]+)*$/;
+
+function isHlsFileName(filename: string): boolean {
+  return filename.length <= 128 && HLS_FILE_NAME_PATTERN.test(filename);
+}
+
+// Route parameters arrive decoded, so '..%2F' would otherwise leave the folder
+function sendHlsFile(res: express.Response, folder: string, filename: string) {
+  if (!isHlsFileName(filename)) {
+    return res.status(400).send('Invalid file name');
+  }
+  const filePath = path.join(folder, filename);
+  
+  if (fs.existsSync(filePath)) {
+    if (filename.endsWith('.ts')) {
+      res.setHeader('Content-Type', 'video/mp2t');
+    } else if (filename.endsWith('.m4s') || filename.endsWith('.mp4')) {
+      res.setHeader('Content-Type', 'video/mp4');
+    } else if (filename.endsWith('.m3u8')) {
       res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
-      res.setHeader('Access-Control-Allow-Origin', '*');
-      res.send(basicPlaylist);
     }
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.sendFile(filePath);
+  } else {
+    res.status(404).send('File not found');
+  }
+}
+
+// Reached only while the lobby playlist is missing on disk, i.e. before its slate is up
+app.get('/hls/playlist.m3u8', (req, res) => {
+  try {
+    showSlate();
+    sendSlateStarting(res);
   } catch (error: any) {
     res.status(500).json({ success: false, error: error.message });
   }
@@ -209,623 +448,1530 @@ demo-segment.ts
 // Direct HLS segment endpoint as fallback
 app.get('/hls/:filename', (req, res) => {
   try {
-    const filename = req.params.filename;
-    const filePath = path.join(hlsOutputFolder, filename);
-    
-    if (fs.existsSync(filePath)) {
-      if (filename.endsWith('.ts')) {
-        res.setHeader('Content-Type', 'video/mp2t');
-      } else if (filename.endsWith('.m3u8')) {
-        res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
-      }
-      res.setHeader('Access-Control-Allow-Origin', '*');
-      res.sendFile(filePath);
-    } else {
-      res.status(404).send('File not found');
-    }
+    sendHlsFile(res, hlsOutputFolder, req.params.filename);
   } catch (error: any) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Add endpoint to manually restart HLS composition
-app.get('/api/restart-hls', async (req, res) => {
+// Reached only while the room playlist (the slate, the mosaic or a broadcaster's program) is missing on disk
+app.get('/hls/:roomId/playlist.m3u8', async (req, res) => {
   try {
-    console.log('Manually restarting HLS composition...');
-    
-    // Stop any existing FFmpeg
-    if (hlsComposition.ffmpegProcess) {
-      try {
-        hlsComposition.ffmpegProcess.kill('SIGTERM');
-        hlsComposition.ffmpegProcess = null;
-      } catch (error) {
-        console.error('Error stopping existing FFmpeg:', error);
+    if (!isValidRoomId(req.params.roomId)) {
+      return res.status(400).json({ success: false, error: 'Invalid room id' });
+    }
+    // Rooms nobody has opened show the lobby slate
+    const room = rooms.get(req.params.roomId);
+    if (!room) {
+      return res.redirect(302, '/hls/playlist.m3u8');
+    }
+    // In the individual layout the room program follows the earliest broadcaster whose playlist is up;
+    // broadcasters it cannot follow are redirected to
+    const readyStream = room.hlsComposition.layout === 'individual'
+      ? Array.from(room.hlsComposition.activeStreams.entries()).find(([streamId, streamInfo]) => isStreamHlsReady(room, streamId, streamInfo))
+      : undefined;
+    if (readyStream) {
+      await followProgramStream(room);
+      if (room.hlsComposition.programOutput?.source) {
+        return sendHlsFile(res, getRoomHlsFolder(room), 'playlist.m3u8');
       }
+      return res.redirect(302, getStreamPlaylistUrl(room, readyStream[0]));
     }
-    
-    // Reset state
-    hlsComposition.isComposing = false;
-    nextPortPair = 0;
-    
-    // Wait for ports to be released
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Restart if we have streams
-    if (hlsComposition.activeStreams.size > 0) {
-      await restartHlsComposition();
-      res.json({ 
-        success: true, 
-        message: 'HLS composition restarted', 
-        activeStreams: hlsComposition.activeStreams.size,
-        ffmpegRunning: !!hlsComposition.ffmpegProcess 
-      });
-    } else {
-      res.json({ 
-        success: false, 
-        message: 'No active streams to restart', 
-        activeStreams: 0 
-      });
+    // A mosaic writes its own room playlist
+    if (room.hlsComposition.layout === 'individual' || room.hlsComposition.activeStreams.size === 0) {
+      showSlate(room);
     }
+    sendSlateStarting(res);
   } catch (error: any) {
-    console.error('Error restarting HLS:', error);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-const httpServer = http.createServer(app);
-const io = new SocketIOServer(httpServer, {
-  cors: {
-    origin: '*',
-  },
+// Room-scoped HLS segment fallback
+app.get('/hls/:roomId/:filename', (req, res) => {
+  try {
+    if (!isValidRoomId(req.params.roomId)) {
+      return res.status(400).json({ success: false, error: 'Invalid room id' });
+    }
+    sendHlsFile(res, path.join(hlsOutputFolder, req.params.roomId), req.params.filename);
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
 });
+function findLlHlsRendition(roomId: string, streamId: string, renditionName: string) {
+  if (!isValidRoomId(roomId)) return undefined;
+  const streamInfo = rooms.get(roomId)?.hlsComposition.activeStreams.get(streamId);
+  return streamInfo?.llHlsRenditions?.get(renditionName);
+}
 
-const PORT = process.env.PORT || 3001;
-
-let worker: mediasoupTypes.Worker;
-let router: mediasoupTypes.Router;
-
-const FFMPEG_RTP_VIDEO_PORT = 5004;
-const FFMPEG_RTP_AUDIO_PORT = 5006;
-const HLS_OUTPUT_DIR = hlsOutputFolder;
-
-interface HlsStreamSource {
-  videoProducerId?: string;
-  audioProducerId?: string;
-  plainTransport?: mediasoupTypes.PlainTransport;
-  videoRtpConsumer?: mediasoupTypes.Consumer;
-  audioRtpConsumer?: mediasoupTypes.Consumer;
-  isVideoPortConnected?: boolean;
-}
-
-// Replace single HLS source with multi-stream composition
-interface HlsComposition {
-  activeStreams: Map<string, {
-    producerId: string;
-    plainTransport: mediasoupTypes.PlainTransport;
-    videoConsumer?: mediasoupTypes.Consumer;
-    audioConsumer?: mediasoupTypes.Consumer;
-    rtpPorts: { video: number; audio: number };
-  }>;
-  ffmpegProcess?: any;
-  isComposing: boolean;
-}
-
-let hlsComposition: HlsComposition = {
-  activeStreams: new Map(),
-  isComposing: false
-};
-
-// Keep for backward compatibility during transition
-let hlsStreamSource: HlsStreamSource = { isVideoPortConnected: false };
-
-// Base ports for RTP streams - each stream gets consecutive ports
-const BASE_RTP_PORT = 5000;
-let nextPortPair = 0; // Will be multiplied by 2 and added to base
-
-function getNextRtpPortPair(): { video: number; audio: number } {
-  // Use a wider port range to avoid conflicts
-  const portOffset = nextPortPair * 4; // Use 4 ports spacing instead of 2
-  const videoPort = BASE_RTP_PORT + portOffset;
-  const audioPort = BASE_RTP_PORT + portOffset + 2;
-  nextPortPair++;
-  
-  // Reset if we go too high
-  if (nextPortPair > 100) {
-    nextPortPair = 0;
-  }
-  
-  return { video: videoPort, audio: audioPort };
+function parseHlsDirective(value: unknown): number | undefined | null {
+  if (value === undefined) return undefined;
+  const parsed = typeof value === 'string' && /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  return Number.isNaN(parsed) ? null : parsed;
 }
 
-const getNumWorkers = () => {
+// LL-HLS media playlists are rendered from memory (blocking reload via _HLS_msn/_HLS_part);
+// parts that exist on disk are served by express.static, so only preload-hinted parts get here
+app.get('/hls/:roomId/:streamId/:rendition/:filename', async (req, res) => {
   try {
-    return os.cpus().length;
-  } catch (e) {
-    console.warn('Could not get CPU count, defaulting to 1 worker:', e);
-    return 1;
-  }
-};
+    const { roomId, streamId, rendition: renditionName, filename } = req.params;
+    const rendition = findLlHlsRendition(roomId, streamId, renditionName);
+    if (!rendition) {
+      return res.status(404).send('File not found');
+    }
 
-async function startMediasoup() {
-  const numWorkers = getNumWorkers();
-  console.log(`Starting Mediasoup with ${numWorkers} worker(s)...`);
+    if (filename !== 'index.m3u8') {
+      const written = await waitForLlHlsPart(rendition, filename);
+      return written ? sendHlsFile(res, rendition.folder, filename) : res.status(404).send('File not found');
+    }
 
-  const workers: mediasoupTypes.Worker[] = [];
-  for (let i = 0; i < numWorkers; i++) {
-    const workerInstance = await mediasoup.createWorker({
-      logLevel: 'warn',
-    });
-    workerInstance.on('died', () => {
-      console.error('Mediasoup worker has died, exiting in 2 seconds...');
-      setTimeout(() => process.exit(1), 2000);
-    });
-    workers.push(workerInstance);
-    console.log(`Mediasoup worker ${workerInstance.pid} created`);
-  }
-  worker = workers[0];
+    const msn = parseHlsDirective(req.query._HLS_msn);
+    const part = parseHlsDirective(req.query._HLS_part);
+    if (msn === null || part === null || (part !== undefined && msn === undefined)) {
+      return res.status(400).send('Invalid _HLS_msn/_HLS_part');
+    }
+    if (msn !== undefined) {
+      // Requests too far in the future are rejected rather than held
+      if (msn > getLlHlsLastMsn(rendition) + 2) {
+        return res.status(400).send('_HLS_msn is too far ahead of the live edge');
+      }
+      const ready = await waitForLlHlsPlaylist(rendition, msn, part);
+      if (!ready) {
+        return res.status(503).send('Playlist did not reach the requested segment in time');
+      }
+    }
 
-  const mediaCodecs: mediasoupTypes.RtpCodecCapability[] = [
-    {
-      kind: 'audio',
-      mimeType: 'audio/opus',
-      clockRate: 48000,
-      channels: 2,
-    },
-    {
-      kind: 'video',
-      mimeType: 'video/H264',
-      clockRate: 90000,
-      parameters: {
-        'packetization-mode': 1,
-        'profile-level-id': '42e01f', // Baseline profile, level 3.1
-        'level-asymmetry-allowed': 1,
-        'x-google-start-bitrate': 1000,
-      },
-    },
-    {
-      kind: 'video',
-      mimeType: 'video/VP8',
-      clockRate: 90000,
-      parameters: {
-        'x-google-start-bitrate': 1000,
-      },
-    },
-  ];
+    res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.send(renderLlHlsPlaylist(rendition));
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-  router = await worker.createRouter({ mediaCodecs });
-  console.log('Mediasoup router created with H.264 priority.');
 
-  await setupHlsPlainTransport();
+function getCompositionLayouts() {
+  return ['individual', ...MOSAIC_LAYOUTS];
 }
 
-async function setupHlsPlainTransport() {
+app.get('/api/rooms/:roomId/layout', (req, res) => {
+  const room = isValidRoomId(req.params.roomId) ? rooms.get(req.params.roomId) : undefined;
+  if (!room) {
+    return res.status(404).json({ success: false, error: `Room ${req.params.roomId} not found` });
+  }
+  res.json({
+    success: true,
+    roomId: room.id,
+    layout: room.hlsComposition.layout,
+    speakerStreamId: room.hlsComposition.speakerStreamId || null,
+    followSpeaker: room.hlsComposition.followSpeaker,
+    dominantSpeakerStreamId: room.dominantSpeaker?.streamId ?? null,
+    layouts: getCompositionLayouts()
+  });
+});
+
+// Switch a room between per-broadcaster playlists and a mosaic layout; body: { layout, speakerStreamId?, followSpeaker? }.
+// With followSpeaker the speaker and pip layouts put the dominant speaker in the main slot.
+app.post('/api/rooms/:roomId/layout', async (req, res) => {
   try {
-    if (!router) {
-      console.error("Router not initialized. Cannot create HLS PlainTransport.");
-      return;
+    const room = isValidRoomId(req.params.roomId) ? rooms.get(req.params.roomId) : undefined;
+    if (!room) {
+      return res.status(404).json({ success: false, error: `Room ${req.params.roomId} not found` });
     }
-    
-    // Clean up any existing composition
-    if (hlsComposition.ffmpegProcess) {
-      try {
-        hlsComposition.ffmpegProcess.kill('SIGTERM');
-        hlsComposition.ffmpegProcess = null;
-      } catch (error) {
-        console.error('Error cleaning up existing FFMPEG process:', error);
-      }
+    const { layout, speakerStreamId, followSpeaker } = req.body || {};
+    if (layout !== 'individual' && !isMosaicLayout(layout)) {
+      return res.status(400).json({ success: false, error: `Unknown layout; expected one of ${getCompositionLayouts().join(', ')}` });
     }
-
-    // Clean up existing HLS stream source
-    if (hlsStreamSource.videoRtpConsumer && !hlsStreamSource.videoRtpConsumer.closed) {
-      hlsStreamSource.videoRtpConsumer.close();
+    if (speakerStreamId !== undefined && speakerStreamId !== null && !room.hlsComposition.activeStreams.has(speakerStreamId)) {
+      return res.status(400).json({ success: false, error: `Stream ${speakerStreamId} is not live in room ${room.id}` });
+    }
+    if (followSpeaker !== undefined && typeof followSpeaker !== 'boolean') {
+      return res.status(400).json({ success: false, error: 'followSpeaker must be a boolean' });
     }
-    if (hlsStreamSource.audioRtpConsumer && !hlsStreamSource.audioRtpConsumer.closed) {
-      hlsStreamSource.audioRtpConsumer.close();
+
+    room.hlsComposition.layout = layout;
+    if (followSpeaker !== undefined) {
+      room.hlsComposition.followSpeaker = followSpeaker;
     }
-    if (hlsStreamSource.plainTransport && !hlsStreamSource.plainTransport.closed) {
-      hlsStreamSource.plainTransport.close();
+    if (speakerStreamId !== undefined) {
+      room.hlsComposition.speakerStreamId = speakerStreamId || undefined;
+    } else if (room.hlsComposition.followSpeaker && room.dominantSpeaker && room.hlsComposition.activeStreams.has(room.dominantSpeaker.streamId)) {
+      // The restart below picks up the current speaker; later ones switch as they take over
+      room.hlsComposition.speakerStreamId = room.dominantSpeaker.streamId;
+      room.hlsComposition.speakerSwitchedAt = Date.now();
     }
+    console.log(`Room ${room.id} composition layout set to ${layout}`);
 
-    // Clear active streams
-    for (const streamInfo of hlsComposition.activeStreams.values()) {
-      if (streamInfo.videoConsumer && !streamInfo.videoConsumer.closed) {
-        streamInfo.videoConsumer.close();
-      }
-      if (streamInfo.audioConsumer && !streamInfo.audioConsumer.closed) {
-        streamInfo.audioConsumer.close();
-      }
-      if (streamInfo.plainTransport && !streamInfo.plainTransport.closed) {
-        streamInfo.plainTransport.close();
-      }
+    if (room.hlsComposition.activeStreams.size > 0) {
+      await restartHlsComposition(room);
     }
-    hlsComposition.activeStreams.clear();
-    hlsComposition.isComposing = false;
-    nextPortPair = 0; // Reset port assignment
-
-    // Create new PlainTransport for HLS
-    console.log('Creating new PlainTransport for HLS...');
-    hlsStreamSource.plainTransport = await router.createPlainTransport({
-      listenIp: '127.0.0.1',
-      enableSctp: false,
-      rtcpMux: false,
-      comedia: false  // We'll specify the destination
+    res.json({
+      success: true,
+      roomId: room.id,
+      layout: room.hlsComposition.layout,
+      speakerStreamId: room.hlsComposition.speakerStreamId || null,
+      followSpeaker: room.hlsComposition.followSpeaker
     });
+  } catch (error: any) {
+    console.error('Error changing composition layout:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-    hlsStreamSource.isVideoPortConnected = false;
-    hlsStreamSource.videoProducerId = undefined;
-    hlsStreamSource.audioProducerId = undefined;
-    hlsStreamSource.videoRtpConsumer = undefined;
-    hlsStreamSource.audioRtpConsumer = undefined;
+function toSlateResponse(room: Room) {
+  const { settings, job } = room.hlsComposition.slate;
+  return {
+    roomId: room.id,
+    title: settings.title,
+    scheduledStart: settings.scheduledStart === null ? null : new Date(settings.scheduledStart).toISOString(),
+    showing: !!job,
+    viewers: getHlsViewerCount(room.id)
+  };
+}
 
-    console.log(`HLS PlainTransport created with ID: ${hlsStreamSource.plainTransport.id}`);
-    console.log('HLS composition system initialized.');
-  } catch (error) {
-    console.error('Error setting up HLS composition system:', error);
+app.get('/api/rooms/:roomId/slate', (req, res) => {
+  const room = isValidRoomId(req.params.roomId) ? rooms.get(req.params.roomId) : undefined;
+  if (!room) {
+    return res.status(404).json({ success: false, error: `Room ${req.params.roomId} not found` });
   }
-}
+  res.json({ success: true, slate: toSlateResponse(room) });
+});
 
-function launchFfmpegForHls(): Promise<void> {
-  return new Promise((resolve, reject) => {
-    if (isFfmpegLaunching) {
-      console.warn('HLS: FFMPEG launch already in progress. Skipping redundant call to launchFfmpegForHls.');
-      return reject(new Error("FFMPEG launch already in progress."));
-    }
-    if (!hlsStreamSource.plainTransport) {
-      console.warn('HLS: Cannot launch FFMPEG: PlainTransport not ready.');
-      return reject(new Error('HLS: PlainTransport not ready.'));
+// What the offline slate of a room announces; body: { title?, scheduledStart? } with an ISO 8601 date, or null to clear it
+app.post('/api/rooms/:roomId/slate', (req, res) => {
+  try {
+    const room = isValidRoomId(req.params.roomId) ? rooms.get(req.params.roomId) : undefined;
+    if (!room) {
+      return res.status(404).json({ success: false, error: `Room ${req.params.roomId} not found` });
     }
-    if (!hlsStreamSource.videoRtpConsumer) {
-      console.warn('HLS: Cannot launch FFMPEG: Video RTP consumer not ready.');
-      return reject(new Error('HLS: Video RTP consumer not ready.'));
+    const { title, scheduledStart } = req.body || {};
+    if (title !== undefined && !isSlateTitle(title)) {
+      return res.status(400).json({ success: false, error: `title must be a non-empty string of at most ${MAX_SLATE_TITLE_LENGTH} characters` });
     }
-
-    if (ffmpegProcess) {
-      console.log('HLS: Killing existing FFMPEG process before attempting to launch a new one...');
-      const currentProcess = ffmpegProcess;
-      ffmpegProcess = null;
-      currentProcess.kill('SIGKILL');
+    const start = scheduledStart === undefined ? undefined : parseScheduledStart(scheduledStart);
+    if (scheduledStart !== undefined && start === undefined) {
+      return res.status(400).json({ success: false, error: 'scheduledStart must be an ISO 8601 date or null' });
     }
 
-    isFfmpegLaunching = true;
-    const videoConsumer = hlsStreamSource.videoRtpConsumer;
+    const { settings } = room.hlsComposition.slate;
+    if (title !== undefined) settings.title = title.trim();
+    if (start !== undefined) settings.scheduledStart = start;
+    // A running slate picks the text up with its next frame
+    if (room.hlsComposition.slate.job) refreshSlateText(room);
+    res.json({ success: true, slate: toSlateResponse(room) });
+  } catch (error: any) {
+    console.error('Error updating slate:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-    const sdpFilePath = path.join(HLS_OUTPUT_DIR, 'stream.sdp');
-    let sdpContent = `v=0
-o=- 0 0 IN IP4 127.0.0.1
-s=FFMPEG Stream via Mediasoup
-c=IN IP4 127.0.0.1
-t=0 0
-`;
+// Switch one broadcaster between classic HLS and LL-HLS; body: { mode: 'classic' | 'll-hls' }
+app.post('/api/rooms/:roomId/streams/:streamId/hls-mode', (req, res) => {
+  const room = isValidRoomId(req.params.roomId) ? rooms.get(req.params.roomId) : undefined;
+  const streamInfo = room?.hlsComposition.activeStreams.get(req.params.streamId);
+  if (!room || !streamInfo) {
+    return res.status(404).json({ success: false, error: `Stream ${req.params.streamId} not found in room ${req.params.roomId}` });
+  }
+  const { mode } = req.body || {};
+  if (!isHlsMode(mode)) {
+    return res.status(400).json({ success: false, error: `Unknown HLS mode; expected one of ${HLS_MODES.join(', ')}` });
+  }
 
-    const videoRtpParameters = videoConsumer.rtpParameters;
-    const videoCodec = videoRtpParameters.codecs[0];
-    sdpContent += `m=video ${FFMPEG_RTP_VIDEO_PORT} RTP/AVP ${videoCodec.payloadType}
-`;
-    sdpContent += `a=rtpmap:${videoCodec.payloadType} ${videoCodec.mimeType.split('/')[1]}/${videoCodec.clockRate}
-`;
-    if (videoCodec.parameters) {
-      const fmtpParams = Object.entries(videoCodec.parameters)
-        .map(([key, value]) => `${key}=${value}`)
-        .join(';');
-      if (fmtpParams) {
-        sdpContent += `a=fmtp:${videoCodec.payloadType} ${fmtpParams}
-`;
-      }
-    }
-    sdpContent += `a=recvonly
-`;
+  if (streamInfo.hlsMode !== mode) {
+    streamInfo.hlsMode = mode;
+    console.log(`Stream ${req.params.streamId} in room ${room.id} switched to ${mode}`);
+    stopStreamHls(streamInfo);
+    scheduleHlsRestart(room);
+  }
+  res.json({ success: true, roomId: room.id, streamId: req.params.streamId, hlsMode: streamInfo.hlsMode });
+});
 
-    try {
-        fs.writeFileSync(sdpFilePath, sdpContent);
-        console.log('HLS: Generated SDP file for FFMPEG:', sdpFilePath);
-        console.log('HLS: SDP Content:\n', sdpContent);
-    } catch (writeError: any) {
-        console.error("HLS: Error writing SDP file:", writeError.message);
-        isFfmpegLaunching = false;
-        return reject(new Error(`HLS: Error writing SDP file: ${writeError.message}`));
-    }
+// Switch the classic HLS segments of one broadcaster; body: { format: 'mpegts' | 'cmaf' }
+app.post('/api/rooms/:roomId/streams/:streamId/segment-format', (req, res) => {
+  const room = isValidRoomId(req.params.roomId) ? rooms.get(req.params.roomId) : undefined;
+  const streamInfo = room?.hlsComposition.activeStreams.get(req.params.streamId);
+  if (!room || !streamInfo) {
+    return res.status(404).json({ success: false, error: `Stream ${req.params.streamId} not found in room ${req.params.roomId}` });
+  }
+  const { format } = req.body || {};
+  if (!isHlsSegmentFormat(format)) {
+    return res.status(400).json({ success: false, error: `Unknown segment format; expected one of ${HLS_SEGMENT_FORMATS.join(', ')}` });
+  }
 
-    if (!hlsStreamSource.videoRtpConsumer || hlsStreamSource.videoRtpConsumer.closed) {
-        console.warn('HLS: Video consumer disappeared or closed before FFMPEG could launch. Aborting FFMPEG launch.');
-        isFfmpegLaunching = false;
-        return reject(new Error('HLS: Video consumer disappeared or closed before FFMPEG launch.'));
-    }
-    
-    console.log('HLS: Setting up FFMPEG command...');
-    try {
-        ffmpegProcess = ffmpeg()
-            .input(sdpFilePath.replace(/\\/g, '/'))
-            .inputOptions([
-                '-protocol_whitelist', 'file,udp,rtp',
-                '-re',
-                '-thread_queue_size', '1024',
-                '-fflags', '+genpts+igndts+discardcorrupt',
-                '-avoid_negative_ts', 'make_zero',
-                '-max_delay', '5000000',
-                '-reorder_queue_size', '0',
-                '-analyzeduration', '1000000'
-            ])
-            .videoCodec('libx264')
-            .audioCodec('aac')
-            .outputOptions([
-                '-preset', 'veryfast',
-                '-tune', 'zerolatency',
-                '-profile:v', 'baseline',
-                '-level', '3.0',
-                '-pix_fmt', 'yuv420p',
-                '-g', '30',
-                '-keyint_min', '30',
-                '-sc_threshold', '0',
-                '-b:v', '1000k',
-                '-maxrate', '1200k',
-                '-bufsize', '2000k',
-                '-r', '30',
-                '-f', 'null',
-                '-b:a', '128k',
-                '-ar', '44100'
-            ])
-            .output('pipe:')
-            .on('start', (commandLine) => {
-                console.log('FFMPEG process started with command:', commandLine);
-                
-                // Start the actual HLS encoding process
-                setTimeout(() => {
-                  startHlsEncoding();
-                }, 1000);
-            })
-            .on('stderr', (stderrLine) => {
-                console.log(`FFMPEG stderr: ${stderrLine}`);
-            })
-            .on('error', (err) => {
-                console.error('FFMPEG error:', err);
-                isFfmpegLaunching = false;
-                ffmpegProcess = null;
-            })
-            .on('end', () => {
-                console.log('FFMPEG process ended');
-                isFfmpegLaunching = false;
-                ffmpegProcess = null;
-            });
-
-        ffmpegProcess.run();
-
-    } catch (e: any) {
-        console.error("HLS: Error during FFMPEG command setup or run:", e.message);
-        isFfmpegLaunching = false;
-        reject(e);
+  if (streamInfo.segmentFormat !== format) {
+    streamInfo.segmentFormat = format;
+    console.log(`Stream ${req.params.streamId} in room ${room.id} switched to ${format} segments`);
+    // LL-HLS output does not depend on the setting; it applies once the stream is back on classic HLS
+    if (streamInfo.hlsMode === 'classic') {
+      stopStreamHls(streamInfo);
+      scheduleHlsRestart(room);
     }
+  }
+  res.json({
+    success: true,
+    roomId: room.id,
+    streamId: req.params.streamId,
+    segmentFormat: streamInfo.segmentFormat,
+    dashManifestUrl: getStreamDashManifestUrl(room, req.params.streamId, streamInfo)
   });
-}
+});
 
-function startHlsEncoding() {
-  if (!hlsStreamSource.videoRtpConsumer) {
-    console.error('HLS: No video consumer available for HLS encoding');
-    return;
+// Change how far back viewers of one broadcaster can seek; body: { seconds } (0 = live window only)
+app.post('/api/rooms/:roomId/streams/:streamId/dvr-window', (req, res) => {
+  const room = isValidRoomId(req.params.roomId) ? rooms.get(req.params.roomId) : undefined;
+  const streamInfo = room?.hlsComposition.activeStreams.get(req.params.streamId);
+  if (!room || !streamInfo) {
+    return res.status(404).json({ success: false, error: `Stream ${req.params.streamId} not found in room ${req.params.roomId}` });
+  }
+  const { seconds } = req.body || {};
+  if (!isDvrWindowSeconds(seconds)) {
+    return res.status(400).json({ success: false, error: `Expected { seconds } as a whole number from 0 to ${MAX_DVR_WINDOW_SECONDS}` });
   }
 
-  const sdpFilePath = path.join(HLS_OUTPUT_DIR, 'stream.sdp');
-  
-  console.log('HLS: Starting HLS encoding process...');
-  
-  const hlsProcess = ffmpeg()
-    .input(sdpFilePath.replace(/\\/g, '/'))
-    .inputOptions([
-      '-protocol_whitelist', 'file,udp,rtp',
-      '-re',
-      '-thread_queue_size', '1024',
-      '-fflags', '+genpts+igndts+discardcorrupt',
-      '-avoid_negative_ts', 'make_zero',
-      '-max_delay', '5000000',
-      '-reorder_queue_size', '0',
-      '-analyzeduration', '1000000'
-    ])
-    .videoCodec('libx264')
-    .audioCodec('aac')
-    .outputOptions([
-      '-preset', 'veryfast',
-      '-tune', 'zerolatency',
-      '-profile:v', 'baseline',
-      '-level', '3.0',
-      '-pix_fmt', 'yuv420p',
-      '-g', '30',
-      '-keyint_min', '30',
-      '-sc_threshold', '0',
-      '-b:v', '1000k',
-      '-maxrate', '1200k',
-      '-bufsize', '2000k',
-      '-r', '30',
-      '-f', 'null',
-      '-b:a', '128k',
-      '-ar', '44100'
-    ])
-    .output('pipe:')
-    .on('start', (commandLine) => {
-      console.log('FFMPEG process started with command:', commandLine);
-      
-      // Start the actual HLS encoding process
-      setTimeout(() => {
-        startHlsEncoding();
-      }, 1000);
-    })
-    .on('stderr', (stderrLine) => {
-      console.log(`FFMPEG stderr: ${stderrLine}`);
-    })
-    .on('error', (err) => {
-      console.error('FFMPEG error:', err);
-      isFfmpegLaunching = false;
-      ffmpegProcess = null;
-    })
-    .on('end', () => {
-      console.log('FFMPEG process ended');
-      isFfmpegLaunching = false;
-      ffmpegProcess = null;
-    });
-
-  hlsProcess.run();
-  
-  // Store reference to the HLS process
-  hlsComposition.ffmpegProcess = hlsProcess;
-}
-
-async function startFfmpegStream(producerToStream: mediasoupTypes.Producer, kind: mediasoupTypes.MediaKind) {
-  if (kind !== 'video') {
-    console.log(`HLS: Received produce event for non-video kind (${kind}). Ignoring for HLS.`);
-    return;
+  if (streamInfo.dvrWindowSeconds !== seconds) {
+    streamInfo.dvrWindowSeconds = seconds;
+    console.log(`Stream ${req.params.streamId} in room ${room.id} DVR window set to ${seconds}s`);
+    // The muxer reads its list size at startup; the restarted output begins an empty window
+    stopStreamHls(streamInfo);
+    scheduleHlsRestart(room);
   }
-  const producerId = producerToStream.id;
+  res.json({ success: true, roomId: room.id, streamId: req.params.streamId, dvrWindowSeconds: streamInfo.dvrWindowSeconds });
+});
 
-  console.log(`HLS: Attempting to start FFMPEG stream for producerId: ${producerId}`);
-  console.log(`HLS: Current hlsStreamSource.videoProducerId: ${hlsStreamSource.videoProducerId}`);
+// Start or stop recording one broadcaster; body: { enabled: boolean, format?: 'mp4' | 'hls' }
+app.post('/api/rooms/:roomId/streams/:streamId/recording', async (req, res) => {
+  try {
+    const room = isValidRoomId(req.params.roomId) ? rooms.get(req.params.roomId) : undefined;
+    const streamInfo = room?.hlsComposition.activeStreams.get(req.params.streamId);
+    if (!room || !streamInfo) {
+      return res.status(404).json({ success: false, error: `Stream ${req.params.streamId} not found in room ${req.params.roomId}` });
+    }
+    const { enabled, format } = req.body || {};
+    if (typeof enabled !== 'boolean') {
+      return res.status(400).json({ success: false, error: 'Expected { enabled: boolean }' });
+    }
+    if (format !== undefined && !isRecordingFormat(format)) {
+      return res.status(400).json({ success: false, error: `Unknown recording format; expected one of ${RECORDING_FORMATS.join(', ')}` });
+    }
 
-  if (!hlsStreamSource.plainTransport || hlsStreamSource.plainTransport.closed) {
-    console.warn('HLS: PlainTransport not ready or closed. Attempting to re-setup.');
-    await setupHlsPlainTransport();
-    if (!hlsStreamSource.plainTransport || hlsStreamSource.plainTransport.closed) {
-      console.error('HLS: PlainTransport setup failed. Aborting FFMPEG stream start.');
-      return;
+    const recordingFormat = enabled ? (format ?? streamInfo.recordingFormat ?? DEFAULT_RECORDING_FORMAT) : null;
+    if (streamInfo.recordingFormat !== recordingFormat || !enabled) {
+      // A format change finishes the current take and starts a new one
+      stopStreamRecording(streamInfo);
+    }
+    streamInfo.recordingFormat = recordingFormat;
+    if (recordingFormat) {
+      await startStreamRecording(room, req.params.streamId, streamInfo);
     }
-    console.log("HLS: PlainTransport was re-initialized.");
+    console.log(`Recording of stream ${req.params.streamId} in room ${room.id} ${recordingFormat ? `on (${recordingFormat})` : 'off'}`);
+    res.json({
+      success: true,
+      roomId: room.id,
+      streamId: req.params.streamId,
+      recordingFormat: streamInfo.recordingFormat,
+      recordingId: streamInfo.recorder?.metadata.id ?? null
+    });
+  } catch (error: any) {
+    console.error('Error changing recording:', error);
+    res.status(500).json({ success: false, error: error.message });
   }
+});
 
-  if (hlsStreamSource.videoProducerId && hlsStreamSource.videoProducerId !== producerId) {
-    console.log(`HLS: New video producer (${producerId}) received. Stopping FFMPEG for old producer (${hlsStreamSource.videoProducerId}).`);
-    await stopFfmpegStream();
-    console.log("HLS: Old FFMPEG stream stopped and resources cleared for new producer.");
-  } else if (hlsStreamSource.videoProducerId === producerId && ffmpegProcess) {
-    console.log(`HLS: Video producer ${producerId} is already being processed by FFMPEG. No action needed.`);
-    return;
-  } else if (hlsStreamSource.videoProducerId === producerId && hlsStreamSource.videoRtpConsumer && !ffmpegProcess) {
-    console.log(`HLS: Video producer ${producerId} is already consumed, but FFMPEG is not running. Attempting to launch FFMPEG and then connect/request keyframe.`);
-    try {
-      await launchFfmpegForHls();
-      console.log("HLS: FFMPEG launch promise resolved. Proceeding to connect transport and request keyframe.");
+// Restream destinations of one broadcaster; stream keys are masked in every response
+app.get('/api/rooms/:roomId/streams/:streamId/push-targets', (req, res) => {
+  const room = isValidRoomId(req.params.roomId) ? rooms.get(req.params.roomId) : undefined;
+  const streamInfo = room?.hlsComposition.activeStreams.get(req.params.streamId);
+  if (!room || !streamInfo) {
+    return res.status(404).json({ success: false, error: `Stream ${req.params.streamId} not found in room ${req.params.roomId}` });
+  }
+  res.json({ success: true, pushTargets: Array.from(streamInfo.pushTargets.values()).map(toPushTargetResponse) });
+});
 
-      console.log("HLS: Introducing a short delay (500ms) before connecting transport and requesting keyframe for existing consumer flow...");
-      await new Promise(resolve => setTimeout(resolve, 500));
-      console.log("HLS: Delay finished for existing consumer flow.");
+// Push one broadcaster to another platform; body: { url: 'rtmp(s)://host/app/<streamKey>', name? }
+app.post('/api/rooms/:roomId/streams/:streamId/push-targets', (req, res) => {
+  const room = isValidRoomId(req.params.roomId) ? rooms.get(req.params.roomId) : undefined;
+  const streamInfo = room?.hlsComposition.activeStreams.get(req.params.streamId);
+  if (!room || !streamInfo) {
+    return res.status(404).json({ success: false, error: `Stream ${req.params.streamId} not found in room ${req.params.roomId}` });
+  }
+  const { url, name } = req.body || {};
+  const target = addPushTarget(room, req.params.streamId, streamInfo, url, name);
+  if (typeof target === 'string') {
+    const status = streamInfo.pushTargets.size >= MAX_PUSH_TARGETS_PER_STREAM ? 409 : 400;
+    return res.status(status).json({ success: false, error: target });
+  }
+  res.status(201).json({ success: true, pushTarget: toPushTargetResponse(target) });
+});
 
-      if (!hlsStreamSource.plainTransport || !hlsStreamSource.plainTransport.tuple) {
-        console.error("HLS Error: PlainTransport or its tuple not available after FFMPEG launch. Aborting.");
-        await stopFfmpegStream();
-        return;
-      }
-      if (!hlsStreamSource.isVideoPortConnected) {
-         console.log(`HLS: Connecting PlainTransport for video. Tuple: ${JSON.stringify(hlsStreamSource.plainTransport.tuple)}, RTP Port: ${FFMPEG_RTP_VIDEO_PORT}`);
-        await hlsStreamSource.plainTransport.connect({
-          ip: '127.0.0.1',
-          port: FFMPEG_RTP_VIDEO_PORT
-        });
-        hlsStreamSource.isVideoPortConnected = true;
-        console.log('HLS: PlainTransport connected for video for FFMPEG.');
-      }
+app.delete('/api/rooms/:roomId/streams/:streamId/push-targets/:targetId', (req, res) => {
+  const room = isValidRoomId(req.params.roomId) ? rooms.get(req.params.roomId) : undefined;
+  const streamInfo = room?.hlsComposition.activeStreams.get(req.params.streamId);
+  const target = streamInfo?.pushTargets.get(req.params.targetId);
+  if (!streamInfo || !target) {
+    return res.status(404).json({ success: false, error: `Push target ${req.params.targetId} not found` });
+  }
+  removePushTarget(streamInfo, target);
+  res.json({ success: true, pushTarget: toPushTargetResponse(target) });
+});
 
-      if (hlsStreamSource.videoRtpConsumer && !hlsStreamSource.videoRtpConsumer.closed) {
-        console.log(`HLS: Requesting key frame via HLS consumer ${hlsStreamSource.videoRtpConsumer.id} for producer ${producerId}.`);
-        await hlsStreamSource.videoRtpConsumer.requestKeyFrame();
-        console.log(`HLS: Key frame requested successfully via HLS consumer for producer ${producerId}.`);
-      } else {
-        console.warn("HLS: Could not request keyframe - HLS consumer not available or closed after FFMPEG launch.");
-      }
-    } catch (launchError: any) {
-      console.error("HLS: Error launching FFMPEG or subsequent operations for existing consumer:", launchError.message);
-      await stopFfmpegStream();
+// Archived and running recordings, newest first (all rooms, or ?roomId=<id>)
+app.get('/api/recordings', (req, res) => {
+  try {
+    const requestedRoomId = req.query.roomId;
+    if (requestedRoomId !== undefined && !isValidRoomId(requestedRoomId)) {
+      return res.status(400).json({ success: false, error: 'Invalid room id' });
     }
-    return;
+    const recordings = listRecordings(recordingsFolder)
+      .filter(entry => requestedRoomId === undefined || entry.roomId === requestedRoomId)
+      .map(entry => toRecordingResponse(entry));
+    res.json({ success: true, recordings });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
   }
+});
 
-  hlsStreamSource.videoProducerId = producerId;
-  console.log(`HLS: Set videoProducerId to ${hlsStreamSource.videoProducerId}`);
-
+app.get('/api/recordings/:recordingId', (req, res) => {
   try {
-    if (!hlsStreamSource.plainTransport) {
-      console.error("HLS Error: Plain transport is unexpectedly undefined before consuming.");
-      hlsStreamSource.videoProducerId = undefined;
-      return;
+    const entry = readRecording(recordingsFolder, req.params.recordingId);
+    if (!entry) {
+      return res.status(404).json({ success: false, error: `Recording ${req.params.recordingId} not found` });
     }
+    res.json({ success: true, recording: toRecordingResponse(entry) });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-    if (hlsStreamSource.videoRtpConsumer && !hlsStreamSource.videoRtpConsumer.closed) {
-      console.log("HLS: Closing existing video RTP consumer before creating a new one.");
-      hlsStreamSource.videoRtpConsumer.close();
-      hlsStreamSource.videoRtpConsumer = undefined;
+// MP4 recordings are sent as-is; HLS recordings are remuxed into one fragmented MP4 on the fly
+app.get('/api/recordings/:recordingId/download', (req, res) => {
+  try {
+    const entry = readRecording(recordingsFolder, req.params.recordingId);
+    if (!entry) {
+      return res.status(404).json({ success: false, error: `Recording ${req.params.recordingId} not found` });
     }
-
-    if (!router.canConsume({ producerId, rtpCapabilities: router.rtpCapabilities })) {
-      console.error(`HLS: Router cannot consume producer ${producerId}. This producer might not exist or capabilities mismatch.`);
-      hlsStreamSource.videoProducerId = undefined;
-      return;
+    if (entry.status !== 'complete') {
+      return res.status(409).json({ success: false, error: `Recording ${entry.id} is ${entry.status}` });
+    }
+    const mediaPath = path.join(recordingsFolder, entry.id, entry.mediaFile);
+    const downloadName = `${entry.roomId}-${new Date(entry.startedAt).toISOString().replace(/[:.]/g, '-')}.mp4`;
+    if (entry.format === 'mp4') {
+      return res.download(mediaPath, downloadName);
     }
 
-    console.log(`HLS: Consuming video producer ${producerId} on PlainTransport ${hlsStreamSource.plainTransport.id}`);
-    const rtpPorts = getNextRtpPortPair();
-
-    // Tell the transport where to send RTP/RTCP
-    await hlsStreamSource.plainTransport.connect({
-      ip: '127.0.0.1',
-      port: rtpPorts.video,
-      rtcpPort: rtpPorts.video + 1000
+    const remux = spawn(process.env.FFMPEG_PATH || 'ffmpeg', [
+      '-i', mediaPath,
+      '-map', '0',
+      '-c', 'copy',
+      '-f', 'mp4',
+      '-movflags', 'frag_keyframe+empty_moov',
+      'pipe:1'
+    ], { stdio: ['ignore', 'pipe', 'ignore'], shell: false });
+    res.setHeader('Content-Type', 'video/mp4');
+    res.setHeader('Content-Disposition', `attachment; filename="${downloadName}"`);
+    // Ended by the exit code: a failed remux must not look like a complete (if short) download
+    remux.stdout.pipe(res, { end: false });
+    const failRemux = (message: string) => {
+      // Also after the client left and the remux was killed
+      if (res.writableEnded || res.destroyed) return;
+      console.error(`Error remuxing recording ${entry.id}: ${message}`);
+      if (res.headersSent) return res.destroy();
+      res.removeHeader('Content-Disposition');
+      res.status(500).json({ success: false, error: `Remuxing recording ${entry.id} failed: ${message}` });
+    };
+    remux.on('error', (error: Error) => failRemux(error.message));
+    remux.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
+      if (code === 0) res.end();
+      else failRemux(code === null ? `FFmpeg was killed with ${signal}` : `FFmpeg exited with code ${code}`);
     });
+    res.on('close', () => { if (remux.exitCode === null) remux.kill('SIGTERM'); });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-    const videoConsumer = await hlsStreamSource.plainTransport.consume({
-      producerId: producerId,
-      rtpCapabilities: router.rtpCapabilities,
-      paused: true,  // Start paused, resume after FFMPEG connects
-      appData: { streamId: 'hls', type: 'hls-composition' }
-    });
+app.delete('/api/recordings/:recordingId', (req, res) => {
+  try {
+    const entry = readRecording(recordingsFolder, req.params.recordingId);
+    if (!entry) {
+      return res.status(404).json({ success: false, error: `Recording ${req.params.recordingId} not found` });
+    }
+    if (findActiveRecorder(entry.id)) {
+      return res.status(409).json({ success: false, error: `Recording ${entry.id} is still running; stop it first` });
+    }
+    deleteRecording(recordingsFolder, entry.id);
+    console.log(`Recording ${entry.id} deleted`);
+    res.json({ success: true, recordingId: entry.id });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Supervised FFmpeg processes with their state and encoder stats (all rooms, or ?roomId=<id>)
+app.get('/api/ffmpeg-jobs', (req, res) => {
+  const requestedRoomId = req.query.roomId;
+  if (requestedRoomId !== undefined && !isValidRoomId(requestedRoomId)) {
+    return res.status(400).json({ success: false, error: 'Invalid room id' });
+  }
+  res.json({ success: true, jobs: listFfmpegJobs(requestedRoomId).map(job => toFfmpegJobResponse(job)) });
+});
+
+app.get('/api/ffmpeg-jobs/:jobId', (req, res) => {
+  const job = getFfmpegJob(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ success: false, error: `FFmpeg job ${req.params.jobId} not found` });
+  }
+  res.json({ success: true, job: toFfmpegJobResponse(job) });
+});
+
+// Kill an HLS, mosaic or slate FFmpeg so the supervisor starts it again; other jobs have owners that restart them
+app.post('/api/ffmpeg-jobs/:jobId/restart', (req, res) => {
+  const job = getFfmpegJob(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ success: false, error: `FFmpeg job ${req.params.jobId} not found` });
+  }
+  if (!restartFfmpegJob(job)) {
+    return res.status(409).json({ success: false, error: `FFmpeg job ${job.id} is not a running HLS, mosaic or slate job` });
+  }
+  res.json({ success: true, job: toFfmpegJobResponse(job) });
+});
+
+function toIngestKeyResponse(ingestKey: RtmpIngestKey, host: string) {
+  return {
+    ...ingestKey,
+    rtmpUrl: getRtmpUrl(host, RTMP_PORT, ingestKey.key),
+    live: Array.from(rtmpIngestSessions.values()).some(session => session.ingestKey.key === ingestKey.key)
+  };
+}
+
+// Create an RTMP stream key for a room; OBS publishes to the returned rtmpUrl
+app.post('/api/rooms/:roomId/ingest-keys', (req, res) => {
+  if (!isValidRoomId(req.params.roomId)) {
+    return res.status(400).json({ success: false, error: 'Invalid room id' });
+  }
+  const ingestKey = createIngestKey(req.params.roomId);
+  console.log(`RTMP ingest key created for room ${ingestKey.roomId}`);
+  res.json({ success: true, ingestKey: toIngestKeyResponse(ingestKey, req.hostname) });
+});
+
+app.get('/api/rooms/:roomId/ingest-keys', (req, res) => {
+  if (!isValidRoomId(req.params.roomId)) {
+    return res.status(400).json({ success: false, error: 'Invalid room id' });
+  }
+  res.json({ success: true, ingestKeys: listIngestKeys(req.params.roomId).map(ingestKey => toIngestKeyResponse(ingestKey, req.hostname)) });
+});
+
+// Revoking a key also ends a publish that is live on it
+app.delete('/api/ingest-keys/:key', (req, res) => {
+  const ingestKey = getIngestKey(req.params.key);
+  if (!ingestKey) {
+    return res.status(404).json({ success: false, error: 'Ingest key not found' });
+  }
+  revokeIngestKey(ingestKey.key);
+  rtmpIngestSessions.forEach(session => {
+    if (session.ingestKey.key === ingestKey.key) rejectRtmpSession(session.sessionId);
+  });
+  console.log(`RTMP ingest key for room ${ingestKey.roomId} revoked`);
+  res.json({ success: true });
+});
+
+function toSrtStreamResponse(stream: SrtStream, host: string) {
+  return {
+    ...stream,
+    srtUrl: getSrtUrl(host, stream),
+    state: srtIngestSessions.get(stream.streamId)?.state ?? 'stopped'
+  };
+}
+
+// Create an SRT route into a room: { "streamId"?: string, "passphrase"?: string }; both are generated when omitted
+app.post('/api/rooms/:roomId/srt-streams', (req, res) => {
+  if (!isValidRoomId(req.params.roomId)) {
+    return res.status(400).json({ success: false, error: 'Invalid room id' });
+  }
+  const { streamId, passphrase } = req.body ?? {};
+  if (streamId !== undefined && !isValidSrtStreamId(streamId)) {
+    return res.status(400).json({ success: false, error: 'streamId must be 1-64 letters, digits, "-" or "_"' });
+  }
+  if (passphrase !== undefined && !isValidSrtPassphrase(passphrase)) {
+    return res.status(400).json({ success: false, error: 'passphrase must be 10-79 printable characters without spaces' });
+  }
+  const stream = createSrtStream(req.params.roomId, streamId, passphrase);
+  if (typeof stream === 'string') {
+    return res.status(409).json({ success: false, error: stream });
+  }
+  startSrtIngest(stream);
+  console.log(`SRT stream ${stream.streamId} created for room ${stream.roomId} on port ${stream.port}`);
+  res.json({ success: true, srtStream: toSrtStreamResponse(stream, req.hostname) });
+});
+
+app.get('/api/rooms/:roomId/srt-streams', (req, res) => {
+  if (!isValidRoomId(req.params.roomId)) {
+    return res.status(400).json({ success: false, error: 'Invalid room id' });
+  }
+  res.json({ success: true, srtStreams: listSrtStreams(req.params.roomId).map(stream => toSrtStreamResponse(stream, req.hostname)) });
+});
+
+// Removing a route also drops its caller and frees the port
+app.delete('/api/srt-streams/:streamId', (req, res) => {
+  const stream = getSrtStream(req.params.streamId);
+  if (!stream) {
+    return res.status(404).json({ success: false, error: 'SRT stream not found' });
+  }
+  stopSrtIngest(stream.streamId);
+  removeSrtStream(stream.streamId);
+  res.json({ success: true });
+});
+
+// WHIP and WHEP bodies are SDP offers and trickle ICE fragments, not JSON
+const sdpBodyParser = express.text({ type: [SDP_CONTENT_TYPE, TRICKLE_ICE_CONTENT_TYPE] });
+
+function sendSdpAnswer(res: express.Response, session: HttpWebRtcSession, resourceUrl: string, answer: string) {
+  res.status(201)
+    .type(SDP_CONTENT_TYPE)
+    .set('Location', resourceUrl)
+    .set('ETag', getHttpSessionETag(session))
+    .send(answer);
+}
+
+// PATCH on a WHIP or WHEP session resource: trickle ICE or an ICE restart
+async function patchHttpSessionIce(req: express.Request, res: express.Response, session: HttpWebRtcSession | undefined) {
+  if (!session) {
+    return res.status(404).json({ success: false, error: 'Session not found' });
+  }
+  if (!req.is(TRICKLE_ICE_CONTENT_TYPE) || typeof req.body !== 'string') {
+    return res.status(415).json({ success: false, error: `Content-Type must be ${TRICKLE_ICE_CONTENT_TYPE}` });
+  }
+  const ifMatch = req.get('If-Match');
+  if (ifMatch && ifMatch !== '*' && ifMatch !== getHttpSessionETag(session)) {
+    return res.status(412).json({ success: false, error: 'ETag does not match the current ICE session' });
+  }
+  const fragment = parseTrickleIceFragment(req.body);
+  // The server is ICE-lite and never checks remote candidates, so a plain trickle only needs acknowledging
+  if (!fragment.iceUfrag || fragment.iceUfrag === session.remoteIceUfrag) {
+    return res.status(204).end();
+  }
+  if (!ifMatch) {
+    return res.status(428).json({ success: false, error: 'An ICE restart needs an If-Match header' });
+  }
+  try {
+    const iceParameters = await session.transport.restartIce();
+    session.remoteIceUfrag = fragment.iceUfrag;
+    console.log(`${session.protocol} session ${session.id} restarted ICE`);
+    res.status(200)
+      .type(TRICKLE_ICE_CONTENT_TYPE)
+      .set('ETag', getHttpSessionETag(session))
+      .send(buildIceRestartFragment(session.offer, iceParameters, session.transport.iceCandidates));
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+}
+
+function findWhipSession(roomId: string, sessionId: string): WhipSession | undefined {
+  const session = whipSessions.get(sessionId);
+  return session?.room.id === roomId ? session : undefined;
+}
+
+// WHIP ingest: POST an SDP offer, get the answer and a session resource to PATCH (trickle ICE, ICE restart) or DELETE
+app.post('/whip/:roomId', sdpBodyParser, async (req, res) => {
+  if (!isValidRoomId(req.params.roomId)) {
+    return res.status(400).json({ success: false, error: 'Invalid room id' });
+  }
+  if (!req.is(SDP_CONTENT_TYPE) || typeof req.body !== 'string') {
+    return res.status(415).json({ success: false, error: `Content-Type must be ${SDP_CONTENT_TYPE}` });
+  }
+  try {
+    const room = await getOrCreateRoom(req.params.roomId);
+    const offer = parseWhipOffer(req.body, room.router.rtpCapabilities);
+    if (typeof offer === 'string') {
+      closeRoomIfEmpty(room);
+      return res.status(400).json({ success: false, error: offer });
+    }
+    const session = await startWhipSession(room, offer);
+    sendSdpAnswer(res, session, `/whip/${room.id}/${session.id}`, buildSdpAnswer(offer, session.transport, 'recvonly'));
+  } catch (error: any) {
+    console.error(`Error starting WHIP session in room ${req.params.roomId}:`, error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.patch('/whip/:roomId/:sessionId', sdpBodyParser, (req, res) => {
+  patchHttpSessionIce(req, res, findWhipSession(req.params.roomId, req.params.sessionId));
+});
 
-    hlsStreamSource.videoRtpConsumer = videoConsumer;
+app.delete('/whip/:roomId/:sessionId', (req, res) => {
+  const session = findWhipSession(req.params.roomId, req.params.sessionId);
+  if (!session) {
+    return res.status(404).json({ success: false, error: 'WHIP session not found' });
+  }
+  stopWhipSession(session.id);
+  res.json({ success: true });
+});
 
-    console.log(`Stream ${producerId} added to composition with video port: ${rtpPorts.video}, RTCP port: ${rtpPorts.video + 1000}`);
+function findWhepSession(roomId: string, streamId: string, sessionId: string): WhepSession | undefined {
+  const session = whepSessions.get(sessionId);
+  return session?.room.id === roomId && session.streamId === streamId ? session : undefined;
+}
+
+// WHEP playback of one broadcaster: POST a receive-only SDP offer, get the answer and a session resource
+app.post('/whep/:roomId/:streamId', sdpBodyParser, async (req, res) => {
+  const room = isValidRoomId(req.params.roomId) ? rooms.get(req.params.roomId) : undefined;
+  if (!room) {
+    return res.status(404).json({ success: false, error: 'Room not found' });
+  }
+  const producers = getStreamProducers(room, req.params.streamId);
+  if (producers.length === 0) {
+    return res.status(404).json({ success: false, error: 'Stream not found' });
+  }
+  if (!req.is(SDP_CONTENT_TYPE) || typeof req.body !== 'string') {
+    return res.status(415).json({ success: false, error: `Content-Type must be ${SDP_CONTENT_TYPE}` });
+  }
+  const whepOffer = parseWhepOffer(req.body);
+  if (typeof whepOffer === 'string') {
+    return res.status(400).json({ success: false, error: whepOffer });
+  }
+  // Tracks the broadcaster has in a codec the player decodes
+  const tracks = whepOffer.tracks.flatMap((track): WhepSessionTrack[] => {
+    const producer = producers.find(candidate => candidate.kind === track.kind);
+    const routerCodec = producer && getWhepRouterCodec(track, producer.rtpParameters.codecs[0]);
+    return producer && routerCodec ? [{ track, producer, routerCodec }] : [];
+  });
+  if (tracks.length === 0) {
+    return res.status(400).json({ success: false, error: 'The offer cannot receive any track of this stream' });
+  }
+  try {
+    const session = await startWhepSession(room, req.params.streamId, whepOffer.offer, tracks);
+    sendSdpAnswer(res, session, `/whep/${room.id}/${session.streamId}/${session.id}`, buildSdpAnswer(whepOffer.offer, session.transport, 'sendonly'));
+  } catch (error: any) {
+    console.error(`Error starting WHEP session for stream ${req.params.streamId}:`, error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.patch('/whep/:roomId/:streamId/:sessionId', sdpBodyParser, (req, res) => {
+  patchHttpSessionIce(req, res, findWhepSession(req.params.roomId, req.params.streamId, req.params.sessionId));
+});
+
+app.delete('/whep/:roomId/:streamId/:sessionId', (req, res) => {
+  const session = findWhepSession(req.params.roomId, req.params.streamId, req.params.sessionId);
+  if (!session) {
+    return res.status(404).json({ success: false, error: 'WHEP session not found' });
+  }
+  stopWhepSession(session.id);
+  res.json({ success: true });
+});
+
+// Index of live per-broadcaster HLS streams (all rooms, or ?roomId=<id>)
+app.get('/api/streams', (req, res) => {
+  try {
+    const requestedRoomId = req.query.roomId;
+    if (requestedRoomId !== undefined && !isValidRoomId(requestedRoomId)) {
+      return res.status(400).json({ success: false, error: 'Invalid room id' });
+    }
+    const targetRooms = Array.from(rooms.values())
+      .filter(room => requestedRoomId === undefined || room.id === requestedRoomId);
+    const streams = targetRooms
+      .flatMap(room => Array.from(room.hlsComposition.activeStreams.entries()).map(([streamId, info]) => ({
+        roomId: room.id,
+        streamId,
+        socketId: info.socketId,
+        source: getPublisherSource(streamId),
+        startedAt: info.startedAt,
+        hasVideo: hasStreamVideo(info),
+        hasAudio: hasStreamAudio(info),
+        hasScreenShare: !!info.screenShare?.videoConsumer,
+        hlsMode: info.hlsMode,
+        segmentFormat: info.segmentFormat,
+        dvrWindowSeconds: info.dvrWindowSeconds,
+        recordingFormat: info.recordingFormat,
+        recordingId: info.recorder?.metadata.id ?? null,
+        // Segments appear a few seconds after FFmpeg starts
+        ready: isStreamHlsReady(room, streamId, info),
+        playlistUrl: getStreamPlaylistUrl(room, streamId),
+        dashManifestUrl: getStreamDashManifestUrl(room, streamId, info),
+        // Sub-second WebRTC playback of the same broadcaster
+        whepUrl: `/whep/${room.id}/${streamId}`
+      })));
+    // In a mosaic room the per-broadcaster playlists are not produced; viewers play the room playlist
+    const composition = targetRooms.map(room => ({
+      roomId: room.id,
+      layout: room.hlsComposition.layout,
+      playlistUrl: `/hls/${room.id}/playlist.m3u8`
+    }));
+    res.json({ success: true, streams, composition });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Add endpoint to manually restart HLS composition (all rooms, or ?roomId=<id>)
+app.get('/api/restart-hls', async (req, res) => {
+  try {
+    const requestedRoomId = req.query.roomId;
+    let targetRooms = Array.from(rooms.values());
+    if (requestedRoomId !== undefined) {
+      const room = isValidRoomId(requestedRoomId) ? rooms.get(requestedRoomId) : undefined;
+      if (!room) {
+        return res.status(404).json({ success: false, error: `Room ${requestedRoomId} not found` });
+      }
+      targetRooms = [room];
+    }
+
+    console.log(`Manually restarting HLS composition for ${targetRooms.length} room(s)...`);
     
-    // Log transport and consumer details
-    console.log(`PlainTransport tuple:`, hlsStreamSource.plainTransport.tuple);
-    console.log(`Consumer RTP parameters:`, JSON.stringify(videoConsumer.rtpParameters, null, 2));
+    // Stop any existing FFmpeg; streams keep their RTP ports
+    targetRooms.forEach(room => stopRoomComposition(room));
     
-    // Don't resume immediately - wait for FFmpeg to start
-    console.log(`Consumer created in paused state for producer ${producerId}`);
+    // Wait for ports to be released
+    await new Promise(resolve => setTimeout(resolve, 1000));
     
-    await restartHlsComposition();
+    // Restart rooms that have streams
+    const roomsWithStreams = targetRooms.filter(room => room.hlsComposition.activeStreams.size > 0);
+    if (roomsWithStreams.length > 0) {
+      for (const room of roomsWithStreams) {
+        await restartHlsComposition(room);
+      }
+      res.json({ 
+        success: true, 
+        message: 'HLS composition restarted', 
+        rooms: roomsWithStreams.map(room => ({
+          roomId: room.id,
+          activeStreams: room.hlsComposition.activeStreams.size,
+          layout: room.hlsComposition.layout,
+          ffmpegRunning: !!room.hlsComposition.ffmpegJob ||
+            Array.from(room.hlsComposition.activeStreams.values()).some(info => !!info.ffmpegJob)
+        }))
+      });
+    } else {
+      res.json({ 
+        success: false, 
+        message: 'No active streams to restart', 
+        activeStreams: 0 
+      });
+    }
+  } catch (error: any) {
+    console.error('Error restarting HLS:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
+const httpServer = http.createServer(app);
+const io: SignalingServer = new SocketIOServer(httpServer, {
+  cors: {
+    origin: '*',
+  },
+});
+io.use(checkProtocolVersion);
+
+const PORT = process.env.PORT || 3001;
+
+const getNumWorkers = () => {
+  try {
+    return os.cpus().length;
+  } catch (e) {
+    console.warn('Could not get CPU count, defaulting to 1 worker:', e);
+    return 1;
+  }
+};
+
+async function startMediasoup() {
+  await createWorkerPool(getNumWorkers());
+  onWorkerDied(handleWorkerDied);
+  // Routers are created per room on demand, see getOrCreateRoom()
+}
+
+// Rooms that had a router on the dead worker get a new one; their clients rebuild transports
+async function handleWorkerDied(deadWorker: mediasoupTypes.Worker) {
+  try {
+    const recoveries = await recoverRoomsFromDeadWorker(deadWorker);
+    for (const { room, affectedMembers, primaryReplaced } of recoveries) {
+      console.log(`Recovering room ${room.id} after worker ${deadWorker.pid} died (${affectedMembers.length} member(s) affected)`);
+      affectedMembers.forEach(socketId => {
+        io.to(socketId).emit('reconnect-required', { roomId: room.id, reason: 'media-worker-died' });
+      });
+      if (primaryReplaced) {
+        await rebuildHlsComposition(room);
+        // The observers died with the old primary router
+        if (room.speakerObservers) await createRoomSpeakerObservers(room);
+      }
+    }
   } catch (error) {
-    console.error(`Error adding stream ${producerId} to HLS composition:`, error);
-    // If adding stream fails, show live stream status
-    console.log('Stream addition failed, creating live stream status video...');
-    createStaticInformationalStream();
+    console.error(`Error recovering rooms after worker ${deadWorker.pid} died:`, error);
   }
 }
 
-async function stopFfmpegStream() {
-  console.log('HLS: Stopping FFMPEG stream (called by stopFfmpegStream)...');
-  isFfmpegLaunching = false;
+// Producers published outside Socket.IO (RTMP, SRT and WHIP ingest) live on the primary router and join the room like 'produce' does
+async function addServerSideProducer(room: Room, producer: mediasoupTypes.Producer, publisherId: string) {
+  room.producers.set(producer.id, { producer, router: room.router, socketId: publisherId, kind: producer.kind, appData: producer.appData });
+  allProducers.set(producer.id, { producer, socketId: publisherId, roomId: room.id, kind: producer.kind, appData: producer.appData });
+  console.log(`${producer.kind} producer ${producer.id} created for ${publisherId} in room ${room.id}, global count: ${allProducers.size}`);
+  await pipeProducerToRoom(room, producer, room.router);
+  await observeSpeaker(room, producer);
+  io.to(room.id).emit('new-producer', {
+    producerId: producer.id,
+    socketId: publisherId,
+    kind: producer.kind,
+    appData: producer.appData
+  });
+  await addProducerToHlsComposition(room, producer, publisherId);
+}
+
+function removeServerSideProducer(room: Room, producer: mediasoupTypes.Producer) {
+  if (!producer.closed) producer.close();
+  if (!room.producers.delete(producer.id)) return;
+  allProducers.delete(producer.id);
+  removeProducerFromHlsComposition(room, producer.id);
+  io.to(room.id).emit('producer-closed', { producerId: producer.id });
+}
 
-  if (ffmpegProcess) {
-    console.log('HLS: Killing existing FFMPEG process (stopFfmpegStream)...');
-    const currentProcess = ffmpegProcess;
-    ffmpegProcess = null;
-    currentProcess.kill('SIGKILL');
-    console.log("HLS: FFMPEG process kill signal sent.");
-  } else {
-    console.log('HLS: No active FFMPEG process to stop.');
+// Concurrent first audio producers of a room must share one set of observers
+const pendingSpeakerObservers = new Map<Room, Promise<SpeakerObservers>>();
+
+// Speaker detection starts with a room's first audio producer and follows its primary router
+async function observeSpeaker(room: Room, producer: mediasoupTypes.Producer) {
+  if (producer.kind !== 'audio') return;
+  const observers = room.speakerObservers;
+  if (observers && observers.router === room.router && !observers.router.closed) {
+    await observeSpeakerProducer(observers, producer.id);
+    return;
+  }
+  // New observers pick up every audio producer of the room, this one included
+  await createRoomSpeakerObservers(room);
+}
+
+async function createRoomSpeakerObservers(room: Room): Promise<SpeakerObservers> {
+  const pending = pendingSpeakerObservers.get(room);
+  if (pending) return pending;
+
+  const creation = (async () => {
+    const observers = await createSpeakerObservers(room.router, {
+      onDominantSpeaker: producerId => handleDominantSpeaker(room, producerId),
+      onAudioLevels: levels => io.to(room.id).emit('audio-levels', {
+        levels: levels.map(level => ({ ...level, socketId: room.producers.get(level.producerId)?.socketId ?? null }))
+      })
+    });
+    room.speakerObservers = observers;
+    for (const producerData of room.producers.values()) {
+      if (producerData.kind === 'audio' && !producerData.producer.closed) {
+        await observeSpeakerProducer(observers, producerData.producer.id);
+      }
+    }
+    console.log(`Speaker detection started for room ${room.id} on router ${room.router.id}`);
+    return observers;
+  })();
+
+  pendingSpeakerObservers.set(room, creation);
+  try {
+    return await creation;
+  } finally {
+    pendingSpeakerObservers.delete(room);
+  }
+}
+
+function handleDominantSpeaker(room: Room, producerId: string) {
+  const streamId = room.producers.get(producerId)?.socketId;
+  if (!streamId || room.dominantSpeaker?.producerId === producerId) return;
+  room.dominantSpeaker = { producerId, streamId };
+  io.to(room.id).emit('active-speaker', { producerId, socketId: streamId });
+  followDominantSpeaker(room);
+}
+
+// Move the dominant speaker into the main slot of a speaker or pip mosaic; each switch restarts the
+// mosaic FFmpeg, so a speaker who takes over too soon after the last switch gets it once the interval is up
+function followDominantSpeaker(room: Room) {
+  const composition = room.hlsComposition;
+  clearTimeout(composition.speakerSwitchTimer);
+  composition.speakerSwitchTimer = undefined;
+
+  const streamId = room.dominantSpeaker?.streamId;
+  if (!composition.followSpeaker || composition.layout === 'individual' || !hasMainSlot(composition.layout)) return;
+  if (!streamId || streamId === composition.speakerStreamId || !composition.activeStreams.has(streamId)) return;
+
+  const wait = (composition.speakerSwitchedAt ?? 0) + SPEAKER_SWITCH_MIN_INTERVAL_MS - Date.now();
+  if (wait > 0) {
+    composition.speakerSwitchTimer = setTimeout(() => followDominantSpeaker(room), wait);
+    return;
+  }
+  console.log(`Room ${room.id} main slot follows dominant speaker ${streamId}`);
+  composition.speakerStreamId = streamId;
+  composition.speakerSwitchedAt = Date.now();
+  scheduleHlsRestart(room);
+}
+
+function closeRoomIfEmpty(room: Room) {
+  if (room.members.size === 0 && room.producers.size === 0 && rooms.get(room.id) === room) {
+    closeRoom(room);
+  }
+}
+
+// An ingest publisher or WHEP player leaves the room; the room closes once nobody is left in it
+function releaseServerSideMember(room: Room, memberId: string) {
+  releaseMember(room, memberId);
+  closeRoomIfEmpty(room);
+}
+
+function getWebRtcListenIps(): mediasoupTypes.TransportListenIp[] {
+  return [{ ip: process.env.MEDIASOUP_LISTEN_IP || '127.0.0.1', announcedIp: process.env.MEDIASOUP_ANNOUNCED_IP || undefined }];
+}
+
+// An ingest relay that relays nothing this long has lost its encoder
+const INGEST_RELAY_STALL_TIMEOUT_MS = 15000;
+
+// One RTMP publish, relayed into PlainTransport producers of its key's room
+interface RtmpIngestSession {
+  // node-media-server session id
+  sessionId: string;
+  // Takes the place of a socket id: names the HLS stream and the producers' owner
+  publisherId: string;
+  ingestKey: RtmpIngestKey;
+  room?: Room;
+  transports: mediasoupTypes.PlainTransport[];
+  producers: mediasoupTypes.Producer[];
+  readerJob?: FfmpegJob;
+  relayJob?: FfmpegJob;
+  ended: boolean;
+}
+
+const rtmpIngestSessions = new Map<string, RtmpIngestSession>();
+
+function getPublisherSource(publisherId: string): 'rtmp' | 'srt' | 'whip' | 'webrtc' {
+  if (Array.from(rtmpIngestSessions.values()).some(session => session.publisherId === publisherId)) return 'rtmp';
+  if (Array.from(srtIngestSessions.values()).some(session => session.publisherId === publisherId)) return 'srt';
+  if (Array.from(whipSessions.values()).some(session => session.publisherId === publisherId)) return 'whip';
+  return 'webrtc';
+}
+
+function startRtmpIngestServer() {
+  loadIngestKeys(process.env.RTMP_INGEST_KEYS, isValidRoomId);
+  startRtmpServer(RTMP_PORT, {
+    onPublishRequest: (sessionId, ingestKey) => {
+      // One encoder per key at a time
+      if (Array.from(rtmpIngestSessions.values()).some(session => session.ingestKey.key === ingestKey.key)) return false;
+      rtmpIngestSessions.set(sessionId, {
+        sessionId,
+        publisherId: `rtmp-${sessionId}`,
+        ingestKey,
+        transports: [],
+        producers: [],
+        ended: false
+      });
+      return true;
+    },
+    onPublishStarted: (sessionId) => {
+      const session = rtmpIngestSessions.get(sessionId);
+      if (!session) return;
+      startRtmpRelay(session).catch(error => {
+        console.error(`Error relaying RTMP publish ${sessionId}:`, error);
+        rejectRtmpSession(sessionId);
+      });
+    },
+    onPublishEnded: (sessionId) => stopRtmpIngest(sessionId)
+  });
+}
+
+// What the reader and relay FFmpeg of an RTMP or SRT ingest work for
+interface IngestRelaySession {
+  publisherId: string;
+  transports: mediasoupTypes.PlainTransport[];
+  producers: mediasoupTypes.Producer[];
+  readerJob?: FfmpegJob;
+  relayJob?: FfmpegJob;
+}
+
+// PlainTransport producers on the primary router for the kinds of the feed, for the relay FFmpeg to send to
+async function createIngestRelayProducers(
+  room: Room,
+  session: IngestRelaySession,
+  source: 'rtmp' | 'srt',
+  kinds: mediasoupTypes.MediaKind[],
+  onTransportClose: () => void
+): Promise<Partial<Record<mediasoupTypes.MediaKind, IngestRelayTarget>>> {
+  const targets: Partial<Record<mediasoupTypes.MediaKind, IngestRelayTarget>> = {};
+  for (const kind of kinds) {
+    // comedia: the transport learns the relay's address from its first packet
+    const transport = await room.router.createPlainTransport({ listenIp: '127.0.0.1', rtcpMux: false, comedia: true });
+    session.transports.push(transport);
+    const ssrc = createRelaySsrc();
+    const producer = await transport.produce({
+      kind,
+      rtpParameters: getRelayRtpParameters(kind, ssrc),
+      appData: { mediaType: kind, source, publisherId: session.publisherId, roomId: room.id }
+    });
+    session.producers.push(producer);
+    producer.on('transportclose', onTransportClose);
+    targets[kind] = { port: transport.tuple.localPort, rtcpPort: transport.rtcpTuple!.localPort, ssrc };
   }
+  return targets;
+}
 
-  if (hlsStreamSource.videoRtpConsumer) {
-    console.log('Closing HLS video RTP consumer:', hlsStreamSource.videoRtpConsumer.id);
-    if (!hlsStreamSource.videoRtpConsumer.closed) {
-        hlsStreamSource.videoRtpConsumer.close();
+// Producers for the kinds the reader found, fed by a relay that re-encodes the reader's stdout. False when
+// the ingest ended or lost its reader while the producers were created; the caller tears them down then.
+async function startIngestRelay(
+  room: Room,
+  session: IngestRelaySession,
+  source: 'rtmp' | 'srt',
+  kinds: mediasoupTypes.MediaKind[],
+  label: string,
+  isActive: () => boolean,
+  onEnd: () => void
+): Promise<boolean> {
+  if (kinds.length === 0) throw new Error('the feed has neither video nor audio');
+  const readerJob = session.readerJob;
+  const targets = await createIngestRelayProducers(room, session, source, kinds, onEnd);
+  if (!isActive() || !readerJob || session.readerJob !== readerJob) return false;
+
+  const relayJob: FfmpegJob = startFfmpegJob({
+    kind: source === 'rtmp' ? 'rtmp-relay' : 'srt-relay',
+    label,
+    roomId: room.id,
+    args: buildIngestRelayArgs(targets),
+    stdio: ['pipe', 'ignore', 'pipe'],
+    // The encoder only sends while it is connected; a relay that stops relaying is dropped like one that exits
+    stallTimeoutMs: INGEST_RELAY_STALL_TIMEOUT_MS,
+    onSpawn: child => {
+      // Writes fail once the relay is gone; its exit ends the ingest
+      child.stdin?.on('error', (error: Error) => console.warn(`Ingest relay stdin error for ${session.publisherId}:`, error.message));
+      if (child.stdin) readerJob.process?.stdout?.pipe(child.stdin);
+    },
+    onExit: () => {
+      if (session.relayJob !== relayJob) return;
+      session.relayJob = undefined;
+      onEnd();
     }
-    hlsStreamSource.videoRtpConsumer = undefined;
+  });
+  session.relayJob = relayJob;
+  return true;
+}
+
+async function startRtmpRelay(session: RtmpIngestSession) {
+  const room = await getOrCreateRoom(session.ingestKey.roomId);
+  session.room = room;
+  // Counts as a member so the room stays open while only the encoder is in it
+  room.members.add(session.publisherId);
+  if (session.ended) {
+    teardownRtmpIngest(session);
+    return;
   }
-  if (hlsStreamSource.audioRtpConsumer) {
-    console.log('Closing HLS audio RTP consumer:', hlsStreamSource.audioRtpConsumer.id);
-     if (!hlsStreamSource.audioRtpConsumer.closed) {
-        hlsStreamSource.audioRtpConsumer.close();
+  console.log(`RTMP publish ${session.sessionId} started in room ${room.id} as ${session.publisherId}`);
+
+  // Without the reader or relay the producers stay silent, and a primary router that went away with its
+  // worker takes them along; drop the encoder so it reconnects into a fresh relay
+  const endPublish = () => { if (!session.ended) rejectRtmpSession(session.sessionId); };
+  // Reader output until FFmpeg has described the publish
+  let readerOutput: string | null = '';
+  const readerJob: FfmpegJob = startFfmpegJob({
+    kind: 'rtmp-relay',
+    label: `RTMP publish ${session.publisherId}`,
+    roomId: room.id,
+    args: buildIngestReaderArgs(getRtmpUrl('127.0.0.1', RTMP_PORT, session.ingestKey.key)),
+    stallTimeoutMs: INGEST_RELAY_STALL_TIMEOUT_MS,
+    redact: text => text.split(session.ingestKey.key).join('<key>'),
+    onStderr: output => {
+      if (session.readerJob !== readerJob || readerOutput === null) return;
+      readerOutput += output;
+      const kinds = parseIngestInputKinds(readerOutput);
+      if (!kinds) return;
+      readerOutput = null;
+      relayRtmpPublish(session, room, kinds, endPublish).catch(error => {
+        console.error(`Error relaying RTMP publish ${session.sessionId}:`, error);
+        endPublish();
+      });
+    },
+    onExit: () => {
+      if (session.readerJob === readerJob) session.readerJob = undefined;
+      endPublish();
     }
-    hlsStreamSource.audioRtpConsumer = undefined;
+  });
+  session.readerJob = readerJob;
+}
+
+async function relayRtmpPublish(session: RtmpIngestSession, room: Room, kinds: mediasoupTypes.MediaKind[], endPublish: () => void) {
+  const label = `RTMP publish ${session.publisherId} relay`;
+  if (!await startIngestRelay(room, session, 'rtmp', kinds, label, () => !session.ended, endPublish)) {
+    teardownRtmpIngest(session);
+    return;
+  }
+  console.log(`RTMP publish ${session.sessionId} has ${kinds.join(' and ')}`);
+  for (const producer of session.producers) {
+    await addServerSideProducer(room, producer, session.publisherId);
+  }
+}
+
+function teardownRtmpIngest(session: RtmpIngestSession) {
+  stopFfmpegJob(session.readerJob);
+  stopFfmpegJob(session.relayJob);
+  session.readerJob = undefined;
+  session.relayJob = undefined;
+  const room = session.room;
+  session.producers.forEach(producer => {
+    if (room) removeServerSideProducer(room, producer);
+    else if (!producer.closed) producer.close();
+  });
+  session.transports.forEach(transport => { if (!transport.closed) transport.close(); });
+  session.producers = [];
+  session.transports = [];
+  if (room) releaseServerSideMember(room, session.publisherId);
+}
+
+function stopRtmpIngest(sessionId: string) {
+  const session = rtmpIngestSessions.get(sessionId);
+  if (!session) return;
+  rtmpIngestSessions.delete(sessionId);
+  session.ended = true;
+  console.log(`RTMP publish ${sessionId} ended (${session.publisherId})`);
+  teardownRtmpIngest(session);
+}
+
+// A route's relay listens again this long after its caller left or FFmpeg failed
+const SRT_RELISTEN_DELAY_MS = 2000;
+
+// One SRT route: a relay FFmpeg listening on the route's port, started again after every caller
+interface SrtIngestSession {
+  stream: SrtStream;
+  state: 'listening' | 'connected' | 'stopped';
+  // New for every caller: names the HLS stream and the producers' owner
+  publisherId: string;
+  room?: Room;
+  transports: mediasoupTypes.PlainTransport[];
+  producers: mediasoupTypes.Producer[];
+  // The listener; it reads the caller's feed for the relay
+  readerJob?: FfmpegJob;
+  relayJob?: FfmpegJob;
+  connectedAt: number | null;
+  // Callers the route has had since it was created
+  connections: number;
+  relistenTimer?: NodeJS.Timeout;
+}
+
+const srtIngestSessions = new Map<string, SrtIngestSession>();
+
+function startSrtIngest(stream: SrtStream) {
+  const session: SrtIngestSession = {
+    stream, state: 'listening', publisherId: '', transports: [], producers: [], connectedAt: null, connections: 0
+  };
+  srtIngestSessions.set(stream.streamId, session);
+  listenForSrtCaller(session);
+}
+
+function listenForSrtCaller(session: SrtIngestSession) {
+  startSrtRelay(session).catch(error => {
+    console.error(`Error starting SRT listener for stream ${session.stream.streamId}:`, error);
+    relistenForSrtCaller(session);
+  });
+}
+
+// Tear down what the last caller published and wait for the next one
+function relistenForSrtCaller(session: SrtIngestSession) {
+  stopFfmpegJob(session.readerJob);
+  stopFfmpegJob(session.relayJob);
+  session.readerJob = undefined;
+  session.relayJob = undefined;
+  teardownSrtCaller(session);
+  if (session.state === 'stopped') return;
+  session.state = 'listening';
+  clearTimeout(session.relistenTimer);
+  session.relistenTimer = setTimeout(() => listenForSrtCaller(session), SRT_RELISTEN_DELAY_MS);
+}
+
+async function startSrtRelay(session: SrtIngestSession) {
+  const { stream } = session;
+  const room = await getOrCreateRoom(stream.roomId);
+  session.room = room;
+  session.publisherId = `srt-${randomUUID()}`;
+  // Counts as a member while listening, so the room of a waiting route stays open
+  room.members.add(session.publisherId);
+  if (session.state === 'stopped') {
+    teardownSrtCaller(session);
+    return;
+  }
+
+  console.log(`SRT stream ${stream.streamId} listening on port ${stream.port} for room ${room.id}`);
+  // Output of the listener until its caller is relayed: the accepted stream id, then the probed input
+  let callerOutput: string | null = '';
+  const readerJob: FfmpegJob = startFfmpegJob({
+    kind: 'srt-relay',
+    label: `SRT stream ${stream.streamId}`,
+    roomId: room.id,
+    // The listener logs the stream id of the caller it accepts only at verbose level
+    args: ['-loglevel', 'verbose', ...buildIngestReaderArgs(getSrtListenUrl(stream))],
+    // Counted from the first stats line, so a listener waiting for its caller is not stalled
+    stallTimeoutMs: INGEST_RELAY_STALL_TIMEOUT_MS,
+    redact: text => maskSrtPassphrase(text, stream),
+    onStderr: output => {
+      if (session.readerJob !== readerJob || callerOutput === null) return;
+      callerOutput += output;
+      const callerStreamId = parseSrtCallerStreamId(callerOutput);
+      if (callerStreamId !== null && callerStreamId !== stream.streamId) {
+        console.warn(`SRT caller on port ${stream.port} asked for stream "${callerStreamId}", not ${stream.streamId}; dropping it`);
+        relistenForSrtCaller(session);
+        return;
+      }
+      // FFmpeg describes its input once a caller has connected and the MPEG-TS stream is probed
+      const kinds = parseIngestInputKinds(callerOutput);
+      if (!kinds) return;
+      if (callerStreamId === null) {
+        console.warn(`SRT caller of stream ${stream.streamId} was accepted without a logged stream id; dropping it`);
+        relistenForSrtCaller(session);
+        return;
+      }
+      callerOutput = null;
+      announceSrtCaller(session, room, kinds).catch(error => {
+        console.error(`Error publishing SRT stream ${stream.streamId}:`, error);
+        relistenForSrtCaller(session);
+      });
+    },
+    // The caller left, the passphrase did not match or the port is taken; listen again either way
+    onExit: () => { if (session.readerJob === readerJob) relistenForSrtCaller(session); }
+  });
+  session.readerJob = readerJob;
+}
+
+async function announceSrtCaller(session: SrtIngestSession, room: Room, kinds: mediasoupTypes.MediaKind[]) {
+  const { stream } = session;
+  const relisten = () => relistenForSrtCaller(session);
+  // The primary router went away with its worker, or the relay ended; the caller reconnects into a fresh one
+  if (!await startIngestRelay(room, session, 'srt', kinds, `SRT stream ${stream.streamId} relay`, () => session.state === 'listening', relisten)) {
+    relisten();
+    return;
+  }
+  session.state = 'connected';
+  session.connectedAt = Date.now();
+  session.connections++;
+  console.log(`SRT caller connected to stream ${stream.streamId} in room ${room.id} as ${session.publisherId} with ${kinds.join(' and ')}`);
+  for (const producer of session.producers) {
+    await addServerSideProducer(room, producer, session.publisherId);
+  }
+}
+
+function teardownSrtCaller(session: SrtIngestSession) {
+  const room = session.room;
+  if (session.state === 'connected') {
+    console.log(`SRT caller of stream ${session.stream.streamId} left (${session.publisherId})`);
+  }
+  session.producers.forEach(producer => {
+    if (room) removeServerSideProducer(room, producer);
+    else if (!producer.closed) producer.close();
+  });
+  session.transports.forEach(transport => { if (!transport.closed) transport.close(); });
+  session.producers = [];
+  session.transports = [];
+  session.connectedAt = null;
+  if (room) releaseServerSideMember(room, session.publisherId);
+  session.room = undefined;
+}
+
+function stopSrtIngest(streamId: string) {
+  const session = srtIngestSessions.get(streamId);
+  if (!session) return;
+  srtIngestSessions.delete(streamId);
+  session.state = 'stopped';
+  clearTimeout(session.relistenTimer);
+  console.log(`SRT stream ${streamId} stopped listening on port ${session.stream.port}`);
+  relistenForSrtCaller(session);
+}
+
+function startSrtIngestListeners() {
+  setSrtBasePort(SRT_BASE_PORT);
+  loadSrtStreams(process.env.SRT_INGEST_STREAMS, isValidRoomId);
+  listSrtStreams().forEach(startSrtIngest);
+}
+
+// A client that never completes ICE, or loses it without restarting, is dropped after this long
+const HTTP_SESSION_CONNECT_TIMEOUT_MS = 30000;
+
+// A WebRtcTransport negotiated over HTTP (WHIP or WHEP) instead of Socket.IO
+interface HttpWebRtcSession {
+  id: string;
+  // 'WHIP' or 'WHEP', for logs
+  protocol: string;
+  room: Room;
+  transport: mediasoupTypes.WebRtcTransport;
+  offer: SdpOffer;
+  // Client ICE ufrag; a PATCH with another one restarts ICE
+  remoteIceUfrag: string;
+  connectTimeout?: NodeJS.Timeout;
+}
+
+// One WHIP publish: a WebRtcTransport on the room's primary router and a producer per accepted m-section
+interface WhipSession extends HttpWebRtcSession {
+  // Takes the place of a socket id: names the HLS stream and the producers' owner
+  publisherId: string;
+  producers: mediasoupTypes.Producer[];
+}
+
+// One WHEP player: a router of its own with the broadcaster's producers piped in, a WebRtcTransport on it
+// and a consumer per track
+interface WhepSession extends HttpWebRtcSession {
+  viewerId: string;
+  streamId: string;
+  router: mediasoupTypes.Router;
+  consumers: mediasoupTypes.Consumer[];
+}
+
+// A track of the offer, the producer it plays and the session router codec for it
+interface WhepSessionTrack {
+  track: WhepRequestedTrack;
+  producer: mediasoupTypes.Producer;
+  routerCodec: mediasoupTypes.RtpCodecCapability;
+}
+
+const whipSessions = new Map<string, WhipSession>();
+const whepSessions = new Map<string, WhepSession>();
+
+// Changes with every ICE restart, so a PATCH can be matched to the credentials it was written for
+function getHttpSessionETag(session: HttpWebRtcSession): string {
+  return `"${session.transport.iceParameters.usernameFragment}"`;
+}
+
+function armHttpSessionTimeout(session: HttpWebRtcSession, stop: () => void) {
+  clearTimeout(session.connectTimeout);
+  session.connectTimeout = setTimeout(() => {
+    console.warn(`${session.protocol} session ${session.id} has no ICE connection after ${HTTP_SESSION_CONNECT_TIMEOUT_MS} ms; ending it`);
+    stop();
+  }, HTTP_SESSION_CONNECT_TIMEOUT_MS);
+}
+
+function watchHttpSessionTransport(session: HttpWebRtcSession, stop: () => void) {
+  const { transport } = session;
+  transport.on('icestatechange', (iceState) => {
+    if (iceState === 'connected' || iceState === 'completed') clearTimeout(session.connectTimeout);
+    else if (iceState === 'disconnected') armHttpSessionTimeout(session, stop);
+    else if (iceState === 'closed') stop();
+  });
+  transport.on('dtlsstatechange', (dtlsState) => {
+    if (dtlsState === 'failed' || dtlsState === 'closed') stop();
+  });
+  // The router went away with its worker; the client has to start over
+  transport.on('routerclose', stop);
+  armHttpSessionTimeout(session, stop);
+}
+
+function createHttpSessionTransport(router: mediasoupTypes.Router, memberId: string, producing: boolean) {
+  return router.createWebRtcTransport({
+    listenIps: getWebRtcListenIps(),
+    enableUdp: true, enableTcp: true, preferUdp: true,
+    appData: { producing, consuming: !producing, socketId: memberId }
+  });
+}
+
+async function startWhipSession(room: Room, offer: SdpOffer): Promise<WhipSession> {
+  const id = randomUUID();
+  const publisherId = `whip-${id}`;
+  const transport = await createHttpSessionTransport(room.router, publisherId, true);
+  // Counts as a member so the room stays open while only the encoder is in it
+  room.members.add(publisherId);
+  const session: WhipSession = {
+    id, protocol: 'WHIP', room, transport, offer, remoteIceUfrag: offer.iceUfrag, publisherId, producers: []
+  };
+  whipSessions.set(id, session);
+  console.log(`WHIP session ${id} started in room ${room.id} as ${publisherId}`);
+  watchHttpSessionTransport(session, () => stopWhipSession(id));
+
+  try {
+    await transport.connect({ dtlsParameters: offer.dtlsParameters });
+    for (const section of offer.media) {
+      const producer = await transport.produce({
+        kind: section.kind,
+        rtpParameters: section.rtpParameters,
+        appData: { mediaType: section.kind, source: 'whip', publisherId, roomId: room.id, mid: section.mid }
+      });
+      session.producers.push(producer);
+    }
+    for (const producer of session.producers) {
+      await addServerSideProducer(room, producer, publisherId);
+    }
+  } catch (error) {
+    stopWhipSession(id);
+    throw error;
+  }
+  return session;
+}
+
+function stopWhipSession(sessionId: string) {
+  const session = whipSessions.get(sessionId);
+  if (!session) return;
+  whipSessions.delete(sessionId);
+  clearTimeout(session.connectTimeout);
+  console.log(`WHIP session ${sessionId} ended (${session.publisherId})`);
+  session.producers.forEach(producer => removeServerSideProducer(session.room, producer));
+  if (!session.transport.closed) session.transport.close();
+  releaseServerSideMember(session.room, session.publisherId);
+}
+
+// Live producers of one broadcaster (the HLS stream id is the publisher's socket or ingest id)
+function getStreamProducers(room: Room, streamId: string): mediasoupTypes.Producer[] {
+  return Array.from(room.producers.values())
+    .filter(entry => entry.socketId === streamId && !entry.producer.closed)
+    .map(entry => entry.producer);
+}
+
+async function startWhepSession(room: Room, streamId: string, offer: SdpOffer, tracks: WhepSessionTrack[]): Promise<WhepSession> {
+  const id = randomUUID();
+  const viewerId = `whep-${id}`;
+  // Its codecs carry the payload types of the offer, which the consumers then send with
+  const router = await getLeastLoadedWorker().createRouter({ mediaCodecs: tracks.map(entry => entry.routerCodec) });
+  let transport: mediasoupTypes.WebRtcTransport;
+  try {
+    for (const { producer } of tracks) {
+      const sourceRouter = room.producers.get(producer.id)?.router ?? room.router;
+      await sourceRouter.pipeToRouter({ producerId: producer.id, router });
+    }
+    transport = await createHttpSessionTransport(router, viewerId, false);
+  } catch (error) {
+    router.close();
+    throw error;
+  }
+  // Counts as a member so the room stays open while only players watch the ingest
+  room.members.add(viewerId);
+  const session: WhepSession = {
+    id, protocol: 'WHEP', room, transport, offer, remoteIceUfrag: offer.iceUfrag, viewerId, streamId, router, consumers: []
+  };
+  whepSessions.set(id, session);
+  console.log(`WHEP session ${id} started for stream ${streamId} in room ${room.id}`);
+  watchHttpSessionTransport(session, () => stopWhepSession(id));
+  // Consumers start paused; resuming them once DTLS is up also asks the broadcaster for a keyframe
+  transport.on('dtlsstatechange', (dtlsState) => {
+    if (dtlsState !== 'connected') return;
+    session.consumers.forEach(consumer => consumer.resume().catch(error => {
+      console.error(`Error resuming WHEP consumer ${consumer.id}:`, error);
+    }));
+  });
+
+  try {
+    await transport.connect({ dtlsParameters: offer.dtlsParameters });
+    for (const { track, producer } of tracks) {
+      const consumer = await transport.consume({
+        producerId: producer.id,
+        rtpCapabilities: track.rtpCapabilities,
+        paused: true,
+        mid: track.mid,
+        // The router picks RTX payload types of its own, which the offer may use for something else
+        enableRtx: false,
+        appData: { source: 'whep', viewerId, streamId }
+      });
+      session.consumers.push(consumer);
+      // The broadcaster stopped this track; the player is done once all of them are gone
+      consumer.on('producerclose', () => {
+        session.consumers = session.consumers.filter(candidate => candidate !== consumer);
+        if (session.consumers.length === 0) stopWhepSession(id);
+      });
+      offer.media.push({ mid: track.mid, kind: track.kind, rtpParameters: consumer.rtpParameters, msid: `${streamId} ${consumer.id}` });
+    }
+  } catch (error) {
+    stopWhepSession(id);
+    throw error;
   }
-  
-  hlsStreamSource.videoProducerId = undefined;
-  hlsStreamSource.audioProducerId = undefined;
+  return session;
+}
 
-  console.log('FFMPEG stream and associated HLS consumers should be stopped/cleaned up.');
+function stopWhepSession(sessionId: string) {
+  const session = whepSessions.get(sessionId);
+  if (!session) return;
+  whepSessions.delete(sessionId);
+  clearTimeout(session.connectTimeout);
+  console.log(`WHEP session ${sessionId} ended (stream ${session.streamId})`);
+  // Closes the transport, the consumers and the piped producers with it
+  if (!session.router.closed) session.router.close();
+  releaseServerSideMember(session.room, session.viewerId);
 }
 
 io.on('connection', (socket) => {
@@ -837,163 +1983,318 @@ io.on('connection', (socket) => {
     consumers: new Map<string, mediasoupTypes.Consumer>(),
   };
 
-  socket.on('disconnect', () => {
-    console.log('User disconnected:', socket.id);
-    resources.producers.forEach(producer => {
-      if (producer.id === hlsStreamSource.videoProducerId) {
-        console.log(`HLS video producer ${producer.id} disconnected. Stopping FFMPEG stream.`);
-        stopFfmpegStream();
-      }
-      if(!producer.closed) producer.close();
-      allProducers.delete(producer.id);
-      socket.broadcast.emit('producer-closed', { producerId: producer.id });
-    });
+  // The room this socket has joined; every media operation is scoped to it
+  let room: Room | null = null;
+
+  const removeProducer = (producer: mediasoupTypes.Producer) => {
+    if (!producer.closed) producer.close();
+    resources.producers.delete(producer.id);
+    allProducers.delete(producer.id);
+    if (!room) return;
+    room.producers.delete(producer.id);
+    removeProducerFromHlsComposition(room, producer.id);
+    socket.to(room.id).emit('producer-closed', { producerId: producer.id });
+  };
+
+  const leaveRoom = () => {
+    if (!room) return;
+    const leavingRoom = room;
+    resources.producers.forEach(producer => removeProducer(producer));
     resources.consumers.forEach(consumer => { if(!consumer.closed) consumer.close(); });
     resources.transports.forEach(transport => { if(!transport.closed) transport.close(); });
+    resources.producers.clear();
+    resources.consumers.clear();
+    resources.transports.clear();
+    releaseMember(leavingRoom, socket.id);
+    socket.leave(leavingRoom.id);
+    room = null;
+    console.log(`Socket ${socket.id} left room ${leavingRoom.id} (${leavingRoom.members.size} member(s) left)`);
+    if (leavingRoom.members.size === 0 && leavingRoom.producers.size === 0) {
+      closeRoom(leavingRoom);
+    }
+  };
+
+  socket.on('disconnect', () => {
+    console.log('User disconnected:', socket.id);
+    leaveRoom();
     console.log(`Cleaned up resources for socket: ${socket.id}`);
   });
 
-  socket.on('getRouterRtpCapabilities', (callback) => {
+  onSignalingRequest(socket, 'joinRoom', async ({ roomId }, callback) => {
     try {
-      callback(router.rtpCapabilities);
-    } catch (e: any) {
-      callback({ error: e.message });
+      if (room && room.id !== roomId) {
+        leaveRoom();
+      }
+      const joinedRoom = await getOrCreateRoom(roomId);
+      // Rejoining the same room (e.g. after reconnect-required) just picks a live router again
+      const memberRouter = await assignMemberRouter(joinedRoom, socket.id);
+      room = joinedRoom;
+      joinedRoom.members.add(socket.id);
+      socket.join(joinedRoom.id);
+      console.log(`Socket ${socket.id} joined room ${joinedRoom.id} on router ${memberRouter.id} (${joinedRoom.members.size} member(s))`);
+      callback({ roomId: joinedRoom.id });
+    } catch (error: any) {
+      console.error(`Error joining room ${roomId} for ${socket.id}:`, error);
+      callback(signalingError('internal', error.message));
     }
   });
 
-  socket.on('clientReadyForExistingProducers', () => {
-    console.log(`Socket ${socket.id} is ready for existing producers. Informing...`);
-    allProducers.forEach((producerData, producerId) => {
+  onSignalingRequest(socket, 'getRouterRtpCapabilities', (_request, callback) => {
+    const memberRouter = room && getMemberRouter(room, socket.id);
+    if (!memberRouter) return callback(signalingError('not-in-room', 'Join a room before requesting RTP capabilities'));
+    callback({ rtpCapabilities: memberRouter.rtpCapabilities });
+  });
+
+  onSignalingRequest(socket, 'clientReadyForExistingProducers', () => {
+    if (!room) {
+      console.warn(`Socket ${socket.id} is ready for existing producers but has not joined a room`);
+      return;
+    }
+    console.log(`Socket ${socket.id} is ready for existing producers in room ${room.id}. Informing...`);
+    room.producers.forEach((producerData, producerId) => {
       if (producerData.socketId !== socket.id) {
         console.log(`Sending existing producer ${producerId} (from socket ${producerData.socketId}) to ready socket ${socket.id}`);
         socket.emit('new-producer', {
           producerId: producerData.producer.id,
           socketId: producerData.socketId,
           kind: producerData.kind,
-          appData: producerData.appData
+          appData: producerData.appData,
+          paused: producerData.producer.paused
         });
       }
     });
+    const dominantSpeaker = room.dominantSpeaker;
+    if (dominantSpeaker && room.producers.has(dominantSpeaker.producerId)) {
+      socket.emit('active-speaker', { producerId: dominantSpeaker.producerId, socketId: dominantSpeaker.streamId });
+    }
   });
 
-  socket.on('createWebRtcTransport', async ({ producing, consuming }, callback) => {
+  // Simulcast/SVC consumers follow the viewer's bandwidth estimate until the viewer picks layers itself
+  const autoLayerConsumers = new Set<string>();
+
+  const getProducerRtpParameters = (consumer: mediasoupTypes.Consumer) =>
+    room?.producers.get(consumer.producerId)?.producer.rtpParameters ?? consumer.rtpParameters;
+
+  const followBandwidthEstimate = (transport: mediasoupTypes.Transport, availableBitrate: number) => {
+    transport.appData.availableBitrate = availableBitrate;
+    resources.consumers.forEach(consumer => {
+      if (consumer.closed || consumer.appData.transportId !== transport.id || !autoLayerConsumers.has(consumer.id)) return;
+      const layers = selectLayersForBitrate(getProducerRtpParameters(consumer), availableBitrate);
+      const preferred = consumer.preferredLayers;
+      if (preferred?.spatialLayer === layers.spatialLayer && preferred?.temporalLayer === layers.temporalLayer) return;
+      consumer.setPreferredLayers(layers).catch(error => console.error(`Error setting layers of consumer ${consumer.id}:`, error));
+    });
+  };
+
+  // estimatedBitrate (bits/s, optional): the viewer's own bandwidth guess, the starting point of a receiving transport
+  onSignalingRequest(socket, 'createWebRtcTransport', async ({ producing, consuming, estimatedBitrate }, callback) => {
+    const memberRouter = room && getMemberRouter(room, socket.id);
+    if (!memberRouter) return callback(signalingError('not-in-room', 'Join a room before creating transports'));
     try {
+      const availableBitrate = toAvailableBitrate(estimatedBitrate);
       const webRtcTransportOptions: mediasoupTypes.WebRtcTransportOptions = {
-        listenIps: [{ ip: process.env.MEDIASOUP_LISTEN_IP || '127.0.0.1', announcedIp: process.env.MEDIASOUP_ANNOUNCED_IP || undefined }],
+        listenIps: getWebRtcListenIps(),
         enableUdp: true, enableTcp: true, preferUdp: true,
-        appData: { producing, consuming, socketId: socket.id }
+        ...(consuming ? { initialAvailableOutgoingBitrate: availableBitrate } : {}),
+        appData: { producing, consuming, socketId: socket.id, availableBitrate }
       };
-      const transport = await router.createWebRtcTransport(webRtcTransportOptions);
+      const transport = await memberRouter.createWebRtcTransport(webRtcTransportOptions);
       resources.transports.set(transport.id, transport);
       transport.on('dtlsstatechange', (dtlsState) => { if (dtlsState === 'closed') { if(!transport.closed) transport.close(); resources.transports.delete(transport.id); } });
+      if (consuming) {
+        await transport.enableTraceEvent(['bwe']);
+        transport.on('trace', (trace) => {
+          const { availableBitrate: estimate } = trace.info as { availableBitrate?: number };
+          if (trace.type === 'bwe' && typeof estimate === 'number') followBandwidthEstimate(transport, estimate);
+        });
+      }
       callback({ id: transport.id, iceParameters: transport.iceParameters, iceCandidates: transport.iceCandidates, dtlsParameters: transport.dtlsParameters, sctpParameters: transport.sctpParameters });
     } catch (error: any) {
-      callback({ error: error.message });
+      callback(signalingError('internal', error.message));
     }
   });
 
-  socket.on('connectTransport', async ({ transportId, dtlsParameters }, callback) => {
+  onSignalingRequest(socket, 'connectTransport', async ({ transportId, dtlsParameters }, callback) => {
     const transport = resources.transports.get(transportId);
-    if (!transport) return callback({ error: `Transport ${transportId} not found` });
+    if (!transport) return callback(signalingError('not-found', `Transport ${transportId} not found`));
     try {
       await transport.connect({ dtlsParameters });
       callback({}); 
     } catch (error: any) {
-      callback({ error: error.message });
+      callback(signalingError('internal', error.message));
     }
   });
 
-  socket.on('produce', async ({ transportId, kind, rtpParameters, appData }, callback) => {
+  onSignalingRequest(socket, 'produce', async ({ transportId, kind, rtpParameters, appData }, callback) => {
+    const currentRoom = room;
+    const memberRouter = currentRoom && getMemberRouter(currentRoom, socket.id);
+    if (!currentRoom || !memberRouter) return callback(signalingError('not-in-room', 'Join a room before producing'));
     const transport = resources.transports.get(transportId);
     if (!transport || !transport.appData.producing) {
-      return callback({ error: `Transport ${transportId} not found or not for producing.` });
+      return callback(signalingError('not-found', `Transport ${transportId} not found or not for producing.`));
     }
     try {
-      const producer = await transport.produce({ kind, rtpParameters, appData: { ...appData, socketId: socket.id, transportId } });
+      const producer = await transport.produce({ kind, rtpParameters, appData: { ...appData, socketId: socket.id, transportId, roomId: currentRoom.id } });
       resources.producers.set(producer.id, producer);
-      allProducers.set(producer.id, { producer, socketId: socket.id, kind: producer.kind, appData: producer.appData });
-      console.log(`${kind} producer ${producer.id} created for ${socket.id}, global count: ${allProducers.size}`);
+      currentRoom.producers.set(producer.id, { producer, router: memberRouter, socketId: socket.id, kind: producer.kind, appData: producer.appData });
+      allProducers.set(producer.id, { producer, socketId: socket.id, roomId: currentRoom.id, kind: producer.kind, appData: producer.appData });
+      console.log(`${kind} producer ${producer.id} created for ${socket.id} in room ${currentRoom.id}, global count: ${allProducers.size}`);
 
       producer.on('transportclose', () => {
         console.log(`Producer ${producer.id} (transport closed)`);
-        if (producer.id === hlsStreamSource.videoProducerId) {
-            stopFfmpegStream();
-        }
-        // Remove from HLS composition if it's a video producer
-        if (kind === 'video') {
-          removeStreamFromHlsComposition(producer.id);
-        }
-        if(!producer.closed) producer.close(); 
-        resources.producers.delete(producer.id);
-        allProducers.delete(producer.id);
+        removeProducer(producer);
         console.log(`Producer ${producer.id} removed from allProducers, global count: ${allProducers.size}`);
-        socket.broadcast.emit('producer-closed', { producerId: producer.id });
       });
       callback({ id: producer.id });
-      socket.broadcast.emit('new-producer', { 
+      // Members on other routers (and the HLS PlainTransports on the primary) need a piped copy
+      await pipeProducerToRoom(currentRoom, producer, memberRouter);
+      await observeSpeaker(currentRoom, producer);
+      socket.to(currentRoom.id).emit('new-producer', { 
         producerId: producer.id, 
         socketId: socket.id,
         kind: producer.kind, 
         appData: producer.appData
       });
 
-      // Add video producers to HLS composition instead of old single-stream logic
-      if (kind === 'video') {
-        await addStreamToHlsComposition(producer, socket.id);
-      }
+      // Audio and video of this socket share one HLS stream
+      await addProducerToHlsComposition(currentRoom, producer, socket.id);
     } catch (error: any) {
       console.error(`Error producing ${kind} for ${socket.id}:`, error);
-      callback({ error: error.message });
+      callback(signalingError('internal', error.message));
     }
   });
 
-  socket.on('consume', async ({ producerId, transportId, rtpCapabilities }, callback) => {
-    if (!router.canConsume({ producerId, rtpCapabilities })) {
-      return callback({ error: `Client cannot consume producer ${producerId}` });
+  onSignalingRequest(socket, 'consume', async ({ producerId, transportId, rtpCapabilities }, callback) => {
+    const memberRouter = room && getMemberRouter(room, socket.id);
+    if (!room || !memberRouter) return callback(signalingError('not-in-room', 'Join a room before consuming'));
+    if (!room.producers.has(producerId)) return callback(signalingError('not-found', `Producer ${producerId} not found`));
+    if (!memberRouter.canConsume({ producerId, rtpCapabilities })) {
+      return callback(signalingError('rejected', `Client cannot consume producer ${producerId}`));
     }
     const transport = resources.transports.get(transportId);
     if (!transport || transport.appData.producing) {
-      return callback({ error: `Transport ${transportId} not found or not for consuming.` });
+      return callback(signalingError('not-found', `Transport ${transportId} not found or not for consuming.`));
     }
     try {
-      const consumer = await transport.consume({ producerId, rtpCapabilities, paused: false, appData: { socketId: socket.id, producerId, transportId } });
+      // Simulcast and SVC producers start at the layers the viewer's transport can take
+      const producerRtpParameters = room.producers.get(producerId)!.producer.rtpParameters;
+      const layered = hasSelectableLayers(producerRtpParameters);
+      const availableBitrate = typeof transport.appData.availableBitrate === 'number' ? transport.appData.availableBitrate : toAvailableBitrate(undefined);
+      const consumer = await transport.consume({
+        producerId, rtpCapabilities, paused: false,
+        ...(layered ? { preferredLayers: selectLayersForBitrate(producerRtpParameters, availableBitrate) } : {}),
+        appData: { socketId: socket.id, producerId, transportId }
+      });
       resources.consumers.set(consumer.id, consumer);
-      consumer.on('transportclose', () => { if(!consumer.closed) consumer.close(); resources.consumers.delete(consumer.id); });
+      if (layered) autoLayerConsumers.add(consumer.id);
+      consumer.on('transportclose', () => { if(!consumer.closed) consumer.close(); resources.consumers.delete(consumer.id); autoLayerConsumers.delete(consumer.id); });
       consumer.on('producerclose', () => { 
         if(!consumer.closed) consumer.close(); 
         resources.consumers.delete(consumer.id); 
+        autoLayerConsumers.delete(consumer.id);
         socket.emit('consumer-closed', { consumerId: consumer.id, producerId: consumer.producerId });
       });
-      callback({ id: consumer.id, producerId: consumer.producerId, kind: consumer.kind, rtpParameters: consumer.rtpParameters, appData: consumer.appData });
+      consumer.on('layerschange', (layers) => {
+        socket.emit('consumer-layers-changed', { consumerId: consumer.id, layers: layers ?? null });
+      });
+      callback({
+        id: consumer.id, producerId: consumer.producerId, kind: consumer.kind, rtpParameters: consumer.rtpParameters, appData: consumer.appData,
+        producerPaused: consumer.producerPaused
+      });
     } catch (error: any) {
-      callback({ error: error.message });
+      callback(signalingError('internal', error.message));
     }
   });
 
-  socket.on('resume-consumer', async ({ consumerId }, callback) => {
+  onSignalingRequest(socket, 'resume-consumer', async ({ consumerId }, callback) => {
+    const consumer = resources.consumers.get(consumerId);
+    if (consumer && !consumer.closed) { try { await consumer.resume(); callback({}); } catch (e: any) { callback(signalingError('internal', e.message))}} 
+    else { callback(signalingError('not-found', 'Consumer not found or closed')); }
+  });
+
+  // Pin the layers of a simulcast/SVC consumer: { consumerId, spatialLayer, temporalLayer? }, or spatialLayer 'auto'
+  // to follow the bandwidth estimate again
+  onSignalingRequest(socket, 'setPreferredLayers', async ({ consumerId, spatialLayer, temporalLayer }, callback) => {
     const consumer = resources.consumers.get(consumerId);
-    if (consumer && !consumer.closed) { try { await consumer.resume(); callback({}); } catch (e: any) { callback({error: e.message })}} 
-    else { callback({error: 'Consumer not found or closed'}); }
+    if (!consumer || consumer.closed) return callback(signalingError('not-found', 'Consumer not found or closed'));
+    if (consumer.type !== 'simulcast' && consumer.type !== 'svc') return callback(signalingError('rejected', 'Consumer has no layers to choose from'));
+    const producerRtpParameters = getProducerRtpParameters(consumer);
+    let layers: ConsumerLayers;
+    if (spatialLayer === 'auto') {
+      autoLayerConsumers.add(consumer.id);
+      const transport = resources.transports.get(String(consumer.appData.transportId));
+      const availableBitrate = typeof transport?.appData.availableBitrate === 'number' ? transport.appData.availableBitrate : toAvailableBitrate(undefined);
+      layers = selectLayersForBitrate(producerRtpParameters, availableBitrate);
+    } else {
+      autoLayerConsumers.delete(consumer.id);
+      layers = clampLayers(producerRtpParameters, spatialLayer, temporalLayer);
+    }
+    try {
+      await consumer.setPreferredLayers(layers);
+      callback({ preferredLayers: layers, auto: autoLayerConsumers.has(consumer.id) });
+    } catch (error: any) {
+      callback(signalingError('internal', error.message));
+    }
   });
 
-  socket.on('pause-consumer', async ({ consumerId }, callback) => {
+  // A broadcaster turning its camera or microphone off and on; peers and the HLS output follow
+  const setOwnProducerPaused = async (producerId: string, paused: boolean, callback: SignalingAck<ProducerPausedResult>) => {
+    const producer = resources.producers.get(producerId);
+    if (!room || !producer || producer.closed) return callback(signalingError('not-found', 'Producer not found or closed'));
+    try {
+      if (paused) await producer.pause();
+      else await producer.resume();
+      setHlsTrackPaused(room, producer.id, paused);
+      socket.to(room.id).emit(paused ? 'producer-paused' : 'producer-resumed', { producerId: producer.id, socketId: socket.id, kind: producer.kind });
+      console.log(`Socket ${socket.id} ${paused ? 'paused' : 'resumed'} ${producer.kind} producer ${producer.id}`);
+      callback({ paused: producer.paused });
+    } catch (error: any) {
+      callback(signalingError('internal', error.message));
+    }
+  };
+
+  onSignalingRequest(socket, 'pause-producer', ({ producerId }, callback) => setOwnProducerPaused(producerId, true, callback));
+  onSignalingRequest(socket, 'resume-producer', ({ producerId }, callback) => setOwnProducerPaused(producerId, false, callback));
+
+  onSignalingRequest(socket, 'pause-consumer', async ({ consumerId }, callback) => {
     const consumer = resources.consumers.get(consumerId);
-    if (consumer && !consumer.closed) { try { await consumer.pause(); callback({}); } catch (e: any) { callback({error: e.message })}} 
-    else { callback({error: 'Consumer not found or closed'}); }
+    if (consumer && !consumer.closed) { try { await consumer.pause(); callback({}); } catch (e: any) { callback(signalingError('internal', e.message))}} 
+    else { callback(signalingError('not-found', 'Consumer not found or closed')); }
   });
 
-  socket.on('close-producer', ({ producerId }) => {
-    const producerData = allProducers.get(producerId);
-    if (producerData && producerData.socketId === socket.id) {
+  onSignalingRequest(socket, 'close-producer', ({ producerId }) => {
+    const producer = resources.producers.get(producerId);
+    if (producer) {
         console.log(`Socket ${socket.id} closing producer ${producerId}`);
-        if (producerData.producer.id === hlsStreamSource.videoProducerId) stopFfmpegStream();
-        if(!producerData.producer.closed) producerData.producer.close();
-        resources.producers.delete(producerId);
-        allProducers.delete(producerId);
+        removeProducer(producer);
         console.log(`Producer ${producerId} (closed by client) removed from allProducers, global count: ${allProducers.size}`);
-        socket.broadcast.emit('producer-closed', { producerId: producerData.producer.id }); 
     } 
   });
+
+  // Restream targets of the socket's own broadcast; they live as long as its stream does
+  const getOwnStream = () => room?.hlsComposition.activeStreams.get(socket.id);
+
+  onSignalingRequest(socket, 'get-push-targets', (_request, callback) => {
+    const streamInfo = getOwnStream();
+    if (!streamInfo) return callback(signalingError('not-broadcasting', 'Start broadcasting before managing restream targets'));
+    callback({ pushTargets: Array.from(streamInfo.pushTargets.values()).map(toPushTargetResponse) });
+  });
+
+  onSignalingRequest(socket, 'add-push-target', ({ url, name }, callback) => {
+    const streamInfo = getOwnStream();
+    if (!room || !streamInfo) return callback(signalingError('not-broadcasting', 'Start broadcasting before managing restream targets'));
+    const target = addPushTarget(room, socket.id, streamInfo, url, name);
+    if (typeof target === 'string') return callback(signalingError('rejected', target));
+    callback({ pushTarget: toPushTargetResponse(target) });
+  });
+
+  onSignalingRequest(socket, 'remove-push-target', ({ targetId }, callback) => {
+    const streamInfo = getOwnStream();
+    const target = streamInfo?.pushTargets.get(targetId);
+    if (!streamInfo || !target) return callback(signalingError('not-found', 'Push target not found'));
+    removePushTarget(streamInfo, target);
+    callback({ pushTarget: toPushTargetResponse(target) });
+  });
 });
 
 httpServer.listen(PORT, async () => {
@@ -1001,10 +2302,11 @@ httpServer.listen(PORT, async () => {
   try {
     await startMediasoup();
     console.log('Mediasoup initialized successfully.');
+    startRtmpIngestServer();
+    startSrtIngestListeners();
     
-    // Create initial demo HLS stream
-    console.log('Creating initial demo HLS stream...');
-    createStaticInformationalStream();
+    // Viewers of the lobby playlist bring up its slate; one left from a previous run would be stale
+    discardSlatePlaylists();
     
   } catch (error) {
     console.error('Failed to initialize Mediasoup:', error);
@@ -1015,491 +2317,1221 @@ httpServer.listen(PORT, async () => {
 process.on('unhandledRejection', (reason, promise) => console.error('Unhandled Rejection:', reason));
 process.on('uncaughtException', (error) => { console.error('Uncaught Exception:', error); process.exit(1);}); 
 
-async function addStreamToHlsComposition(producer: mediasoupTypes.Producer, socketId: string) {
-  if (producer.kind !== 'video') return;
-
-  try {
-    console.log(`Adding video producer ${producer.id} to HLS composition`);
-    
-    const rtpPorts = getNextRtpPortPair();
-    
-    const plainTransport = await router.createPlainTransport({
-      listenIp: '127.0.0.1',
-      enableSctp: false,
-      rtcpMux: false,
-      comedia: false  // We'll specify the destination
+// Audio and video of one broadcaster arrive back to back; let them settle before (re)starting FFmpeg
+const HLS_RESTART_DEBOUNCE_MS = 1000;
+
+function scheduleHlsRestart(room: Room) {
+  clearTimeout(room.hlsComposition.restartTimer);
+  room.hlsComposition.restartTimer = setTimeout(() => {
+    room.hlsComposition.restartTimer = undefined;
+    if (rooms.get(room.id) !== room) return;
+    restartHlsComposition(room).catch(error => console.error(`Error restarting HLS composition for room ${room.id}:`, error));
+    // Recorders and restreams are independent of the composition; broadcasters whose take ended start a new one
+    room.hlsComposition.activeStreams.forEach((streamInfo, streamId) => {
+      startStreamRecording(room, streamId, streamInfo).catch(error => console.error(`Error starting recording of stream ${streamId}:`, error));
+      startStreamRestreams(room, streamId, streamInfo);
     });
+  }, HLS_RESTART_DEBOUNCE_MS);
+}
+
+// The tracks FFmpeg reads over RTP; paused ones are left out
+function getLiveHlsInputs(streamInfo: HlsStreamInfo): Pick<HlsStreamInfo, 'rtpPorts' | 'videoConsumer' | 'audioConsumer'> {
+  return {
+    rtpPorts: streamInfo.rtpPorts,
+    videoConsumer: streamInfo.pausedKinds.has('video') ? undefined : streamInfo.videoConsumer,
+    audioConsumer: streamInfo.pausedKinds.has('audio') ? undefined : streamInfo.audioConsumer
+  };
+}
+
+// The broadcaster paused or resumed a track: pause its HLS consumer too and restart the output, which swaps
+// the track for a slate (or back). Recorders and restreams just see a gap in the track.
+function setHlsTrackPaused(room: Room, producerId: string, paused: boolean) {
+  for (const [streamId, streamInfo] of room.hlsComposition.activeStreams.entries()) {
+    const kind = streamInfo.videoConsumer?.producerId === producerId ? 'video'
+      : streamInfo.audioConsumer?.producerId === producerId ? 'audio'
+      : null;
+    if (!kind || streamInfo.pausedKinds.has(kind) === paused) continue;
+
+    console.log(`${paused ? 'Pausing' : 'Resuming'} ${kind} of HLS stream ${streamId}`);
+    const consumer = kind === 'video' ? streamInfo.videoConsumer! : streamInfo.audioConsumer!;
+    if (paused) {
+      streamInfo.pausedKinds.add(kind);
+      consumer.pause().catch(error => console.error(`Error pausing HLS consumer of stream ${streamId}:`, error));
+    } else {
+      // The restarted output resumes the consumer once FFmpeg listens again
+      streamInfo.pausedKinds.delete(kind);
+    }
+    stopStreamHls(streamInfo);
+    scheduleHlsRestart(room);
+  }
+}
+
+function closeStreamMedia(trackSet: HlsTrackSet, kind: mediasoupTypes.MediaKind) {
+  const consumer = kind === 'video' ? trackSet.videoConsumer : trackSet.audioConsumer;
+  const transport = kind === 'video' ? trackSet.videoTransport : trackSet.audioTransport;
+  if (consumer && !consumer.closed) consumer.close();
+  if (transport && !transport.closed) transport.close();
+  if (kind === 'video') {
+    trackSet.videoConsumer = undefined;
+    trackSet.videoTransport = undefined;
+  } else {
+    trackSet.audioConsumer = undefined;
+    trackSet.audioTransport = undefined;
+  }
+}
+
+function hasTracks(trackSet: HlsTrackSet | undefined): boolean {
+  return !!trackSet?.videoConsumer || !!trackSet?.audioConsumer;
+}
+
+// Kinds the stream's HLS output carries, counting the screen share
+function hasStreamVideo(streamInfo: HlsStreamInfo): boolean {
+  return !!streamInfo.videoConsumer || !!streamInfo.screenShare?.videoConsumer;
+}
+
+function hasStreamAudio(streamInfo: HlsStreamInfo): boolean {
+  return !!streamInfo.audioConsumer || !!streamInfo.screenShare?.audioConsumer;
+}
+
+// A mosaic tile has one picture: the screen share when there is one, with the broadcaster's microphone
+function getMosaicHlsInputs(streamInfo: HlsStreamInfo): HlsTrackSet {
+  const liveInputs = getLiveHlsInputs(streamInfo);
+  const screenVideo = streamInfo.screenShare?.videoConsumer;
+  if (!screenVideo) return liveInputs;
+  return {
+    rtpPorts: { video: streamInfo.screenShare!.rtpPorts.video, audio: streamInfo.rtpPorts.audio },
+    videoConsumer: screenVideo,
+    audioConsumer: liveInputs.audioConsumer
+  };
+}
 
-    // Tell the transport where to send RTP/RTCP
-    await plainTransport.connect({
+// PlainTransport on the primary router sending one producer's RTP to FFmpeg on localhost
+async function consumeToRtpPort(room: Room, producerId: string, rtpPort: number, appData: mediasoupTypes.AppData) {
+  const transport = await room.router.createPlainTransport({
+    listenIp: '127.0.0.1',
+    enableSctp: false,
+    rtcpMux: false,
+    comedia: false  // We'll specify the destination
+  });
+
+  try {
+    // Tell the transport where to send RTP/RTCP; FFmpeg takes RTCP on the port after RTP
+    await transport.connect({
       ip: '127.0.0.1',
-      port: rtpPorts.video,
-      rtcpPort: rtpPorts.video + 1000
+      port: rtpPort,
+      rtcpPort: rtpPort + 1
     });
 
-    const videoConsumer = await plainTransport.consume({
-      producerId: producer.id,
-      rtpCapabilities: router.rtpCapabilities,
+    const consumer = await transport.consume({
+      producerId,
+      rtpCapabilities: room.router.rtpCapabilities,
       paused: true,  // Start paused, resume after FFMPEG connects
-      appData: { streamId: socketId, type: 'hls-composition' }
+      appData
     });
+    return { transport, consumer };
+  } catch (error) {
+    transport.close();
+    throw error;
+  }
+}
 
-    hlsComposition.activeStreams.set(producer.id, {
-      producerId: producer.id,
-      plainTransport: plainTransport,
-      videoConsumer: videoConsumer,
-      rtpPorts: rtpPorts
-    });
+// Null once the port range is used up; the producer then reaches WebRTC viewers but not HLS
+async function leaseHlsRtpPorts(room: Room, owner: string, producer: mediasoupTypes.Producer): Promise<RtpPortPair | null> {
+  try {
+    const rtpPorts = await leaseRtpPorts(owner, room.id);
+    // The room may have closed while the ports were probed
+    if (rooms.get(room.id) === room) return rtpPorts;
+    releaseRtpPorts(rtpPorts);
+  } catch (error) {
+    console.error(`Producer ${producer.id} is not added to HLS:`, error);
+  }
+  return null;
+}
 
-    console.log(`Stream ${producer.id} added to composition with video port: ${rtpPorts.video}, RTCP port: ${rtpPorts.video + 1000}`);
-    
-    // Log transport and consumer details
-    console.log(`PlainTransport tuple:`, plainTransport.tuple);
-    console.log(`Consumer RTP parameters:`, JSON.stringify(videoConsumer.rtpParameters, null, 2));
+function createHlsStreamInfo(socketId: string, producer: mediasoupTypes.Producer, rtpPorts: RtpPortPair): HlsStreamInfo {
+  return {
+    socketId: socketId,
+    startedAt: Date.now(),
+    rtpPorts,
+    // The broadcaster's first producer picks the packaging
+    hlsMode: isHlsMode(producer.appData.hlsMode) ? producer.appData.hlsMode : DEFAULT_HLS_MODE,
+    segmentFormat: isHlsSegmentFormat(producer.appData.segmentFormat) ? producer.appData.segmentFormat : DEFAULT_HLS_SEGMENT_FORMAT,
+    dvrWindowSeconds: isDvrWindowSeconds(producer.appData.dvrWindowSeconds) ? producer.appData.dvrWindowSeconds : DEFAULT_DVR_WINDOW_SECONDS,
+    // Recording is opt-in: appData.recording names the container ('mp4' or 'hls')
+    recordingFormat: isRecordingFormat(producer.appData.recording) ? producer.appData.recording : null,
+    pausedKinds: new Set(),
+    pushTargets: new Map()
+  };
+}
+
+// Pair every producer of a socket into that broadcaster's stream, whichever kind arrives first
+async function addProducerToHlsComposition(room: Room, producer: mediasoupTypes.Producer, socketId: string) {
+  const activeStreams = room.hlsComposition.activeStreams;
+  if (!activeStreams.has(socketId)) {
+    const rtpPorts = await leaseHlsRtpPorts(room, `stream ${socketId}`, producer);
+    if (!rtpPorts) return;
+    // The broadcaster's other producer may have opened the stream while the ports were probed
+    if (activeStreams.has(socketId)) releaseRtpPorts(rtpPorts);
+    else activeStreams.set(socketId, createHlsStreamInfo(socketId, producer, rtpPorts));
+  }
+  const streamInfo = activeStreams.get(socketId)!;
+
+  // A screen share gets a track set (and ports) of its own next to the camera and microphone
+  const isScreenShare = producer.appData.source === 'screen';
+  if (isScreenShare && !streamInfo.screenShare) {
+    const rtpPorts = await leaseHlsRtpPorts(room, `screen share of stream ${socketId}`, producer);
+    if (!rtpPorts) return;
+    if (streamInfo.screenShare) releaseRtpPorts(rtpPorts);
+    else streamInfo.screenShare = { rtpPorts };
+  }
+  const trackSet = isScreenShare ? streamInfo.screenShare! : streamInfo;
+  const existingConsumer = producer.kind === 'video' ? trackSet.videoConsumer : trackSet.audioConsumer;
+  if (existingConsumer && !existingConsumer.closed) {
+    console.log(`Stream ${socketId} already carries ${isScreenShare ? 'screen share ' : ''}${producer.kind}; producer ${producer.id} is not added to HLS`);
+    return;
+  }
+
+  try {
+    console.log(`Adding ${isScreenShare ? 'screen share ' : ''}${producer.kind} producer ${producer.id} to HLS stream ${socketId}`);
     
-    // Don't resume immediately - wait for FFmpeg to start
-    console.log(`Consumer created in paused state for producer ${producer.id}`);
+    const rtpPort = producer.kind === 'video' ? trackSet.rtpPorts.video : trackSet.rtpPorts.audio;
+    const { transport: plainTransport, consumer } = await consumeToRtpPort(
+      room, producer.id, rtpPort, { streamId: socketId, type: 'hls-composition', ...(isScreenShare ? { source: 'screen' } : {}) }
+    );
+
+    if (producer.kind === 'video') {
+      trackSet.videoTransport = plainTransport;
+      trackSet.videoConsumer = consumer;
+    } else {
+      trackSet.audioTransport = plainTransport;
+      trackSet.audioConsumer = consumer;
+    }
+    // A rebuilt composition picks up a track the broadcaster had already paused
+    if (!isScreenShare) {
+      if (producer.paused) streamInfo.pausedKinds.add(producer.kind);
+      else streamInfo.pausedKinds.delete(producer.kind);
+    }
+
+    console.log(`Producer ${producer.id} added to stream ${socketId} on ${producer.kind} port: ${rtpPort}, RTCP port: ${rtpPort + 1}`);
+    console.log(`Consumer RTP parameters:`, JSON.stringify(consumer.rtpParameters, null, 2));
     
-    await restartHlsComposition();
+    // FFmpeg reads the SDP only at startup, so a running output restarts to pick up the new track
+    stopStreamHls(streamInfo);
+    if (!isScreenShare) {
+      stopStreamRecording(streamInfo);
+      stopStreamRestreams(streamInfo);
+    }
+    scheduleHlsRestart(room);
 
   } catch (error) {
-    console.error(`Error adding stream ${producer.id} to HLS composition:`, error);
-    // If adding stream fails, show live stream status
-    console.log('Stream addition failed, creating live stream status video...');
-    createStaticInformationalStream();
+    console.error(`Error adding producer ${producer.id} to HLS composition:`, error);
+    if (streamInfo.screenShare && !hasTracks(streamInfo.screenShare)) {
+      releaseRtpPorts(streamInfo.screenShare.rtpPorts);
+      streamInfo.screenShare = undefined;
+    }
+    if (!hasTracks(streamInfo) && !streamInfo.screenShare) {
+      activeStreams.delete(socketId);
+      releaseRtpPorts(streamInfo.rtpPorts);
+    }
+    // If adding stream fails, show the slate
+    console.log('Stream addition failed, showing the slate...');
+    showSlate(room);
+  }
+}
+
+async function removeProducerFromHlsComposition(room: Room, producerId: string) {
+  for (const [streamId, streamInfo] of room.hlsComposition.activeStreams.entries()) {
+    const trackSet = [streamInfo, streamInfo.screenShare].find(candidate =>
+      candidate?.videoConsumer?.producerId === producerId || candidate?.audioConsumer?.producerId === producerId);
+    if (!trackSet) continue;
+    const kind = trackSet.videoConsumer?.producerId === producerId ? 'video' : 'audio';
+    const isScreenShare = trackSet === streamInfo.screenShare;
+
+    try {
+      console.log(`Removing ${isScreenShare ? 'screen share ' : ''}${kind} producer ${producerId} from HLS stream ${streamId}`);
+      
+      const hlsStopped = stopStreamHls(streamInfo);
+      closeStreamMedia(trackSet, kind);
+      if (isScreenShare) {
+        // Recorders and restreams carry the camera and microphone only
+        if (!hasTracks(streamInfo.screenShare)) {
+          releaseTrackSetRtpPorts([streamInfo.screenShare], hlsStopped);
+          streamInfo.screenShare = undefined;
+        }
+      } else {
+        stopStreamRecording(streamInfo);
+        stopStreamRestreams(streamInfo);
+        streamInfo.pausedKinds.delete(kind);
+      }
+
+      // The broadcaster keeps its stream while it still publishes anything
+      if (!hasTracks(streamInfo) && !hasTracks(streamInfo.screenShare)) {
+        streamInfo.pushTargets.forEach(target => removePushTarget(streamInfo, target));
+        room.hlsComposition.activeStreams.delete(streamId);
+        if (room.hlsComposition.speakerStreamId === streamId) room.hlsComposition.speakerStreamId = undefined;
+        retireStreamHlsOutput(room, streamId, streamInfo, hlsStopped);
+        releaseTrackSetRtpPorts([streamInfo, streamInfo.screenShare], hlsStopped);
+      }
+      scheduleHlsRestart(room);
+
+    } catch (error) {
+      console.error(`Error removing producer ${producerId} from HLS composition:`, error);
+      // If removal fails or no streams left, show the slate
+      console.log('Stream removal failed or no active streams, showing the slate...');
+      showSlate(room);
+    }
+    return;
+  }
+}
+
+// The primary router was replaced, so every HLS PlainTransport is gone; consume all producers again
+async function rebuildHlsComposition(room: Room) {
+  // Recorders and restreams lost their transports too; broadcasters keep recording in a new take and keep their push targets
+  const recordingFormats = new Map<string, RecordingFormat | null>();
+  const pushTargets = new Map<string, Map<string, PushTarget>>();
+  for (const [streamId, streamInfo] of room.hlsComposition.activeStreams.entries()) {
+    recordingFormats.set(streamId, streamInfo.recordingFormat);
+    pushTargets.set(streamId, streamInfo.pushTargets);
+    releaseTrackSetRtpPorts([streamInfo, streamInfo.screenShare], stopStreamHls(streamInfo));
+    discardStreamHlsOutput(streamInfo);
+    stopStreamRecording(streamInfo);
+    stopStreamRestreams(streamInfo);
+    closeStreamMedia(streamInfo, 'video');
+    closeStreamMedia(streamInfo, 'audio');
+    if (streamInfo.screenShare) {
+      closeStreamMedia(streamInfo.screenShare, 'video');
+      closeStreamMedia(streamInfo.screenShare, 'audio');
+    }
+  }
+  room.hlsComposition.activeStreams.clear();
+  stopRoomComposition(room);
+
+  for (const producerData of room.producers.values()) {
+    if (producerData.producer.closed) continue;
+    await addProducerToHlsComposition(room, producerData.producer, producerData.socketId);
+  }
+  room.hlsComposition.activeStreams.forEach((streamInfo, streamId) => {
+    if (recordingFormats.has(streamId)) streamInfo.recordingFormat = recordingFormats.get(streamId)!;
+    if (pushTargets.has(streamId)) streamInfo.pushTargets = pushTargets.get(streamId)!;
+  });
+  if (room.hlsComposition.activeStreams.size === 0) {
+    await restartHlsComposition(room);
   }
 }
 
-async function removeStreamFromHlsComposition(producerId: string) {
-  const streamInfo = hlsComposition.activeStreams.get(producerId);
-  if (!streamInfo) return;
+async function restartHlsComposition(room: Room) {
+  const roomHlsFolder = getRoomHlsFolder(room);
+  const activeStreamCount = room.hlsComposition.activeStreams.size;
+  
+  if (activeStreamCount === 0) {
+    // The slate takes over from the mosaic, or from the last broadcaster
+    console.log('No active streams for HLS composition - showing the slate');
+    room.hlsComposition.isComposing = false;
+    await showSlate(room);
+    return;
+  }
+
+  if (room.hlsComposition.isComposing) {
+    console.log('HLS composition restart already in progress, retrying shortly...');
+    scheduleHlsRestart(room);
+    return;
+  }
+
+  room.hlsComposition.isComposing = true;
 
   try {
-    console.log(`Removing producer ${producerId} from HLS composition`);
+    console.log(`Starting HLS composition with ${activeStreamCount} stream(s)`);
+    
+    // Ensure HLS output directory exists
+    if (!fs.existsSync(roomHlsFolder)) {
+      fs.mkdirSync(roomHlsFolder, { recursive: true });
+      console.log('Created HLS output directory:', roomHlsFolder);
+    }
+
+    if (room.hlsComposition.layout !== 'individual') {
+      // The mosaic reads every stream's RTP ports, so per-broadcaster outputs must release them first
+      await Promise.all(Array.from(room.hlsComposition.activeStreams.entries()).map(([streamId, streamInfo]) =>
+        retireStreamHlsOutput(room, streamId, streamInfo, stopStreamHls(streamInfo))));
+      await stopMosaicHls(room);
+      // Broadcasters who paused everything have no input to give the mosaic
+      const mosaicStreams = getMosaicStreamOrder(room).filter(([, streamInfo]) => hasTracks(getMosaicHlsInputs(streamInfo)));
+      if (mosaicStreams.length === 0) {
+        room.hlsComposition.isComposing = false;
+        await showSlate(room);
+        return;
+      }
+      // The mosaic continues the slate's playlists after a discontinuity
+      await stopSlate(room);
+      console.log(`Creating ${room.hlsComposition.layout} mosaic for room ${room.id}`);
+      await createMosaicHls(room, mosaicStreams);
+      return;
+    }
+
+    // Until a broadcaster's own playlist is up the slate holds the room playlist (taking over from a
+    // mosaic); from then on the room program follows a broadcaster
+    await stopMosaicHls(room);
+    if (!await followProgramStream(room)) {
+      await showSlate(room);
+    }
+    
+    // Every broadcaster gets its own FFmpeg process and playlist
+    for (const [streamId, streamInfo] of room.hlsComposition.activeStreams.entries()) {
+      if (streamInfo.ffmpegJob) continue;
+      console.log(`Creating HLS output for stream ${streamId}`);
+      await createSingleStreamHls(room, streamId, streamInfo);
+    }
+
+    room.hlsComposition.isComposing = false;
+    
+  } catch (error) {
+    console.error('Error starting HLS composition:', error);
+    room.hlsComposition.isComposing = false;
     
-    if (streamInfo.videoConsumer && !streamInfo.videoConsumer.closed) {
-      streamInfo.videoConsumer.close();
+    // Show the slate on general errors
+    console.log('Showing the slate due to composition error...');
+    showSlate(room);
+  }
+}
+
+// The speaker (when still live) goes first; the rest keep their join order
+function getMosaicStreamOrder(room: Room): Array<[string, HlsStreamInfo]> {
+  const streams = Array.from(room.hlsComposition.activeStreams.entries());
+  const speakerIndex = streams.findIndex(([streamId]) => streamId === room.hlsComposition.speakerStreamId);
+  if (speakerIndex > 0) {
+    streams.unshift(...streams.splice(speakerIndex, 1));
+  }
+  return streams;
+}
+
+function getStreamHlsFolder(room: Room, streamId: string): string {
+  return path.join(getRoomHlsFolder(room), streamId);
+}
+
+function getStreamPlaylistUrl(room: Room, streamId: string): string {
+  return `/hls/${room.id}/${streamId}/master.m3u8`;
+}
+
+// Only classic CMAF output comes with an MPEG-DASH manifest
+function getStreamDashManifestUrl(room: Room, streamId: string, streamInfo: HlsStreamInfo): string | null {
+  if (streamInfo.hlsMode !== 'classic' || streamInfo.segmentFormat !== 'cmaf') return null;
+  return `/hls/${room.id}/${streamId}/${DASH_MANIFEST_NAME}`;
+}
+
+// The master playlist is written up front; the stream is playable once FFmpeg wrote its top rendition
+function isStreamHlsReady(room: Room, streamId: string, streamInfo: HlsStreamInfo): boolean {
+  const [topRendition] = getRenditionsFor(hlsLadder, hasStreamVideo(streamInfo), hasStreamAudio(streamInfo));
+  if (streamInfo.hlsMode === 'll-hls') {
+    const packager = topRendition && streamInfo.llHlsRenditions?.get(topRendition.name);
+    return !!packager && isLlHlsRenditionReady(packager);
+  }
+  if (streamInfo.segmentFormat === 'cmaf') {
+    const streamHlsFolder = getStreamHlsFolder(room, streamId);
+    return !!topRendition
+      && fs.existsSync(path.join(streamHlsFolder, DASH_MANIFEST_NAME))
+      && fs.existsSync(path.join(streamHlsFolder, getCmafMediaPlaylistName(0)));
+  }
+  return !!topRendition && fs.existsSync(path.join(getStreamHlsFolder(room, streamId), topRendition.name, 'index.m3u8'));
+}
+
+// Resolves once FFmpeg has exited and released the stream's RTP ports. The playlists stay up for the
+// next run to continue; LL-HLS packagers keep blocking requests open until it does.
+function stopStreamHls(streamInfo: HlsStreamInfo): Promise<void> {
+  const job = streamInfo.ffmpegJob;
+  streamInfo.ffmpegJob = undefined;
+  return stopStitchedRunWith(streamInfo.hlsOutput, stopFfmpegJob(job));
+}
+
+// Resolves once the mosaic FFmpeg has exited
+function stopMosaicHls(room: Room): Promise<void> {
+  const job = room.hlsComposition.ffmpegJob;
+  room.hlsComposition.ffmpegJob = undefined;
+  return stopStitchedRunWith(room.hlsComposition.programOutput, stopFfmpegJob(job));
+}
+
+// Takes the last segments of the stopped run, unless a new run has started on the output meanwhile
+async function stopStitchedRunWith(output: StitchedHlsOutput | undefined, stopped: Promise<void>) {
+  const run = output?.run;
+  await stopped;
+  if (output && output.run === run) stopStitchedHlsOutput(output);
+}
+
+// The track sets are gone; their ports are free once FFmpeg has let go of them
+function releaseTrackSetRtpPorts(trackSets: Array<HlsTrackSet | undefined>, ffmpegStopped: Promise<void>) {
+  const rtpPorts = trackSets.map(trackSet => trackSet?.rtpPorts);
+  ffmpegStopped.then(() => rtpPorts.forEach(ports => releaseRtpPorts(ports)));
+}
+
+// The stream's output folder is going away; nothing continues its playlists
+function discardStreamHlsOutput(streamInfo: HlsStreamInfo) {
+  streamInfo.llHlsRenditions?.forEach(rendition => closeLlHlsRendition(rendition));
+  streamInfo.llHlsRenditions = undefined;
+  if (streamInfo.hlsOutput) stopStitchedHlsOutput(streamInfo.hlsOutput);
+  streamInfo.hlsOutput = undefined;
+}
+
+// Nothing continues the stream's playlists any more. Once FFmpeg has written the last segment they end
+// with EXT-X-ENDLIST, so players still on them finish rather than stall or get 404s; the folder goes one
+// playlist window later, unless the broadcaster is back by then and takes it over.
+function retireStreamHlsOutput(room: Room, streamId: string, streamInfo: HlsStreamInfo, ffmpegStopped: Promise<void>): Promise<void> {
+  const { hlsOutput, llHlsRenditions } = streamInfo;
+  if (!hlsOutput && !llHlsRenditions) return ffmpegStopped;
+  streamInfo.hlsOutput = undefined;
+  streamInfo.llHlsRenditions = undefined;
+  // Blocking LL-HLS requests give up now rather than at their timeout
+  llHlsRenditions?.forEach(rendition => closeLlHlsRendition(rendition));
+  const folder = getStreamHlsFolder(room, streamId);
+  const windowSegments = hlsOutput?.windowSegments
+    ?? Array.from(llHlsRenditions?.values() ?? [])[0]?.segmentWindow ?? getHlsWindowSegments(0);
+  const retired: RetiredHlsFolder = { output: hlsOutput };
+  retiredHlsFolders.set(folder, retired);
+  return ffmpegStopped.then(() => {
+    if (retiredHlsFolders.get(folder) !== retired) return;
+    try {
+      if (hlsOutput) endStitchedHlsOutput(hlsOutput);
+      llHlsRenditions?.forEach(rendition => endLlHlsRendition(rendition));
+    } catch (error) {
+      console.error(`Error ending HLS playlists of stream ${streamId}:`, error);
+    }
+    retired.removeTimer = setTimeout(() => {
+      if (retiredHlsFolders.get(folder) !== retired) return;
+      retiredHlsFolders.delete(folder);
+      fs.rm(folder, { recursive: true, force: true }, () => {});
+    }, (windowSegments + 1) * HLS_SEGMENT_SECONDS * 1000);
+  });
+}
+
+// A new output takes the folder of a departed broadcaster; the ended playlists go now
+function reclaimRetiredHlsFolder(folder: string) {
+  const retired = retiredHlsFolders.get(folder);
+  if (!retired) return;
+  retiredHlsFolders.delete(folder);
+  clearTimeout(retired.removeTimer);
+  if (retired.output) stopStitchedHlsOutput(retired.output);
+  fs.rmSync(folder, { recursive: true, force: true });
+}
+
+// In the individual layout the room playlist carries one broadcaster at a time: its program playlists
+// continue with that broadcaster's own segments after a discontinuity, as they do with a mosaic, and move
+// on to the next broadcaster when this one leaves. Only MPEG-TS can continue the program; with CMAF or
+// LL-HLS broadcasters the program playlists end and the room playlist goes, so that it redirects.
+// Resolves to false while no broadcaster's playlist is up.
+async function followProgramStream(room: Room): Promise<boolean> {
+  const composition = room.hlsComposition;
+  const getReadyStreams = () => Array.from(composition.activeStreams.entries())
+    .filter(([streamId, streamInfo]) => isStreamHlsReady(room, streamId, streamInfo));
+  if (getReadyStreams().length === 0) return false;
+  await stopSlate(room);
+  // Closed or rearranged meanwhile
+  if (rooms.get(room.id) !== room || composition.layout !== 'individual' || composition.ffmpegJob) return true;
+  const readyStreams = getReadyStreams();
+  if (readyStreams.length === 0) return false;
+
+  const followed = composition.programOutput?.source?.output;
+  const [, streamInfo] = readyStreams.find(([, candidate]) => !!followed && candidate.hlsOutput === followed)
+    ?? readyStreams.find(([, candidate]) => candidate.hlsOutput?.format === 'mpegts')
+    ?? [];
+  const roomPlaylistPath = path.join(getRoomHlsFolder(room), 'playlist.m3u8');
+  if (!streamInfo?.hlsOutput) {
+    if (composition.programOutput) endStitchedHlsOutput(composition.programOutput);
+    composition.programOutput = undefined;
+    fs.rmSync(roomPlaylistPath, { force: true });
+    return true;
+  }
+
+  const hasAudio = hasStreamAudio(streamInfo);
+  const renditions = getRenditionsFor(hlsLadder, hasStreamVideo(streamInfo), hasAudio);
+  const programOutput = openStitchedHlsOutput(getProgramHlsFolder(room), 'mpegts', getHlsWindowSegments(0), composition.programOutput);
+  composition.programOutput = programOutput;
+  // Playlists players already have go on too, with the nearest rendition the broadcaster has
+  const playlists = new Set([...programOutput.playlists.keys(), ...renditions.map(rendition => `${rendition.name}/index.m3u8`)]);
+  followStitchedHlsOutput(programOutput, streamInfo.hlsOutput, Array.from(playlists), pickProgramSourcePlaylist);
+  writeFileAtomic(roomPlaylistPath, buildMasterPlaylist(renditions, hasAudio, `${PROGRAM_FOLDER_NAME}/`));
+  return true;
+}
+
+// The broadcaster's playlist a program playlist continues: the same rendition, or the one nearest in height
+function pickProgramSourcePlaylist(name: string, sourcePlaylists: string[]): string | undefined {
+  if (sourcePlaylists.includes(name)) return name;
+  const getHeight = (playlist: string) => hlsLadder.find(rendition => `${rendition.name}/index.m3u8` === playlist)?.video?.height ?? 0;
+  const height = getHeight(name);
+  return [...sourcePlaylists].sort((a, b) => Math.abs(getHeight(a) - height) - Math.abs(getHeight(b) - height))[0];
+}
+
+// The program folder is going away
+function discardProgramHlsOutput(room: Room) {
+  if (room.hlsComposition.programOutput) stopStitchedHlsOutput(room.hlsComposition.programOutput);
+  room.hlsComposition.programOutput = undefined;
+}
+
+// FFmpeg input options for RTP described by an SDP file
+function getSdpInputArgs(sdpPath: string): string[] {
+  return [
+    '-protocol_whitelist', 'file,udp,rtp',
+    '-fflags', '+genpts+igndts',
+    '-use_wallclock_as_timestamps', '1',
+    '-thread_queue_size', '4096',
+    '-analyzeduration', '2000000',
+    '-probesize', '2000000',
+    '-max_delay', '500000',
+    '-reorder_queue_size', '16',
+    '-i', sdpPath
+  ];
+}
+
+function findActiveRecorder(recordingId: string): StreamRecorder | undefined {
+  for (const room of rooms.values()) {
+    for (const streamInfo of room.hlsComposition.activeStreams.values()) {
+      if (streamInfo.recorder?.metadata.id === recordingId) return streamInfo.recorder;
+    }
+  }
+  return undefined;
+}
+
+function toRecordingResponse(entry: RecordingEntry) {
+  return {
+    ...entry,
+    playbackUrl: `/recordings/${entry.id}/${entry.mediaFile}`,
+    downloadUrl: `/api/recordings/${entry.id}/download`
+  };
+}
+
+// The take is settled and its FFmpeg, if it ever ran, has exited
+function closeRecorderMedia(recorder: StreamRecorder) {
+  [recorder.videoConsumer, recorder.audioConsumer].forEach(consumer => { if (consumer && !consumer.closed) consumer.close(); });
+  [recorder.videoTransport, recorder.audioTransport].forEach(transport => { if (transport && !transport.closed) transport.close(); });
+  releaseRtpPorts(recorder.rtpPorts);
+}
+
+// Record the broadcaster's current tracks into a new take, unless recording is off or already running
+async function startStreamRecording(room: Room, streamId: string, streamInfo: HlsStreamInfo) {
+  const format = streamInfo.recordingFormat;
+  if (!format || streamInfo.recorder) return;
+  const hasVideo = !!streamInfo.videoConsumer;
+  const hasAudio = !!streamInfo.audioConsumer;
+  const [topRendition] = getRenditionsFor(hlsLadder, hasVideo, hasAudio);
+  if (!topRendition) return;
+
+  const rtpPorts = await leaseRtpPorts(`recording of stream ${streamId}`, room.id);
+  // Recording may have been switched off, or started by another caller, while the ports were probed
+  if (streamInfo.recorder || streamInfo.recordingFormat !== format) {
+    releaseRtpPorts(rtpPorts);
+    return;
+  }
+  const { metadata, folder } = createRecordingMetadata(recordingsFolder, {
+    roomId: room.id,
+    streamId,
+    format,
+    hasVideo,
+    hasAudio,
+    rendition: topRendition.name
+  });
+  const recorder: StreamRecorder = { metadata, folder, rtpPorts, stopping: false };
+  streamInfo.recorder = recorder;
+  console.log(`Recording stream ${streamId} in room ${room.id} to ${folder}`);
+
+  try {
+    const appData = { streamId, type: 'recording', recordingId: metadata.id };
+    if (streamInfo.videoConsumer) {
+      const { transport, consumer } = await consumeToRtpPort(room, streamInfo.videoConsumer.producerId, recorder.rtpPorts.video, appData);
+      recorder.videoTransport = transport;
+      recorder.videoConsumer = consumer;
+    }
+    if (streamInfo.audioConsumer) {
+      const { transport, consumer } = await consumeToRtpPort(room, streamInfo.audioConsumer.producerId, recorder.rtpPorts.audio, appData);
+      recorder.audioTransport = transport;
+      recorder.audioConsumer = consumer;
     }
-    if (streamInfo.plainTransport && !streamInfo.plainTransport.closed) {
-      streamInfo.plainTransport.close();
+  } catch (error) {
+    console.error(`Error consuming stream ${streamId} for recording ${metadata.id}:`, error);
+    if (streamInfo.recorder === recorder) streamInfo.recorder = undefined;
+    closeRecorderMedia(recorder);
+    finishRecording(folder, metadata, false);
+    return;
+  }
+  // The take may have been stopped while its transports were being created
+  if (recorder.stopping) {
+    closeRecorderMedia(recorder);
+    finishRecording(folder, metadata, false);
+    return;
+  }
+
+  const sdpPath = path.join(folder, 'stream.sdp');
+  fs.writeFileSync(sdpPath, createSdpForStream(recorder));
+  const args = [
+    ...getSdpInputArgs(path.resolve(sdpPath)),
+    ...buildRecordingOutputArgs(topRendition, hasVideo, hasAudio, format, path.resolve(folder))
+  ];
+  const recorderJob: FfmpegJob = startFfmpegJob({
+    kind: 'recording',
+    label: `recording ${metadata.id} of stream ${streamId}`,
+    roomId: room.id,
+    args,
+    // stdin stays open so the recorder can be told to finish with 'q'
+    stdio: ['pipe', 'pipe', 'pipe'],
+    onSpawn: child => {
+      child.stdin?.on('error', (error: Error) => console.warn(`Recorder stdin error for recording ${metadata.id}:`, error.message));
+    },
+    requestQuit: child => {
+      child.stdin?.write('q');
+      child.stdin?.end();
+    },
+    stopTimeoutMs: RECORDING_STOP_TIMEOUT_MS,
+    // A failed spawn ends the job too; either way the take is settled once
+    onExit: ({ code }) => {
+      if (recorder.ffmpegJob !== recorderJob) return;
+      recorder.ffmpegJob = undefined;
+      closeRecorderMedia(recorder);
+      finishRecording(folder, metadata, code === 0);
+      console.log(`Recording ${metadata.id} is ${metadata.status}`);
+      if (streamInfo.recorder === recorder) {
+        // FFmpeg died on its own; the next track change or restart starts a new take
+        streamInfo.recorder = undefined;
+      }
+    }
+  });
+  recorder.ffmpegJob = recorderJob;
+
+  // Resume consumers after a delay; a consumer may close (broadcaster gone) while the timers wait
+  setTimeout(async () => {
+    if (recorder.stopping) return;
+    try {
+      if (recorder.audioConsumer && !recorder.audioConsumer.closed && recorder.audioConsumer.paused) {
+        await recorder.audioConsumer.resume();
+      }
+      if (recorder.videoConsumer && !recorder.videoConsumer.closed) {
+        if (recorder.videoConsumer.paused) {
+          await recorder.videoConsumer.resume();
+        }
+        // A recording must start on a keyframe
+        setTimeout(async () => {
+          try {
+            if (recorder.videoConsumer && !recorder.videoConsumer.closed) {
+              await recorder.videoConsumer.requestKeyFrame();
+              console.log(`Keyframe requested for recording ${metadata.id}`);
+            }
+          } catch (error) {
+            console.error(`Error requesting a keyframe for recording ${metadata.id}:`, error);
+          }
+        }, 1000);
+      }
+    } catch (error) {
+      console.error(`Error resuming consumers of recording ${metadata.id}:`, error);
     }
+  }, 2000);
+}
+
+// Finish the running take; FFmpeg writes the MP4 index or EXT-X-ENDLIST when it quits
+function stopStreamRecording(streamInfo: HlsStreamInfo) {
+  const recorder = streamInfo.recorder;
+  if (!recorder) return;
+  streamInfo.recorder = undefined;
+  recorder.stopping = true;
+
+  if (!recorder.ffmpegJob) return;  // Still setting up; startStreamRecording settles the take
+  console.log(`Stopping recording ${recorder.metadata.id}`);
+  // The job's exit settles the take
+  stopFfmpegJob(recorder.ffmpegJob);
+}
+
+const PUSH_PROGRESS_REPORT_INTERVAL_MS = 5000;
+
+function emitPushTargetStatus(target: PushTarget) {
+  // Only the broadcaster (its socket room) hears about its targets
+  io.to(target.streamId).emit('push-target-status', toPushTargetResponse(target));
+}
+
+function closePushEgressMedia(egress: PushEgress) {
+  [egress.videoConsumer, egress.audioConsumer].forEach(consumer => { if (consumer && !consumer.closed) consumer.close(); });
+  [egress.videoTransport, egress.audioTransport].forEach(transport => { if (transport && !transport.closed) transport.close(); });
+}
 
-    hlsComposition.activeStreams.delete(producerId);
-    await restartHlsComposition();
+function isPushTargetActive(room: Room, streamId: string, streamInfo: HlsStreamInfo, target: PushTarget): boolean {
+  return rooms.get(room.id) === room && room.hlsComposition.activeStreams.get(streamId) === streamInfo
+    && streamInfo.pushTargets.get(target.id) === target;
+}
 
-  } catch (error) {
-    console.error(`Error removing stream ${producerId} from HLS composition:`, error);
-    // If removal fails or no streams left, show live stream status
-    console.log('Stream removal failed or no active streams, creating live stream status video...');
-    createStaticInformationalStream();
-  }
+// The egress failed; try again after a backoff that grows until a run goes live
+function schedulePushRetry(room: Room, streamId: string, streamInfo: HlsStreamInfo, target: PushTarget, error: string) {
+  if (!isPushTargetActive(room, streamId, streamInfo, target)) return;
+  target.consecutiveFailures++;
+  target.lastError = error;
+  target.status = 'retrying';
+  target.liveSince = null;
+  const delay = getPushRetryDelayMs(target.consecutiveFailures);
+  target.nextRetryAt = Date.now() + delay;
+  console.warn(`Restream ${target.id} to ${maskPushTargetUrl(target.url)} failed (${error}); retrying in ${delay} ms`);
+  emitPushTargetStatus(target);
+  clearTimeout(target.retryTimer);
+  target.retryTimer = setTimeout(() => {
+    target.retryTimer = undefined;
+    if (!isPushTargetActive(room, streamId, streamInfo, target)) return;
+    startPushEgress(room, streamId, streamInfo, target).catch(retryError => {
+      console.error(`Error restarting restream ${target.id}:`, retryError);
+    });
+  }, delay);
 }
 
-async function restartHlsComposition() {
-  const activeStreamCount = hlsComposition.activeStreams.size;
-  
-  if (activeStreamCount === 0) {
-    // Stop existing FFMPEG process only when no streams
-    if (hlsComposition.ffmpegProcess) {
-      try {
-        hlsComposition.ffmpegProcess.kill('SIGTERM');
-        hlsComposition.ffmpegProcess = null;
-      } catch (error) {
-        console.error('Error stopping FFMPEG composition:', error);
-      }
-      // Wait a bit for the process to fully terminate
-      await new Promise(resolve => setTimeout(resolve, 1000));
-    }
-    
-    console.log('No active streams for HLS composition - creating status video');
-    hlsComposition.isComposing = false;
-    // Always create status video when no streams are active
-    createStaticInformationalStream();
+// Push the broadcaster's current tracks to one target, unless its egress runs or a retry is pending
+async function startPushEgress(room: Room, streamId: string, streamInfo: HlsStreamInfo, target: PushTarget) {
+  if (target.status === 'stopped' || target.egress || target.retryTimer) return;
+  const hasVideo = !!streamInfo.videoConsumer;
+  const hasAudio = !!streamInfo.audioConsumer;
+  const [topRendition] = getRenditionsFor(hlsLadder, hasVideo, hasAudio);
+  if (!topRendition) return;
+
+  let rtpPorts: RtpPortPair;
+  try {
+    rtpPorts = await leaseRtpPorts(`restream ${target.id}`, room.id);
+  } catch (error: any) {
+    schedulePushRetry(room, streamId, streamInfo, target, error.message);
     return;
   }
-
-  // If FFmpeg is already running and we have streams, don't restart it
-  if (hlsComposition.ffmpegProcess && activeStreamCount > 0) {
-    console.log(`FFmpeg already running with ${activeStreamCount} stream(s), not restarting`);
+  // The target may have been removed, or started by another caller, while the ports were probed
+  if (!isPushTargetActive(room, streamId, streamInfo, target) || target.egress || target.retryTimer) {
+    releaseRtpPorts(rtpPorts);
     return;
   }
+  const egress: PushEgress = { rtpPorts, stopping: false, bytesSent: 0 };
+  target.egress = egress;
+  target.attempts++;
+  target.status = 'starting';
+  target.nextRetryAt = null;
+  emitPushTargetStatus(target);
+
+  // Either way out of a run; a stopped egress was already detached from its target
+  const settle = (error: string | null) => {
+    if (target.egress !== egress) return;
+    target.egress = undefined;
+    target.bytesSent += egress.bytesSent;
+    closePushEgressMedia(egress);
+    releaseRtpPorts(egress.rtpPorts);
+    schedulePushRetry(room, streamId, streamInfo, target, error ?? 'egress ended');
+  };
 
-  if (hlsComposition.isComposing) {
-    console.log('HLS composition restart already in progress, skipping...');
+  try {
+    const appData = { streamId, type: 'restream', pushTargetId: target.id };
+    if (streamInfo.videoConsumer) {
+      const { transport, consumer } = await consumeToRtpPort(room, streamInfo.videoConsumer.producerId, egress.rtpPorts.video, appData);
+      egress.videoTransport = transport;
+      egress.videoConsumer = consumer;
+    }
+    if (streamInfo.audioConsumer) {
+      const { transport, consumer } = await consumeToRtpPort(room, streamInfo.audioConsumer.producerId, egress.rtpPorts.audio, appData);
+      egress.audioTransport = transport;
+      egress.audioConsumer = consumer;
+    }
+  } catch (error: any) {
+    console.error(`Error consuming stream ${streamId} for restream ${target.id}:`, error);
+    closePushEgressMedia(egress);
+    releaseRtpPorts(egress.rtpPorts);
+    settle(error.message);
+    return;
+  }
+  // The egress may have been stopped while its transports were being created
+  if (egress.stopping) {
+    closePushEgressMedia(egress);
+    releaseRtpPorts(egress.rtpPorts);
     return;
   }
 
-  hlsComposition.isComposing = true;
+  const streamHlsFolder = getStreamHlsFolder(room, streamId);
+  fs.mkdirSync(streamHlsFolder, { recursive: true });
+  const sdpPath = path.join(streamHlsFolder, `restream_${target.id}.sdp`);
+  fs.writeFileSync(sdpPath, createSdpForStream(egress));
+  const args = [
+    ...getSdpInputArgs(path.resolve(sdpPath)),
+    ...buildRestreamOutputArgs(topRendition, hasVideo, hasAudio, target.url)
+  ];
+  let lastReportAt = 0;
+  const onProgress = (data: Buffer) => {
+    const bytes = parseProgressBytes(data.toString());
+    if (bytes === null || target.egress !== egress) return;
+    egress.bytesSent = bytes;
+    if (target.status === 'starting' && bytes > 0) {
+      target.status = 'live';
+      target.liveSince = Date.now();
+      target.consecutiveFailures = 0;
+      target.lastError = null;
+      console.log(`Restream ${target.id} of stream ${streamId} is live on ${maskPushTargetUrl(target.url)}`);
+      emitPushTargetStatus(target);
+      lastReportAt = Date.now();
+    } else if (Date.now() - lastReportAt >= PUSH_PROGRESS_REPORT_INTERVAL_MS) {
+      // FFmpeg reports twice a second; the broadcaster's byte counter needs far less
+      emitPushTargetStatus(target);
+      lastReportAt = Date.now();
+    }
+  };
+  // Retries are the target's own (schedulePushRetry), so the supervisor runs the egress once
+  egress.ffmpegJob = startFfmpegJob({
+    kind: 'restream',
+    label: `restream ${target.id} of stream ${streamId}`,
+    roomId: room.id,
+    args,
+    redact: text => text.split(target.url).join(maskPushTargetUrl(target.url)),
+    onSpawn: child => child.stdout?.on('data', onProgress),
+    // The last line of FFmpeg's output says why the push failed
+    onExit: ({ reason }) => settle(reason)
+  });
 
-  try {
-    console.log(`Starting HLS composition with ${activeStreamCount} stream(s)`);
-    
-    // Ensure HLS output directory exists
-    if (!fs.existsSync(hlsOutputFolder)) {
-      fs.mkdirSync(hlsOutputFolder, { recursive: true });
-      console.log('Created HLS output directory:', hlsOutputFolder);
-    }
-
-    // Only clean up files if we're starting fresh
-    if (!hlsComposition.ffmpegProcess) {
-      // Clean up old files but keep demo-segment.ts for fallback
-      const oldFiles = fs.readdirSync(hlsOutputFolder).filter(file => 
-        (file.endsWith('.ts') && file !== 'demo-segment.ts') || 
-        file === 'playlist.m3u8' || 
-        file.endsWith('.sdp')
-      );
-      
-      for (const file of oldFiles) {
-        const filePath = path.join(hlsOutputFolder, file);
-        try {
-          // On Windows, we need to ensure file is not locked
-          if (file === 'playlist.m3u8') {
-            // Create a temporary playlist first
-            const tempPath = path.join(hlsOutputFolder, 'playlist.tmp.m3u8');
-            if (fs.existsSync(tempPath)) {
-              fs.unlinkSync(tempPath);
-            }
-          }
-          fs.unlinkSync(filePath);
-          console.log('Cleaned up old file:', file);
-        } catch (err) {
-          console.warn('Could not remove old file:', file, err);
-        }
+  // Resume consumers once FFmpeg listens; the push must start on a keyframe
+  setTimeout(async () => {
+    if (egress.stopping) return;
+    try {
+      if (egress.audioConsumer && !egress.audioConsumer.closed && egress.audioConsumer.paused) {
+        await egress.audioConsumer.resume();
       }
-    }
-    
-    // Create HLS output based on number of streams
-    if (activeStreamCount >= 1 && !hlsComposition.ffmpegProcess) {
-      const streams = Array.from(hlsComposition.activeStreams.entries());
-      
-      if (activeStreamCount === 1) {
-        // Single stream - direct output
-        const [streamId, streamInfo] = streams[0];
-        console.log(`Creating HLS output for single stream ${streamId}`);
-        await createSingleStreamHls(streamId, streamInfo);
-      } else {
-        // Multiple streams - for now just show the first one
-        console.log(`Multiple streams (${activeStreamCount}) detected, showing first stream only`);
-        const [streamId, streamInfo] = streams[0];
-        console.log(`Creating HLS output for first stream ${streamId}`);
-        await createSingleStreamHls(streamId, streamInfo);
-        
-        // TODO: Re-enable mosaic once FFmpeg filter issues are resolved
-        /*
-        // Try mosaic first, but have a fallback
-        try {
-          await createMosaicHls(streams);
-        } catch (error) {
-          console.error('Mosaic failed, falling back to first stream:', error);
-          // Fall back to showing just the first stream
-          const [streamId, streamInfo] = streams[0];
-          console.log(`Falling back to single stream ${streamId}`);
-          await createSingleStreamHls(streamId, streamInfo);
-        }
-        */
+      if (egress.videoConsumer && !egress.videoConsumer.closed) {
+        if (egress.videoConsumer.paused) await egress.videoConsumer.resume();
+        setTimeout(() => {
+          if (egress.videoConsumer && !egress.videoConsumer.closed) egress.videoConsumer.requestKeyFrame().catch(() => {});
+        }, 1000);
       }
+    } catch (error) {
+      console.error(`Error resuming consumers of push target ${target.id}:`, error);
     }
-    
-  } catch (error) {
-    console.error('Error starting HLS composition:', error);
-    hlsComposition.isComposing = false;
-    hlsComposition.ffmpegProcess = null;
-    
-    // Always create status video on general errors
-    console.log('Creating live stream status video due to composition error...');
-    createStaticInformationalStream();
-  }
+  }, 2000);
 }
 
-async function createSingleStreamHls(streamId: string, streamInfo: any) {
-  // Create SDP file for the stream
-  const sdpPath = path.join(hlsOutputFolder, `stream_${streamId}.sdp`);
-  const sdpContent = createSdpForStream(streamInfo);
-  console.log('Generated SDP content:\n', sdpContent);
-  fs.writeFileSync(sdpPath, sdpContent);
-  
-  // Ensure the playlist file is deleted before FFmpeg tries to write
-  try {
-    const finalOutputPath = path.join(hlsOutputFolder, 'playlist.m3u8');
-    if (fs.existsSync(finalOutputPath)) {
-      fs.unlinkSync(finalOutputPath);
-      console.log('Deleted existing playlist.m3u8');
-    }
-  } catch (err) {
-    console.warn('Could not delete existing playlist:', err);
-  }
-  
-  // Use native path separator for Windows
-  const outputPath = path.join(hlsOutputFolder, 'playlist.m3u8');
-  const segmentPath = path.join(hlsOutputFolder, 'segment_%03d.ts');
-  
-  // Use direct spawn instead of fluent-ffmpeg for better control
-  const ffmpegPath = process.env.FFMPEG_PATH || 'ffmpeg';
-  
-  // For Windows, use absolute paths but ensure they're properly formatted
-  const absoluteSdpPath = path.resolve(sdpPath);
-  const absoluteOutputPath = path.resolve(outputPath);
-  const absoluteSegmentPath = path.resolve(segmentPath);
-  
-  const args = [
-    '-protocol_whitelist', 'file,udp,rtp',
-    '-fflags', '+genpts+igndts',
-    '-use_wallclock_as_timestamps', '1',
-    '-thread_queue_size', '4096',
-    '-analyzeduration', '2000000',
-    '-probesize', '2000000',
-    '-max_delay', '500000',
-    '-reorder_queue_size', '16',
-    '-i', absoluteSdpPath,  // Use absolute path
-    '-vcodec', 'copy',
-    '-acodec', 'aac',
-    '-b:a', '128k',
-    '-ar', '44100',
-    '-f', 'hls',
-    '-hls_time', '2',
-    '-hls_list_size', '10',
-    '-hls_flags', 'delete_segments+append_list',
-    '-hls_segment_filename', absoluteSegmentPath,
-    '-hls_segment_type', 'mpegts',
-    '-start_number', '0',
-    '-y',
-    absoluteOutputPath
-  ];
-  
-  console.log('Starting FFmpeg with command:', ffmpegPath, args.join(' '));
-  
-  const ffmpegProcess = spawn(ffmpegPath, args, {
-    cwd: process.cwd(),
-    stdio: ['ignore', 'pipe', 'pipe'],
-    shell: true  // Use shell on Windows to handle paths better
+function stopPushEgress(target: PushTarget) {
+  const egress = target.egress;
+  if (!egress) return;
+  target.egress = undefined;
+  target.bytesSent += egress.bytesSent;
+  egress.stopping = true;
+  // Without a job the egress is still setting up and releases its ports itself
+  if (egress.ffmpegJob) stopFfmpegJob(egress.ffmpegJob).then(() => releaseRtpPorts(egress.rtpPorts));
+  closePushEgressMedia(egress);
+}
+
+function startStreamRestreams(room: Room, streamId: string, streamInfo: HlsStreamInfo) {
+  streamInfo.pushTargets.forEach(target => {
+    startPushEgress(room, streamId, streamInfo, target).catch(error => console.error(`Error starting restream ${target.id}:`, error));
   });
-  
-  hlsComposition.ffmpegProcess = ffmpegProcess;
-  hlsComposition.isComposing = false;
-  
-  ffmpegProcess.stderr.on('data', (data: Buffer) => {
-    const line = data.toString();
-    // Log ALL output for debugging
-    console.log('HLS FFMPEG:', line.trim());
+}
+
+// The stream's tracks change or go away; targets start again with the next composition restart
+function stopStreamRestreams(streamInfo: HlsStreamInfo) {
+  streamInfo.pushTargets.forEach(target => {
+    clearTimeout(target.retryTimer);
+    target.retryTimer = undefined;
+    stopPushEgress(target);
+    target.status = 'starting';
+    target.liveSince = null;
+    target.nextRetryAt = null;
   });
+}
+
+function addPushTarget(room: Room, streamId: string, streamInfo: HlsStreamInfo, url: unknown, name: unknown): PushTarget | string {
+  if (streamInfo.pushTargets.size >= MAX_PUSH_TARGETS_PER_STREAM) return `A stream can push to at most ${MAX_PUSH_TARGETS_PER_STREAM} targets`;
+  if (!isPushTargetUrl(url)) return 'Expected an rtmp:// or rtmps:// URL ending in the stream key';
+  if (name !== undefined && (typeof name !== 'string' || name.length > 64)) return 'name must be a string of up to 64 characters';
+  const target = createPushTarget(room.id, streamId, url, name);
+  streamInfo.pushTargets.set(target.id, target);
+  console.log(`Push target ${target.id} (${maskPushTargetUrl(url)}) added to stream ${streamId} in room ${room.id}`);
+  startPushEgress(room, streamId, streamInfo, target).catch(error => console.error(`Error starting restream ${target.id}:`, error));
+  return target;
+}
+
+function removePushTarget(streamInfo: HlsStreamInfo, target: PushTarget) {
+  streamInfo.pushTargets.delete(target.id);
+  clearTimeout(target.retryTimer);
+  target.retryTimer = undefined;
+  stopPushEgress(target);
+  target.status = 'stopped';
+  target.liveSince = null;
+  target.nextRetryAt = null;
+  console.log(`Push target ${target.id} of stream ${target.streamId} removed`);
+  emitPushTargetStatus(target);
+}
+
+async function createSingleStreamHls(room: Room, streamId: string, streamInfo: HlsStreamInfo) {
+  const streamHlsFolder = getStreamHlsFolder(room, streamId);
+  const hasVideo = hasStreamVideo(streamInfo);
+  const hasAudio = hasStreamAudio(streamInfo);
+  const renditions = getRenditionsFor(hlsLadder, hasVideo, hasAudio);
+  const isLowLatency = streamInfo.hlsMode === 'll-hls';
+  // CMAF tracks all sit in the stream folder, next to the DASH manifest
+  const isCmaf = !isLowLatency && streamInfo.segmentFormat === 'cmaf';
+  const windowSegments = getHlsWindowSegments(streamInfo.dvrWindowSeconds);
+  prepareStreamHlsOutput(streamInfo, streamHlsFolder, renditions, windowSegments);
+
+  // Create SDP file for the stream; paused tracks are left out and replaced by slate inputs
+  const liveInputs = getLiveHlsInputs(streamInfo);
+  const hasLiveInput = !!liveInputs.videoConsumer || !!liveInputs.audioConsumer;
+  const sdpPath = path.join(streamHlsFolder, 'stream.sdp');
+  if (hasLiveInput) {
+    const sdpContent = createSdpForStream(liveInputs);
+    console.log('Generated SDP content:\n', sdpContent);
+    fs.writeFileSync(sdpPath, sdpContent);
+  }
+  // A screen share is an input of its own, listed first so it becomes the main picture
+  const screenShare = streamInfo.screenShare?.videoConsumer ? streamInfo.screenShare : undefined;
+  const screenSdpPath = path.join(streamHlsFolder, 'screen.sdp');
+  if (screenShare) {
+    fs.writeFileSync(screenSdpPath, createSdpForStream(screenShare));
+  }
   
-  ffmpegProcess.on('error', (err: Error) => {
-    console.error('HLS Composition spawn error:', err);
-    hlsComposition.ffmpegProcess = null;
-    hlsComposition.isComposing = false;
-    createStaticInformationalStream();
-  });
+  writeFileAtomic(
+    path.join(streamHlsFolder, 'master.m3u8'),
+    isCmaf ? buildCmafMasterPlaylist(renditions, hasAudio) : buildMasterPlaylist(renditions, hasAudio)
+  );
   
-  ffmpegProcess.on('exit', (code: number | null, signal: string | null) => {
-    console.log('HLS FFmpeg process exited with code:', code, 'signal:', signal);
-    hlsComposition.ffmpegProcess = null;
-    hlsComposition.isComposing = false;
-    
-    if (code !== 0 && code !== null) {
-      console.log('FFmpeg failed, creating status video...');
-      createStaticInformationalStream();
+  const inputArgs: string[] = [];
+  let nextInputIndex = 0;
+  const addSlateInput = (kind: mediasoupTypes.MediaKind) => {
+    inputArgs.push(...getPausedSlateInputArgs(kind, renditions, slateFontFile));
+    return `[${nextInputIndex++}:${kind === 'video' ? 'v' : 'a'}]`;
+  };
+  const extraFilters: string[] = [];
+  let sources: { video: string | null; audio: string | null };
+  if (screenShare) {
+    // Screen share full canvas with the camera inset (pip), mixed with the microphone; a paused
+    // camera just drops out of the picture
+    inputArgs.push(...getSdpInputArgs(path.resolve(screenSdpPath)));
+    const mosaicInputs = [{ hasVideo: true, hasAudio: !!screenShare.audioConsumer }];
+    if (hasLiveInput) {
+      inputArgs.push(...getSdpInputArgs(path.resolve(sdpPath)));
+      mosaicInputs.push({ hasVideo: !!liveInputs.videoConsumer, hasAudio: !!liveInputs.audioConsumer });
     }
-  });
+    nextInputIndex = mosaicInputs.length;
+    const graph = buildMosaicFilterGraph('pip', mosaicInputs, DEFAULT_MOSAIC_CANVAS);
+    extraFilters.push(graph.filterComplex);
+    sources = { video: graph.videoLabel, audio: hasAudio ? graph.audioLabel ?? addSlateInput('audio') : null };
+  } else {
+    // Input 0 is the RTP of the live tracks; every paused track gets an input of its own after it
+    if (hasLiveInput) {
+      inputArgs.push(...getSdpInputArgs(path.resolve(sdpPath)));
+      nextInputIndex = 1;
+    }
+    const getSource = (kind: mediasoupTypes.MediaKind) => {
+      if (!streamInfo.pausedKinds.has(kind)) return `[0:${kind === 'video' ? 'v' : 'a'}]`;
+      return addSlateInput(kind);
+    };
+    sources = { video: hasVideo ? getSource('video') : null, audio: hasAudio ? getSource('audio') : null };
+  }
+  // LL-HLS renditions come back as fragmented MP4 on extra pipes (fd 3, 4, ...) and are packaged in-process;
+  // classic runs each write into a folder of their own, which the stream's stitched playlists continue from
+  const hlsOutput = streamInfo.hlsOutput;
+  const getArgs = () => {
+    let ladder;
+    if (isLowLatency || !hlsOutput) {
+      ladder = buildFragmentedMp4LadderOutput(renditions, sources, LL_HLS_PART_SECONDS, LL_HLS_FIRST_PIPE_FD);
+    } else if (isCmaf) {
+      const trackCount = renditions.filter(rendition => !!rendition.video).length + (hasAudio ? 1 : 0);
+      const playlists = Array.from({ length: trackCount }, (_, index) => getCmafMediaPlaylistName(index));
+      const runFolder = startStitchedHlsRun(hlsOutput, playlists, DASH_MANIFEST_NAME);
+      ladder = buildCmafLadderOutput(renditions, sources, path.resolve(runFolder), windowSegments);
+    } else {
+      const runFolder = startStitchedHlsRun(hlsOutput, renditions.map(rendition => `${rendition.name}/index.m3u8`));
+      renditions.forEach(rendition => fs.mkdirSync(path.join(runFolder, rendition.name), { recursive: true }));
+      ladder = buildHlsLadderOutput(renditions, sources, path.resolve(runFolder), windowSegments);
+    }
+    return [
+      ...inputArgs,
+      '-filter_complex', [...extraFilters, ...ladder.filters].join(';'),
+      ...ladder.args
+    ];
+  };
   
-  // Resume consumer after a delay
+  const hlsJob: FfmpegJob = startFfmpegJob({
+    kind: 'hls',
+    label: `stream ${streamId} in room ${room.id}`,
+    roomId: room.id,
+    args: getArgs,
+    stdio: ['ignore', 'pipe', 'pipe', ...(isLowLatency ? renditions.map(() => 'pipe' as const) : [])],
+    restart: true,
+    stallTimeoutMs: HLS_STALL_TIMEOUT_MS,
+    // Segments, LL-HLS parts and playlists all land in the stream folder or its rendition folders
+    getLastOutputAt: () => getNewestFileTime(streamHlsFolder),
+    // Every run, restarts included, feeds the packagers and gets a keyframe to start on
+    onSpawn: child => {
+      if (isLowLatency) {
+        renditions.forEach((rendition, index) => {
+          const packager = streamInfo.llHlsRenditions?.get(rendition.name);
+          if (packager) attachLlHlsRendition(packager, child.stdio[LL_HLS_FIRST_PIPE_FD + index] as Readable);
+        });
+      }
+      resumeStreamHlsConsumers(streamId, streamInfo);
+    },
+    onExit: ({ state }) => {
+      // A restart keeps the job; a stopped one was already detached by stopStreamHls
+      if (state !== 'failed' || streamInfo.ffmpegJob !== hlsJob) return;
+      streamInfo.ffmpegJob = undefined;
+      // The playlists stay; blocking LL-HLS requests give up at once
+      streamInfo.llHlsRenditions?.forEach(rendition => closeLlHlsRendition(rendition));
+      if (hlsOutput) stopStitchedHlsOutput(hlsOutput);
+
+      const anyStreamRunning = Array.from(room.hlsComposition.activeStreams.values()).some(info => !!info.ffmpegJob);
+      if (!anyStreamRunning) {
+        console.log('FFmpeg gave up and no stream is live, showing the slate...');
+        showSlate(room);
+      }
+    }
+  });
+  streamInfo.ffmpegJob = hlsJob;
+}
+
+// Viewers keep their playlists across FFmpeg runs; only a change of packaging (classic MPEG-TS, CMAF or
+// LL-HLS) starts the output over in an emptied folder
+function prepareStreamHlsOutput(streamInfo: HlsStreamInfo, streamHlsFolder: string, renditions: HlsRendition[], windowSegments: number) {
+  reclaimRetiredHlsFolder(streamHlsFolder);
+  if (streamInfo.hlsMode === 'classic') {
+    streamInfo.llHlsRenditions?.forEach(rendition => closeLlHlsRendition(rendition));
+    streamInfo.llHlsRenditions = undefined;
+    streamInfo.hlsOutput = openStitchedHlsOutput(streamHlsFolder, streamInfo.segmentFormat, windowSegments, streamInfo.hlsOutput);
+    return;
+  }
+
+  if (streamInfo.hlsOutput || !streamInfo.llHlsRenditions) {
+    if (streamInfo.hlsOutput) stopStitchedHlsOutput(streamInfo.hlsOutput);
+    streamInfo.hlsOutput = undefined;
+    fs.rmSync(streamHlsFolder, { recursive: true, force: true });
+    fs.mkdirSync(streamHlsFolder, { recursive: true });
+  }
+  // Renditions the stream no longer has keep their last playlist rather than disappear
+  const packagers = streamInfo.llHlsRenditions ?? new Map<string, LlHlsRendition>();
+  renditions.forEach(rendition => {
+    const packager = packagers.get(rendition.name) ?? createLlHlsRendition(rendition.name, path.join(streamHlsFolder, rendition.name), windowSegments);
+    packager.segmentWindow = windowSegments;
+    packagers.set(rendition.name, packager);
+  });
+  streamInfo.llHlsRenditions = packagers;
+}
+
+// Resume consumers after a delay; paused tracks stay paused until the broadcaster resumes them
+function resumeStreamHlsConsumers(streamId: string, streamInfo: HlsStreamInfo) {
   setTimeout(async () => {
-    if (streamInfo.videoConsumer && !streamInfo.videoConsumer.closed && streamInfo.videoConsumer.paused) {
-      await streamInfo.videoConsumer.resume();
-      console.log(`Consumer resumed for producer ${streamId}`);
-      
-      // Request keyframe after resuming
-      setTimeout(async () => {
-        if (streamInfo.videoConsumer && !streamInfo.videoConsumer.closed) {
-          await streamInfo.videoConsumer.requestKeyFrame();
-          console.log(`Keyframe requested for producer ${streamId}`);
+    const trackSets = [getLiveHlsInputs(streamInfo), streamInfo.screenShare].filter((trackSet): trackSet is HlsTrackSet => !!trackSet);
+    for (const { videoConsumer, audioConsumer } of trackSets) {
+      if (audioConsumer && !audioConsumer.closed && audioConsumer.paused) {
+        await audioConsumer.resume();
+        console.log(`Audio consumer ${audioConsumer.id} resumed for stream ${streamId}`);
+      }
+      if (videoConsumer && !videoConsumer.closed) {
+        if (videoConsumer.paused) {
+          await videoConsumer.resume();
+          console.log(`Video consumer ${videoConsumer.id} resumed for stream ${streamId}`);
         }
-      }, 1000);
+        
+        // Request keyframe after resuming; a restarted FFmpeg needs one even if the consumer never paused
+        setTimeout(async () => {
+          const isLive = videoConsumer === streamInfo.screenShare?.videoConsumer
+            || (videoConsumer === streamInfo.videoConsumer && !streamInfo.pausedKinds.has('video'));
+          if (isLive && !videoConsumer.closed) {
+            await videoConsumer.requestKeyFrame();
+            console.log(`Keyframe requested for consumer ${videoConsumer.id} of stream ${streamId}`);
+          }
+        }, 1000);
+      }
     }
   }, 2000);
 }
 
-async function createMosaicHls(streams: Array<[string, any]>) {
+async function createMosaicHls(room: Room, streams: Array<[string, HlsStreamInfo]>) {
+  const roomHlsFolder = getRoomHlsFolder(room);
+  // Start from a clean room folder so status files and stale segments never end up in the mosaic playlist
+  clearHlsFiles(roomHlsFolder);
+
   // Create SDP files for all streams
   const sdpFiles: string[] = [];
   
   for (const [streamId, streamInfo] of streams) {
-    const sdpPath = path.join(hlsOutputFolder, `stream_${streamId}.sdp`);
-    const sdpContent = createSdpForStream(streamInfo);
+    const sdpPath = path.join(roomHlsFolder, `stream_${streamId}.sdp`);
+    const sdpContent = createSdpForStream(getMosaicHlsInputs(streamInfo));
     fs.writeFileSync(sdpPath, sdpContent);
     sdpFiles.push(path.resolve(sdpPath));
     console.log(`Created SDP for stream ${streamId}`);
   }
   
-  // Ensure the playlist file is deleted before FFmpeg tries to write
-  try {
-    const finalOutputPath = path.join(hlsOutputFolder, 'playlist.m3u8');
-    if (fs.existsSync(finalOutputPath)) {
-      fs.unlinkSync(finalOutputPath);
-      console.log('Deleted existing playlist.m3u8');
-    }
-  } catch (err) {
-    console.warn('Could not delete existing playlist:', err);
-  }
-  
-  const outputPath = path.join(hlsOutputFolder, 'playlist.m3u8');
-  const segmentPath = path.join(hlsOutputFolder, 'segment_%03d.ts');
-  
-  const ffmpegPath = process.env.FFMPEG_PATH || 'ffmpeg';
-  
   // Build FFmpeg command for mosaic
-  const args: string[] = [];
+  const inputArgs: string[] = [];
   
   // Add inputs
   for (const sdpFile of sdpFiles) {
-    args.push(
-      '-protocol_whitelist', 'file,udp,rtp',
-      '-fflags', '+genpts+igndts',
-      '-use_wallclock_as_timestamps', '1',
-      '-thread_queue_size', '4096',
-      '-analyzeduration', '2000000',
-      '-probesize', '2000000',
-      '-max_delay', '500000',
-      '-reorder_queue_size', '16',
-      '-i', sdpFile
-    );
-  }
-  
-  // Build filter complex for grid layout
-  let filterComplex = '';
-  const streamCount = streams.length;
-  
-  if (streamCount === 2) {
-    // Side by side layout
-    filterComplex = '[0:v]scale=640:480,setpts=PTS-STARTPTS[v0];' +
-                   '[1:v]scale=640:480,setpts=PTS-STARTPTS[v1];' +
-                   '[v0][v1]hstack=inputs=2[out]';
-  } else if (streamCount === 3) {
-    // 2 on top, 1 on bottom
-    filterComplex = '[0:v]scale=640:480,setpts=PTS-STARTPTS[v0];' +
-                   '[1:v]scale=640:480,setpts=PTS-STARTPTS[v1];' +
-                   '[2:v]scale=640:480,setpts=PTS-STARTPTS[v2];' +
-                   '[v0][v1]hstack=inputs=2[top];' +
-                   '[v2]scale=1280:480[bottom];' +
-                   '[top][bottom]vstack=inputs=2[out]';
-  } else if (streamCount === 4) {
-    // 2x2 grid
-    filterComplex = '[0:v]scale=640:480,setpts=PTS-STARTPTS[v0];' +
-                   '[1:v]scale=640:480,setpts=PTS-STARTPTS[v1];' +
-                   '[2:v]scale=640:480,setpts=PTS-STARTPTS[v2];' +
-                   '[3:v]scale=640:480,setpts=PTS-STARTPTS[v3];' +
-                   '[v0][v1]hstack=inputs=2[top];' +
-                   '[v2][v3]hstack=inputs=2[bottom];' +
-                   '[top][bottom]vstack=inputs=2[out]';
-  } else {
-    // For more streams, create a simple grid
-    const cols = Math.ceil(Math.sqrt(streamCount));
-    const rows = Math.ceil(streamCount / cols);
-    const cellWidth = Math.floor(1280 / cols);
-    const cellHeight = Math.floor(720 / rows);
-    
-    // Scale all inputs
-    for (let i = 0; i < streamCount; i++) {
-      filterComplex += `[${i}:v]scale=${cellWidth}:${cellHeight},setpts=PTS-STARTPTS[v${i}];`;
-    }
-    
-    // Create rows
-    let currentIdx = 0;
-    for (let row = 0; row < rows; row++) {
-      const rowInputs = [];
-      for (let col = 0; col < cols && currentIdx < streamCount; col++) {
-        rowInputs.push(`[v${currentIdx}]`);
-        currentIdx++;
-      }
-      
-      if (rowInputs.length > 0) {
-        filterComplex += rowInputs.join('') + `hstack=inputs=${rowInputs.length}[row${row}];`;
-      }
-    }
-    
-    // Stack rows
-    const rowLabels = [];
-    for (let row = 0; row < rows; row++) {
-      if (row * cols < streamCount) {
-        rowLabels.push(`[row${row}]`);
-      }
-    }
-    filterComplex += rowLabels.join('') + `vstack=inputs=${rowLabels.length}[out]`;
+    inputArgs.push(...getSdpInputArgs(sdpFile));
   }
   
-  args.push(
-    '-filter_complex', filterComplex,
-    '-map', '[out]',
-    '-vcodec', 'libx264',
-    '-preset', 'veryfast',
-    '-tune', 'zerolatency',
-    '-profile:v', 'baseline',
-    '-level', '3.1',
-    '-pix_fmt', 'yuv420p',
-    '-g', '30',
-    '-keyint_min', '30',
-    '-sc_threshold', '0',
-    '-b:v', '2000k',
-    '-maxrate', '2500k',
-    '-bufsize', '4000k',
-    '-r', '30',
-    '-f', 'hls',
-    '-hls_time', '2',
-    '-hls_list_size', '10',
-    '-hls_flags', 'delete_segments+append_list',
-    '-hls_segment_filename', path.resolve(segmentPath),
-    '-hls_segment_type', 'mpegts',
-    '-start_number', '0',
-    '-y',
-    path.resolve(outputPath)
+  const layout = room.hlsComposition.layout === 'individual' ? 'grid' : room.hlsComposition.layout;
+  const filterGraph = buildMosaicFilterGraph(
+    layout,
+    // A paused camera drops out of the mosaic until it resumes
+    streams.map(([, streamInfo]) => {
+      const { videoConsumer, audioConsumer } = getMosaicHlsInputs(streamInfo);
+      return { hasVideo: !!videoConsumer, hasAudio: !!audioConsumer };
+    })
   );
+  console.log(`Mosaic filter graph (${layout}):`, filterGraph.filterComplex);
   
-  console.log('Starting FFmpeg mosaic with command:', ffmpegPath, args.join(' '));
-  
-  const ffmpegProcess = spawn(ffmpegPath, args, {
-    cwd: process.cwd(),
-    stdio: ['ignore', 'pipe', 'pipe'],
-    shell: true
-  });
-  
-  hlsComposition.ffmpegProcess = ffmpegProcess;
-  hlsComposition.isComposing = false;
-  
-  ffmpegProcess.stderr.on('data', (data: Buffer) => {
-    const line = data.toString();
-    // Log ALL output for debugging
-    console.log('HLS FFMPEG:', line.trim());
-  });
+  // The room playlist becomes the master playlist of the mosaic renditions in <room>/program/; the mosaic
+  // continues the rendition playlists of the slate, or of an earlier layout or set of broadcasters, after a discontinuity
+  const hasVideo = !!filterGraph.videoLabel;
+  const hasAudio = !!filterGraph.audioLabel;
+  const programFolder = getProgramHlsFolder(room);
+  const renditions = getRenditionsFor(hlsLadder, hasVideo, hasAudio);
+  const windowSegments = getHlsWindowSegments(DEFAULT_DVR_WINDOW_SECONDS);
+  const programOutput = openStitchedHlsOutput(programFolder, 'mpegts', windowSegments, room.hlsComposition.programOutput);
+  room.hlsComposition.programOutput = programOutput;
+  writeFileAtomic(path.join(roomHlsFolder, 'playlist.m3u8'), buildMasterPlaylist(renditions, hasAudio, `${PROGRAM_FOLDER_NAME}/`));
   
-  ffmpegProcess.on('error', (err: Error) => {
-    console.error('HLS Mosaic spawn error:', err);
-    hlsComposition.ffmpegProcess = null;
-    hlsComposition.isComposing = false;
-    createStaticInformationalStream();
-  });
+  const getArgs = () => {
+    const runFolder = startStitchedHlsRun(programOutput, renditions.map(rendition => `${rendition.name}/index.m3u8`));
+    renditions.forEach(rendition => fs.mkdirSync(path.join(runFolder, rendition.name), { recursive: true }));
+    const ladder = buildHlsLadderOutput(
+      renditions,
+      { video: filterGraph.videoLabel, audio: filterGraph.audioLabel },
+      path.resolve(runFolder),
+      windowSegments
+    );
+    return [
+      ...inputArgs,
+      '-filter_complex', [filterGraph.filterComplex, ...ladder.filters].join(';'),
+      ...ladder.args
+    ];
+  };
   
-  ffmpegProcess.on('exit', (code: number | null, signal: string | null) => {
-    console.log('HLS Mosaic FFmpeg process exited with code:', code, 'signal:', signal);
-    hlsComposition.ffmpegProcess = null;
-    hlsComposition.isComposing = false;
-    
-    if (code !== 0 && code !== null) {
-      console.log('FFmpeg failed, creating status video...');
-      createStaticInformationalStream();
+  const mosaicJob: FfmpegJob = startFfmpegJob({
+    kind: 'mosaic',
+    label: `${layout} mosaic of room ${room.id}`,
+    roomId: room.id,
+    args: getArgs,
+    restart: true,
+    stallTimeoutMs: HLS_STALL_TIMEOUT_MS,
+    getLastOutputAt: () => getNewestFileTime(programFolder),
+    onSpawn: () => resumeMosaicHlsConsumers(streams),
+    onExit: ({ state }) => {
+      // A restart keeps the job; a replaced or stopped mosaic was already detached
+      if (state !== 'failed' || room.hlsComposition.ffmpegJob !== mosaicJob) return;
+      room.hlsComposition.ffmpegJob = undefined;
+      room.hlsComposition.isComposing = false;
+      stopStitchedHlsOutput(programOutput);
+      console.log('Mosaic FFmpeg gave up, showing the slate...');
+      showSlate(room);
     }
   });
-  
-  // Resume all consumers after a delay
+  room.hlsComposition.ffmpegJob = mosaicJob;
+  room.hlsComposition.isComposing = false;
+}
+
+// Resume all consumers after a delay
+function resumeMosaicHlsConsumers(streams: Array<[string, HlsStreamInfo]>) {
   setTimeout(async () => {
     for (const [streamId, streamInfo] of streams) {
-      if (streamInfo.videoConsumer && !streamInfo.videoConsumer.closed && streamInfo.videoConsumer.paused) {
-        await streamInfo.videoConsumer.resume();
-        console.log(`Consumer resumed for producer ${streamId}`);
+      const { videoConsumer, audioConsumer } = getMosaicHlsInputs(streamInfo);
+      if (audioConsumer && !audioConsumer.closed && audioConsumer.paused) {
+        await audioConsumer.resume();
+        console.log(`Audio consumer resumed for stream ${streamId}`);
+      }
+      if (videoConsumer && !videoConsumer.closed) {
+        if (videoConsumer.paused) {
+          await videoConsumer.resume();
+          console.log(`Video consumer resumed for stream ${streamId}`);
+        }
         
         // Request keyframe after resuming
         setTimeout(async () => {
-          if (streamInfo.videoConsumer && !streamInfo.videoConsumer.closed) {
-            await streamInfo.videoConsumer.requestKeyFrame();
-            console.log(`Keyframe requested for producer ${streamId}`);
+          if (videoConsumer === getMosaicHlsInputs(streamInfo).videoConsumer && !videoConsumer.closed) {
+            await videoConsumer.requestKeyFrame();
+            console.log(`Keyframe requested for stream ${streamId}`);
           }
         }, 500);
       }
@@ -1507,7 +3539,8 @@ async function createMosaicHls(streams: Array<[string, any]>) {
   }, 2000);
 }
 
-function createSdpForStream(streamInfo: any): string {
+// Shared by HLS outputs and recorders, which each receive RTP on their own ports
+function createSdpForStream(streamInfo: Pick<HlsStreamInfo, 'rtpPorts' | 'videoConsumer' | 'audioConsumer'>): string {
   const videoPort = streamInfo.rtpPorts.video;
   const audioPort = streamInfo.rtpPorts.audio;
   
@@ -1559,378 +3592,146 @@ a=rtpmap:${audioCodec.payloadType} ${audioCodec.mimeType.split('/')[1]}/${audioC
   return sdp;
 }
 
-function createLiveStatusStream(activeStreamCount: number) {
-  try {
-    console.log(`Creating live status stream for ${activeStreamCount} active WebRTC streams...`);
-    
-    // Just create a working playlist without trying to use lavfi
-    createWorkingPlaylist(activeStreamCount);
-    
-  } catch (error) {
-    console.error('Error creating live status stream:', error);
-    createMinimalHlsPlaylist();
-  }
+function getSlateOwner(room?: Room): Pick<HlsComposition, 'slate' | 'programOutput'> {
+  return room ? room.hlsComposition : lobby;
 }
 
-function createSimpleLiveStream(activeStreamCount: number) {
-  // Skip to file-based approach directly
-  createFileBasedStream();
+// The master playlist and the slate text sit in the room folder (the HLS root for the lobby), the
+// renditions in the program folder
+function getSlateFolders(room?: Room) {
+  return room
+    ? { folder: getRoomHlsFolder(room), outputFolder: getProgramHlsFolder(room), uriPrefix: `${PROGRAM_FOLDER_NAME}/` }
+    : { folder: hlsOutputFolder, outputFolder: path.join(hlsOutputFolder, LOBBY_FOLDER_NAME), uriPrefix: `${LOBBY_FOLDER_NAME}/` };
 }
 
-function createFileBasedStream() {
-  try {
-    console.log('Creating file-based HLS stream...');
-    
-    // For Windows, we'll create a simple working playlist directly
-    const activeStreamCount = hlsComposition.activeStreams.size;
-    createWorkingPlaylist(activeStreamCount);
-    
-  } catch (error) {
-    console.error('Error in file-based stream creation:', error);
-    createMinimalHlsPlaylist();
-  }
+// Rooms get the whole ladder so the broadcast that follows continues the same renditions; the lobby is a
+// placeholder and makes do with its lowest rendition
+function getSlateRenditions(room?: Room): HlsRendition[] {
+  const renditions = getRenditionsFor(hlsLadder, true, true);
+  if (room) return renditions;
+  const lowest = renditions.filter(rendition => !!rendition.video).pop();
+  return renditions.filter(rendition => !rendition.video || rendition === lowest);
 }
 
-function createLiveHlsFromVideo(inputPath: string, outputPath: string, activeStreamCount: number) {
-  try {
-    console.log('Creating live HLS stream from video file...');
-    
-    // First, ensure we have a valid demo segment
-    const demoSegmentPath = path.join(hlsOutputFolder, 'demo-segment.ts');
-    
-    if (!fs.existsSync(demoSegmentPath)) {
-      // Create a demo segment from the test pattern
-      const createSegment = ffmpeg()
-        .input(inputPath)
-        .videoCodec('libx264')
-        .outputOptions([
-          '-preset', 'fast',
-          '-profile:v', 'baseline',
-          '-level', '3.1',
-          '-pix_fmt', 'yuv420p',
-          '-t', '10',
-          '-f', 'mpegts',
-          '-y'
-        ])
-        .output(demoSegmentPath)
-        .on('end', () => {
-          console.log('Demo segment created');
-          createWorkingPlaylist(activeStreamCount);
-        })
-        .on('error', (err: Error) => {
-          console.error('Error creating demo segment:', err);
-          createWorkingPlaylist(activeStreamCount);
-        });
-      
-      createSegment.run();
-    } else {
-      createWorkingPlaylist(activeStreamCount);
-    }
-    
-  } catch (error) {
-    console.error('Error creating HLS from video:', error);
-    createWorkingPlaylist(activeStreamCount);
-  }
+function refreshSlateText(room?: Room) {
+  writeSlateText(getSlateFolders(room).folder, getSlateOwner(room).slate.settings, getHlsViewerCount(room ? room.id : null));
 }
 
-function createStaticInformationalStream() {
+// The "offline / starting soon" slate of a room without a live broadcast, or of the lobby. It continues
+// the room playlist like the mosaic does, so a mosaic that follows is one discontinuity away.
+async function showSlate(room?: Room) {
   try {
-    console.log('Creating static informational HLS stream...');
-    
-    const activeStreamCount = hlsComposition.activeStreams.size;
-    
-    // If there are active streams, create a live HLS stream
-    if (activeStreamCount > 0) {
-      console.log('Active streams detected, creating live informational HLS stream...');
-      
-      // Stop any existing FFMPEG process
-      if (hlsComposition.ffmpegProcess) {
-        try {
-          hlsComposition.ffmpegProcess.kill('SIGTERM');
-          hlsComposition.ffmpegProcess = null;
-        } catch (error) {
-          console.error('Error stopping existing FFMPEG process:', error);
-        }
-      }
-      
-      // Try to create live status stream
-      createLiveStatusStream(activeStreamCount);
+    const owner = getSlateOwner(room);
+    if (owner.slate.job) {
+      refreshSlateText(room);
+      if (room?.hlsComposition.layout === 'individual') handOverSlate(room);
       return;
     }
-    
-    // No active streams, create VOD demo
-    createVodInformationalStream(activeStreamCount);
-    
-  } catch (error) {
-    console.error('Error creating static informational HLS stream:', error);
-    createMinimalHlsPlaylist();
-  }
-}
-
-function createVodInformationalStream(activeStreamCount: number) {
-  try {
-    const timestamp = new Date().toLocaleTimeString();
-    
-    // Create a working demo video segment using FFMPEG
-    const demoSegmentPath = path.join(hlsOutputFolder, 'demo-segment.ts');
-    
-    if (!fs.existsSync(demoSegmentPath)) {
-      console.log('Creating demo segment without lavfi...');
-      
-      // Since lavfi is not available, just create a minimal TS file
-      createWorkingPlaylist(activeStreamCount);
-    } else {
-      createWorkingPlaylist(activeStreamCount);
+    if (room) {
+      await stopMosaicHls(room);
+      // Closed, or another call started the slate meanwhile
+      if (rooms.get(room.id) !== room || owner.slate.job) return;
     }
-  } catch (error) {
-    console.error('Error creating VOD informational stream:', error);
-    createMinimalHlsPlaylist();
-  }
-}
-
-function createWorkingPlaylist(activeStreamCount: number) {
-  try {
-    // First ensure demo-segment.ts exists
-    const demoSegmentPath = path.join(hlsOutputFolder, 'demo-segment.ts');
-    
-    if (!fs.existsSync(demoSegmentPath)) {
-      console.log('Demo segment not found, creating one...');
-      
-      // Create a simple black video file first, then convert to TS
-      const tempVideoPath = path.join(hlsOutputFolder, 'temp_black.mp4');
-      
-      // First, try to create a black video using FFmpeg without lavfi
-      // We'll create a very small black frame as a raw file
-      const width = 320;
-      const height = 240;
-      const frameSize = width * height * 1.5; // YUV420
-      const blackFrame = Buffer.alloc(frameSize);
-      
-      // Y plane (luma) - all zeros for black
-      // U and V planes - 128 for neutral color
-      const ySize = width * height;
-      const uvSize = ySize / 4;
-      
-      // Fill U and V planes with 128
-      for (let i = ySize; i < ySize + uvSize * 2; i++) {
-        blackFrame[i] = 128;
-      }
-      
-      // Write raw YUV file
-      const rawPath = path.join(hlsOutputFolder, 'black.yuv');
-      fs.writeFileSync(rawPath, new Uint8Array(blackFrame));
-      
-      // Convert raw YUV to MPEG-TS
-      const ffmpegCmd = ffmpeg()
-        .input(rawPath.replace(/\\/g, '/'))  // Convert backslashes to forward slashes for Windows
-        .inputOptions([
-          '-f', 'rawvideo',
-          '-pix_fmt', 'yuv420p',
-          '-s', `${width}x${height}`,
-          '-r', '25'
-        ])
-        .videoCodec('libx264')
-        .outputOptions([
-          '-t', '2',  // 2 seconds duration
-          '-preset', 'ultrafast',
-          '-profile:v', 'baseline',
-          '-level', '3.0',
-          '-g', '50',
-          '-b:v', '100k',
-          '-f', 'mpegts',
-          '-y'
-        ])
-        .output(demoSegmentPath.replace(/\\/g, '/'))  // Convert backslashes to forward slashes for Windows
-        .on('end', () => {
-          console.log('Demo segment created successfully');
-          
-          // Clean up temporary files
-          try {
-            fs.unlinkSync(rawPath);
-          } catch (e) {
-            // Ignore cleanup errors
-          }
-          
-          // Create the playlist
-          const workingPlaylist = `#EXTM3U
-#EXT-X-VERSION:3
-#EXT-X-TARGETDURATION:2
-#EXT-X-MEDIA-SEQUENCE:0
-#EXT-X-PLAYLIST-TYPE:VOD
-#EXTINF:2.0,
-demo-segment.ts
-#EXT-X-ENDLIST`;
-
-          fs.writeFileSync(path.join(hlsOutputFolder, 'playlist.m3u8'), workingPlaylist);
-          console.log('Working HLS playlist created successfully');
-          console.log('Active streams:', activeStreamCount);
-        })
-        .on('error', (err: Error) => {
-          console.error('Error creating demo segment:', err);
-          
-          // Clean up temporary files
-          try {
-            fs.unlinkSync(rawPath);
-          } catch (e) {
-            // Ignore cleanup errors
-          }
-          
-          // If FFmpeg fails, create a minimal valid TS file
-          createMinimalValidTsFile(demoSegmentPath);
-          
-          // Create the playlist
-          const workingPlaylist = `#EXTM3U
-#EXT-X-VERSION:3
-#EXT-X-TARGETDURATION:2
-#EXT-X-MEDIA-SEQUENCE:0
-#EXT-X-PLAYLIST-TYPE:VOD
-#EXTINF:2.0,
-demo-segment.ts
-#EXT-X-ENDLIST`;
 
-          fs.writeFileSync(path.join(hlsOutputFolder, 'playlist.m3u8'), workingPlaylist);
-          console.log('Working HLS playlist created successfully');
-          console.log('Active streams:', activeStreamCount);
-        })
-        .run();
-      
-      return; // Exit early since ffmpeg will handle the rest asynchronously
-    }
-    
-    // Demo segment exists, just create the playlist
-    const workingPlaylist = `#EXTM3U
-#EXT-X-VERSION:3
-#EXT-X-TARGETDURATION:2
-#EXT-X-MEDIA-SEQUENCE:0
-#EXT-X-PLAYLIST-TYPE:VOD
-#EXTINF:2.0,
-demo-segment.ts
-#EXT-X-ENDLIST`;
+    const { folder, outputFolder, uriPrefix } = getSlateFolders(room);
+    const renditions = getSlateRenditions(room);
+    const topVideoRendition = renditions.find(rendition => !!rendition.video);
+    const windowSegments = getHlsWindowSegments(0);
+    refreshSlateText(room);
+    const output = openStitchedHlsOutput(outputFolder, 'mpegts', windowSegments, owner.programOutput);
+    owner.programOutput = output;
+    writeFileAtomic(path.join(folder, 'playlist.m3u8'), buildMasterPlaylist(renditions, true, uriPrefix));
+
+    const input = buildSlateInput(slateBackground, topVideoRendition?.video?.height ?? 720, folder, slateFontFile);
+    const getArgs = () => {
+      const runFolder = startStitchedHlsRun(output, renditions.map(rendition => `${rendition.name}/index.m3u8`));
+      renditions.forEach(rendition => fs.mkdirSync(path.join(runFolder, rendition.name), { recursive: true }));
+      // An audio-only ladder leaves the picture unused
+      const ladder = buildHlsLadderOutput(
+        renditions,
+        { video: topVideoRendition ? input.video : null, audio: input.audio },
+        path.resolve(runFolder),
+        windowSegments
+      );
+      return [
+        ...input.inputArgs,
+        '-filter_complex', [...(topVideoRendition ? [input.filter] : []), ...ladder.filters].join(';'),
+        ...ladder.args
+      ];
+    };
 
-    fs.writeFileSync(path.join(hlsOutputFolder, 'playlist.m3u8'), workingPlaylist);
-    console.log('Working HLS playlist created successfully');
-    console.log('Active streams:', activeStreamCount);
-    
+    const slate = owner.slate;
+    const slateJob: FfmpegJob = startFfmpegJob({
+      kind: 'slate',
+      label: room ? `slate of room ${room.id}` : 'lobby slate',
+      roomId: room?.id,
+      args: getArgs,
+      restart: true,
+      stallTimeoutMs: HLS_STALL_TIMEOUT_MS,
+      getLastOutputAt: () => getNewestFileTime(outputFolder),
+      onExit: ({ state }) => {
+        // A restart keeps the job; a stopped slate was already detached by stopSlate
+        if (state !== 'failed' || slate.job !== slateJob) return;
+        console.error(`${slateJob.options.label} gave up`);
+        stopSlate(room).then(() => discardSlatePlaylists(room));
+      }
+    });
+    slate.job = slateJob;
+    slate.textTimer = setInterval(() => {
+      // A slate only runs while someone is watching it; the next playlist request brings it back
+      if (getHlsViewerCount(room ? room.id : null) === 0) {
+        console.log(`Nobody is watching ${slateJob.options.label}, stopping it`);
+        stopSlate(room).then(() => discardSlatePlaylists(room));
+        return;
+      }
+      refreshSlateText(room);
+    }, SLATE_TEXT_REFRESH_MS);
+    if (room?.hlsComposition.layout === 'individual') handOverSlate(room);
+    console.log(`Showing ${slateJob.options.label} (${slateBackground.type} background)`);
   } catch (error) {
-    console.error('Error creating working playlist:', error);
-    createMinimalHlsPlaylist();
+    console.error(`Error showing the ${room ? `slate of room ${room.id}` : 'lobby slate'}:`, error);
   }
 }
 
-function createMinimalValidTsFile(filePath: string) {
-  // Create a more complete MPEG-TS file with PAT, PMT, and some video packets
-  const tsPacketSize = 188;
-  const syncByte = 0x47;
-  const packets = 1000;
-  
-  const buffer = Buffer.alloc(tsPacketSize * packets);
-  
-  // PAT packet
-  let packetIndex = 0;
-  buffer[packetIndex * tsPacketSize] = syncByte;
-  buffer[packetIndex * tsPacketSize + 1] = 0x40; // Payload unit start
-  buffer[packetIndex * tsPacketSize + 2] = 0x00; // PID 0
-  buffer[packetIndex * tsPacketSize + 3] = 0x10; // Payload only
-  
-  // PAT payload
-  const patStart = packetIndex * tsPacketSize + 4;
-  buffer[patStart] = 0x00; // Pointer
-  buffer[patStart + 1] = 0x00; // Table ID
-  buffer[patStart + 2] = 0xB0; // Section syntax
-  buffer[patStart + 3] = 0x0D; // Section length
-  buffer[patStart + 4] = 0x00; // TS ID high
-  buffer[patStart + 5] = 0x01; // TS ID low
-  buffer[patStart + 6] = 0xC1; // Version
-  buffer[patStart + 7] = 0x00; // Section number
-  buffer[patStart + 8] = 0x00; // Last section
-  buffer[patStart + 9] = 0x00; // Program high
-  buffer[patStart + 10] = 0x01; // Program low
-  buffer[patStart + 11] = 0xE1; // PMT PID high
-  buffer[patStart + 12] = 0x00; // PMT PID low
-  
-  // CRC32 placeholder
-  buffer[patStart + 13] = 0x00;
-  buffer[patStart + 14] = 0x00;
-  buffer[patStart + 15] = 0x00;
-  buffer[patStart + 16] = 0x00;
-  
-  // Fill rest with padding
-  for (let i = patStart + 17; i < (packetIndex + 1) * tsPacketSize; i++) {
-    buffer[i] = 0xFF;
-  }
-  
-  // PMT packet
-  packetIndex++;
-  buffer[packetIndex * tsPacketSize] = syncByte;
-  buffer[packetIndex * tsPacketSize + 1] = 0x41; // Payload unit start
-  buffer[packetIndex * tsPacketSize + 2] = 0x00; // PID 256
-  buffer[packetIndex * tsPacketSize + 3] = 0x10; // Payload only
-  
-  // PMT payload
-  const pmtStart = packetIndex * tsPacketSize + 4;
-  buffer[pmtStart] = 0x00; // Pointer
-  buffer[pmtStart + 1] = 0x02; // Table ID
-  buffer[pmtStart + 2] = 0xB0; // Section syntax
-  buffer[pmtStart + 3] = 0x17; // Section length
-  buffer[pmtStart + 4] = 0x00; // Program high
-  buffer[pmtStart + 5] = 0x01; // Program low
-  buffer[pmtStart + 6] = 0xC1; // Version
-  buffer[pmtStart + 7] = 0x00; // Section number
-  buffer[pmtStart + 8] = 0x00; // Last section
-  buffer[pmtStart + 9] = 0xE1; // PCR PID high
-  buffer[pmtStart + 10] = 0x00; // PCR PID low
-  buffer[pmtStart + 11] = 0xF0; // Program info length high
-  buffer[pmtStart + 12] = 0x00; // Program info length low
-  
-  // Video stream
-  buffer[pmtStart + 13] = 0x1B; // H.264 stream type
-  buffer[pmtStart + 14] = 0xE1; // Elementary PID high
-  buffer[pmtStart + 15] = 0x00; // Elementary PID low
-  buffer[pmtStart + 16] = 0xF0; // ES info length high
-  buffer[pmtStart + 17] = 0x00; // ES info length low
-  
-  // CRC32 placeholder
-  buffer[pmtStart + 18] = 0x00;
-  buffer[pmtStart + 19] = 0x00;
-  buffer[pmtStart + 20] = 0x00;
-  buffer[pmtStart + 21] = 0x00;
-  
-  // Fill rest with padding
-  for (let i = pmtStart + 22; i < (packetIndex + 1) * tsPacketSize; i++) {
-    buffer[i] = 0xFF;
-  }
-  
-  // Fill remaining packets with null packets
-  for (let i = 2; i < packets; i++) {
-    const offset = i * tsPacketSize;
-    buffer[offset] = syncByte;
-    buffer[offset + 1] = 0x1F;
-    buffer[offset + 2] = 0xFF;
-    buffer[offset + 3] = 0x10;
-    for (let j = 4; j < tsPacketSize; j++) {
-      buffer[offset + j] = 0xFF;
-    }
-  }
-  
-  fs.writeFileSync(filePath, new Uint8Array(buffer));
-  console.log('Created minimal valid TS file');
+// Resolves once the slate FFmpeg has exited; the playlists stay for whatever continues them
+function stopSlate(room?: Room): Promise<void> {
+  const owner = getSlateOwner(room);
+  const slate = owner.slate;
+  clearInterval(slate.textTimer);
+  clearInterval(slate.handoverTimer);
+  slate.textTimer = undefined;
+  slate.handoverTimer = undefined;
+  const job = slate.job;
+  slate.job = undefined;
+  return stopStitchedRunWith(owner.programOutput, stopFfmpegJob(job));
 }
 
-// Create a minimal HLS playlist as last resort
-function createMinimalHlsPlaylist() {
-  try {
-    const minimalPlaylist = `#EXTM3U
-#EXT-X-VERSION:3
-#EXT-X-TARGETDURATION:10
-#EXT-X-MEDIA-SEQUENCE:0
-#EXT-X-PLAYLIST-TYPE:VOD
-#EXTINF:10.0,
-demo-segment.ts
-#EXT-X-ENDLIST`;
-    
-    fs.writeFileSync(path.join(hlsOutputFolder, 'playlist.m3u8'), minimalPlaylist);
-    console.log('Created minimal HLS playlist as fallback');
-  } catch (error) {
-    console.error('Failed to create even minimal HLS playlist:', error);
-  }
-}
\ No newline at end of file
+// In the individual layout the slate gives way as soon as a broadcaster's first segment is up: the room
+// program continues with that segment after a discontinuity, so players on the room playlist switch over
+// without reloading (see followProgramStream)
+function handOverSlate(room: Room) {
+  const slate = room.hlsComposition.slate;
+  if (!slate.job || slate.handoverTimer) return;
+  slate.handoverTimer = setInterval(() => {
+    const anyStreamReady = Array.from(room.hlsComposition.activeStreams.entries())
+      .some(([streamId, streamInfo]) => isStreamHlsReady(room, streamId, streamInfo));
+    if (!anyStreamReady) return;
+    clearInterval(slate.handoverTimer);
+    slate.handoverTimer = undefined;
+    console.log(`Room ${room.id} hands over from its slate to the live broadcast`);
+    followProgramStream(room)
+      .then(following => { if (!following) showSlate(room); })
+      .catch(error => console.error(`Error handing over the slate of room ${room.id}:`, error));
+  }, SLATE_HANDOVER_POLL_MS);
+}
+
+// The slate has stopped and nothing continues its playlists; they go so the next request finds them missing
+function discardSlatePlaylists(room?: Room) {
+  const owner = getSlateOwner(room);
+  if (owner.slate.job || room?.hlsComposition.ffmpegJob || room?.hlsComposition.isComposing || owner.programOutput?.source) return;
+  const { folder, outputFolder } = getSlateFolders(room);
+  if (owner.programOutput) stopStitchedHlsOutput(owner.programOutput);
+  owner.programOutput = undefined;
+  fs.rmSync(path.join(folder, 'playlist.m3u8'), { force: true });
+  fs.rmSync(outputFolder, { recursive: true, force: true });
+}
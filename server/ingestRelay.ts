@@ -0,0 +1,119 @@
+import { randomBytes } from 'crypto';
+import { types as mediasoupTypes } from 'mediasoup';
+
+// Reader and relay FFmpeg shared by the RTMP and SRT ingests. The reader takes the contribution feed as it
+// is and describes its streams; feeds may be video-only or audio-only, so only then are producers created
+// for the kinds it has, and the relay re-encodes the reader's copy to the H.264 and Opus the router takes
+// and sends each kind as RTP to its comedia PlainTransport producer.
+
+// Payload types and codecs the relay FFmpeg writes; they must match the producers' rtpParameters
+const RELAY_VIDEO_PAYLOAD_TYPE = 102;
+const RELAY_AUDIO_PAYLOAD_TYPE = 101;
+// Constrained baseline without B-frames, the H.264 every WebRTC browser decodes
+const RELAY_H264_PROFILE_LEVEL_ID = '42e01f';
+const RELAY_VIDEO_BITRATE_KBPS = 2500;
+const RELAY_AUDIO_BITRATE_KBPS = 128;
+const RELAY_GOP_FRAMES = 60;
+// Stay under a typical path MTU once SRTP/UDP headers are added
+const RELAY_RTP_PACKET_SIZE = 1200;
+
+export interface IngestRelayTarget {
+  // Local RTP/RTCP ports of the comedia PlainTransport
+  port: number;
+  rtcpPort: number;
+  ssrc: number;
+}
+
+export function createRelaySsrc(): number {
+  return randomBytes(4).readUInt32BE(0) || 1;
+}
+
+// Copy the feed's first video and audio stream, whichever it has, to stdout for the relay
+export function buildIngestReaderArgs(inputUrl: string): string[] {
+  return [
+    '-fflags', '+genpts',
+    '-i', inputUrl,
+    '-map', '0:v:0?',
+    '-map', '0:a:0?',
+    '-c', 'copy',
+    '-f', 'mpegts',
+    'pipe:1'
+  ];
+}
+
+// Kinds the reader found in its input, once FFmpeg has described it (the stream mapping or output follows)
+export function parseIngestInputKinds(output: string): mediasoupTypes.MediaKind[] | null {
+  const inputStart = output.indexOf('Input #0');
+  const inputEnd = output.search(/Stream mapping:|Output #0/);
+  if (inputStart === -1 || inputEnd < inputStart) return null;
+  const input = output.slice(inputStart, inputEnd);
+  const kinds: mediasoupTypes.MediaKind[] = [];
+  if (/Stream #0:\d+\S*: Video:/.test(input)) kinds.push('video');
+  if (/Stream #0:\d+\S*: Audio:/.test(input)) kinds.push('audio');
+  return kinds;
+}
+
+// Read the reader's copy on stdin and send each kind it has as RTP in the codec its producer announces
+export function buildIngestRelayArgs(targets: Partial<Record<mediasoupTypes.MediaKind, IngestRelayTarget>>): string[] {
+  const rtpUrl = (target: IngestRelayTarget) =>
+    `rtp://127.0.0.1:${target.port}?rtcpport=${target.rtcpPort}&pkt_size=${RELAY_RTP_PACKET_SIZE}`;
+  const args = ['-f', 'mpegts', '-i', 'pipe:0'];
+  if (targets.video) {
+    args.push(
+      '-map', '0:v:0?',
+      '-c:v', 'libx264',
+      '-preset', 'veryfast',
+      '-tune', 'zerolatency',
+      '-profile:v', 'baseline',
+      '-level', '3.1',
+      '-pix_fmt', 'yuv420p',
+      '-bf', '0',
+      '-g', String(RELAY_GOP_FRAMES),
+      '-b:v', `${RELAY_VIDEO_BITRATE_KBPS}k`,
+      '-maxrate', `${RELAY_VIDEO_BITRATE_KBPS}k`,
+      '-bufsize', `${RELAY_VIDEO_BITRATE_KBPS * 2}k`,
+      '-ssrc', String(targets.video.ssrc),
+      '-payload_type', String(RELAY_VIDEO_PAYLOAD_TYPE),
+      '-f', 'rtp',
+      rtpUrl(targets.video)
+    );
+  }
+  if (targets.audio) {
+    args.push(
+      '-map', '0:a:0?',
+      '-c:a', 'libopus',
+      '-ar', '48000',
+      '-ac', '2',
+      '-b:a', `${RELAY_AUDIO_BITRATE_KBPS}k`,
+      '-ssrc', String(targets.audio.ssrc),
+      '-payload_type', String(RELAY_AUDIO_PAYLOAD_TYPE),
+      '-f', 'rtp',
+      rtpUrl(targets.audio)
+    );
+  }
+  return args;
+}
+
+export function getRelayRtpParameters(kind: mediasoupTypes.MediaKind, ssrc: number): mediasoupTypes.RtpParameters {
+  if (kind === 'video') {
+    return {
+      codecs: [{
+        mimeType: 'video/H264',
+        payloadType: RELAY_VIDEO_PAYLOAD_TYPE,
+        clockRate: 90000,
+        parameters: { 'packetization-mode': 1, 'profile-level-id': RELAY_H264_PROFILE_LEVEL_ID }
+      }],
+      encodings: [{ ssrc }]
+    };
+  }
+  return {
+    codecs: [{
+      mimeType: 'audio/opus',
+      payloadType: RELAY_AUDIO_PAYLOAD_TYPE,
+      clockRate: 48000,
+      channels: 2,
+      parameters: { 'sprop-stereo': 1 }
+    }],
+    encodings: [{ ssrc }]
+  };
+}
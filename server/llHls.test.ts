@@ -0,0 +1,187 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  LlHlsRendition, attachLlHlsRendition, closeLlHlsRendition, createLlHlsRendition, endLlHlsRendition, isLlHlsRenditionReady,
+  renderLlHlsPlaylist, waitForLlHlsPart, waitForLlHlsPlaylist
+} from './llHls';
+
+// A synthetic fMP4 stream like FFmpeg's: one video track at 30 fps in a 90 kHz timescale, and 0.5 s fragments
+const TRACK_ID = 1;
+const TIMESCALE = 90000;
+const SAMPLE_TICKS = 3000;
+const SAMPLES_PER_PART = 15;
+const SYNC_SAMPLE_FLAGS = 0x02000000;
+const NON_SYNC_SAMPLE_FLAGS = 0x01010000;
+
+const uint32 = (...values: number[]) => Buffer.concat(values.map(value => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return buffer;
+}));
+
+function box(type: string, ...payload: Buffer[]): Buffer {
+  const content = Buffer.concat(payload);
+  return Buffer.concat([uint32(content.length + 8), Buffer.from(type, 'latin1'), content]);
+}
+
+// ftyp and a moov with just what the packager reads: track id, timescale and handler
+function createInitSegment(): Buffer {
+  const tkhd = box('tkhd', uint32(0, 0, 0, TRACK_ID, 0));
+  const mdhd = box('mdhd', uint32(0, 0, 0, TIMESCALE, 0));
+  const hdlr = box('hdlr', uint32(0, 0), Buffer.from('vide', 'latin1'), uint32(0, 0, 0));
+  const trex = box('trex', uint32(0, TRACK_ID, 1, SAMPLE_TICKS, 0, NON_SYNC_SAMPLE_FLAGS));
+  return Buffer.concat([
+    box('ftyp', Buffer.from('iso6', 'latin1'), uint32(0)),
+    box('moov', box('trak', tkhd, box('mdia', mdhd, hdlr)), box('mvex', trex))
+  ]);
+}
+
+// One partial segment: moof with a trun giving the first sample's flags and every sample's duration, then mdat
+function createFragment(keyframe: boolean): Buffer {
+  const tfhd = box('tfhd', uint32(0x020000, TRACK_ID));
+  const durations = Array.from({ length: SAMPLES_PER_PART }, () => SAMPLE_TICKS);
+  const trun = box('trun', uint32(0x000104, SAMPLES_PER_PART, keyframe ? SYNC_SAMPLE_FLAGS : NON_SYNC_SAMPLE_FLAGS, ...durations));
+  return Buffer.concat([box('moof', box('mfhd', uint32(0, 1)), box('traf', tfhd, trun)), box('mdat', Buffer.alloc(64, keyframe ? 1 : 2))]);
+}
+
+let tempFolder: string;
+let rendition: LlHlsRendition;
+let pipe: PassThrough;
+
+// Write to FFmpeg's pipe and let the packager take it
+async function feed(data: Buffer) {
+  pipe.write(data);
+  await new Promise(resolve => setImmediate(resolve));
+}
+
+// Fragments with a keyframe every 2 s, the segment duration
+async function feedParts(count: number, firstPart = 0) {
+  for (let part = firstPart; part < firstPart + count; part++) await feed(createFragment(part % 4 === 0));
+}
+
+function listLines(playlist: string, tag: string): string[] {
+  return playlist.split('\n').filter(line => line.startsWith(tag));
+}
+
+beforeEach(async () => {
+  tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'll-hls-'));
+  rendition = createLlHlsRendition('720p', tempFolder);
+  pipe = new PassThrough();
+  attachLlHlsRendition(rendition, pipe);
+  await feed(createInitSegment());
+});
+
+afterEach(() => {
+  closeLlHlsRendition(rendition);
+  fs.rmSync(tempFolder, { recursive: true, force: true });
+});
+
+describe('LL-HLS packager', () => {
+  it('writes the initialization segment and every fragment as a part', async () => {
+    expect(fs.readFileSync(path.join(tempFolder, 'init_1.mp4'))).toEqual(createInitSegment());
+    // Boxes may arrive split across pipe reads
+    const fragment = createFragment(true);
+    await feed(fragment.subarray(0, 20));
+    await feed(fragment.subarray(20));
+    expect(fs.readFileSync(path.join(tempFolder, 'part_0.m4s'))).toEqual(fragment);
+  });
+
+  it('lists parts with their duration and keyframes, and hints the next one', async () => {
+    await feedParts(3);
+    const playlist = renderLlHlsPlaylist(rendition);
+    expect(listLines(playlist, '#EXT-X-SERVER-CONTROL')).toEqual(['#EXT-X-SERVER-CONTROL:CAN-BLOCK-RELOAD=YES,PART-HOLD-BACK=1.500']);
+    expect(listLines(playlist, '#EXT-X-PART-INF')).toEqual(['#EXT-X-PART-INF:PART-TARGET=0.500']);
+    expect(listLines(playlist, '#EXT-X-MAP')).toEqual(['#EXT-X-MAP:URI="init_1.mp4"']);
+    expect(listLines(playlist, '#EXT-X-PART:')).toEqual([
+      '#EXT-X-PART:DURATION=0.500,URI="part_0.m4s",INDEPENDENT=YES',
+      '#EXT-X-PART:DURATION=0.500,URI="part_1.m4s"',
+      '#EXT-X-PART:DURATION=0.500,URI="part_2.m4s"'
+    ]);
+    expect(listLines(playlist, '#EXTINF')).toEqual([]);
+    expect(listLines(playlist, '#EXT-X-PRELOAD-HINT')).toEqual(['#EXT-X-PRELOAD-HINT:TYPE=PART,URI="part_3.m4s"']);
+    expect(isLlHlsRenditionReady(rendition)).toBe(false);
+  });
+
+  it('completes a segment at the first keyframe near the target duration', async () => {
+    await feedParts(6);
+    const playlist = renderLlHlsPlaylist(rendition);
+    expect(listLines(playlist, '#EXTINF')).toEqual(['#EXTINF:2.000,']);
+    expect(playlist).toContain('#EXTINF:2.000,\nsegment_0.m4s\n');
+    expect(listLines(playlist, '#EXT-X-PART:').slice(4)).toEqual([
+      '#EXT-X-PART:DURATION=0.500,URI="part_4.m4s",INDEPENDENT=YES',
+      '#EXT-X-PART:DURATION=0.500,URI="part_5.m4s"'
+    ]);
+    expect(isLlHlsRenditionReady(rendition)).toBe(true);
+    expect(fs.readFileSync(path.join(tempFolder, 'segment_0.m4s'))).toEqual(Buffer.concat([0, 1, 2, 3].map(part => createFragment(part === 0))));
+  });
+
+  it('ends with whole segments only', async () => {
+    await feedParts(6);
+    endLlHlsRendition(rendition);
+    const playlist = fs.readFileSync(path.join(tempFolder, 'index.m3u8'), 'utf8');
+    expect(listLines(playlist, '#EXTINF')).toEqual(['#EXTINF:2.000,', '#EXTINF:1.000,']);
+    expect(listLines(playlist, '#EXT-X-PART')).toEqual([]);
+    expect(listLines(playlist, '#EXT-X-SERVER-CONTROL')).toEqual([]);
+    expect(playlist.endsWith('#EXT-X-ENDLIST\n')).toBe(true);
+  });
+});
+
+describe('waitForLlHlsPlaylist', () => {
+  it('wakes up once the requested part is listed', async () => {
+    await feedParts(1);
+    let woken = false;
+    const waiting = waitForLlHlsPlaylist(rendition, 0, 2).then(result => {
+      woken = true;
+      return result;
+    });
+    await feedParts(1, 1);
+    expect(woken).toBe(false);
+    await feedParts(1, 2);
+    expect(await waiting).toBe(true);
+  });
+
+  it('wakes up for a whole segment once the next one starts', async () => {
+    await feedParts(3);
+    let woken = false;
+    const waiting = waitForLlHlsPlaylist(rendition, 0, undefined).then(result => {
+      woken = true;
+      return result;
+    });
+    await feedParts(1, 3);
+    expect(woken).toBe(false);
+    await feedParts(1, 4);
+    expect(await waiting).toBe(true);
+  });
+
+  it('answers right away for what is already listed', async () => {
+    await feedParts(5);
+    expect(await waitForLlHlsPlaylist(rendition, 0, undefined)).toBe(true);
+    expect(await waitForLlHlsPlaylist(rendition, 1, 0)).toBe(true);
+  });
+
+  it('gives up after the timeout, or when the rendition closes', async () => {
+    expect(await waitForLlHlsPlaylist(rendition, 3, undefined, 20)).toBe(false);
+    const waiting = waitForLlHlsPlaylist(rendition, 3, undefined);
+    closeLlHlsRendition(rendition);
+    expect(await waiting).toBe(false);
+  });
+});
+
+describe('waitForLlHlsPart', () => {
+  it('holds the hinted part until it is written', async () => {
+    await feedParts(2);
+    const waiting = waitForLlHlsPart(rendition, 'part_2.m4s');
+    await feedParts(1, 2);
+    expect(await waiting).toBe(true);
+    expect(fs.existsSync(path.join(tempFolder, 'part_2.m4s'))).toBe(true);
+  });
+
+  it('refuses parts beyond the hint and other files', async () => {
+    await feedParts(2);
+    expect(await waitForLlHlsPart(rendition, 'part_9.m4s')).toBe(false);
+    expect(await waitForLlHlsPart(rendition, 'segment_0.m4s')).toBe(false);
+  });
+});
@@ -0,0 +1,461 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { HLS_SEGMENT_SECONDS, HLS_LIVE_WINDOW_SEGMENTS } from './hlsLadder';
+import { writeFileAtomic } from './hlsStitcher';
+
+// Low-Latency HLS packager. FFmpeg writes fragmented MP4 to a pipe with one moof+mdat per partial
+// segment; every fragment becomes an EXT-X-PART, fragments are grouped into segments on keyframes,
+// and the media playlist is rendered from memory so requests can block until it advances.
+// A rendition outlives the FFmpeg that feeds it: the next run's pipe continues the same playlist after
+// an EXT-X-DISCONTINUITY, with an initialization segment of its own.
+
+// Packaging of a broadcaster's HLS output: classic MPEG-TS segments or LL-HLS parts
+export const HLS_MODES = ['classic', 'll-hls'] as const;
+export type HlsMode = typeof HLS_MODES[number];
+
+export function isHlsMode(value: unknown): value is HlsMode {
+  return typeof value === 'string' && (HLS_MODES as readonly string[]).includes(value);
+}
+
+export const LL_HLS_PART_SECONDS = 0.5;
+// Only the newest few segments of the playlist also list their parts
+const LL_HLS_PART_SEGMENTS = 3;
+// Blocking requests give up after three target durations
+export const LL_HLS_BLOCK_TIMEOUT_MS = 3 * HLS_SEGMENT_SECONDS * 1000;
+
+// trun/tfhd/trex sample flag: sample_is_non_sync_sample
+const NON_SYNC_SAMPLE_FLAG = 0x00010000;
+
+interface LlHlsTrack {
+  timescale: number;
+  isVideo: boolean;
+  defaultSampleDuration: number;
+  defaultSampleFlags: number;
+}
+
+interface LlHlsPart {
+  number: number;
+  uri: string;
+  duration: number;
+  independent: boolean;
+}
+
+interface LlHlsSegment {
+  msn: number;
+  uri: string;
+  parts: LlHlsPart[];
+  duration: number;
+  complete: boolean;
+  // Wall-clock time of the segment's first frame, for EXT-X-PROGRAM-DATE-TIME
+  programDateTime: number;
+  // First segment of a run after the first
+  discontinuity: boolean;
+  initUri: string;
+}
+
+export interface LlHlsRendition {
+  name: string;
+  folder: string;
+  // Segments listed in the playlist and kept on disk (the DVR window)
+  segmentWindow: number;
+  // Bytes of a box that has not fully arrived yet
+  pending: Buffer;
+  initChunks: Buffer[];
+  initWritten: boolean;
+  tracks: Map<number, LlHlsTrack>;
+  pendingMoof: { data: Buffer; duration: number; independent: boolean } | null;
+  segments: LlHlsSegment[];
+  nextMsn: number;
+  nextPartNumber: number;
+  // FFmpeg runs attached so far; every run writes init_<run>.mp4
+  run: number;
+  initUri: string;
+  // Discontinuities that have left the window
+  discontinuitySequence: number;
+  discontinuityPending: boolean;
+  waiters: Set<() => void>;
+  closed: boolean;
+}
+
+export function createLlHlsRendition(name: string, folder: string, segmentWindow = HLS_LIVE_WINDOW_SEGMENTS): LlHlsRendition {
+  fs.mkdirSync(folder, { recursive: true });
+  return {
+    name,
+    folder,
+    segmentWindow,
+    pending: Buffer.alloc(0),
+    initChunks: [],
+    initWritten: false,
+    tracks: new Map(),
+    pendingMoof: null,
+    segments: [],
+    nextMsn: 0,
+    nextPartNumber: 0,
+    run: 0,
+    initUri: '',
+    discontinuitySequence: 0,
+    discontinuityPending: false,
+    waiters: new Set(),
+    closed: false
+  };
+}
+
+// Feed the rendition from a new FFmpeg run. Between runs the playlist stays as it is, and blocking
+// requests wait for the next run until they time out.
+export function attachLlHlsRendition(rendition: LlHlsRendition, source: Readable) {
+  const lastSegment = rendition.segments[rendition.segments.length - 1];
+  if (lastSegment && !lastSegment.complete) completeSegment(rendition, lastSegment);
+  rendition.run++;
+  rendition.initUri = `init_${rendition.run}.mp4`;
+  rendition.discontinuityPending = rendition.segments.length > 0;
+  rendition.pending = Buffer.alloc(0);
+  rendition.initChunks = [];
+  rendition.initWritten = false;
+  rendition.tracks = new Map();
+  rendition.pendingMoof = null;
+  rendition.closed = false;
+
+  const run = rendition.run;
+  source.on('data', (chunk: Buffer) => {
+    // A late chunk of a replaced run would corrupt the next one
+    if (rendition.run !== run) return;
+    try {
+      feedLlHlsRendition(rendition, chunk);
+    } catch (error) {
+      console.error(`LL-HLS packaging error for rendition ${rendition.name}:`, error);
+    }
+  });
+  source.on('error', (error) => console.error(`LL-HLS pipe error for rendition ${rendition.name}:`, error));
+}
+
+export function closeLlHlsRendition(rendition: LlHlsRendition) {
+  if (rendition.closed) return;
+  rendition.closed = true;
+  notifyWaiters(rendition);
+}
+
+// No run follows any more: the final playlist, whole segments and EXT-X-ENDLIST, goes to disk as
+// index.m3u8, so players that still load it finish the segments instead of waiting for the next part
+export function endLlHlsRendition(rendition: LlHlsRendition) {
+  closeLlHlsRendition(rendition);
+  const lastSegment = rendition.segments[rendition.segments.length - 1];
+  if (lastSegment && !lastSegment.complete) completeSegment(rendition, lastSegment);
+  if (!rendition.segments.length) return;
+  writeFileAtomic(path.join(rendition.folder, 'index.m3u8'), renderLlHlsPlaylist(rendition, true));
+}
+
+interface Box {
+  type: string;
+  // Payload bounds inside the parent buffer, header excluded
+  start: number;
+  end: number;
+}
+
+function readBoxes(buffer: Buffer, start = 0, end = buffer.length): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) break;
+    boxes.push({ type: buffer.toString('latin1', offset + 4, offset + 8), start: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function findBox(buffer: Buffer, parent: Box, type: string): Box | undefined {
+  return readBoxes(buffer, parent.start, parent.end).find(box => box.type === type);
+}
+
+function parseInitTracks(buffer: Buffer, moov: Box): Map<number, LlHlsTrack> {
+  const tracks = new Map<number, LlHlsTrack>();
+  const trexDefaults = new Map<number, { duration: number; flags: number }>();
+
+  const mvex = findBox(buffer, moov, 'mvex');
+  if (mvex) {
+    readBoxes(buffer, mvex.start, mvex.end).filter(box => box.type === 'trex').forEach(trex => {
+      // version/flags, track_ID, default_sample_description_index, default_sample_duration, default_sample_size, default_sample_flags
+      trexDefaults.set(buffer.readUInt32BE(trex.start + 4), {
+        duration: buffer.readUInt32BE(trex.start + 12),
+        flags: buffer.readUInt32BE(trex.start + 20)
+      });
+    });
+  }
+
+  readBoxes(buffer, moov.start, moov.end).filter(box => box.type === 'trak').forEach(trak => {
+    const tkhd = findBox(buffer, trak, 'tkhd');
+    const mdia = findBox(buffer, trak, 'mdia');
+    const mdhd = mdia && findBox(buffer, mdia, 'mdhd');
+    const hdlr = mdia && findBox(buffer, mdia, 'hdlr');
+    if (!tkhd || !mdhd || !hdlr) return;
+
+    const tkhdVersion = buffer.readUInt8(tkhd.start);
+    const trackId = buffer.readUInt32BE(tkhd.start + (tkhdVersion === 1 ? 20 : 12));
+    const mdhdVersion = buffer.readUInt8(mdhd.start);
+    const timescale = buffer.readUInt32BE(mdhd.start + (mdhdVersion === 1 ? 20 : 12));
+    const handlerType = buffer.toString('latin1', hdlr.start + 8, hdlr.start + 12);
+    const defaults = trexDefaults.get(trackId);
+
+    tracks.set(trackId, {
+      timescale,
+      isVideo: handlerType === 'vide',
+      defaultSampleDuration: defaults?.duration ?? 0,
+      defaultSampleFlags: defaults?.flags ?? 0
+    });
+  });
+  return tracks;
+}
+
+// Duration of the fragment (video track when present) and whether it starts on a keyframe
+function parseMoof(rendition: LlHlsRendition, buffer: Buffer, moof: Box): { duration: number; independent: boolean } {
+  let videoResult: { duration: number; independent: boolean } | null = null;
+  let longestDuration = 0;
+
+  readBoxes(buffer, moof.start, moof.end).filter(box => box.type === 'traf').forEach(traf => {
+    const tfhd = findBox(buffer, traf, 'tfhd');
+    if (!tfhd) return;
+    const tfhdFlags = buffer.readUInt32BE(tfhd.start) & 0xffffff;
+    const track = rendition.tracks.get(buffer.readUInt32BE(tfhd.start + 4));
+    if (!track) return;
+
+    let offset = tfhd.start + 8;
+    if (tfhdFlags & 0x01) offset += 8; // base_data_offset
+    if (tfhdFlags & 0x02) offset += 4; // sample_description_index
+    let defaultDuration = track.defaultSampleDuration;
+    let defaultFlags = track.defaultSampleFlags;
+    if (tfhdFlags & 0x08) { defaultDuration = buffer.readUInt32BE(offset); offset += 4; }
+    if (tfhdFlags & 0x10) offset += 4; // default_sample_size
+    if (tfhdFlags & 0x20) defaultFlags = buffer.readUInt32BE(offset);
+
+    let ticks = 0;
+    let firstSampleFlags: number | null = null;
+    readBoxes(buffer, traf.start, traf.end).filter(box => box.type === 'trun').forEach(trun => {
+      const trunFlags = buffer.readUInt32BE(trun.start) & 0xffffff;
+      const sampleCount = buffer.readUInt32BE(trun.start + 4);
+      let cursor = trun.start + 8;
+      if (trunFlags & 0x01) cursor += 4; // data_offset
+      let trunFirstFlags: number | null = null;
+      if (trunFlags & 0x04) { trunFirstFlags = buffer.readUInt32BE(cursor); cursor += 4; }
+
+      for (let i = 0; i < sampleCount; i++) {
+        let sampleDuration = defaultDuration;
+        let sampleFlags = i === 0 && trunFirstFlags !== null ? trunFirstFlags : defaultFlags;
+        if (trunFlags & 0x100) { sampleDuration = buffer.readUInt32BE(cursor); cursor += 4; }
+        if (trunFlags & 0x200) cursor += 4; // sample_size
+        if (trunFlags & 0x400) {
+          const flags = buffer.readUInt32BE(cursor);
+          cursor += 4;
+          if (!(i === 0 && trunFirstFlags !== null)) sampleFlags = flags;
+        }
+        if (trunFlags & 0x800) cursor += 4; // sample_composition_time_offset
+        if (firstSampleFlags === null) firstSampleFlags = sampleFlags;
+        ticks += sampleDuration;
+      }
+    });
+
+    const duration = track.timescale > 0 ? ticks / track.timescale : 0;
+    longestDuration = Math.max(longestDuration, duration);
+    if (track.isVideo) {
+      videoResult = { duration, independent: firstSampleFlags !== null && !(firstSampleFlags & NON_SYNC_SAMPLE_FLAG) };
+    }
+  });
+
+  // Audio-only fragments are always independent
+  return videoResult ?? { duration: longestDuration, independent: true };
+}
+
+function feedLlHlsRendition(rendition: LlHlsRendition, chunk: Buffer) {
+  const buffer = rendition.pending.length > 0 ? Buffer.concat([rendition.pending, chunk]) : chunk;
+  let offset = 0;
+
+  while (offset + 8 <= buffer.length) {
+    let size = buffer.readUInt32BE(offset);
+    if (size === 1) {
+      if (offset + 16 > buffer.length) break;
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+    }
+    if (size < 8) throw new Error(`Invalid MP4 box size ${size}`);
+    if (offset + size > buffer.length) break;
+
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    // Copy so the parsed box does not pin the whole read buffer
+    handleBox(rendition, type, Buffer.from(buffer.subarray(offset, offset + size)));
+    offset += size;
+  }
+
+  rendition.pending = Buffer.from(buffer.subarray(offset));
+}
+
+function handleBox(rendition: LlHlsRendition, type: string, data: Buffer) {
+  const [box] = readBoxes(data);
+  if (!box) return;
+
+  if (!rendition.initWritten) {
+    if (type === 'moof' || type === 'mdat') return;
+    rendition.initChunks.push(data);
+    if (type === 'moov') {
+      rendition.tracks = parseInitTracks(data, box);
+      fs.writeFileSync(path.join(rendition.folder, rendition.initUri), Buffer.concat(rendition.initChunks));
+      rendition.initChunks = [];
+      rendition.initWritten = true;
+    }
+    return;
+  }
+
+  if (type === 'moof') {
+    rendition.pendingMoof = { data, ...parseMoof(rendition, data, box) };
+  } else if (type === 'mdat' && rendition.pendingMoof) {
+    const { data: moofData, duration, independent } = rendition.pendingMoof;
+    rendition.pendingMoof = null;
+    addPart(rendition, Buffer.concat([moofData, data]), duration, independent);
+  }
+}
+
+function addPart(rendition: LlHlsRendition, data: Buffer, duration: number, independent: boolean) {
+  const lastSegment = rendition.segments[rendition.segments.length - 1];
+  // The previous run's last segment was completed when this run attached
+  const openSegment = lastSegment?.complete ? undefined : lastSegment;
+  let segment: LlHlsSegment;
+  // A segment must start on a keyframe; cut once the current one is close to the target duration
+  if (!openSegment || (independent && openSegment.duration >= HLS_SEGMENT_SECONDS - LL_HLS_PART_SECONDS / 2)) {
+    if (!openSegment && !independent) return;
+    if (openSegment) completeSegment(rendition, openSegment);
+    segment = {
+      msn: rendition.nextMsn,
+      uri: `segment_${rendition.nextMsn}.m4s`,
+      parts: [],
+      duration: 0,
+      complete: false,
+      // The part that opens the segment has just been fully received
+      programDateTime: Date.now() - Math.round(duration * 1000),
+      discontinuity: rendition.discontinuityPending,
+      initUri: rendition.initUri
+    };
+    rendition.discontinuityPending = false;
+    rendition.nextMsn++;
+    rendition.segments.push(segment);
+  } else {
+    segment = openSegment;
+  }
+
+  const part: LlHlsPart = {
+    number: rendition.nextPartNumber,
+    uri: `part_${rendition.nextPartNumber}.m4s`,
+    duration,
+    independent
+  };
+  rendition.nextPartNumber++;
+
+  fs.writeFileSync(path.join(rendition.folder, part.uri), data);
+  fs.appendFileSync(path.join(rendition.folder, segment.uri), data);
+  segment.parts.push(part);
+  segment.duration += duration;
+  notifyWaiters(rendition);
+}
+
+function completeSegment(rendition: LlHlsRendition, segment: LlHlsSegment) {
+  segment.complete = true;
+  while (rendition.segments.length > rendition.segmentWindow) {
+    const expired = rendition.segments.shift()!;
+    if (expired.discontinuity) rendition.discontinuitySequence++;
+    // The initialization segment goes with the last listed segment of its run
+    const expiredInit = rendition.segments[0]?.initUri !== expired.initUri ? [expired.initUri] : [];
+    [expired.uri, ...expired.parts.map(part => part.uri), ...expiredInit].forEach(uri => {
+      fs.rm(path.join(rendition.folder, uri), { force: true }, () => {});
+    });
+  }
+}
+
+function notifyWaiters(rendition: LlHlsRendition) {
+  Array.from(rendition.waiters).forEach(waiter => waiter());
+}
+
+export function isLlHlsRenditionReady(rendition: LlHlsRendition): boolean {
+  return rendition.segments.some(segment => segment.complete);
+}
+
+// An ended playlist lists neither parts nor a preload hint, only whole segments
+export function renderLlHlsPlaylist(rendition: LlHlsRendition, ended = false): string {
+  const segments = rendition.segments;
+  const longestSegment = Math.max(0, ...segments.filter(segment => segment.complete).map(segment => segment.duration));
+  const lines = [
+    '#EXTM3U',
+    '#EXT-X-VERSION:9',
+    `#EXT-X-TARGETDURATION:${Math.max(HLS_SEGMENT_SECONDS, Math.ceil(longestSegment))}`,
+    ...(ended ? [] : [
+      `#EXT-X-SERVER-CONTROL:CAN-BLOCK-RELOAD=YES,PART-HOLD-BACK=${(LL_HLS_PART_SECONDS * 3).toFixed(3)}`,
+      `#EXT-X-PART-INF:PART-TARGET=${LL_HLS_PART_SECONDS.toFixed(3)}`
+    ]),
+    `#EXT-X-MEDIA-SEQUENCE:${segments[0]?.msn ?? 0}`,
+    `#EXT-X-DISCONTINUITY-SEQUENCE:${rendition.discontinuitySequence}`
+  ];
+
+  segments.forEach((segment, index) => {
+    if (segment.discontinuity) lines.push('#EXT-X-DISCONTINUITY');
+    if (segment.initUri !== segments[index - 1]?.initUri) lines.push(`#EXT-X-MAP:URI="${segment.initUri}"`);
+    lines.push(`#EXT-X-PROGRAM-DATE-TIME:${new Date(segment.programDateTime).toISOString()}`);
+    if (!ended && index >= segments.length - LL_HLS_PART_SEGMENTS - 1) {
+      segment.parts.forEach(part => {
+        lines.push(`#EXT-X-PART:DURATION=${part.duration.toFixed(3)},URI="${part.uri}"${part.independent ? ',INDEPENDENT=YES' : ''}`);
+      });
+    }
+    if (segment.complete) {
+      lines.push(`#EXTINF:${segment.duration.toFixed(3)},`, segment.uri);
+    }
+  });
+
+  lines.push(ended ? '#EXT-X-ENDLIST' : `#EXT-X-PRELOAD-HINT:TYPE=PART,URI="part_${rendition.nextPartNumber}.m4s"`);
+  return lines.join('\n') + '\n';
+}
+
+// Highest media sequence number the playlist currently mentions (the segment in progress)
+export function getLlHlsLastMsn(rendition: LlHlsRendition): number {
+  return rendition.nextMsn - 1;
+}
+
+function waitForLlHls(rendition: LlHlsRendition, isSatisfied: () => boolean, timeoutMs: number): Promise<boolean> {
+  if (isSatisfied()) return Promise.resolve(true);
+  if (rendition.closed) return Promise.resolve(false);
+
+  return new Promise(resolve => {
+    const finish = (result: boolean) => {
+      clearTimeout(timer);
+      rendition.waiters.delete(waiter);
+      resolve(result);
+    };
+    const waiter = () => {
+      if (isSatisfied()) finish(true);
+      else if (rendition.closed) finish(false);
+    };
+    const timer = setTimeout(() => finish(false), timeoutMs);
+    rendition.waiters.add(waiter);
+  });
+}
+
+// Blocking playlist reload: resolves once segment `msn` (or its part `part`) is in the playlist
+export function waitForLlHlsPlaylist(rendition: LlHlsRendition, msn: number, part: number | undefined, timeoutMs = LL_HLS_BLOCK_TIMEOUT_MS): Promise<boolean> {
+  return waitForLlHls(rendition, () => {
+    if (rendition.nextMsn - 1 > msn) return true;
+    const segment = rendition.segments.find(candidate => candidate.msn === msn);
+    if (!segment) return false;
+    return part === undefined ? segment.complete : segment.parts.length > part;
+  }, timeoutMs);
+}
+
+// A preload-hinted part is requested before it exists; hold the request until it is written
+export function waitForLlHlsPart(rendition: LlHlsRendition, filename: string, timeoutMs = LL_HLS_BLOCK_TIMEOUT_MS): Promise<boolean> {
+  const match = /^part_(\d+)\.m4s$/.exec(filename);
+  if (!match) return Promise.resolve(false);
+  const partNumber = parseInt(match[1], 10);
+  // Only the hinted part (or the one right after it) may be waited for
+  if (partNumber > rendition.nextPartNumber + 1) return Promise.resolve(false);
+  return waitForLlHls(rendition, () => rendition.nextPartNumber > partNumber, timeoutMs);
+}
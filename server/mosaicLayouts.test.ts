@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { MOSAIC_LAYOUTS, MosaicCanvas, buildMosaicFilterGraph, computeMosaicTiles } from './mosaicLayouts';
+
+const tile = (x: number, y: number, width: number, height: number) => ({ x, y, width, height });
+
+describe('computeMosaicTiles', () => {
+  it('has no tiles without broadcasters', () => {
+    for (const layout of MOSAIC_LAYOUTS) expect(computeMosaicTiles(layout, 0)).toEqual([]);
+  });
+
+  it('keeps every tile even-sized and on the canvas', () => {
+    const canvases: MosaicCanvas[] = [{ width: 1280, height: 720, frameRate: 30 }, { width: 854, height: 481, frameRate: 25 }];
+    for (const canvas of canvases) {
+      for (const layout of MOSAIC_LAYOUTS) {
+        for (let count = 1; count <= 9; count++) {
+          const tiles = computeMosaicTiles(layout, count, canvas);
+          expect(tiles).toHaveLength(count);
+          for (const { x, y, width, height } of tiles) {
+            expect([x % 2, y % 2, width % 2, height % 2]).toEqual([0, 0, 0, 0]);
+            expect(x).toBeGreaterThanOrEqual(0);
+            expect(y).toBeGreaterThanOrEqual(0);
+            expect(x + width).toBeLessThanOrEqual(canvas.width);
+            expect(y + height).toBeLessThanOrEqual(canvas.height);
+          }
+        }
+      }
+    }
+  });
+
+  it('lays out a grid and centers a partly filled last row', () => {
+    expect(computeMosaicTiles('grid', 1)).toEqual([tile(0, 0, 1280, 720)]);
+    expect(computeMosaicTiles('grid', 2)).toEqual([tile(0, 0, 640, 720), tile(640, 0, 640, 720)]);
+    expect(computeMosaicTiles('grid', 3)).toEqual([tile(0, 0, 640, 360), tile(640, 0, 640, 360), tile(320, 360, 640, 360)]);
+    expect(computeMosaicTiles('grid', 4)).toEqual([
+      tile(0, 0, 640, 360), tile(640, 0, 640, 360), tile(0, 360, 640, 360), tile(640, 360, 640, 360)
+    ]);
+    expect(computeMosaicTiles('grid', 5)).toEqual([
+      tile(0, 0, 426, 360), tile(426, 0, 426, 360), tile(852, 0, 426, 360), tile(214, 360, 426, 360), tile(640, 360, 426, 360)
+    ]);
+  });
+
+  it('gives the speaker the canvas above a strip of thumbnails', () => {
+    expect(computeMosaicTiles('speaker', 1)).toEqual([tile(0, 0, 1280, 720)]);
+    expect(computeMosaicTiles('speaker', 3)).toEqual([tile(0, 0, 1280, 540), tile(320, 540, 320, 180), tile(640, 540, 320, 180)]);
+    expect(computeMosaicTiles('speaker', 6)).toEqual([
+      tile(0, 0, 1280, 540),
+      ...[0, 256, 512, 768, 1024].map(x => tile(x, 540, 256, 180))
+    ]);
+  });
+
+  it('puts broadcasters side by side at full height', () => {
+    expect(computeMosaicTiles('side-by-side', 1)).toEqual([tile(0, 0, 1280, 720)]);
+    expect(computeMosaicTiles('side-by-side', 2)).toEqual([tile(0, 0, 640, 720), tile(640, 0, 640, 720)]);
+    expect(computeMosaicTiles('side-by-side', 3)).toEqual([tile(0, 0, 426, 720), tile(426, 0, 426, 720), tile(852, 0, 426, 720)]);
+  });
+
+  it('fills pip insets from the bottom-right corner leftwards, then upwards', () => {
+    expect(computeMosaicTiles('pip', 1)).toEqual([tile(0, 0, 1280, 720)]);
+    expect(computeMosaicTiles('pip', 2)).toEqual([tile(0, 0, 1280, 720), tile(940, 520, 320, 180)]);
+    expect(computeMosaicTiles('pip', 5)).toEqual([
+      tile(0, 0, 1280, 720), tile(940, 520, 320, 180), tile(600, 520, 320, 180), tile(260, 520, 320, 180), tile(940, 320, 320, 180)
+    ]);
+  });
+});
+
+describe('buildMosaicFilterGraph', () => {
+  it('is empty without inputs', () => {
+    expect(buildMosaicFilterGraph('grid', [])).toEqual({ filterComplex: '', videoLabel: null, audioLabel: null });
+  });
+
+  it('overlays every video tile on a black canvas and mixes the audio', () => {
+    const graph = buildMosaicFilterGraph('grid', [{ hasVideo: true, hasAudio: true }, { hasVideo: true, hasAudio: true }]);
+    expect(graph.videoLabel).toBe('[vout]');
+    expect(graph.audioLabel).toBe('[aout]');
+    expect(graph.filterComplex.split(';')).toEqual([
+      'color=c=black:s=1280x720:r=30[base0]',
+      '[0:v]scale=640:720:force_original_aspect_ratio=decrease,pad=640:720:(ow-iw)/2:(oh-ih)/2:color=black,setsar=1,setpts=PTS-STARTPTS[tile0]',
+      '[1:v]scale=640:720:force_original_aspect_ratio=decrease,pad=640:720:(ow-iw)/2:(oh-ih)/2:color=black,setsar=1,setpts=PTS-STARTPTS[tile1]',
+      '[base0][tile0]overlay=x=0:y=0:eof_action=pass[base1]',
+      '[base1][tile1]overlay=x=640:y=0:eof_action=pass[vout]',
+      '[0:a]aresample=async=1,asetpts=PTS-STARTPTS[ain0]',
+      '[1:a]aresample=async=1,asetpts=PTS-STARTPTS[ain1]',
+      '[ain0][ain1]amix=inputs=2:duration=longest:dropout_transition=0[aout]'
+    ]);
+  });
+
+  it('gives tiles only to inputs with video and passes a single audio input through', () => {
+    const graph = buildMosaicFilterGraph('pip', [
+      { hasVideo: true, hasAudio: false },
+      { hasVideo: false, hasAudio: true },
+      { hasVideo: true, hasAudio: false }
+    ], { width: 640, height: 360, frameRate: 25 });
+    expect(graph.filterComplex.split(';')).toEqual([
+      'color=c=black:s=640x360:r=25[base0]',
+      '[0:v]scale=640:360:force_original_aspect_ratio=decrease,pad=640:360:(ow-iw)/2:(oh-ih)/2:color=black,setsar=1,setpts=PTS-STARTPTS[tile0]',
+      '[2:v]scale=160:90:force_original_aspect_ratio=decrease,pad=160:90:(ow-iw)/2:(oh-ih)/2:color=black,setsar=1,setpts=PTS-STARTPTS[tile1]',
+      '[base0][tile0]overlay=x=0:y=0:eof_action=pass[base1]',
+      '[base1][tile1]overlay=x=470:y=260:eof_action=pass[vout]',
+      '[1:a]aresample=async=1,asetpts=PTS-STARTPTS[aout]'
+    ]);
+  });
+
+  it('has no video label when no input carries video', () => {
+    const graph = buildMosaicFilterGraph('speaker', [{ hasVideo: false, hasAudio: true }]);
+    expect(graph).toEqual({
+      filterComplex: '[0:a]aresample=async=1,asetpts=PTS-STARTPTS[aout]',
+      videoLabel: null,
+      audioLabel: '[aout]'
+    });
+  });
+});
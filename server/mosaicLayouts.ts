@@ -0,0 +1,169 @@
+// Layouts for composing several broadcasters of a room into one mosaic video.
+// Pure geometry and filter-graph strings only, so a layout can be checked without running FFmpeg.
+
+export const MOSAIC_LAYOUTS = ['grid', 'speaker', 'side-by-side', 'pip'] as const;
+export type MosaicLayout = typeof MOSAIC_LAYOUTS[number];
+
+export interface MosaicCanvas {
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+export const DEFAULT_MOSAIC_CANVAS: MosaicCanvas = { width: 1280, height: 720, frameRate: 30 };
+
+export interface MosaicTile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One FFmpeg input (one SDP file); inputs without video still contribute to the audio mix
+export interface MosaicInput {
+  hasVideo: boolean;
+  hasAudio: boolean;
+}
+
+export interface MosaicFilterGraph {
+  filterComplex: string;
+  // Labels to -map, or null when no input carries that kind
+  videoLabel: string | null;
+  audioLabel: string | null;
+}
+
+export function isMosaicLayout(value: unknown): value is MosaicLayout {
+  return typeof value === 'string' && (MOSAIC_LAYOUTS as readonly string[]).includes(value);
+}
+
+// Layouts that show their first input larger than the others
+export function hasMainSlot(layout: MosaicLayout): boolean {
+  return layout === 'speaker' || layout === 'pip';
+}
+
+// yuv420p needs even sizes and offsets
+function evenFloor(value: number): number {
+  return Math.max(0, Math.floor(value / 2) * 2);
+}
+
+function evenSize(value: number): number {
+  return Math.max(2, evenFloor(value));
+}
+
+function gridTiles(count: number, canvas: MosaicCanvas): MosaicTile[] {
+  const cols = Math.ceil(Math.sqrt(count));
+  const rows = Math.ceil(count / cols);
+  const width = evenSize(canvas.width / cols);
+  const height = evenSize(canvas.height / rows);
+  const top = evenFloor((canvas.height - rows * height) / 2);
+
+  const tiles: MosaicTile[] = [];
+  for (let row = 0; row < rows; row++) {
+    // A partly filled last row is centered
+    const inRow = Math.min(cols, count - row * cols);
+    const left = evenFloor((canvas.width - inRow * width) / 2);
+    for (let col = 0; col < inRow; col++) {
+      tiles.push({ x: left + col * width, y: top + row * height, width, height });
+    }
+  }
+  return tiles;
+}
+
+// First input is the speaker; everyone else shares a thumbnail strip along the bottom
+function speakerTiles(count: number, canvas: MosaicCanvas): MosaicTile[] {
+  if (count === 1) return [{ x: 0, y: 0, width: evenSize(canvas.width), height: evenSize(canvas.height) }];
+
+  const thumbnailCount = count - 1;
+  const stripHeight = evenSize(canvas.height / 4);
+  const thumbnailWidth = evenSize(Math.min(canvas.width / thumbnailCount, stripHeight * 16 / 9));
+  const stripLeft = evenFloor((canvas.width - thumbnailCount * thumbnailWidth) / 2);
+  const stripTop = evenFloor(canvas.height - stripHeight);
+
+  const tiles: MosaicTile[] = [{ x: 0, y: 0, width: evenSize(canvas.width), height: stripTop }];
+  for (let i = 0; i < thumbnailCount; i++) {
+    tiles.push({ x: stripLeft + i * thumbnailWidth, y: stripTop, width: thumbnailWidth, height: stripHeight });
+  }
+  return tiles;
+}
+
+function sideBySideTiles(count: number, canvas: MosaicCanvas): MosaicTile[] {
+  const width = evenSize(canvas.width / count);
+  const left = evenFloor((canvas.width - count * width) / 2);
+  return Array.from({ length: count }, (_, i) => ({ x: left + i * width, y: 0, width, height: evenSize(canvas.height) }));
+}
+
+// First input fills the canvas; the others are insets filling the bottom-right corner leftwards, then upwards
+function pipTiles(count: number, canvas: MosaicCanvas): MosaicTile[] {
+  const tiles: MosaicTile[] = [{ x: 0, y: 0, width: evenSize(canvas.width), height: evenSize(canvas.height) }];
+  const insetWidth = evenSize(canvas.width / 4);
+  const insetHeight = evenSize(canvas.height / 4);
+  const margin = evenSize(canvas.width / 64);
+  const perRow = Math.max(1, Math.floor((canvas.width - margin) / (insetWidth + margin)));
+
+  for (let i = 0; i < count - 1; i++) {
+    const col = i % perRow;
+    const row = Math.floor(i / perRow);
+    tiles.push({
+      x: evenFloor(canvas.width - (col + 1) * (insetWidth + margin)),
+      y: evenFloor(canvas.height - (row + 1) * (insetHeight + margin)),
+      width: insetWidth,
+      height: insetHeight
+    });
+  }
+  return tiles;
+}
+
+export function computeMosaicTiles(layout: MosaicLayout, count: number, canvas: MosaicCanvas = DEFAULT_MOSAIC_CANVAS): MosaicTile[] {
+  if (count <= 0) return [];
+  switch (layout) {
+    case 'grid':
+      return gridTiles(count, canvas);
+    case 'speaker':
+      return speakerTiles(count, canvas);
+    case 'side-by-side':
+      return sideBySideTiles(count, canvas);
+    case 'pip':
+      return pipTiles(count, canvas);
+  }
+}
+
+// Tiles are overlaid on a black canvas in input order, so later tiles (pip insets) draw on top
+export function buildMosaicFilterGraph(layout: MosaicLayout, inputs: MosaicInput[], canvas: MosaicCanvas = DEFAULT_MOSAIC_CANVAS): MosaicFilterGraph {
+  const filters: string[] = [];
+
+  const videoInputs = inputs.map((input, index) => ({ input, index })).filter(({ input }) => input.hasVideo);
+  let videoLabel: string | null = null;
+  if (videoInputs.length > 0) {
+    const tiles = computeMosaicTiles(layout, videoInputs.length, canvas);
+    filters.push(`color=c=black:s=${evenSize(canvas.width)}x${evenSize(canvas.height)}:r=${canvas.frameRate}[base0]`);
+    videoInputs.forEach(({ index }, tileIndex) => {
+      const { width, height } = tiles[tileIndex];
+      filters.push(
+        `[${index}:v]scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+        `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black,setsar=1,setpts=PTS-STARTPTS[tile${tileIndex}]`
+      );
+    });
+    videoInputs.forEach((_, tileIndex) => {
+      const { x, y } = tiles[tileIndex];
+      const output = tileIndex === videoInputs.length - 1 ? 'vout' : `base${tileIndex + 1}`;
+      filters.push(`[base${tileIndex}][tile${tileIndex}]overlay=x=${x}:y=${y}:eof_action=pass[${output}]`);
+    });
+    videoLabel = '[vout]';
+  }
+
+  const audioInputs = inputs.map((input, index) => ({ input, index })).filter(({ input }) => input.hasAudio);
+  let audioLabel: string | null = null;
+  if (audioInputs.length === 1) {
+    filters.push(`[${audioInputs[0].index}:a]aresample=async=1,asetpts=PTS-STARTPTS[aout]`);
+    audioLabel = '[aout]';
+  } else if (audioInputs.length > 1) {
+    audioInputs.forEach(({ index }, audioIndex) => {
+      filters.push(`[${index}:a]aresample=async=1,asetpts=PTS-STARTPTS[ain${audioIndex}]`);
+    });
+    const mixInputs = audioInputs.map((_, audioIndex) => `[ain${audioIndex}]`).join('');
+    filters.push(`${mixInputs}amix=inputs=${audioInputs.length}:duration=longest:dropout_transition=0[aout]`);
+    audioLabel = '[aout]';
+  }
+
+  return { filterComplex: filters.join(';'), videoLabel, audioLabel };
+}
@@ -0,0 +1,207 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { types as mediasoupTypes } from 'mediasoup';
+import {
+  HlsRendition, getCommonVideoEncoderArgs, getVideoRateArgs, AUDIO_ENCODER_ARGS
+} from './hlsLadder';
+import { FfmpegJob } from './ffmpegSupervisor';
+import { RtpPortPair } from './rtpPorts';
+
+// VOD archive of broadcasts. A recorder consumes a broadcaster's producers on its own PlainTransports,
+// so it keeps writing while the live HLS output restarts; every take lands in <recordings>/<id>/
+// next to a recording.json that is the only index of the archive.
+
+// A single progressive MP4, or a full-length HLS playlist that is sealed with EXT-X-ENDLIST
+export const RECORDING_FORMATS = ['mp4', 'hls'] as const;
+export type RecordingFormat = typeof RECORDING_FORMATS[number];
+
+export function isRecordingFormat(value: unknown): value is RecordingFormat {
+  return typeof value === 'string' && (RECORDING_FORMATS as readonly string[]).includes(value);
+}
+
+export type RecordingStatus = 'recording' | 'complete' | 'failed';
+
+// Recording segments are longer than live ones; nobody waits for them
+const RECORDING_HLS_SEGMENT_SECONDS = 6;
+
+const METADATA_FILE_NAME = 'recording.json';
+
+// Ids are UUIDs, but anything that could escape the recordings folder is rejected
+const RECORDING_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export interface RecordingMetadata {
+  id: string;
+  roomId: string;
+  streamId: string;
+  format: RecordingFormat;
+  status: RecordingStatus;
+  startedAt: number;
+  endedAt: number | null;
+  hasVideo: boolean;
+  hasAudio: boolean;
+  // Top rendition of the ladder at the time the recording started
+  rendition: string;
+  // File inside the recording folder to play or download: recording.mp4 or index.m3u8
+  mediaFile: string;
+}
+
+// Recording plus its size on disk, as returned by the REST API
+export interface RecordingEntry extends RecordingMetadata {
+  durationSeconds: number | null;
+  sizeBytes: number;
+}
+
+// One running recording of a broadcaster
+export interface StreamRecorder {
+  metadata: RecordingMetadata;
+  folder: string;
+  rtpPorts: RtpPortPair;
+  videoTransport?: mediasoupTypes.PlainTransport;
+  audioTransport?: mediasoupTypes.PlainTransport;
+  videoConsumer?: mediasoupTypes.Consumer;
+  audioConsumer?: mediasoupTypes.Consumer;
+  ffmpegJob?: FfmpegJob;
+  // Set once the recorder was asked to finish; the metadata is settled when FFmpeg exits
+  stopping: boolean;
+}
+
+export function isValidRecordingId(recordingId: unknown): recordingId is string {
+  return typeof recordingId === 'string' && RECORDING_ID_PATTERN.test(recordingId);
+}
+
+export function getRecordingMediaFileName(format: RecordingFormat): string {
+  return format === 'mp4' ? 'recording.mp4' : 'index.m3u8';
+}
+
+export function createRecordingMetadata(
+  recordingsFolder: string,
+  details: Pick<RecordingMetadata, 'roomId' | 'streamId' | 'format' | 'hasVideo' | 'hasAudio' | 'rendition'>
+): { metadata: RecordingMetadata; folder: string } {
+  const metadata: RecordingMetadata = {
+    id: randomUUID(),
+    ...details,
+    status: 'recording',
+    startedAt: Date.now(),
+    endedAt: null,
+    mediaFile: getRecordingMediaFileName(details.format)
+  };
+  const folder = path.join(recordingsFolder, metadata.id);
+  fs.mkdirSync(folder, { recursive: true });
+  writeRecordingMetadata(folder, metadata);
+  return { metadata, folder };
+}
+
+export function writeRecordingMetadata(folder: string, metadata: RecordingMetadata) {
+  fs.writeFileSync(path.join(folder, METADATA_FILE_NAME), JSON.stringify(metadata, null, 2));
+}
+
+// Encoder and muxer arguments after -i; the recording is a single rendition at the top of the ladder
+export function buildRecordingOutputArgs(rendition: HlsRendition, hasVideo: boolean, hasAudio: boolean, format: RecordingFormat, folder: string): string[] {
+  const args: string[] = [];
+  if (hasVideo && rendition.video) {
+    args.push(
+      '-map', '0:v:0',
+      '-filter:v', `scale=-2:${rendition.video.height},setsar=1`,
+      ...getCommonVideoEncoderArgs(),
+      ...getVideoRateArgs(rendition.video)
+    );
+  }
+  if (hasAudio) {
+    args.push('-map', '0:a:0', ...AUDIO_ENCODER_ARGS, '-b:a', `${rendition.audioBitrateKbps}k`);
+  }
+
+  const output = path.join(folder, getRecordingMediaFileName(format));
+  if (format === 'mp4') {
+    // The moov atom is written when FFmpeg finishes, then moved up front for progressive playback
+    args.push('-f', 'mp4', '-movflags', '+faststart', '-y', output);
+  } else {
+    args.push(
+      '-f', 'hls',
+      '-hls_time', String(RECORDING_HLS_SEGMENT_SECONDS),
+      '-hls_list_size', '0',
+      '-hls_playlist_type', 'event',
+      '-hls_flags', 'independent_segments',
+      '-hls_segment_type', 'mpegts',
+      '-hls_segment_filename', path.join(folder, 'segment_%05d.ts'),
+      '-start_number', '0',
+      '-y',
+      output
+    );
+  }
+  return args;
+}
+
+// FFmpeg only writes EXT-X-ENDLIST on a clean exit; a crashed HLS recording is still playable once sealed
+export function sealHlsRecording(folder: string): boolean {
+  const playlistPath = path.join(folder, getRecordingMediaFileName('hls'));
+  if (!fs.existsSync(playlistPath)) return false;
+  const playlist = fs.readFileSync(playlistPath, 'utf8');
+  if (!playlist.includes('#EXTINF')) return false;
+  if (!playlist.includes('#EXT-X-ENDLIST')) {
+    fs.appendFileSync(playlistPath, `${playlist.endsWith('\n') ? '' : '\n'}#EXT-X-ENDLIST\n`);
+  }
+  return true;
+}
+
+// Settle the metadata of a recording whose FFmpeg has exited
+export function finishRecording(folder: string, metadata: RecordingMetadata, succeeded: boolean, endedAt = Date.now()) {
+  const playable = metadata.format === 'hls'
+    ? sealHlsRecording(folder)
+    : succeeded && fs.existsSync(path.join(folder, metadata.mediaFile));
+  metadata.status = playable ? 'complete' : 'failed';
+  metadata.endedAt = endedAt;
+  writeRecordingMetadata(folder, metadata);
+}
+
+function getFolderSize(folder: string): number {
+  return fs.readdirSync(folder).reduce((total, file) => total + fs.statSync(path.join(folder, file)).size, 0);
+}
+
+function getLastWriteTime(folder: string): number {
+  return Math.max(0, ...fs.readdirSync(folder).map(file => fs.statSync(path.join(folder, file)).mtimeMs));
+}
+
+export function readRecording(recordingsFolder: string, recordingId: string): RecordingEntry | null {
+  if (!isValidRecordingId(recordingId)) return null;
+  const folder = path.join(recordingsFolder, recordingId);
+  const metadataPath = path.join(folder, METADATA_FILE_NAME);
+  if (!fs.existsSync(metadataPath)) return null;
+  try {
+    const metadata: RecordingMetadata = JSON.parse(fs.readFileSync(metadataPath, 'utf8'));
+    return {
+      ...metadata,
+      durationSeconds: metadata.endedAt !== null ? (metadata.endedAt - metadata.startedAt) / 1000 : null,
+      sizeBytes: getFolderSize(folder)
+    };
+  } catch (error) {
+    console.warn(`Unreadable recording metadata in ${folder}:`, error);
+    return null;
+  }
+}
+
+// Newest first
+export function listRecordings(recordingsFolder: string): RecordingEntry[] {
+  if (!fs.existsSync(recordingsFolder)) return [];
+  return fs.readdirSync(recordingsFolder)
+    .map(recordingId => readRecording(recordingsFolder, recordingId))
+    .filter((entry): entry is RecordingEntry => !!entry)
+    .sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export function deleteRecording(recordingsFolder: string, recordingId: string) {
+  fs.rmSync(path.join(recordingsFolder, recordingId), { recursive: true, force: true });
+}
+
+// Recordings still marked as running belong to a server that stopped without finishing them
+export function recoverInterruptedRecordings(recordingsFolder: string) {
+  listRecordings(recordingsFolder)
+    .filter(entry => entry.status === 'recording')
+    .forEach(entry => {
+      const { durationSeconds, sizeBytes, ...metadata } = entry;
+      const folder = path.join(recordingsFolder, entry.id);
+      // The last file FFmpeg touched is the best guess for when the take ended
+      finishRecording(folder, metadata, false, Math.round(getLastWriteTime(folder)) || metadata.startedAt);
+      console.log(`Recording ${entry.id} was interrupted; marked ${metadata.status}`);
+    });
+}
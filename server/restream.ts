@@ -0,0 +1,145 @@
+import { randomUUID } from 'crypto';
+import { types as mediasoupTypes } from 'mediasoup';
+import {
+  HlsRendition, getCommonVideoEncoderArgs, getVideoRateArgs, AUDIO_ENCODER_ARGS
+} from './hlsLadder';
+import { FfmpegJob } from './ffmpegSupervisor';
+import { RtpPortPair } from './rtpPorts';
+import { PushTargetInfo } from '../src/lib/signaling';
+
+// Restreaming to other platforms. Every push target of a broadcaster gets an egress FFmpeg that consumes
+// the stream on PlainTransports of its own, like a recorder, and pushes it as FLV to an RTMP or RTMPS
+// ingest. An egress that fails is started again after an exponential backoff.
+
+// Each target is a separate encode, so a broadcaster gets a handful at most
+export const MAX_PUSH_TARGETS_PER_STREAM = 5;
+
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+
+// 'starting' until FFmpeg reports output, 'retrying' while waiting out the backoff
+export type PushTargetStatus = 'starting' | 'live' | 'retrying' | 'stopped';
+
+// One egress run of a target; a new one starts with every retry and whenever the stream's tracks change
+export interface PushEgress {
+  rtpPorts: RtpPortPair;
+  videoTransport?: mediasoupTypes.PlainTransport;
+  audioTransport?: mediasoupTypes.PlainTransport;
+  videoConsumer?: mediasoupTypes.Consumer;
+  audioConsumer?: mediasoupTypes.Consumer;
+  ffmpegJob?: FfmpegJob;
+  // Set once the egress was asked to stop; its exit is then no failure
+  stopping: boolean;
+  // Output bytes FFmpeg reported for this run
+  bytesSent: number;
+}
+
+export interface PushTarget {
+  id: string;
+  roomId: string;
+  streamId: string;
+  name: string;
+  // rtmp(s)://host/app/<streamKey>; the key never leaves the server, see toPushTargetResponse
+  url: string;
+  status: PushTargetStatus;
+  createdAt: number;
+  liveSince: number | null;
+  // Egress runs so far, and failures since the last one that went live (the backoff exponent)
+  attempts: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  // Output bytes of the finished runs; the running egress adds its own
+  bytesSent: number;
+  nextRetryAt: number | null;
+  egress?: PushEgress;
+  retryTimer?: ReturnType<typeof setTimeout>;
+}
+
+export function isPushTargetUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    // The last path segment is the stream key, after at least an application name
+    return (url.protocol === 'rtmp:' || url.protocol === 'rtmps:') && !!url.hostname
+      && url.pathname.split('/').filter(Boolean).length >= 2;
+  } catch {
+    return false;
+  }
+}
+
+// The URL without its stream key, for responses and logs
+export function maskPushTargetUrl(value: string): string {
+  const url = new URL(value);
+  const segments = url.pathname.split('/');
+  segments[segments.length - 1] = '<key>';
+  return `${url.protocol}//${url.host}${segments.join('/')}`;
+}
+
+export function createPushTarget(roomId: string, streamId: string, url: string, name?: string): PushTarget {
+  return {
+    id: randomUUID(),
+    roomId,
+    streamId,
+    name: name || new URL(url).hostname,
+    url,
+    status: 'starting',
+    createdAt: Date.now(),
+    liveSince: null,
+    attempts: 0,
+    consecutiveFailures: 0,
+    lastError: null,
+    bytesSent: 0,
+    nextRetryAt: null
+  };
+}
+
+export function getPushRetryDelayMs(consecutiveFailures: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, consecutiveFailures - 1), RETRY_MAX_DELAY_MS);
+}
+
+export function toPushTargetResponse(target: PushTarget): PushTargetInfo {
+  return {
+    id: target.id,
+    roomId: target.roomId,
+    streamId: target.streamId,
+    name: target.name,
+    url: maskPushTargetUrl(target.url),
+    status: target.status,
+    createdAt: target.createdAt,
+    liveSince: target.liveSince,
+    attempts: target.attempts,
+    lastError: target.lastError,
+    bytesSent: target.bytesSent + (target.egress?.bytesSent ?? 0),
+    nextRetryAt: target.nextRetryAt
+  };
+}
+
+// Encode the stream the way the top HLS rendition is encoded and push it as FLV; progress goes to stdout
+export function buildRestreamOutputArgs(rendition: HlsRendition, hasVideo: boolean, hasAudio: boolean, url: string): string[] {
+  const args: string[] = [];
+  if (hasVideo && rendition.video) {
+    args.push(
+      '-map', '0:v:0',
+      '-filter:v', `scale=-2:${rendition.video.height},setsar=1`,
+      ...getCommonVideoEncoderArgs(),
+      ...getVideoRateArgs(rendition.video)
+    );
+  }
+  if (hasAudio) {
+    args.push('-map', '0:a:0', ...AUDIO_ENCODER_ARGS, '-b:a', `${rendition.audioBitrateKbps}k`);
+  }
+  args.push(
+    '-progress', 'pipe:1',
+    '-f', 'flv',
+    // A live FLV has no duration or size to write back at the end
+    '-flvflags', 'no_duration_filesize',
+    url
+  );
+  return args;
+}
+
+// Latest output size in an FFmpeg -progress block ("total_size=<bytes>" lines)
+export function parseProgressBytes(progress: string): number | null {
+  const matches = Array.from(progress.matchAll(/^total_size=(\d+)$/gm));
+  return matches.length > 0 ? Number(matches[matches.length - 1][1]) : null;
+}
@@ -0,0 +1,312 @@
+import { types as mediasoupTypes } from 'mediasoup';
+import { getLeastLoadedWorker, getRouterTransportCount, getRouterWorker } from './workerPool';
+import { MosaicLayout } from './mosaicLayouts';
+import { HlsMode, LlHlsRendition } from './llHls';
+import { HlsSegmentFormat } from './hlsLadder';
+import { RecordingFormat, StreamRecorder } from './recordings';
+import { PushTarget } from './restream';
+import { SpeakerObservers } from './activeSpeaker';
+import { FfmpegJob, stopFfmpegJob } from './ffmpegSupervisor';
+import { StitchedHlsOutput, endStitchedHlsOutput } from './hlsStitcher';
+import { RtpPortPair, releaseRtpPorts } from './rtpPorts';
+import { SlateState, createSlateState } from './slate';
+
+export const DEFAULT_ROOM_ID = 'default';
+
+// Once every router in a room hosts this many transports, the room spans another worker
+const MAX_TRANSPORTS_PER_ROUTER = parseInt(process.env.MEDIASOUP_MAX_TRANSPORTS_PER_ROUTER || '100', 10);
+
+// Room ids end up in HLS folder names and URLs, so keep them to a safe charset
+const ROOM_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export const mediaCodecs: mediasoupTypes.RtpCodecCapability[] = [
+  {
+    kind: 'audio',
+    mimeType: 'audio/opus',
+    clockRate: 48000,
+    channels: 2,
+  },
+  {
+    kind: 'video',
+    mimeType: 'video/H264',
+    clockRate: 90000,
+    parameters: {
+      'packetization-mode': 1,
+      'profile-level-id': '42e01f', // Baseline profile, level 3.1
+      'level-asymmetry-allowed': 1,
+      'x-google-start-bitrate': 1000,
+    },
+  },
+  {
+    kind: 'video',
+    mimeType: 'video/VP8',
+    clockRate: 90000,
+    parameters: {
+      'x-google-start-bitrate': 1000,
+    },
+  },
+  // SVC: a single encoding carries all spatial layers (this mediasoup version has no AV1)
+  {
+    kind: 'video',
+    mimeType: 'video/VP9',
+    clockRate: 90000,
+    parameters: {
+      'profile-id': 0,
+      'x-google-start-bitrate': 1000,
+    },
+  },
+];
+
+// Tracks FFmpeg reads over RTP. A PlainTransport sends to a single remote tuple, so each kind needs its own.
+export interface HlsTrackSet {
+  videoTransport?: mediasoupTypes.PlainTransport;
+  audioTransport?: mediasoupTypes.PlainTransport;
+  videoConsumer?: mediasoupTypes.Consumer;
+  audioConsumer?: mediasoupTypes.Consumer;
+  // Leased for as long as the track set exists
+  rtpPorts: RtpPortPair;
+}
+
+// One broadcaster in the HLS composition, published at /hls/<roomId>/<streamId>/index.m3u8.
+// Streams are keyed by the publishing socket so its audio and video land in the same output.
+// The track set itself is the camera and microphone.
+export interface HlsStreamInfo extends HlsTrackSet {
+  socketId: string;
+  startedAt: number;
+  // Screen share (producers with appData.source 'screen') and its optional system audio; while it runs
+  // the HLS output shows it as the main picture with the camera inset
+  screenShare?: HlsTrackSet;
+  hlsMode: HlsMode;
+  // Segment container in classic mode; 'cmaf' also publishes an MPEG-DASH manifest. LL-HLS is always CMAF.
+  segmentFormat: HlsSegmentFormat;
+  // Seconds of past segments kept seekable (EXT-X-PROGRAM-DATE-TIME tagged); 0 is the plain ~20 s live window
+  dvrWindowSeconds: number;
+  // LL-HLS packagers by rendition name; they carry on across FFmpeg runs of an ll-hls stream
+  llHlsRenditions?: Map<string, LlHlsRendition>;
+  // Stitched playlists of a classic stream, continued by every FFmpeg run
+  hlsOutput?: StitchedHlsOutput;
+  // Supervised FFmpeg of the stream's HLS output; restarts on its own after a crash or stall
+  ffmpegJob?: FfmpegJob;
+  // Opt-in VOD recording; a new take starts whenever the broadcaster's tracks change
+  recordingFormat: RecordingFormat | null;
+  recorder?: StreamRecorder;
+  // Tracks the broadcaster paused; the HLS output shows a slate (or silence) for them instead of freezing
+  pausedKinds: Set<mediasoupTypes.MediaKind>;
+  // Restream destinations by target id; they end with the stream
+  pushTargets: Map<string, PushTarget>;
+}
+
+// 'individual' publishes one playlist per broadcaster; a mosaic layout composes them all into the room playlist
+export type CompositionLayout = 'individual' | MosaicLayout;
+
+export interface HlsComposition {
+  activeStreams: Map<string, HlsStreamInfo>;
+  layout: CompositionLayout;
+  // Stream shown large by the speaker and pip layouts; defaults to the earliest broadcaster
+  speakerStreamId?: string;
+  // Move the dominant speaker into speakerStreamId as the conversation goes on
+  followSpeaker: boolean;
+  speakerSwitchedAt?: number;
+  // Pending switch to a speaker who took over too soon after the last one
+  speakerSwitchTimer?: ReturnType<typeof setTimeout>;
+  // Room-level FFmpeg (the mosaic)
+  ffmpegJob?: FfmpegJob;
+  // Offline slate while nobody is live
+  slate: SlateState;
+  // Stitched playlists behind the room playlist, continued by every mosaic and slate run, and in the
+  // individual layout by the broadcaster the program follows (its source)
+  programOutput?: StitchedHlsOutput;
+  isComposing: boolean;
+  // Pending debounced restart; see scheduleHlsRestart
+  restartTimer?: ReturnType<typeof setTimeout>;
+}
+
+export interface RoomProducer {
+  producer: mediasoupTypes.Producer;
+  // Router the producer was created on; other routers in the room hold piped copies
+  router: mediasoupTypes.Router;
+  socketId: string;
+  kind: mediasoupTypes.MediaKind;
+  appData: mediasoupTypes.AppData;
+}
+
+// A room is an isolated broadcast: its own routers, producers, HLS output and members
+export interface Room {
+  id: string;
+  // Primary router; hosts the HLS PlainTransports and receives every producer
+  router: mediasoupTypes.Router;
+  // All routers of the room (primary included), spread over workers as the room grows
+  routers: mediasoupTypes.Router[];
+  memberRouters: Map<string, mediasoupTypes.Router>;
+  producers: Map<string, RoomProducer>;
+  members: Set<string>;
+  hlsComposition: HlsComposition;
+  // Created with the first audio producer; see activeSpeaker.ts
+  speakerObservers?: SpeakerObservers;
+  // Latest dominant speaker: their audio producer and the stream (publisher) it belongs to
+  dominantSpeaker?: { producerId: string; streamId: string };
+}
+
+export interface RoomRecovery {
+  room: Room;
+  // Members whose router died; they must rebuild their transports
+  affectedMembers: string[];
+  primaryReplaced: boolean;
+}
+
+export const rooms = new Map<string, Room>();
+
+// Concurrent joins for a new room must share one router
+const pendingRooms = new Map<string, Promise<Room>>();
+
+export function isValidRoomId(roomId: unknown): roomId is string {
+  return typeof roomId === 'string' && ROOM_ID_PATTERN.test(roomId);
+}
+
+export async function getOrCreateRoom(roomId: string): Promise<Room> {
+  const existing = rooms.get(roomId);
+  if (existing) return existing;
+
+  const pending = pendingRooms.get(roomId);
+  if (pending) return pending;
+
+  const creation = (async () => {
+    const router = await getLeastLoadedWorker().createRouter({ mediaCodecs });
+    const room: Room = {
+      id: roomId,
+      router,
+      routers: [router],
+      memberRouters: new Map(),
+      producers: new Map(),
+      members: new Set(),
+      hlsComposition: {
+        activeStreams: new Map(),
+        layout: 'individual',
+        followSpeaker: false,
+        slate: createSlateState(),
+        isComposing: false
+      }
+    };
+    rooms.set(roomId, room);
+    console.log(`Room ${roomId} created with router ${router.id}`);
+    return room;
+  })();
+
+  pendingRooms.set(roomId, creation);
+  try {
+    return await creation;
+  } finally {
+    pendingRooms.delete(roomId);
+  }
+}
+
+export function closeRoom(room: Room) {
+  clearTimeout(room.hlsComposition.restartTimer);
+  clearTimeout(room.hlsComposition.speakerSwitchTimer);
+  stopFfmpegJob(room.hlsComposition.ffmpegJob);
+  room.hlsComposition.ffmpegJob = undefined;
+  const slate = room.hlsComposition.slate;
+  clearInterval(slate.textTimer);
+  clearInterval(slate.handoverTimer);
+  stopFfmpegJob(slate.job);
+  slate.job = undefined;
+  // Nothing continues the room's playlists; players still on them finish what is listed
+  if (room.hlsComposition.programOutput) endStitchedHlsOutput(room.hlsComposition.programOutput);
+  room.hlsComposition.activeStreams.forEach(streamInfo => {
+    stopFfmpegJob(streamInfo.ffmpegJob);
+    streamInfo.ffmpegJob = undefined;
+    if (streamInfo.hlsOutput) endStitchedHlsOutput(streamInfo.hlsOutput);
+    releaseRtpPorts(streamInfo.rtpPorts);
+    releaseRtpPorts(streamInfo.screenShare?.rtpPorts);
+  });
+  room.hlsComposition.activeStreams.clear();
+  room.producers.clear();
+  room.memberRouters.clear();
+  room.routers.forEach(router => { if (!router.closed) router.close(); });
+  rooms.delete(room.id);
+  console.log(`Room ${room.id} closed`);
+}
+
+// Pipe a producer from the router it lives on into every other router of the room
+export async function pipeProducerToRoom(room: Room, producer: mediasoupTypes.Producer, sourceRouter: mediasoupTypes.Router) {
+  for (const targetRouter of room.routers) {
+    if (targetRouter === sourceRouter || targetRouter.closed) continue;
+    try {
+      await sourceRouter.pipeToRouter({ producerId: producer.id, router: targetRouter });
+      console.log(`Piped producer ${producer.id} from router ${sourceRouter.id} to router ${targetRouter.id} in room ${room.id}`);
+    } catch (error) {
+      console.error(`Error piping producer ${producer.id} to router ${targetRouter.id}:`, error);
+    }
+  }
+}
+
+async function addRouterToRoom(room: Room, worker: mediasoupTypes.Worker): Promise<mediasoupTypes.Router> {
+  const router = await worker.createRouter({ mediaCodecs });
+  room.routers.push(router);
+  console.log(`Room ${room.id} now spans ${room.routers.length} router(s); added router ${router.id} on worker ${worker.pid}`);
+
+  // Make every existing producer available on the new router
+  for (const producerData of room.producers.values()) {
+    if (producerData.producer.closed || producerData.router.closed) continue;
+    try {
+      await producerData.router.pipeToRouter({ producerId: producerData.producer.id, router });
+    } catch (error) {
+      console.error(`Error piping producer ${producerData.producer.id} to new router ${router.id}:`, error);
+    }
+  }
+  return router;
+}
+
+// Routers are filled in order; a new one is placed on the least-loaded worker when all are full
+export async function assignMemberRouter(room: Room, socketId: string): Promise<mediasoupTypes.Router> {
+  const current = room.memberRouters.get(socketId);
+  if (current && !current.closed) return current;
+
+  const liveRouters = room.routers.filter(router => !router.closed);
+  let router = liveRouters.find(candidate => getRouterTransportCount(candidate) < MAX_TRANSPORTS_PER_ROUTER);
+  if (!router) {
+    const usedWorkers = liveRouters
+      .map(candidate => getRouterWorker(candidate))
+      .filter((worker): worker is mediasoupTypes.Worker => !!worker);
+    router = await addRouterToRoom(room, getLeastLoadedWorker(usedWorkers));
+  }
+  room.memberRouters.set(socketId, router);
+  return router;
+}
+
+export function getMemberRouter(room: Room, socketId: string): mediasoupTypes.Router | undefined {
+  const router = room.memberRouters.get(socketId);
+  return router && !router.closed ? router : undefined;
+}
+
+export function releaseMember(room: Room, socketId: string) {
+  room.members.delete(socketId);
+  room.memberRouters.delete(socketId);
+}
+
+// Drop routers that lived on a dead worker and make sure the room still has a primary router
+export async function recoverRoomsFromDeadWorker(deadWorker: mediasoupTypes.Worker): Promise<RoomRecovery[]> {
+  const recoveries: RoomRecovery[] = [];
+
+  for (const room of rooms.values()) {
+    const deadRouters = room.routers.filter(router => router.closed || getRouterWorker(router) === deadWorker);
+    if (deadRouters.length === 0) continue;
+
+    room.routers = room.routers.filter(router => !deadRouters.includes(router));
+    const affectedMembers: string[] = [];
+    room.memberRouters.forEach((router, socketId) => {
+      if (deadRouters.includes(router)) affectedMembers.push(socketId);
+    });
+    affectedMembers.forEach(socketId => room.memberRouters.delete(socketId));
+
+    const primaryReplaced = deadRouters.includes(room.router);
+    if (primaryReplaced) {
+      room.router = room.routers[0] ?? await addRouterToRoom(room, getLeastLoadedWorker());
+      console.log(`Room ${room.id} primary router replaced by ${room.router.id}`);
+    }
+
+    recoveries.push({ room, affectedMembers, primaryReplaced });
+  }
+
+  return recoveries;
+}
@@ -0,0 +1,119 @@
+import { randomBytes } from 'crypto';
+import NodeMediaServer from 'node-media-server';
+
+// RTMP ingest for OBS and hardware encoders. node-media-server accepts publishes on
+// rtmp://<host>:<port>/live/<streamKey>; an ingest relay (ingestRelay.ts) pulls each publish back over
+// loopback into PlainTransport producers, so RTMP broadcasters reach WebRTC viewers and the HLS
+// composition exactly like browser producers do.
+
+export const RTMP_APP = 'live';
+
+// Each key belongs to one room and carries one publish at a time
+export interface RtmpIngestKey {
+  key: string;
+  roomId: string;
+  createdAt: number;
+}
+
+// Only what the handlers need from a node-media-server session
+interface RtmpSession {
+  ip: string;
+  isLocal: boolean;
+  reject(): void;
+}
+
+export interface RtmpServerHandlers {
+  // Return false to refuse the publish
+  onPublishRequest(sessionId: string, ingestKey: RtmpIngestKey): boolean;
+  onPublishStarted(sessionId: string, ingestKey: RtmpIngestKey): void;
+  onPublishEnded(sessionId: string): void;
+}
+
+const ingestKeys = new Map<string, RtmpIngestKey>();
+let server: NodeMediaServer | null = null;
+
+export function createIngestKey(roomId: string): RtmpIngestKey {
+  const ingestKey = { key: randomBytes(16).toString('hex'), roomId, createdAt: Date.now() };
+  ingestKeys.set(ingestKey.key, ingestKey);
+  return ingestKey;
+}
+
+export function getIngestKey(key: string): RtmpIngestKey | undefined {
+  return ingestKeys.get(key);
+}
+
+export function listIngestKeys(roomId?: string): RtmpIngestKey[] {
+  return Array.from(ingestKeys.values()).filter(ingestKey => roomId === undefined || ingestKey.roomId === roomId);
+}
+
+export function revokeIngestKey(key: string): boolean {
+  return ingestKeys.delete(key);
+}
+
+// Fixed keys that survive restarts, so an encoder's settings keep working: RTMP_INGEST_KEYS=<key>:<roomId>,...
+export function loadIngestKeys(spec: string | undefined, isValidRoomId: (roomId: unknown) => roomId is string) {
+  if (!spec) return;
+  for (const entry of spec.split(',').map(item => item.trim()).filter(Boolean)) {
+    const [key, roomId] = entry.split(':');
+    if (!key || !isValidRoomId(roomId)) {
+      console.warn(`Ignoring RTMP ingest key entry "${entry}"; expected <key>:<roomId>`);
+      continue;
+    }
+    ingestKeys.set(key, { key, roomId, createdAt: Date.now() });
+  }
+}
+
+// '/live/<key>' -> the ingest key, when the key is known
+function findIngestKey(streamPath: string): RtmpIngestKey | undefined {
+  const [, app, key, ...rest] = streamPath.split('/');
+  if (app !== RTMP_APP || !key || rest.length > 0) return undefined;
+  return ingestKeys.get(key);
+}
+
+function getSession(sessionId: string): RtmpSession | undefined {
+  // The published typings describe getSession() as a Map; it returns the session object
+  return server?.getSession(sessionId) as unknown as RtmpSession | undefined;
+}
+
+export function rejectRtmpSession(sessionId: string) {
+  getSession(sessionId)?.reject();
+}
+
+export function getRtmpUrl(host: string, port: number, key: string): string {
+  return `rtmp://${host}:${port}/${RTMP_APP}/${key}`;
+}
+
+export function startRtmpServer(port: number, handlers: RtmpServerHandlers) {
+  server = new NodeMediaServer({
+    // Errors only; the server logs our own ingest events
+    logType: 1,
+    rtmp: { port, chunk_size: 60000, gop_cache: true, ping: 30, ping_timeout: 60 }
+  });
+
+  server.on('prePublish', (sessionId, streamPath) => {
+    const ingestKey = findIngestKey(streamPath);
+    if (!ingestKey || !handlers.onPublishRequest(sessionId, ingestKey)) {
+      console.warn(`RTMP publish to ${streamPath.replace(/[^/]+$/, '<key>')} refused (session ${sessionId})`);
+      rejectRtmpSession(sessionId);
+    }
+  });
+
+  server.on('postPublish', (sessionId, streamPath) => {
+    const ingestKey = findIngestKey(streamPath);
+    if (ingestKey) handlers.onPublishStarted(sessionId, ingestKey);
+  });
+
+  server.on('donePublish', (sessionId) => handlers.onPublishEnded(sessionId));
+
+  // Only the relay pulls the publish back; nobody else may play it from the RTMP server
+  server.on('prePlay', (sessionId) => {
+    const session = getSession(sessionId);
+    if (session && !session.isLocal) {
+      console.warn(`RTMP play from ${session.ip} refused (session ${sessionId})`);
+      session.reject();
+    }
+  });
+
+  server.run();
+  console.log(`RTMP ingest listening on port ${port} (rtmp://<host>:${port}/${RTMP_APP}/<streamKey>)`);
+}
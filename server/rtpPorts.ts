@@ -0,0 +1,105 @@
+import dgram from 'dgram';
+
+// Local UDP ports FFmpeg receives RTP on. Every lease is a block of four: video RTP and RTCP, then audio
+// RTP and RTCP, RTCP always on the port after its RTP as FFmpeg expects. Leases stay with their owner
+// (an HLS stream, a screen share, a recording take or a restream egress) until it ends, and a block is
+// only handed out once binding all four ports shows nothing else on the machine holds them.
+
+const PORTS_PER_LEASE = 4;
+const DEFAULT_MIN_PORT = 5000;
+const DEFAULT_MAX_PORT = 5999;
+
+export interface RtpPortPair {
+  video: number;
+  audio: number;
+}
+
+interface RtpPortLease {
+  ports: RtpPortPair;
+  // e.g. 'stream <id>' or 'recording <id>'
+  owner: string;
+  roomId: string;
+  leasedAt: number;
+}
+
+interface RtpPortRange {
+  min: number;
+  max: number;
+}
+
+function parseRtpPortRange(min: string | undefined, max: string | undefined): RtpPortRange {
+  const range = { min: min ? Number(min) : DEFAULT_MIN_PORT, max: max ? Number(max) : DEFAULT_MAX_PORT };
+  const isPort = (port: number) => Number.isInteger(port) && port >= 1024 && port <= 65535;
+  if (!isPort(range.min) || !isPort(range.max) || range.max - range.min + 1 < PORTS_PER_LEASE) {
+    console.warn(`RTP port range ${min ?? DEFAULT_MIN_PORT}-${max ?? DEFAULT_MAX_PORT} is not usable, using ${DEFAULT_MIN_PORT}-${DEFAULT_MAX_PORT}`);
+    return { min: DEFAULT_MIN_PORT, max: DEFAULT_MAX_PORT };
+  }
+  return range;
+}
+
+const range = parseRtpPortRange(process.env.FFMPEG_RTP_MIN_PORT, process.env.FFMPEG_RTP_MAX_PORT);
+const blockCount = Math.floor((range.max - range.min + 1) / PORTS_PER_LEASE);
+// Leases by the first port of their block
+const leases = new Map<number, RtpPortLease>();
+// Blocks are tried round-robin so a just-released one, which may still receive stray packets, is reused last
+let nextBlock = 0;
+
+function isUdpPortFree(port: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const socket = dgram.createSocket('udp4');
+    socket.once('error', () => {
+      socket.close();
+      resolve(false);
+    });
+    socket.bind(port, () => socket.close(() => resolve(true)));
+  });
+}
+
+async function isBlockFree(firstPort: number): Promise<boolean> {
+  for (let port = firstPort; port < firstPort + PORTS_PER_LEASE; port++) {
+    if (!await isUdpPortFree(port)) return false;
+  }
+  return true;
+}
+
+// Throws when every block of the range is leased or in use
+export async function leaseRtpPorts(owner: string, roomId: string): Promise<RtpPortPair> {
+  for (let attempt = 0; attempt < blockCount; attempt++) {
+    const firstPort = range.min + ((nextBlock + attempt) % blockCount) * PORTS_PER_LEASE;
+    if (leases.has(firstPort)) continue;
+    // Held while probing so a concurrent lease skips the block
+    const lease: RtpPortLease = { ports: { video: firstPort, audio: firstPort + 2 }, owner, roomId, leasedAt: Date.now() };
+    leases.set(firstPort, lease);
+    if (await isBlockFree(firstPort)) {
+      nextBlock = (nextBlock + attempt + 1) % blockCount;
+      return lease.ports;
+    }
+    leases.delete(firstPort);
+    console.warn(`RTP ports ${firstPort}-${firstPort + PORTS_PER_LEASE - 1} are in use outside the allocator, skipping them`);
+  }
+  throw new Error(`No free RTP ports left in ${range.min}-${range.max} (${leases.size} of ${blockCount} blocks leased)`);
+}
+
+// Safe to call more than once; ports someone else leased since are left alone
+export function releaseRtpPorts(ports: RtpPortPair | undefined) {
+  if (!ports) return;
+  if (leases.get(ports.video)?.ports === ports) leases.delete(ports.video);
+}
+
+export function getRtpPortUsage() {
+  return {
+    range,
+    portsPerLease: PORTS_PER_LEASE,
+    capacity: blockCount,
+    leased: leases.size,
+    leases: Array.from(leases.values())
+      .sort((a, b) => a.ports.video - b.ports.video)
+      .map(lease => ({
+        owner: lease.owner,
+        roomId: lease.roomId,
+        video: { rtp: lease.ports.video, rtcp: lease.ports.video + 1 },
+        audio: { rtp: lease.ports.audio, rtcp: lease.ports.audio + 1 },
+        leasedAt: new Date(lease.leasedAt).toISOString()
+      }))
+  };
+}
@@ -0,0 +1,112 @@
+import { Server, Socket } from 'socket.io';
+import {
+  ClientToServerEvents, ServerToClientEvents, SignalingError, SignalingErrorCode, SIGNALING_PROTOCOL_VERSION
+} from '../src/lib/signaling';
+import { isValidRoomId } from './rooms';
+import { isLayerIndex } from './simulcast';
+
+// Server side of the signaling protocol in src/lib/signaling.ts: the protocol version handshake and a
+// runtime check of every request, so handlers only ever see the payloads their event declares.
+
+export type SignalingServer = Server<ClientToServerEvents, ServerToClientEvents>;
+export type SignalingSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+type ClientEvent = keyof ClientToServerEvents;
+type SignalingRequest<E extends ClientEvent> = Parameters<ClientToServerEvents[E]>[0];
+// Events without an acknowledgement get a no-op in its place
+type SignalingCallback<E extends ClientEvent> = Parameters<ClientToServerEvents[E]> extends [unknown, infer Ack] ? Ack : () => void;
+
+export function signalingError(code: SignalingErrorCode, error: string): SignalingError {
+  return { error, code };
+}
+
+// io.use() middleware: clients of another protocol version (or none, i.e. from before it existed) are
+// refused with a connect_error that says so, instead of failing on their first request
+export function checkProtocolVersion(socket: SignalingSocket, next: (error?: Error) => void) {
+  const version: unknown = socket.handshake.auth?.protocolVersion;
+  if (version === SIGNALING_PROTOCOL_VERSION) return next();
+  const message = `Unsupported signaling protocol version ${version === undefined ? '(none)' : String(version)}; `
+    + `this server speaks version ${SIGNALING_PROTOCOL_VERSION}. Reload the page to update the client.`;
+  console.warn(`Refusing socket ${socket.id}: ${message}`);
+  const error = new Error(message) as Error & { data?: SignalingError & { serverVersion: number } };
+  error.data = { ...signalingError('unsupported-protocol', message), serverVersion: SIGNALING_PROTOCOL_VERSION };
+  next(error);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// mediasoup ids are UUIDs, push target ids too; anything longer is not one of ours
+function isId(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && value.length <= 64;
+}
+
+function isOptional(value: unknown, check: (value: unknown) => boolean): boolean {
+  return value === undefined || check(value);
+}
+
+// mediasoup checks media parameters itself; these only keep obviously wrong shapes away from it
+const isDtlsParameters = (value: unknown) => isRecord(value) && Array.isArray(value.fingerprints);
+const isRtpParameters = (value: unknown) => isRecord(value) && Array.isArray(value.codecs);
+const isRtpCapabilities = (value: unknown) => isRecord(value) && isOptional(value.codecs, Array.isArray);
+const isMediaKind = (value: unknown) => value === 'audio' || value === 'video';
+
+const noFields = () => null;
+const producerRequest = (request: Record<string, unknown>) => isId(request.producerId) ? null : 'Expected { producerId }';
+const consumerRequest = (request: Record<string, unknown>) => isId(request.consumerId) ? null : 'Expected { consumerId }';
+
+// What is wrong with a request, or null if its event can take it
+const requestProblems: { [E in ClientEvent]: (request: Record<string, unknown>) => string | null } = {
+  joinRoom: request => isValidRoomId(request.roomId) ? null : 'Invalid room id. Use 1-64 letters, digits, "-" or "_".',
+  getRouterRtpCapabilities: noFields,
+  clientReadyForExistingProducers: noFields,
+  createWebRtcTransport: request =>
+    typeof request.producing === 'boolean' && typeof request.consuming === 'boolean'
+      && isOptional(request.estimatedBitrate, value => typeof value === 'number')
+      ? null : 'Expected { producing: boolean, consuming: boolean, estimatedBitrate?: number }',
+  connectTransport: request =>
+    isId(request.transportId) && isDtlsParameters(request.dtlsParameters) ? null : 'Expected { transportId, dtlsParameters }',
+  produce: request =>
+    isId(request.transportId) && isMediaKind(request.kind) && isRtpParameters(request.rtpParameters) && isOptional(request.appData, isRecord)
+      ? null : "Expected { transportId, kind: 'audio' | 'video', rtpParameters, appData?: object }",
+  consume: request =>
+    isId(request.producerId) && isId(request.transportId) && isRtpCapabilities(request.rtpCapabilities)
+      ? null : 'Expected { producerId, transportId, rtpCapabilities }',
+  'resume-consumer': consumerRequest,
+  'pause-consumer': consumerRequest,
+  setPreferredLayers: request =>
+    isId(request.consumerId) && (request.spatialLayer === 'auto' || isLayerIndex(request.spatialLayer))
+      && isOptional(request.temporalLayer, isLayerIndex)
+      ? null : "Expected { consumerId, spatialLayer: number | 'auto', temporalLayer?: number }",
+  'pause-producer': producerRequest,
+  'resume-producer': producerRequest,
+  'close-producer': producerRequest,
+  'get-push-targets': noFields,
+  'add-push-target': request =>
+    typeof request.url === 'string' && isOptional(request.name, value => typeof value === 'string')
+      ? null : 'Expected { url: string, name?: string }',
+  'remove-push-target': request => isId(request.targetId) ? null : 'Expected { targetId }'
+};
+
+// socket.on() for requests: invalid ones are acknowledged with 'invalid-request' (or dropped, for events
+// without an acknowledgement) and never reach the handler
+export function onSignalingRequest<E extends ClientEvent>(
+  socket: SignalingSocket,
+  event: E,
+  handler: (request: SignalingRequest<E>, callback: SignalingCallback<E>) => void
+) {
+  const listener = (request: unknown, ack: unknown) => {
+    // A throwing handler would take the process down, so a client that leaves out the ack gets no answer instead
+    const callback = typeof ack === 'function' ? ack as (response: unknown) => void : () => {};
+    const problem = isRecord(request) ? requestProblems[event](request) : 'Expected an object';
+    if (problem) {
+      console.warn(`Invalid ${event} request from socket ${socket.id}: ${problem}`);
+      callback(signalingError('invalid-request', problem));
+      return;
+    }
+    handler(request as SignalingRequest<E>, callback as SignalingCallback<E>);
+  };
+  // The listener takes anything, so it goes on the untyped socket
+  (socket as Socket).on(event as string, listener);
+}
@@ -0,0 +1,94 @@
+import { types as mediasoupTypes } from 'mediasoup';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_AVAILABLE_BITRATE, clampLayers, getLayerCounts, selectLayersForBitrate, toAvailableBitrate } from './simulcast';
+
+// What the stream page publishes: three simulcast encodings, or one VP9 encoding with three spatial layers
+const simulcast: mediasoupTypes.RtpParameters = {
+  codecs: [],
+  encodings: [
+    { rid: 'r0', maxBitrate: 150000, scalabilityMode: 'L1T3' },
+    { rid: 'r1', maxBitrate: 500000, scalabilityMode: 'L1T3' },
+    { rid: 'r2', maxBitrate: 1200000, scalabilityMode: 'L1T3' }
+  ]
+};
+// Spatial layers of 100, 400 and 1600 kbps
+const svc: mediasoupTypes.RtpParameters = { codecs: [], encodings: [{ maxBitrate: 1600000, scalabilityMode: 'L3T3' }] };
+const single: mediasoupTypes.RtpParameters = { codecs: [], encodings: [{ ssrc: 1111 }] };
+
+describe('getLayerCounts', () => {
+  it('counts simulcast encodings as spatial layers', () => {
+    expect(getLayerCounts(simulcast)).toEqual({ spatialLayers: 3, temporalLayers: 3 });
+  });
+
+  it('reads SVC layers from the scalability mode', () => {
+    expect(getLayerCounts(svc)).toEqual({ spatialLayers: 3, temporalLayers: 3 });
+    expect(getLayerCounts({ codecs: [], encodings: [{ scalabilityMode: 'L3T3_KEY' }] })).toEqual({ spatialLayers: 3, temporalLayers: 3 });
+    expect(getLayerCounts({ codecs: [], encodings: [{ scalabilityMode: 'S2T1' }] })).toEqual({ spatialLayers: 2, temporalLayers: 1 });
+  });
+
+  it('has one layer of each without simulcast or a scalability mode', () => {
+    expect(getLayerCounts(single)).toEqual({ spatialLayers: 1, temporalLayers: 1 });
+    expect(getLayerCounts({ codecs: [] })).toEqual({ spatialLayers: 1, temporalLayers: 1 });
+  });
+});
+
+describe('selectLayersForBitrate', () => {
+  it('picks the highest simulcast layer within the headroom, at the top temporal layer', () => {
+    expect(selectLayersForBitrate(simulcast, 2000000)).toEqual({ spatialLayer: 2, temporalLayer: 2 });
+    // 80% of 1.5 Mbps is exactly the top layer
+    expect(selectLayersForBitrate(simulcast, 1500000)).toEqual({ spatialLayer: 2, temporalLayer: 2 });
+    expect(selectLayersForBitrate(simulcast, 1400000)).toEqual({ spatialLayer: 1, temporalLayer: 2 });
+    expect(selectLayersForBitrate(simulcast, 625000)).toEqual({ spatialLayer: 1, temporalLayer: 2 });
+    expect(selectLayersForBitrate(simulcast, 600000)).toEqual({ spatialLayer: 0, temporalLayer: 2 });
+  });
+
+  it('takes each lower SVC layer to need a quarter of the one above', () => {
+    expect(selectLayersForBitrate(svc, 2000000)).toEqual({ spatialLayer: 2, temporalLayer: 2 });
+    expect(selectLayersForBitrate(svc, 1999999)).toEqual({ spatialLayer: 1, temporalLayer: 2 });
+    expect(selectLayersForBitrate(svc, 500000)).toEqual({ spatialLayer: 1, temporalLayer: 2 });
+    expect(selectLayersForBitrate(svc, 499999)).toEqual({ spatialLayer: 0, temporalLayer: 2 });
+  });
+
+  it('falls back to the lowest layer when none fits', () => {
+    expect(selectLayersForBitrate(simulcast, 100000)).toEqual({ spatialLayer: 0, temporalLayer: 2 });
+    expect(selectLayersForBitrate(svc, 0)).toEqual({ spatialLayer: 0, temporalLayer: 2 });
+    expect(selectLayersForBitrate(single, 10000000)).toEqual({ spatialLayer: 0, temporalLayer: 0 });
+  });
+
+  it('assumes the stream page bitrates for encodings without a maximum', () => {
+    const unannounced: mediasoupTypes.RtpParameters = { codecs: [], encodings: [{ rid: 'r0' }, { rid: 'r1' }, { rid: 'r2' }] };
+    expect(selectLayersForBitrate(unannounced, DEFAULT_AVAILABLE_BITRATE)).toEqual({ spatialLayer: 0, temporalLayer: 0 });
+    expect(selectLayersForBitrate(unannounced, 625000)).toEqual({ spatialLayer: 1, temporalLayer: 0 });
+    expect(selectLayersForBitrate(unannounced, 1500000)).toEqual({ spatialLayer: 2, temporalLayer: 0 });
+  });
+});
+
+describe('clampLayers', () => {
+  it('keeps layers the producer has', () => {
+    expect(clampLayers(simulcast, 1, 0)).toEqual({ spatialLayer: 1, temporalLayer: 0 });
+    expect(clampLayers(svc, 0, 1)).toEqual({ spatialLayer: 0, temporalLayer: 1 });
+  });
+
+  it('clamps layers above the top one', () => {
+    expect(clampLayers(simulcast, 5, 7)).toEqual({ spatialLayer: 2, temporalLayer: 2 });
+    expect(clampLayers(single, 2, 2)).toEqual({ spatialLayer: 0, temporalLayer: 0 });
+  });
+
+  it('uses the top temporal layer unless one is given', () => {
+    expect(clampLayers(svc, 1)).toEqual({ spatialLayer: 1, temporalLayer: 2 });
+  });
+});
+
+describe('toAvailableBitrate', () => {
+  it('uses the default for anything but a positive number', () => {
+    for (const estimate of [undefined, null, '1000000', NaN, Infinity, 0, -500000]) {
+      expect(toAvailableBitrate(estimate)).toBe(DEFAULT_AVAILABLE_BITRATE);
+    }
+  });
+
+  it('keeps estimates within reason, in whole bits per second', () => {
+    expect(toAvailableBitrate(50000)).toBe(100000);
+    expect(toAvailableBitrate(50000000)).toBe(10000000);
+    expect(toAvailableBitrate(1234567.8)).toBe(1234568);
+  });
+});
@@ -0,0 +1,81 @@
+import { types as mediasoupTypes } from 'mediasoup';
+
+// Layer selection for simulcast and SVC producers. Browsers publish three encodings (or one VP9/AV1
+// encoding with three spatial layers); each viewer's consumer gets the layers its bandwidth allows,
+// unless the viewer pinned some with setPreferredLayers.
+
+export interface ConsumerLayers {
+  spatialLayer: number;
+  temporalLayer: number;
+}
+
+// Bitrates the stream page publishes its layers at, for producers that do not announce their own
+const DEFAULT_SPATIAL_LAYER_BITRATES = [150000, 500000, 1200000];
+
+// Only pick a layer that leaves this share of the estimate for audio and retransmissions
+const BANDWIDTH_HEADROOM = 0.8;
+
+// Starting estimate of a viewer's transport when its client has none (mediasoup's own default)
+export const DEFAULT_AVAILABLE_BITRATE = 600000;
+const MIN_AVAILABLE_BITRATE = 100000;
+const MAX_AVAILABLE_BITRATE = 10000000;
+
+// 'L3T3', 'L3T3_KEY' and 'S3T3' all mean three spatial and three temporal layers
+function parseScalabilityMode(scalabilityMode: string | undefined): { spatialLayers: number; temporalLayers: number } {
+  const match = /^[LS]([1-9])T([1-9])/.exec(scalabilityMode ?? '');
+  return match ? { spatialLayers: Number(match[1]), temporalLayers: Number(match[2]) } : { spatialLayers: 1, temporalLayers: 1 };
+}
+
+export function getLayerCounts(rtpParameters: mediasoupTypes.RtpParameters): { spatialLayers: number; temporalLayers: number } {
+  const encodings = rtpParameters.encodings ?? [];
+  const { spatialLayers, temporalLayers } = parseScalabilityMode(encodings[0]?.scalabilityMode);
+  return { spatialLayers: encodings.length > 1 ? encodings.length : spatialLayers, temporalLayers };
+}
+
+// Whether there is anything to choose from: simulcast encodings, or spatial or temporal SVC layers
+export function hasSelectableLayers(rtpParameters: mediasoupTypes.RtpParameters): boolean {
+  const { spatialLayers, temporalLayers } = getLayerCounts(rtpParameters);
+  return spatialLayers > 1 || temporalLayers > 1;
+}
+
+// Bitrate of every spatial layer, lowest first. SVC encodings announce one maximum for all layers;
+// each lower layer is taken to need a quarter of the one above (half the width and height).
+function getSpatialLayerBitrates(rtpParameters: mediasoupTypes.RtpParameters): number[] {
+  const encodings = rtpParameters.encodings ?? [];
+  if (encodings.length > 1) {
+    return encodings.map((encoding, index) => encoding.maxBitrate ?? DEFAULT_SPATIAL_LAYER_BITRATES[Math.min(index, DEFAULT_SPATIAL_LAYER_BITRATES.length - 1)]);
+  }
+  const { spatialLayers } = getLayerCounts(rtpParameters);
+  const topBitrate = encodings[0]?.maxBitrate ?? DEFAULT_SPATIAL_LAYER_BITRATES[DEFAULT_SPATIAL_LAYER_BITRATES.length - 1];
+  return Array.from({ length: spatialLayers }, (_, index) => topBitrate / 4 ** (spatialLayers - 1 - index));
+}
+
+// The highest spatial layer that fits the viewer's estimated bandwidth, at full frame rate; the lowest when none fits
+export function selectLayersForBitrate(rtpParameters: mediasoupTypes.RtpParameters, availableBitrate: number): ConsumerLayers {
+  const { temporalLayers } = getLayerCounts(rtpParameters);
+  const bitrates = getSpatialLayerBitrates(rtpParameters);
+  let spatialLayer = 0;
+  bitrates.forEach((bitrate, index) => {
+    if (bitrate <= availableBitrate * BANDWIDTH_HEADROOM) spatialLayer = index;
+  });
+  return { spatialLayer, temporalLayer: temporalLayers - 1 };
+}
+
+// Layers a viewer asked for, clamped to what the producer has; the top temporal layer unless given
+export function clampLayers(rtpParameters: mediasoupTypes.RtpParameters, spatialLayer: number, temporalLayer?: number): ConsumerLayers {
+  const { spatialLayers, temporalLayers } = getLayerCounts(rtpParameters);
+  return {
+    spatialLayer: Math.min(spatialLayer, spatialLayers - 1),
+    temporalLayer: Math.min(temporalLayer ?? temporalLayers - 1, temporalLayers - 1)
+  };
+}
+
+export function isLayerIndex(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < 10;
+}
+
+// A client's bandwidth estimate in bits per second (e.g. from navigator.connection.downlink), kept within reason
+export function toAvailableBitrate(estimatedBitrate: unknown): number {
+  if (typeof estimatedBitrate !== 'number' || !Number.isFinite(estimatedBitrate) || estimatedBitrate <= 0) return DEFAULT_AVAILABLE_BITRATE;
+  return Math.round(Math.min(Math.max(estimatedBitrate, MIN_AVAILABLE_BITRATE), MAX_AVAILABLE_BITRATE));
+}
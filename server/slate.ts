@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+import { HLS_FRAME_RATE, evenWidth, escapeFilterPath } from './hlsLadder';
+import { writeFileAtomic } from './hlsStitcher';
+import { FfmpegJob } from './ffmpegSupervisor';
+
+// "Offline / starting soon" slate shown while nobody is live: a background (an image, a looped clip or a
+// plain card) with the stream title, its scheduled start and the number of people waiting, encoded as
+// live HLS like any broadcast. drawtext re-reads the text files on every frame, so the text changes
+// without restarting FFmpeg.
+
+export const MAX_SLATE_TITLE_LENGTH = 120;
+// The viewer count on the slate is refreshed this often
+export const SLATE_TEXT_REFRESH_MS = 5000;
+
+const SLATE_CARD_COLOR = '0x101828';
+const SLATE_TITLE_FILE = 'slate_title.txt';
+const SLATE_INFO_FILE = 'slate_info.txt';
+
+// Per room, set over the API
+export interface SlateSettings {
+  title: string;
+  // Announced start in ms since the epoch
+  scheduledStart: number | null;
+}
+
+export interface SlateState {
+  settings: SlateSettings;
+  job?: FfmpegJob;
+  textTimer?: ReturnType<typeof setInterval>;
+  // Watches for a broadcaster's own playlist to take over; see the individual layout in index.ts
+  handoverTimer?: ReturnType<typeof setInterval>;
+}
+
+export type SlateBackground = { type: 'image' | 'clip'; path: string } | { type: 'card' };
+
+// SLATE_CLIP (looped video) wins over SLATE_IMAGE; without either the slate is a plain card
+export function parseSlateBackground(image: string | undefined, clip: string | undefined): SlateBackground {
+  for (const [type, file] of [['clip', clip], ['image', image]] as const) {
+    if (!file) continue;
+    const resolved = path.resolve(file);
+    if (fs.existsSync(resolved)) return { type, path: resolved };
+    console.warn(`Slate ${type} ${resolved} not found, ignoring it`);
+  }
+  return { type: 'card' };
+}
+
+export function isSlateTitle(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_SLATE_TITLE_LENGTH;
+}
+
+// Title of slates nobody has set one for (SLATE_TITLE)
+const defaultSlateTitle = isSlateTitle(process.env.SLATE_TITLE) ? process.env.SLATE_TITLE : 'Stream offline';
+
+export function createSlateState(): SlateState {
+  return { settings: { title: defaultSlateTitle, scheduledStart: null } };
+}
+
+// ISO 8601 date or null to clear; undefined when the value is neither
+export function parseScheduledStart(value: unknown): number | null | undefined {
+  if (value === null) return null;
+  if (typeof value !== 'string') return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function formatScheduledStart(time: number): string {
+  return `${new Date(time).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+// The second text block: when the stream starts and how many are waiting
+export function formatSlateInfo(settings: SlateSettings, viewerCount: number, now = Date.now()): string {
+  const start = settings.scheduledStart !== null && settings.scheduledStart > now
+    ? `Starts ${formatScheduledStart(settings.scheduledStart)}`
+    : 'Starting soon';
+  return `${start}\n${viewerCount} ${viewerCount === 1 ? 'viewer' : 'viewers'} waiting`;
+}
+
+export function writeSlateText(folder: string, settings: SlateSettings, viewerCount: number) {
+  fs.mkdirSync(folder, { recursive: true });
+  writeFileAtomic(path.join(folder, SLATE_TITLE_FILE), settings.title);
+  writeFileAtomic(path.join(folder, SLATE_INFO_FILE), formatSlateInfo(settings, viewerCount));
+}
+
+export interface SlateInput {
+  inputArgs: string[];
+  filter: string;
+  // Pads for the rendition ladder
+  video: string;
+  audio: string;
+}
+
+// The slate at the given height with the text of `textFolder` drawn on it, and silence
+export function buildSlateInput(background: SlateBackground, height: number, textFolder: string, fontFile?: string): SlateInput {
+  const width = evenWidth(height);
+  const backgroundArgs = background.type === 'image'
+    ? ['-re', '-loop', '1', '-framerate', String(HLS_FRAME_RATE), '-i', background.path]
+    : background.type === 'clip'
+      ? ['-re', '-stream_loop', '-1', '-i', background.path]
+      : ['-re', '-f', 'lavfi', '-i', `color=c=${SLATE_CARD_COLOR}:s=${width}x${height}:r=${HLS_FRAME_RATE}`];
+  const font = fontFile ? `:fontfile=${escapeFilterPath(fontFile)}` : '';
+  const box = `:box=1:boxcolor=black@0.45:boxborderw=${Math.round(height / 60)}`;
+  const title = `drawtext=textfile=${escapeFilterPath(path.join(textFolder, SLATE_TITLE_FILE))}:reload=1${font}`
+    + `:fontcolor=white:fontsize=${Math.round(height / 12)}${box}:x=(w-text_w)/2:y=h/2-text_h-${Math.round(height / 30)}`;
+  const info = `drawtext=textfile=${escapeFilterPath(path.join(textFolder, SLATE_INFO_FILE))}:reload=1${font}`
+    + `:fontcolor=white:fontsize=${Math.round(height / 24)}:line_spacing=${Math.round(height / 60)}${box}`
+    + `:x=(w-text_w)/2:y=h/2+${Math.round(height / 30)}`;
+  return {
+    inputArgs: [...backgroundArgs, '-re', '-f', 'lavfi', '-i', 'anullsrc=r=48000:cl=stereo'],
+    filter: `[0:v]scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=${SLATE_CARD_COLOR},`
+      + `setsar=1,fps=${HLS_FRAME_RATE},format=yuv420p,${title},${info}[slatev]`,
+    video: '[slatev]',
+    audio: '[1:a]'
+  };
+}
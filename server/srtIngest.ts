@@ -0,0 +1,106 @@
+import { randomBytes } from 'crypto';
+
+// SRT ingest for contribution encoders on lossy links. Every SRT stream is a route: a stream id, the
+// room it publishes into and a passphrase of its own. FFmpeg's SRT listener takes any caller and cannot
+// pick one by stream id, so each route listens on its own UDP port and the ingest relay (ingestRelay.ts)
+// is that listener; encoders call srt://<host>:<port>?streamid=<streamId>&passphrase=<passphrase>, and a
+// caller whose stream id is not the route's is dropped once the listener has logged it.
+
+export interface SrtStream {
+  streamId: string;
+  roomId: string;
+  passphrase: string;
+  // UDP port the route listens on
+  port: number;
+  createdAt: number;
+}
+
+// Receive buffer for retransmissions; lossy contribution links need far more than SRT's 120 ms default
+export const SRT_LATENCY_MS = 1000;
+
+// Routes listen on consecutive ports from the base port
+const MAX_SRT_STREAMS = 100;
+
+const srtStreams = new Map<string, SrtStream>();
+let basePort = 9000;
+
+export function setSrtBasePort(port: number) {
+  basePort = port;
+}
+
+export function isValidSrtStreamId(value: unknown): value is string {
+  return typeof value === 'string' && /^[A-Za-z0-9_-]{1,64}$/.test(value);
+}
+
+// SRT takes passphrases of 10 to 79 characters; no spaces so they survive an encoder's URL field
+export function isValidSrtPassphrase(value: unknown): value is string {
+  return typeof value === 'string' && /^[\x21-\x7e]{10,79}$/.test(value);
+}
+
+function allocatePort(): number | null {
+  const used = new Set(Array.from(srtStreams.values()).map(stream => stream.port));
+  for (let port = basePort; port < basePort + MAX_SRT_STREAMS; port++) {
+    if (!used.has(port)) return port;
+  }
+  return null;
+}
+
+// A new route into a room; returns an error message when the stream id is taken or no port is left
+export function createSrtStream(roomId: string, streamId?: string, passphrase?: string): SrtStream | string {
+  const id = streamId ?? randomBytes(6).toString('hex');
+  if (srtStreams.has(id)) return `SRT stream ${id} already exists`;
+  const port = allocatePort();
+  if (port === null) return 'No SRT ingest port left';
+  const stream = { streamId: id, roomId, passphrase: passphrase ?? randomBytes(16).toString('hex'), port, createdAt: Date.now() };
+  srtStreams.set(id, stream);
+  return stream;
+}
+
+export function getSrtStream(streamId: string): SrtStream | undefined {
+  return srtStreams.get(streamId);
+}
+
+export function listSrtStreams(roomId?: string): SrtStream[] {
+  return Array.from(srtStreams.values()).filter(stream => roomId === undefined || stream.roomId === roomId);
+}
+
+export function removeSrtStream(streamId: string): boolean {
+  return srtStreams.delete(streamId);
+}
+
+// Fixed routes that survive restarts: SRT_INGEST_STREAMS=<streamId>:<roomId>:<passphrase>,...
+export function loadSrtStreams(spec: string | undefined, isValidRoomId: (roomId: unknown) => roomId is string) {
+  if (!spec) return;
+  for (const entry of spec.split(',').map(item => item.trim()).filter(Boolean)) {
+    const [streamId, roomId, ...passphraseParts] = entry.split(':');
+    const passphrase = passphraseParts.join(':');
+    if (!isValidSrtStreamId(streamId) || !isValidRoomId(roomId) || !isValidSrtPassphrase(passphrase)) {
+      // The passphrase stays out of the log
+      console.warn(`Ignoring SRT ingest stream entry "${streamId}:${roomId}:…"; expected <streamId>:<roomId>:<passphrase>`);
+      continue;
+    }
+    const stream = createSrtStream(roomId, streamId, passphrase);
+    if (typeof stream === 'string') console.warn(`Ignoring SRT ingest stream ${streamId}: ${stream}`);
+  }
+}
+
+// What an encoder calls; the caller side leaves latency to the listener, which SRT negotiates up to
+export function getSrtUrl(host: string, stream: SrtStream): string {
+  return `srt://${host}:${stream.port}?streamid=${encodeURIComponent(stream.streamId)}&passphrase=${encodeURIComponent(stream.passphrase)}`;
+}
+
+// Input of the relay FFmpeg; FFmpeg takes the SRT latency in microseconds
+export function getSrtListenUrl(stream: SrtStream): string {
+  return `srt://0.0.0.0:${stream.port}?mode=listener&latency=${SRT_LATENCY_MS * 1000}&passphrase=${encodeURIComponent(stream.passphrase)}`;
+}
+
+// Stream id of the caller FFmpeg's listener accepted, from its verbose log; '' when the caller sent none
+export function parseSrtCallerStreamId(output: string): string | null {
+  const match = /accept streamid \[([^\]]*)\]/.exec(output);
+  return match ? match[1] : null;
+}
+
+// FFmpeg echoes its input URL; the passphrase stays out of the logs
+export function maskSrtPassphrase(text: string, stream: SrtStream): string {
+  return text.split(encodeURIComponent(stream.passphrase)).join('<passphrase>');
+}
@@ -0,0 +1,250 @@
+import { parse, write, parseParams, MediaDescription, SessionDescription } from 'sdp-transform';
+import { types as mediasoupTypes } from 'mediasoup';
+
+// SDP offer/answer for the HTTP WebRTC endpoints (WHIP ingest, WHEP playback). mediasoup is ICE-lite,
+// so an answer carries every server candidate and the client's trickled candidates are never needed.
+
+export const SDP_CONTENT_TYPE = 'application/sdp';
+export const TRICKLE_ICE_CONTENT_TYPE = 'application/trickle-ice-sdpfrag';
+
+// One accepted m-section and the producer or consumer behind it
+export interface SdpMediaSection {
+  mid: string;
+  kind: mediasoupTypes.MediaKind;
+  rtpParameters: mediasoupTypes.RtpParameters;
+  // Simulcast layers a WHIP encoder sends, echoed as recv in the answer
+  rids?: string[];
+  // '<stream> <track>' of a WHEP track, announced with its SSRCs
+  msid?: string;
+}
+
+export interface SdpOffer {
+  sdp: SessionDescription;
+  // The client's DTLS role and certificate, ready for transport.connect()
+  dtlsParameters: mediasoupTypes.DtlsParameters;
+  iceUfrag: string;
+  // Accepted m-sections; every other one is rejected in the answer
+  media: SdpMediaSection[];
+}
+
+// What an answer needs from the WebRtcTransport
+export interface LocalTransportParameters {
+  iceParameters: mediasoupTypes.IceParameters;
+  iceCandidates: mediasoupTypes.IceCandidate[];
+  dtlsParameters: mediasoupTypes.DtlsParameters;
+}
+
+const FINGERPRINT_ALGORITHMS: readonly mediasoupTypes.FingerprintAlgorithm[] = ['sha-1', 'sha-224', 'sha-256', 'sha-384', 'sha-512'];
+
+function isFingerprintAlgorithm(value: string): value is mediasoupTypes.FingerprintAlgorithm {
+  return (FINGERPRINT_ALGORITHMS as readonly string[]).includes(value);
+}
+
+export function isMediaKind(value: string): value is mediasoupTypes.MediaKind {
+  return value === 'audio' || value === 'video';
+}
+
+// sdp-transform reads numeric mids such as a=mid:0 as numbers
+export function getSectionMid(section: MediaDescription): string | undefined {
+  return section.mid === undefined ? undefined : String(section.mid);
+}
+
+// Profile part of an H.264 profile-level-id (profile_idc and constraint flags); the level may differ
+function getH264Profile(parameters: Record<string, unknown>): string {
+  return String(parameters['profile-level-id'] ?? '42001f').slice(0, 4).toLowerCase();
+}
+
+type CodecDescription = Pick<mediasoupTypes.RtpCodecParameters, 'mimeType' | 'clockRate' | 'channels' | 'parameters'>;
+
+// The same codec as far as mediasoup matches them; H.264 also needs the same packetization mode and profile
+export function isSameCodec(a: CodecDescription, b: CodecDescription): boolean {
+  if (a.mimeType.toLowerCase() !== b.mimeType.toLowerCase() || a.clockRate !== b.clockRate) return false;
+  if ((a.channels ?? 1) !== (b.channels ?? 1)) return false;
+  if (a.mimeType.toLowerCase() === 'video/h264') {
+    const aParameters = a.parameters ?? {};
+    const bParameters = b.parameters ?? {};
+    return Number(aParameters['packetization-mode'] ?? 0) === Number(bParameters['packetization-mode'] ?? 0)
+      && getH264Profile(aParameters) === getH264Profile(bParameters);
+  }
+  return true;
+}
+
+export function getCodecParameters(section: MediaDescription, payloadType: number): Record<string, unknown> {
+  const fmtp = section.fmtp.find(entry => entry.payload === payloadType);
+  return fmtp ? parseParams(fmtp.config) : {};
+}
+
+export function getCodecFeedback(section: MediaDescription, payloadType: number): mediasoupTypes.RtcpFeedback[] {
+  return (section.rtcpFb ?? [])
+    .filter(feedback => feedback.payload === payloadType || feedback.payload === '*')
+    .map(feedback => ({ type: feedback.type, parameter: feedback.subtype ?? '' }));
+}
+
+// The offer with its DTLS and ICE parameters; an error message for offers that cannot be answered.
+// The caller fills in the accepted media.
+export function parseSdpOffer(offerSdp: string): SdpOffer | string {
+  let sdp: SessionDescription;
+  try {
+    sdp = parse(offerSdp);
+  } catch {
+    return 'Malformed SDP offer';
+  }
+  if (!sdp.media?.length) return 'The offer has no media';
+
+  const firstSection = sdp.media[0];
+  const fingerprint = firstSection.fingerprint ?? sdp.fingerprint;
+  const iceUfrag = firstSection.iceUfrag ?? sdp.iceUfrag;
+  const setup = firstSection.setup ?? sdp.setup ?? 'actpass';
+  if (!fingerprint || !isFingerprintAlgorithm(fingerprint.type.toLowerCase())) return 'The offer has no usable DTLS fingerprint';
+  if (!iceUfrag) return 'The offer has no ICE credentials';
+
+  return {
+    sdp,
+    // The answer takes the passive side unless the client insists on it
+    dtlsParameters: {
+      role: setup === 'passive' ? 'server' : 'client',
+      fingerprints: [{ algorithm: fingerprint.type.toLowerCase() as mediasoupTypes.FingerprintAlgorithm, value: fingerprint.hash }]
+    },
+    iceUfrag,
+    media: []
+  };
+}
+
+function toSdpCandidates(iceCandidates: mediasoupTypes.IceCandidate[]) {
+  return iceCandidates.map(candidate => ({
+    foundation: candidate.foundation,
+    component: 1,
+    transport: candidate.protocol,
+    priority: candidate.priority,
+    ip: candidate.address,
+    port: candidate.port,
+    type: candidate.type,
+    ...(candidate.tcpType ? { tcptype: candidate.tcpType } : {})
+  }));
+}
+
+function formatFmtpConfig(parameters: Record<string, unknown>): string {
+  return Object.entries(parameters).map(([name, value]) => `${name}=${value}`).join(';');
+}
+
+// SSRC lines of a track the server sends, so the client can tie RTP and RTX to the msid
+function getSendingSsrcAttributes(section: SdpMediaSection): Pick<MediaDescription, 'ssrcs' | 'ssrcGroups'> {
+  const encoding = section.rtpParameters.encodings?.[0];
+  const cname = section.rtpParameters.rtcp?.cname;
+  if (!encoding?.ssrc) return {};
+  const ssrcIds = [encoding.ssrc, ...(encoding.rtx?.ssrc ? [encoding.rtx.ssrc] : [])];
+  return {
+    ssrcs: ssrcIds.flatMap(id => [
+      ...(cname ? [{ id, attribute: 'cname', value: cname }] : []),
+      ...(section.msid ? [{ id, attribute: 'msid', value: section.msid }] : [])
+    ]),
+    ...(encoding.rtx?.ssrc ? { ssrcGroups: [{ semantics: 'FID', ssrcs: ssrcIds.join(' ') }] } : {})
+  };
+}
+
+function buildAnsweredSection(
+  offered: MediaDescription, accepted: SdpMediaSection, local: LocalTransportParameters,
+  setup: string, direction: 'recvonly' | 'sendonly'
+): MediaDescription {
+  const { codecs, headerExtensions = [] } = accepted.rtpParameters;
+  const fingerprint = local.dtlsParameters.fingerprints.find(entry => entry.algorithm === 'sha-256') ?? local.dtlsParameters.fingerprints[0];
+  const rids = accepted.rids ?? [];
+  const rtpmapName = (mimeType: string) => mimeType.slice(mimeType.indexOf('/') + 1);
+
+  return {
+    type: accepted.kind,
+    port: 9,
+    protocol: offered.protocol,
+    payloads: codecs.map(codec => codec.payloadType).join(' '),
+    connection: { version: 4, ip: '0.0.0.0' },
+    mid: accepted.mid,
+    direction,
+    iceUfrag: local.iceParameters.usernameFragment,
+    icePwd: local.iceParameters.password,
+    fingerprint: { type: fingerprint.algorithm, hash: fingerprint.value },
+    setup,
+    rtcpMux: 'rtcp-mux',
+    ...(accepted.rtpParameters.rtcp?.reducedSize ? { rtcpRsize: 'rtcp-rsize' as const } : {}),
+    rtp: codecs.map(codec => ({
+      payload: codec.payloadType,
+      codec: rtpmapName(codec.mimeType),
+      rate: codec.clockRate,
+      ...(codec.channels && codec.channels > 1 ? { encoding: codec.channels } : {})
+    })),
+    fmtp: codecs
+      .filter(codec => codec.parameters && Object.keys(codec.parameters).length > 0)
+      .map(codec => ({ payload: codec.payloadType, config: formatFmtpConfig(codec.parameters!) })),
+    rtcpFb: codecs.flatMap(codec => (codec.rtcpFeedback ?? []).map(feedback => ({
+      payload: codec.payloadType,
+      type: feedback.type,
+      ...(feedback.parameter ? { subtype: feedback.parameter } : {})
+    }))),
+    ext: headerExtensions.map(ext => ({ value: ext.id, uri: ext.uri })),
+    ...(rids.length > 0 ? {
+      rids: rids.map(rid => ({ id: rid, direction: 'recv' })),
+      simulcast: { dir1: 'recv' as const, list1: rids.join(';') }
+    } : {}),
+    ...(direction === 'sendonly' ? { msid: accepted.msid, ...getSendingSsrcAttributes(accepted) } : {}),
+    candidates: toSdpCandidates(local.iceCandidates),
+    endOfCandidates: 'end-of-candidates'
+  };
+}
+
+// Every offered m-section is answered in order; the ones the server did not accept are rejected with port 0.
+// WHIP answers receive (recvonly), WHEP answers send (sendonly).
+export function buildSdpAnswer(offer: SdpOffer, local: LocalTransportParameters, direction: 'recvonly' | 'sendonly'): string {
+  const setup = offer.dtlsParameters.role === 'server' ? 'active' : 'passive';
+  const media = offer.sdp.media.map((offered): MediaDescription => {
+    const mid = getSectionMid(offered);
+    const accepted = offer.media.find(section => section.mid === mid);
+    if (accepted) return buildAnsweredSection(offered, accepted, local, setup, direction);
+    return {
+      type: offered.type,
+      port: 0,
+      protocol: offered.protocol,
+      payloads: offered.payloads,
+      ...(mid !== undefined ? { mid } : {}),
+      direction: 'inactive',
+      rtp: [],
+      fmtp: []
+    };
+  });
+
+  return write({
+    version: 0,
+    origin: { username: '-', sessionId: Date.now(), sessionVersion: 1, netType: 'IN', ipVer: 4, address: '127.0.0.1' },
+    name: '-',
+    timing: { start: 0, stop: 0 },
+    icelite: 'ice-lite',
+    msidSemantic: { semantic: 'WMS', token: '*' },
+    groups: [{ type: 'BUNDLE', mids: offer.media.map(section => section.mid).join(' ') }],
+    media
+  });
+}
+
+// ICE credentials of a PATCH body; new ones mean the client is restarting ICE
+export function parseTrickleIceFragment(fragment: string): { iceUfrag?: string; icePwd?: string } {
+  const sdp = parse(fragment);
+  const section = sdp.media?.[0];
+  return { iceUfrag: section?.iceUfrag ?? sdp.iceUfrag, icePwd: section?.icePwd ?? sdp.icePwd };
+}
+
+// Answer to an ICE restart: the new server credentials and candidates for the bundled transport
+export function buildIceRestartFragment(offer: SdpOffer, iceParameters: mediasoupTypes.IceParameters, iceCandidates: mediasoupTypes.IceCandidate[]): string {
+  const bundled = offer.media[0];
+  const offered = offer.sdp.media.find(section => getSectionMid(section) === bundled.mid)!;
+  const candidateLines = toSdpCandidates(iceCandidates).map(candidate =>
+    `a=candidate:${candidate.foundation} ${candidate.component} ${candidate.transport} ${candidate.priority} ${candidate.ip} ${candidate.port} typ ${candidate.type}`
+    + (candidate.tcptype ? ` tcptype ${candidate.tcptype}` : ''));
+  return [
+    'a=ice-lite',
+    `a=ice-ufrag:${iceParameters.usernameFragment}`,
+    `a=ice-pwd:${iceParameters.password}`,
+    `a=group:BUNDLE ${offer.media.map(section => section.mid).join(' ')}`,
+    `m=${bundled.kind} 9 ${offered.protocol} ${bundled.rtpParameters.codecs.map(codec => codec.payloadType).join(' ')}`,
+    `a=mid:${bundled.mid}`,
+    ...candidateLines,
+    'a=end-of-candidates',
+    ''
+  ].join('\r\n');
+}
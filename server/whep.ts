@@ -0,0 +1,75 @@
+import { MediaDescription } from 'sdp-transform';
+import { types as mediasoupTypes } from 'mediasoup';
+import { SdpOffer, isMediaKind, isSameCodec, getSectionMid, getCodecParameters, getCodecFeedback, parseSdpOffer } from './webrtcSdp';
+
+// WHEP playback. A player POSTs a receive-only SDP offer for one broadcaster and gets an answer for a
+// mediasoup WebRtcTransport that consumes the broadcaster's producers: WebRTC latency without joining
+// the room over Socket.IO.
+
+// An m-section the player wants to receive, with what it can decode
+export interface WhepRequestedTrack {
+  mid: string;
+  kind: mediasoupTypes.MediaKind;
+  rtpCapabilities: mediasoupTypes.RtpCapabilities;
+}
+
+export interface WhepOffer {
+  offer: SdpOffer;
+  tracks: WhepRequestedTrack[];
+}
+
+// The player's receive capabilities as mediasoup expects them for consume()
+function getOfferedRtpCapabilities(section: MediaDescription, kind: mediasoupTypes.MediaKind): mediasoupTypes.RtpCapabilities {
+  return {
+    codecs: section.rtp.map(rtp => ({
+      kind,
+      mimeType: `${kind}/${rtp.codec}`,
+      preferredPayloadType: rtp.payload,
+      clockRate: rtp.rate ?? 90000,
+      ...(kind === 'audio' ? { channels: rtp.encoding ?? 1 } : {}),
+      parameters: getCodecParameters(section, rtp.payload),
+      rtcpFeedback: getCodecFeedback(section, rtp.payload)
+    })),
+    headerExtensions: (section.ext ?? []).map(ext => ({
+      kind,
+      uri: ext.uri as mediasoupTypes.RtpHeaderExtensionUri,
+      preferredId: ext.value
+    }))
+  };
+}
+
+// The first audio and the first video m-section the player receives on; the caller accepts the ones
+// the broadcaster has a track for. Returns an error message for offers that cannot be answered.
+export function parseWhepOffer(offerSdp: string): WhepOffer | string {
+  const offer = parseSdpOffer(offerSdp);
+  if (typeof offer === 'string') return offer;
+
+  const tracks: WhepRequestedTrack[] = [];
+  for (const section of offer.sdp.media) {
+    const mid = getSectionMid(section);
+    if (!isMediaKind(section.type) || section.port === 0 || mid === undefined) continue;
+    if (section.direction !== undefined && section.direction !== 'recvonly' && section.direction !== 'sendrecv') continue;
+    if (tracks.some(track => track.kind === section.type)) continue;
+    tracks.push({ mid, kind: section.type, rtpCapabilities: getOfferedRtpCapabilities(section, section.type) });
+  }
+  if (tracks.length === 0) return 'The offer does not receive audio or video';
+  return { offer, tracks };
+}
+
+// Router codec for one track of a WHEP session: the broadcaster's codec under the payload type the player
+// offered for it. Consumers send with their router's payload types and the answer has to keep the offer's,
+// so every session gets a router of its own. Null when the player cannot decode the codec.
+export function getWhepRouterCodec(
+  track: WhepRequestedTrack, producerCodec: mediasoupTypes.RtpCodecParameters
+): mediasoupTypes.RtpCodecCapability | null {
+  const offered = (track.rtpCapabilities.codecs ?? []).find(codec => isSameCodec(codec, producerCodec));
+  if (!offered) return null;
+  return {
+    kind: track.kind,
+    mimeType: producerCodec.mimeType,
+    preferredPayloadType: offered.preferredPayloadType,
+    clockRate: producerCodec.clockRate,
+    ...(producerCodec.channels ? { channels: producerCodec.channels } : {}),
+    parameters: producerCodec.parameters
+  };
+}
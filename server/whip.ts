@@ -0,0 +1,95 @@
+import { MediaDescription } from 'sdp-transform';
+import { types as mediasoupTypes } from 'mediasoup';
+import {
+  SdpMediaSection, SdpOffer, isMediaKind, isSameCodec, getSectionMid, getCodecParameters, getCodecFeedback, parseSdpOffer
+} from './webrtcSdp';
+
+// WHIP ingest (RFC 9725). An encoder POSTs an SDP offer and gets an answer for a mediasoup
+// WebRtcTransport; every accepted m-section becomes a producer on that transport.
+
+// First offered codec the router can take, plus its RTX codec when both sides use one
+function selectCodecs(
+  section: MediaDescription, kind: mediasoupTypes.MediaKind, capabilities: mediasoupTypes.RtpCapabilities
+): mediasoupTypes.RtpCodecParameters[] | null {
+  const offeredCodecs: mediasoupTypes.RtpCodecParameters[] = section.rtp.map(rtp => ({
+    mimeType: `${kind}/${rtp.codec}`,
+    payloadType: rtp.payload,
+    clockRate: rtp.rate ?? 90000,
+    ...(kind === 'audio' ? { channels: rtp.encoding ?? 1 } : {}),
+    parameters: getCodecParameters(section, rtp.payload)
+  }));
+
+  for (const codec of offeredCodecs) {
+    const routerCodec = (capabilities.codecs ?? []).find(candidate => candidate.kind === kind && isSameCodec(codec, candidate));
+    if (!routerCodec || codec.mimeType.toLowerCase().endsWith('/rtx')) continue;
+
+    const offeredFeedback = getCodecFeedback(section, codec.payloadType);
+    codec.rtcpFeedback = (routerCodec.rtcpFeedback ?? []).filter(supported => offeredFeedback.some(offered =>
+      offered.type === supported.type && offered.parameter === (supported.parameter ?? '')));
+
+    const codecs = [codec];
+    const routerHasRtx = (capabilities.codecs ?? []).some(candidate =>
+      candidate.mimeType.toLowerCase() === `${kind}/rtx` && candidate.parameters?.apt === routerCodec.preferredPayloadType);
+    const rtx = offeredCodecs.find(candidate =>
+      candidate.mimeType.toLowerCase() === `${kind}/rtx` && Number(candidate.parameters?.apt) === codec.payloadType);
+    if (routerHasRtx && rtx) codecs.push({ ...rtx, parameters: { apt: codec.payloadType } });
+    return codecs;
+  }
+  return null;
+}
+
+function getEncodings(section: MediaDescription, rids: string[]): mediasoupTypes.RtpEncodingParameters[] {
+  if (rids.length > 0) return rids.map(rid => ({ rid }));
+  const fidGroup = section.ssrcGroups?.find(group => group.semantics === 'FID');
+  if (fidGroup) {
+    const [ssrc, rtxSsrc] = fidGroup.ssrcs.split(' ').map(Number);
+    return [{ ssrc, ...(rtxSsrc ? { rtx: { ssrc: rtxSsrc } } : {}) }];
+  }
+  const ssrc = section.ssrcs?.[0]?.id;
+  // Without SSRCs or RIDs mediasoup routes the stream by its MID header extension
+  return [ssrc !== undefined ? { ssrc: Number(ssrc) } : {}];
+}
+
+function toProducerSection(
+  section: MediaDescription, kind: mediasoupTypes.MediaKind, capabilities: mediasoupTypes.RtpCapabilities
+): SdpMediaSection | null {
+  const codecs = selectCodecs(section, kind, capabilities);
+  const mid = getSectionMid(section);
+  if (!codecs || mid === undefined) return null;
+
+  const headerExtensions = (section.ext ?? [])
+    .filter(ext => (capabilities.headerExtensions ?? []).some(supported => supported.kind === kind && supported.uri === ext.uri))
+    .map(ext => ({ uri: ext.uri as mediasoupTypes.RtpHeaderExtensionUri, id: ext.value }));
+  const rids = (section.rids ?? []).filter(rid => rid.direction === 'send').map(rid => String(rid.id));
+  const cname = section.ssrcs?.find(ssrc => ssrc.attribute === 'cname')?.value;
+
+  return {
+    mid,
+    kind,
+    rids,
+    rtpParameters: {
+      mid,
+      codecs,
+      headerExtensions,
+      encodings: getEncodings(section, rids),
+      rtcp: { cname, reducedSize: section.rtcpRsize === 'rtcp-rsize' }
+    }
+  };
+}
+
+// Accepts the first audio and the first video m-section the router can receive; the HLS composition
+// holds one of each per broadcaster. Returns an error message for offers that cannot be answered.
+export function parseWhipOffer(offerSdp: string, capabilities: mediasoupTypes.RtpCapabilities): SdpOffer | string {
+  const offer = parseSdpOffer(offerSdp);
+  if (typeof offer === 'string') return offer;
+
+  for (const section of offer.sdp.media) {
+    if (!isMediaKind(section.type) || section.port === 0) continue;
+    if (section.direction !== undefined && section.direction !== 'sendonly' && section.direction !== 'sendrecv') continue;
+    if (offer.media.some(accepted => accepted.kind === section.type)) continue;
+    const accepted = toProducerSection(section, section.type, capabilities);
+    if (accepted) offer.media.push(accepted);
+  }
+  if (offer.media.length === 0) return 'The offer has no audio or video in a codec the server accepts';
+  return offer;
+}
@@ -0,0 +1,120 @@
+import * as mediasoup from 'mediasoup';
+import { types as mediasoupTypes } from 'mediasoup';
+
+// Load of a worker = routers it hosts + transports open on those routers
+interface PooledWorker {
+  worker: mediasoupTypes.Worker;
+  routers: Set<mediasoupTypes.Router>;
+  transportCount: number;
+}
+
+type WorkerDiedListener = (deadWorker: mediasoupTypes.Worker) => void;
+
+const pool: PooledWorker[] = [];
+const routerWorkers = new WeakMap<mediasoupTypes.Router, PooledWorker>();
+const routerTransportCounts = new WeakMap<mediasoupTypes.Router, number>();
+const workerDiedListeners: WorkerDiedListener[] = [];
+
+function trackWorker(worker: mediasoupTypes.Worker): PooledWorker {
+  const pooled: PooledWorker = { worker, routers: new Set(), transportCount: 0 };
+
+  worker.observer.on('newrouter', (router) => {
+    pooled.routers.add(router);
+    routerWorkers.set(router, pooled);
+    routerTransportCounts.set(router, 0);
+
+    router.observer.on('newtransport', (transport) => {
+      pooled.transportCount++;
+      routerTransportCounts.set(router, (routerTransportCounts.get(router) || 0) + 1);
+      transport.observer.once('close', () => {
+        pooled.transportCount--;
+        routerTransportCounts.set(router, Math.max(0, (routerTransportCounts.get(router) || 0) - 1));
+      });
+    });
+
+    router.observer.once('close', () => {
+      pooled.routers.delete(router);
+    });
+  });
+
+  return pooled;
+}
+
+async function spawnWorker(): Promise<PooledWorker> {
+  const worker = await mediasoup.createWorker({
+    logLevel: 'warn',
+  });
+  const pooled = trackWorker(worker);
+
+  worker.on('died', (error) => {
+    console.error(`Mediasoup worker ${worker.pid} has died:`, error);
+    const index = pool.indexOf(pooled);
+    if (index !== -1) pool.splice(index, 1);
+
+    // Replace the worker first so recovering rooms have somewhere to go
+    spawnWorker()
+      .then(replacement => {
+        pool.push(replacement);
+        console.log(`Mediasoup worker ${replacement.worker.pid} spawned to replace ${worker.pid}`);
+      })
+      .catch(spawnError => console.error('Failed to spawn replacement mediasoup worker:', spawnError))
+      .finally(() => {
+        workerDiedListeners.forEach(listener => {
+          try {
+            listener(worker);
+          } catch (listenerError) {
+            console.error('Error in worker died listener:', listenerError);
+          }
+        });
+      });
+  });
+
+  console.log(`Mediasoup worker ${worker.pid} created`);
+  return pooled;
+}
+
+export async function createWorkerPool(numWorkers: number) {
+  console.log(`Starting Mediasoup with ${numWorkers} worker(s)...`);
+  for (let i = 0; i < numWorkers; i++) {
+    pool.push(await spawnWorker());
+  }
+}
+
+export function onWorkerDied(listener: WorkerDiedListener) {
+  workerDiedListeners.push(listener);
+}
+
+function getLoad(pooled: PooledWorker): number {
+  return pooled.routers.size + pooled.transportCount;
+}
+
+// Pick the worker hosting the fewest routers and transports, optionally avoiding some
+export function getLeastLoadedWorker(exclude: mediasoupTypes.Worker[] = []): mediasoupTypes.Worker {
+  const alive = pool.filter(pooled => !pooled.worker.closed);
+  if (alive.length === 0) {
+    throw new Error('No mediasoup workers available');
+  }
+  const candidates = alive.filter(pooled => !exclude.includes(pooled.worker));
+  const [leastLoaded] = (candidates.length > 0 ? candidates : alive)
+    .slice()
+    .sort((a, b) => getLoad(a) - getLoad(b));
+  return leastLoaded.worker;
+}
+
+export function getRouterWorker(router: mediasoupTypes.Router): mediasoupTypes.Worker | undefined {
+  return routerWorkers.get(router)?.worker;
+}
+
+export function getRouterTransportCount(router: mediasoupTypes.Router): number {
+  return routerTransportCounts.get(router) || 0;
+}
+
+export function getWorkerPoolStats() {
+  return pool.map(pooled => ({
+    pid: pooled.worker.pid,
+    closed: pooled.worker.closed,
+    routers: pooled.routers.size,
+    transports: pooled.transportCount,
+    load: getLoad(pooled)
+  }));
+}
@@ -95,6 +95,9 @@ export default function Home() {
 
         {/* Technical Info */}
         <div className="mt-8 text-center">
+          <p className="text-sm text-gray-600 mb-2">
+            Missed a broadcast? Recorded streams are on the <Link href="/recordings" className="text-blue-600 hover:underline">recordings page</Link>.
+          </p>
           <p className="text-sm text-gray-500">
             Built with Next.js, Mediasoup, Socket.IO, and FFmpeg for professional-grade streaming
           </p>
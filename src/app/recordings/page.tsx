@@ -0,0 +1,209 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Hls from 'hls.js';
+
+const SERVER_URL = 'http://localhost:3001';
+const RECORDING_LIST_POLL_MS = 5000;
+
+// Entry of GET /api/recordings
+interface RecordingEntry {
+  id: string;
+  roomId: string;
+  streamId: string;
+  format: 'mp4' | 'hls';
+  status: 'recording' | 'complete' | 'failed';
+  startedAt: number;
+  endedAt: number | null;
+  hasVideo: boolean;
+  hasAudio: boolean;
+  rendition: string;
+  durationSeconds: number | null;
+  sizeBytes: number;
+  playbackUrl: string;
+  downloadUrl: string;
+}
+
+function formatDuration(seconds: number | null): string {
+  if (seconds === null) return '—';
+  const total = Math.round(seconds);
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${String(total % 60).padStart(2, '0')}`;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function RecordingsPage() {
+  const [recordings, setRecordings] = useState<RecordingEntry[]>([]);
+  const [selectedRecordingId, setSelectedRecordingId] = useState<string | null>(null);
+  const [listError, setListError] = useState<string | null>(null);
+  const selectedRecording = recordings.find(recording => recording.id === selectedRecordingId);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const hlsRef = useRef<Hls | null>(null);
+
+  const fetchRecordings = useCallback(async () => {
+    try {
+      const response = await fetch(`${SERVER_URL}/api/recordings`);
+      const data: { success: boolean; recordings?: RecordingEntry[]; error?: string } = await response.json();
+      if (!data.success || !data.recordings) {
+        setListError(data.error ?? 'Could not load recordings');
+        return;
+      }
+      setRecordings(data.recordings);
+      setListError(null);
+    } catch (error) {
+      console.error('Error fetching recordings:', error);
+      setListError('Could not reach the server');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRecordings();
+    const interval = setInterval(fetchRecordings, RECORDING_LIST_POLL_MS);
+    return () => clearInterval(interval);
+  }, [fetchRecordings]);
+
+  // MP4 plays natively; HLS recordings go through hls.js where the browser lacks native HLS
+  const playbackUrl = selectedRecording?.status === 'complete' ? `${SERVER_URL}${selectedRecording.playbackUrl}` : null;
+  const playbackFormat = selectedRecording?.format;
+  useEffect(() => {
+    const videoElement = videoRef.current;
+    if (!videoElement || !playbackUrl) return;
+
+    if (playbackFormat === 'hls' && Hls.isSupported()) {
+      const hls = new Hls();
+      hlsRef.current = hls;
+      hls.loadSource(playbackUrl);
+      hls.attachMedia(videoElement);
+      hls.on(Hls.Events.ERROR, (event, data) => {
+        if (data.fatal) console.error('HLS.js error while playing recording:', data);
+      });
+    } else {
+      videoElement.src = playbackUrl;
+    }
+
+    return () => {
+      if (hlsRef.current) {
+        hlsRef.current.destroy();
+        hlsRef.current = null;
+      }
+      videoElement.removeAttribute('src');
+      videoElement.load();
+    };
+  }, [playbackUrl, playbackFormat]);
+
+  const deleteRecording = async (recording: RecordingEntry) => {
+    if (!window.confirm(`Delete the recording of room ${recording.roomId} from ${new Date(recording.startedAt).toLocaleString()}?`)) return;
+    try {
+      const response = await fetch(`${SERVER_URL}/api/recordings/${recording.id}`, { method: 'DELETE' });
+      const data: { success: boolean; error?: string } = await response.json();
+      if (!data.success) {
+        window.alert(data.error ?? 'Could not delete the recording');
+        return;
+      }
+      if (selectedRecordingId === recording.id) setSelectedRecordingId(null);
+      fetchRecordings();
+    } catch (error) {
+      console.error('Error deleting recording:', error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-slate-100 p-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            🎞️ Recordings
+          </h1>
+          <p className="text-gray-600">
+            Broadcasts recorded on the server. Turn on &quot;Record&quot; on the stream page before going live to add one.
+          </p>
+        </div>
+
+        {selectedRecording && (
+          <div className="bg-white rounded-xl shadow-lg overflow-hidden mb-6">
+            <div className="relative bg-black aspect-video">
+              <video ref={videoRef} className="w-full h-full" controls playsInline />
+            </div>
+            <div className="p-4 bg-gray-50 text-sm text-gray-700">
+              Room <strong>{selectedRecording.roomId}</strong> · {new Date(selectedRecording.startedAt).toLocaleString()}
+              {selectedRecording.status !== 'complete' && (
+                <span className="ml-2 text-yellow-700">({selectedRecording.status}; not playable yet)</span>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl shadow-lg p-6">
+          {listError && <p className="text-sm text-red-600 mb-4">{listError}</p>}
+          {recordings.length === 0 ? (
+            <p className="text-sm text-gray-600">No recordings yet.</p>
+          ) : (
+            <table className="w-full text-sm text-left">
+              <thead className="text-gray-500">
+                <tr>
+                  <th className="py-2">Room</th>
+                  <th className="py-2">Started</th>
+                  <th className="py-2">Length</th>
+                  <th className="py-2">Format</th>
+                  <th className="py-2">Size</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {recordings.map(recording => (
+                  <tr
+                    key={recording.id}
+                    className={`border-t border-gray-100 ${recording.id === selectedRecordingId ? 'bg-purple-50' : ''}`}
+                  >
+                    <td className="py-2">{recording.roomId}</td>
+                    <td className="py-2">{new Date(recording.startedAt).toLocaleString()}</td>
+                    <td className="py-2">{formatDuration(recording.durationSeconds)}</td>
+                    <td className="py-2">
+                      {recording.format.toUpperCase()} · {recording.hasVideo ? recording.rendition : 'audio only'}
+                    </td>
+                    <td className="py-2">{formatSize(recording.sizeBytes)}</td>
+                    <td className="py-2">
+                      <span className={
+                        recording.status === 'complete' ? 'text-green-700'
+                          : recording.status === 'recording' ? 'text-red-600'
+                          : 'text-gray-500'
+                      }>
+                        {recording.status === 'recording' ? '● recording' : recording.status}
+                      </span>
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => setSelectedRecordingId(recording.id)}
+                        disabled={recording.status !== 'complete'}
+                        className="px-2 py-1 text-purple-700 hover:underline disabled:text-gray-400 disabled:no-underline"
+                      >
+                        Play
+                      </button>
+                      {recording.status === 'complete' && (
+                        <a href={`${SERVER_URL}${recording.downloadUrl}`} className="px-2 py-1 text-blue-600 hover:underline">
+                          Download
+                        </a>
+                      )}
+                      <button
+                        onClick={() => deleteRecording(recording)}
+                        disabled={recording.status === 'recording'}
+                        className="px-2 py-1 text-red-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
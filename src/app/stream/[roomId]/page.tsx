@@ -0,0 +1,1265 @@
+'use client';
+
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import io, { Socket } from 'socket.io-client';
+import * as mediasoupClient from 'mediasoup-client';
+import {
+  ClientToServerEvents, ServerToClientEvents, NewProducerEvent, PushTargetInfo, SIGNALING_PROTOCOL_VERSION, isSignalingError
+} from '@/lib/signaling';
+
+const SERVER_URL = 'http://localhost:3001'; // Make sure this matches your server port
+
+type SignalingSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// Entry of POST /api/rooms/<roomId>/ingest-keys
+interface RtmpIngestKey {
+  key: string;
+  roomId: string;
+  rtmpUrl: string;
+}
+
+type HlsMode = 'classic' | 'll-hls';
+type HlsSegmentFormat = 'mpegts' | 'cmaf';
+type RecordingFormat = 'mp4' | 'hls';
+// H.264 and VP8 publish three simulcast encodings, VP9 one encoding with three SVC spatial layers
+type VideoCodecChoice = 'h264' | 'vp8' | 'vp9';
+
+// Simulcast layers, lowest first; viewers get the ones their bandwidth allows
+const SIMULCAST_ENCODINGS: mediasoupClient.types.RtpEncodingParameters[] = [
+  { scaleResolutionDownBy: 4, maxBitrate: 150000 },
+  { scaleResolutionDownBy: 2, maxBitrate: 500000 },
+  { scaleResolutionDownBy: 1, maxBitrate: 1200000 }
+];
+const SVC_ENCODINGS: mediasoupClient.types.RtpEncodingParameters[] = [
+  { maxBitrate: 1200000, scalabilityMode: 'L3T3_KEY' }
+];
+
+// Capture presets of the device panel; the browser picks the closest its camera supports
+const VIDEO_RESOLUTIONS = {
+  '360p': { width: 640, height: 360 },
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 }
+} as const;
+type VideoResolution = keyof typeof VIDEO_RESOLUTIONS;
+const FRAME_RATES = [15, 24, 30, 60];
+
+// Devices and capture format picked in the device panel; an empty device id is the browser's default
+interface DeviceSettings {
+  cameraId: string;
+  micId: string;
+  speakerId: string;
+  resolution: VideoResolution;
+  frameRate: number;
+}
+
+function getCaptureConstraints(settings: DeviceSettings, kind: mediasoupClient.types.MediaKind): MediaTrackConstraints {
+  if (kind === 'audio') return settings.micId ? { deviceId: { exact: settings.micId } } : {};
+  const { width, height } = VIDEO_RESOLUTIONS[settings.resolution];
+  return {
+    ...(settings.cameraId ? { deviceId: { exact: settings.cameraId } } : {}),
+    width: { ideal: width },
+    height: { ideal: height },
+    frameRate: { ideal: settings.frameRate }
+  };
+}
+
+// Spatial layers a viewer can pin on a simulcast/SVC remote video; 'auto' follows the bandwidth estimate
+type LayerChoice = 'auto' | 0 | 1 | 2;
+const LAYER_LABELS = ['Low', 'Medium', 'High'];
+
+interface ExtendedAppData extends mediasoupClient.types.AppData {
+    remoteSocketId?: string;
+    transportId?: string;
+    mediaType?: 'audio' | 'video';
+    // Screen share producers; the server composes them as the main HLS picture with the camera inset
+    source?: 'screen';
+    // Packaging of this broadcaster's HLS output; read by the server from the first producer
+    hlsMode?: HlsMode;
+    // Classic HLS only; 'cmaf' also publishes an MPEG-DASH manifest
+    segmentFormat?: HlsSegmentFormat;
+    // Seconds of the HLS output viewers can seek back in; 0 keeps the plain live window
+    dvrWindowSeconds?: number;
+    // Opt-in server-side recording to the VOD archive; omitted when not recording
+    recording?: RecordingFormat;
+}
+
+interface RemoteStream {
+  id: string; // consumerId or a unique ID for the stream
+  stream: MediaStream;
+  consumer: mediasoupClient.types.Consumer;
+  socketId: string; // socketId of the producer
+  producerId: string;
+}
+
+export default function StreamPage() {
+  const { roomId } = useParams<{ roomId: string }>();
+
+  // 1. useState hooks
+  const [socket, setSocket] = useState<SignalingSocket | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [mediasoupDevice, setMediasoupDevice] = useState<mediasoupClient.Device | null>(null);
+  const [sendTransport, setSendTransport] = useState<mediasoupClient.types.Transport | null>(null);
+  const [recvTransport, setRecvTransport] = useState<mediasoupClient.types.Transport | null>(null);
+  const [videoProducer, setVideoProducer] = useState<mediasoupClient.types.Producer | null>(null);
+  const [audioProducer, setAudioProducer] = useState<mediasoupClient.types.Producer | null>(null);
+  const [remoteStreams, setRemoteStreams] = useState<Map<string, RemoteStream>>(new Map());
+  const [isCreatingSendTransport, setIsCreatingSendTransport] = useState(false);
+  const [isProducingVideo, setIsProducingVideo] = useState(false);
+  const [isProducingAudio, setIsProducingAudio] = useState(false);
+  const [isCreatingRecvTransport, setIsCreatingRecvTransport] = useState(false);
+  const [hlsMode, setHlsMode] = useState<HlsMode>('classic');
+  const [segmentFormat, setSegmentFormat] = useState<HlsSegmentFormat>('mpegts');
+  const [recordingFormat, setRecordingFormat] = useState<RecordingFormat | ''>('');
+  const [videoCodec, setVideoCodec] = useState<VideoCodecChoice>('h264');
+  // Per remote video consumer: the viewer's pick and the spatial layer the server currently forwards
+  const [layerChoices, setLayerChoices] = useState<Map<string, LayerChoice>>(new Map());
+  const [currentLayers, setCurrentLayers] = useState<Map<string, number | null>>(new Map());
+  const [isCameraOff, setIsCameraOff] = useState(false);
+  const [isMicMuted, setIsMicMuted] = useState(false);
+  // Remote producers whose broadcaster turned the camera off or muted the microphone
+  const [pausedProducerIds, setPausedProducerIds] = useState<Set<string>>(new Set());
+  // Publisher the server last named dominant speaker, and the publishers audible in its latest audio levels
+  const [activeSpeakerId, setActiveSpeakerId] = useState<string | null>(null);
+  const [audibleSocketIds, setAudibleSocketIds] = useState<Set<string>>(new Set());
+  const [dvrWindowSeconds, setDvrWindowSeconds] = useState(0);
+  const [ingestKey, setIngestKey] = useState<RtmpIngestKey | null>(null);
+  const [ingestKeyError, setIngestKeyError] = useState<string | null>(null);
+  const [pushTargets, setPushTargets] = useState<PushTargetInfo[]>([]);
+  const [pushTargetUrl, setPushTargetUrl] = useState('');
+  const [pushTargetName, setPushTargetName] = useState('');
+  const [pushTargetError, setPushTargetError] = useState<string | null>(null);
+  // Set when the server speaks another signaling protocol version and refused the connection
+  const [signalingProtocolError, setSignalingProtocolError] = useState<string | null>(null);
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
+  const [mediaDevices, setMediaDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceSettings, setDeviceSettings] = useState<DeviceSettings>({ cameraId: '', micId: '', speakerId: '', resolution: '720p', frameRate: 30 });
+  const [deviceNotice, setDeviceNotice] = useState<string | null>(null);
+  // Camera and microphone shown before going live; it becomes the broadcast's localStream
+  const [previewStream, setPreviewStream] = useState<MediaStream | null>(null);
+
+  // 2. useRef for DOM elements
+  const localVideoRef = useRef<HTMLVideoElement>(null);
+  const remoteVideosRef = useRef<HTMLDivElement>(null);
+  const recvTransportPromiseRef = useRef<Promise<mediasoupClient.types.Transport | null> | null>(null);
+  const screenVideoRef = useRef<HTMLVideoElement>(null);
+  // Producers of the running screen share; read by track and transport events long after the share started
+  const screenProducersRef = useRef<mediasoupClient.types.Producer[]>([]);
+  const screenStreamRef = useRef<MediaStream | null>(null);
+  // Set once the device helpers exist; producers created earlier call it when their device is unplugged
+  const recoverEndedTrackRef = useRef<(producer: mediasoupClient.types.Producer) => void>(() => {});
+
+  // 3. useCallback for helper functions (order can matter if they depend on each other)
+  const addRemoteVideo = useCallback((stream: MediaStream, consumerId: string) => {
+    if (!remoteVideosRef.current) return;
+    const existingVideo = document.getElementById(`remote-video-${consumerId}`);
+    if (existingVideo) return;
+
+    console.log(`Adding remote video for consumer ${consumerId}. Stream:`, stream);
+    if (stream) {
+        console.log('Stream tracks:', stream.getTracks());
+        stream.getTracks().forEach(track => {
+            console.log(`Track ID: ${track.id}, Kind: ${track.kind}, ReadyState: ${track.readyState}, Enabled: ${track.enabled}, Muted: ${track.muted}`);
+        });
+    }
+
+    const video = document.createElement('video');
+    video.id = `remote-video-${consumerId}`;
+    video.srcObject = stream;
+    video.autoplay = true; video.playsInline = true;
+    video.muted = true;
+    if (deviceSettingsRef.current.speakerId) {
+      video.setSinkId(deviceSettingsRef.current.speakerId).catch(error => console.warn('Could not set the speaker of a remote video:', error));
+    }
+    video.style.width = '320px'; video.style.border = '1px solid green'; video.style.margin = '5px';
+    remoteVideosRef.current.appendChild(video);
+  }, []);
+
+  const removeRemoteVideo = useCallback((consumerId: string) => {
+    const videoElement = document.getElementById(`remote-video-${consumerId}`);
+    if (videoElement) videoElement.remove();
+  }, []);
+
+  const refreshMediaDevices = useCallback(async () => {
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      setMediaDevices(devices);
+      // A picked device that is gone falls back to the browser's default
+      const isListed = (kind: MediaDeviceKind, deviceId: string) => !deviceId || devices.some(device => device.kind === kind && device.deviceId === deviceId);
+      setDeviceSettings(prev => ({
+        ...prev,
+        cameraId: isListed('videoinput', prev.cameraId) ? prev.cameraId : '',
+        micId: isListed('audioinput', prev.micId) ? prev.micId : '',
+        speakerId: isListed('audiooutput', prev.speakerId) ? prev.speakerId : ''
+      }));
+    } catch (error) {
+      console.error('Error listing media devices:', error);
+    }
+  }, []);
+
+  const loadDevice = useCallback(async () => {
+    if (!socket || !socket.connected) { console.warn('loadDevice: Socket not available or not connected.'); return; }
+    try {
+      console.log(`Joining room ${roomId}...`);
+      socket.emit('joinRoom', { roomId }, (joinResponse) => {
+        if ('error' in joinResponse) {
+          console.error(`Error joining room ${roomId}:`, joinResponse.error);
+          return;
+        }
+        console.log(`Joined room ${joinResponse.roomId}. Requesting Router RTP Capabilities...`);
+        socket.emit('getRouterRtpCapabilities', {}, async (response) => {
+          if ('error' in response) {
+            console.error('Error getting router RTP capabilities:', response.error);
+            return;
+          }
+          console.log('Received Router RTP Capabilities:', response.rtpCapabilities);
+          const device = new mediasoupClient.Device();
+          try {
+            await device.load({ routerRtpCapabilities: response.rtpCapabilities });
+            console.log('Mediasoup device loaded successfully.');
+            
+            // Log available codecs
+            const videoCodecs = device.rtpCapabilities.codecs?.filter(codec => codec.kind === 'video');
+            console.log('Available video codecs:', videoCodecs?.map(c => c.mimeType));
+            const audioCodecs = device.rtpCapabilities.codecs?.filter(codec => codec.kind === 'audio');
+            console.log('Available audio codecs:', audioCodecs?.map(c => c.mimeType));
+            
+            setMediasoupDevice(device);
+            
+            // After device is loaded, tell server we're ready for existing producers
+            if (socket && socket.connected) {
+              console.log('Notifying server that client is ready for existing producers...');
+              socket.emit('clientReadyForExistingProducers', {});
+            }
+          } catch (loadError) {
+            console.error('Error loading Mediasoup device with RTP capabilities:', loadError);
+          }
+        });
+      });
+    } catch (error) {
+      console.error('Error in loadDevice function (emit failed or other sync error):', error);
+    }
+  }, [socket, roomId]);
+
+  const createSendTransportAndProduce = useCallback(async (stream: MediaStream, device: mediasoupClient.Device, currentProducingSocket: SignalingSocket) => {
+    if (!device.loaded) {
+        console.error('Mediasoup device not loaded for sending.');
+        return;
+    }
+    if (!currentProducingSocket || !currentProducingSocket.connected) {
+        console.error('createSendTransportAndProduce: Socket not connected or invalid.');
+        return;
+    }
+
+    if (sendTransportRef.current || isCreatingSendTransport) {
+        console.warn('createSendTransportAndProduce: Send transport already exists or is being created.');
+        return;
+    }
+    setIsCreatingSendTransport(true);
+
+    currentProducingSocket.emit('createWebRtcTransport', { producing: true, consuming: false }, async (params) => {
+        if ('error' in params) {
+            console.error('Error creating send transport:', params.error);
+            setIsCreatingSendTransport(false);
+            return;
+        }
+        const transport = device.createSendTransport(params);
+        setSendTransport(transport);
+        setIsCreatingSendTransport(false);
+
+        transport.on('connect', ({ dtlsParameters }, callback, errback) => {
+            console.log('Send transport connecting...');
+            currentProducingSocket.emit('connectTransport', { transportId: transport.id, dtlsParameters }, (response) => {
+                if ('error' in response) {
+                    console.error('Error connecting send transport:', response.error);
+                    errback(new Error('Failed to connect transport: ' + response.error));
+                    return;
+                }
+                console.log('Send transport connected successfully');
+                callback();
+            });
+        });
+
+        transport.on('produce', ({ kind, rtpParameters, appData }, callback, errback) => {
+            console.log(`Send transport producing ${kind}...`);
+            try {
+                currentProducingSocket.emit('produce', { transportId: transport.id, kind, rtpParameters, appData }, (response) => {
+                    if ('error' in response) {
+                      console.error(`Error producing ${kind}:`, response.error);
+                      errback(new Error(`Failed to produce ${kind}: ${response.error}`));
+                      return;
+                    }
+                    console.log(`${kind} produced successfully with server ID:`, response.id);
+                    callback({ id: response.id });
+                });
+            } catch (error) {
+                console.error(`Error during ${kind} production (emit failed):`, error);
+                errback(error as Error);
+            }
+        });
+
+        transport.on('connectionstatechange', (state) => {
+            console.log(`Send transport connection state: ${state}`);
+            if (state === 'failed' || state === 'closed' || state === 'disconnected') {
+                console.warn(`Send transport state is ${state}, closing and cleaning up.`);
+                transport.close();
+                setSendTransport(null);
+                if (videoProducerRef.current && !videoProducerRef.current.closed) videoProducerRef.current.close();
+                if (audioProducerRef.current && !audioProducerRef.current.closed) audioProducerRef.current.close();
+                setVideoProducer(null);
+                setAudioProducer(null);
+            }
+        });
+
+        try {
+            const videoTrack = stream.getVideoTracks()[0];
+            if (videoTrack) {
+                if (videoProducerRef.current || isProducingVideo) {
+                    console.log('Video producer already exists or is being created.');
+                } else {
+                    setIsProducingVideo(true);
+                    
+                    // Use the picked codec when the browser has it, otherwise the browser's default
+                    const videoCodecs = device.rtpCapabilities.codecs?.filter(codec => codec.kind === 'video');
+                    const pickedCodec = videoCodecs?.find(codec => codec.mimeType.toLowerCase() === `video/${videoCodec}`);
+                    
+                    const produceParams: mediasoupClient.types.ProducerOptions<ExtendedAppData> = {
+                        track: videoTrack,
+                        appData: { mediaType: 'video', transportId: transport.id, hlsMode, segmentFormat, dvrWindowSeconds, recording: recordingFormat || undefined },
+                        codecOptions: { videoGoogleStartBitrate: 1000 },
+                        encodings: pickedCodec && videoCodec === 'vp9' ? SVC_ENCODINGS : SIMULCAST_ENCODINGS
+                    };
+                    
+                    if (pickedCodec) {
+                        produceParams.codec = pickedCodec;
+                        console.log(`Using ${pickedCodec.mimeType} for video production`);
+                    } else {
+                        console.log(`${videoCodec} not available, using default codec`);
+                    }
+                    
+                    const videoProd = await transport.produce(produceParams);
+                    setVideoProducer(videoProd);
+                    setIsProducingVideo(false);
+                    console.log('Video producer created:', videoProd);
+                    console.log('Video codec being used:', videoProd.rtpParameters.codecs[0]);
+                    videoProd.on('trackended', () => {
+                      console.log('Video track ended');
+                      recoverEndedTrackRef.current(videoProd);
+                    });
+                    videoProd.on('transportclose', () => {
+                      console.log('Video producer transport closed');
+                      setVideoProducer(null);
+                    });
+                }
+            }
+
+            const audioTrack = stream.getAudioTracks()[0];
+            if (audioTrack) {
+                if (audioProducerRef.current || isProducingAudio) {
+                    console.log('Audio producer already exists or is being created.');
+                } else {
+                    setIsProducingAudio(true);
+                    const audioProd = await transport.produce({ track: audioTrack, appData: { mediaType: 'audio', transportId: transport.id, hlsMode, segmentFormat, dvrWindowSeconds, recording: recordingFormat || undefined } as ExtendedAppData });
+                    setAudioProducer(audioProd);
+                    setIsProducingAudio(false);
+                    console.log('Audio producer created:', audioProd);
+                     audioProd.on('trackended', () => {
+                      console.log('Audio track ended');
+                      recoverEndedTrackRef.current(audioProd);
+                    });
+                    audioProd.on('transportclose', () => {
+                      console.log('Audio producer transport closed');
+                      setAudioProducer(null);
+                    });
+                }
+            }
+        } catch (produceError) {
+            console.error('Error during initial produce call:', produceError);
+            setIsCreatingSendTransport(false); // Ensure reset if outer scope had error
+            setIsProducingVideo(false);
+            setIsProducingAudio(false);
+            if (!transport.closed) transport.close(); // transport might be null if error was in createSendTransport itself
+            setSendTransport(null);
+        }
+    });
+  }, [isCreatingSendTransport, isProducingVideo, isProducingAudio, hlsMode, segmentFormat, dvrWindowSeconds, recordingFormat, videoCodec]); // Add new flags to dependencies
+
+  const ensureRecvTransport = useCallback(async (device: mediasoupClient.Device, currentConsumingSocket: SignalingSocket) => {
+    if (recvTransportRef.current && !recvTransportRef.current.closed) {
+      console.log('ensureRecvTransport: Using existing open transport.');
+      return recvTransportRef.current;
+    }
+
+    if (recvTransportPromiseRef.current) {
+      console.warn('ensureRecvTransport: Receive transport creation already in progress, returning existing promise.');
+      return recvTransportPromiseRef.current;
+    }
+
+    console.log('ensureRecvTransport: Creating new receive transport...');
+    setIsCreatingRecvTransport(true);
+
+    const promise = new Promise<mediasoupClient.types.Transport | null>((resolve, reject) => {
+        // The browser's downlink guess (Mbit/s) lets the server start simulcast videos at a layer that fits
+        const downlinkMbps = (navigator as Navigator & { connection?: { downlink?: number } }).connection?.downlink;
+        const estimatedBitrate = downlinkMbps ? downlinkMbps * 1000000 : undefined;
+        currentConsumingSocket.emit('createWebRtcTransport', { producing: false, consuming: true, estimatedBitrate }, (params) => {
+            if ('error' in params) {
+                console.error('Error creating recv transport:', params.error);
+                setRecvTransport(null);
+                recvTransportRef.current = null;
+                setIsCreatingRecvTransport(false);
+                recvTransportPromiseRef.current = null;
+                reject(new Error(params.error));
+                return;
+            }
+            const transport = device.createRecvTransport(params);
+            setRecvTransport(transport);
+            recvTransportRef.current = transport;
+            setIsCreatingRecvTransport(false);
+
+            transport.on('connect', ({ dtlsParameters }, callback, errback) => {
+                console.log('Recv transport connecting...');
+                currentConsumingSocket.emit('connectTransport', { transportId: transport.id, dtlsParameters }, (response) => {
+                    if ('error' in response) {
+                        console.error('Error connecting recv transport:', response.error);
+                        errback(new Error('Failed to connect recv transport: ' + response.error));
+                        return;
+                    }
+                    console.log('Recv transport connected.');
+                    callback();
+                });
+            });
+            transport.on('connectionstatechange', (state) => {
+                console.log(`Recv transport connection state: ${state}`);
+                if (state === 'failed' || state === 'closed' || state ==='disconnected') {
+                    console.warn('Recv transport failed/closed, cleaning up consumers for this transport');
+                    if (!transport.closed) transport.close();
+                    setRecvTransport(prev => (prev?.id === transport.id ? null : prev));
+                    
+                    setRemoteStreams(prevRemoteStreams => {
+                        const newMap = new Map(prevRemoteStreams);
+                        let changed = false;
+                        prevRemoteStreams.forEach(rs => {
+                            const consumerAppData = rs.consumer.appData as ExtendedAppData;
+                            if (consumerAppData?.transportId === transport.id) {
+                                if(!rs.consumer.closed) rs.consumer.close();
+                                removeRemoteVideo(rs.id);
+                                newMap.delete(rs.id);
+                                changed = true;
+                            }
+                        });
+                        return changed ? newMap : prevRemoteStreams;
+                    });
+                    setIsCreatingRecvTransport(false); 
+                    if (recvTransportPromiseRef.current === promise) {
+                        recvTransportPromiseRef.current = null;
+                    }
+                } else if (state === 'connected') {
+                    if (recvTransportPromiseRef.current === promise) {
+                        
+                    }
+                }
+            });
+            console.log('Receive transport created:', transport.id);
+            resolve(transport);
+        });
+    });
+    recvTransportPromiseRef.current = promise;
+
+    promise.finally(() => {
+        if (recvTransportPromiseRef.current === promise) {
+            recvTransportPromiseRef.current = null;
+        }
+        setIsCreatingRecvTransport(false);
+    });
+
+    return promise;
+
+  }, [removeRemoteVideo]);
+
+  const consumeRemoteProducer = useCallback(async (device: mediasoupClient.Device, currentSocket: SignalingSocket, producerToConsumeId: string, producerAppData?: mediasoupClient.types.AppData) => {
+    if (!device.rtpCapabilities) {
+        console.error('Device RTP capabilities not loaded for consumeRemoteProducer');
+        return;
+    }
+    const transport = await ensureRecvTransport(device, currentSocket);
+    if (!transport) {
+        console.error('Could not ensure receive transport for consumption');
+        return;
+    }
+
+    console.log(`Attempting to consume producer: ${producerToConsumeId} on transport ${transport.id} using socket ${currentSocket.id}`);
+    currentSocket.emit('consume', { producerId: producerToConsumeId, transportId: transport.id, rtpCapabilities: device.rtpCapabilities }, 
+      async (params) => {
+        if ('error' in params) {
+          console.error('Error consuming producer:', params.error);
+          return;
+        }
+        console.log('Consumer params received:', params);
+        try {
+            const consumerAppData: ExtendedAppData = {
+                 ...params.appData,
+                 remoteSocketId: typeof producerAppData?.socketId === 'string' ? producerAppData.socketId : 'unknown',
+                 transportId: transport.id 
+            };
+            const consumer = await transport.consume({
+                id: params.id,
+                producerId: params.producerId,
+                kind: params.kind,
+                rtpParameters: params.rtpParameters,
+                appData: consumerAppData 
+            });
+            console.log('Consumer created:', consumer);
+            console.log(`Consumer created with kind: ${consumer.kind}, ID: ${consumer.id}, for producer: ${consumer.producerId}`);
+
+            const { track } = consumer;
+            const newStream = new MediaStream([track]);
+
+            setRemoteStreams(prev => new Map(prev).set(consumer.id, { 
+                id: consumer.id, 
+                stream: newStream, 
+                consumer, 
+                socketId: consumerAppData.remoteSocketId || 'unknown', 
+                producerId: params.producerId
+            }));
+            addRemoteVideo(newStream, consumer.id);
+            if (params.producerPaused) setPausedProducerIds(prev => new Set(prev).add(consumer.producerId));
+
+            consumer.on('trackended', () => {
+                console.log(`Remote track ended for consumer ${consumer.id}`);
+                setRemoteStreams(prev => { const newMap = new Map(prev); newMap.delete(consumer.id); return newMap; });
+                removeRemoteVideo(consumer.id);
+            });
+            consumer.on('transportclose', () => {
+                console.log(`Transport closed for consumer ${consumer.id}`);
+                setRemoteStreams(prev => { const newMap = new Map(prev); newMap.delete(consumer.id); return newMap; });
+                removeRemoteVideo(consumer.id);
+            });
+
+        } catch (consumeError) {
+            console.error('Error creating new consumer object:', consumeError);
+        }
+    });
+  }, [ensureRecvTransport, addRemoteVideo, removeRemoteVideo]);
+  
+  const startMediaAndProduce = useCallback(async () => {
+    if (localStream || !mediasoupDevice || !mediasoupDevice.loaded || !socket || !isConnected) {
+      console.warn('Cannot start media: stream already exists or device/socket not ready.');
+      return;
+    }
+    try {
+      // The previewed devices go live as they are
+      const stream = previewStream ?? await navigator.mediaDevices.getUserMedia({
+        video: getCaptureConstraints(deviceSettings, 'video'),
+        audio: getCaptureConstraints(deviceSettings, 'audio')
+      });
+      setPreviewStream(null);
+      setLocalStream(stream);
+      if (localVideoRef.current) {
+        localVideoRef.current.srcObject = stream;
+      }
+      console.log('Local media stream obtained.');
+      createSendTransportAndProduce(stream, mediasoupDevice, socket);
+      // Device labels are only listed once the browser has granted access
+      refreshMediaDevices();
+    } catch (error) {
+      console.error('Error accessing media devices:', error);
+      setDeviceNotice(`Could not open camera or microphone: ${(error as Error).message}`);
+    }
+  }, [localStream, mediasoupDevice, socket, isConnected, createSendTransportAndProduce, previewStream, deviceSettings, refreshMediaDevices]);
+
+  // 4. Event Handlers for Socket events (using useCallback)
+  const newProducerHandler = useCallback(async (data: NewProducerEvent) => {
+    if (!socket || !socket.connected || !mediasoupDevice || !mediasoupDevice.loaded) { console.warn('newProducerHandler: Socket/device not ready.'); return; }
+    if (data.socketId === socket.id) { console.log('Ignoring own new producer.'); return; }
+    console.log('New remote producer announced (data):', data); // Log entire data object
+    console.log(`New remote producer announced with kind: ${data.kind}, ID: ${data.producerId}`);
+    await consumeRemoteProducer(mediasoupDevice, socket, data.producerId, data.appData);
+  }, [socket, mediasoupDevice, consumeRemoteProducer]);
+
+  const producerClosedHandler = useCallback(({ producerId }: { producerId: string }) => {
+    console.log('Remote producer closed:', producerId);
+    setRemoteStreams(prev => {
+      const newMap = new Map(prev);
+      prev.forEach(rs => {
+        if (rs.producerId === producerId) { if (!rs.consumer.closed) rs.consumer.close(); removeRemoteVideo(rs.id); newMap.delete(rs.id); }
+      });
+      return newMap;
+    });
+  }, [removeRemoteVideo]);
+
+  const consumerClosedHandler = useCallback(({ consumerId }: { consumerId: string }) => {
+    console.log(`Remote consumer closed: ${consumerId}`);
+    setRemoteStreams(prev => {
+      const newMap = new Map(prev);
+      const rs = newMap.get(consumerId);
+      if (rs) { if (!rs.consumer.closed) rs.consumer.close(); removeRemoteVideo(rs.id); newMap.delete(rs.id); }
+      return newMap;
+    });
+  }, [removeRemoteVideo]);
+
+  // 5. Refs for handlers and state needed in main useEffect([]) disconnect/listeners
+  const newProducerHandlerRef = useRef(newProducerHandler);
+  const producerClosedHandlerRef = useRef(producerClosedHandler);
+  const consumerClosedHandlerRef = useRef(consumerClosedHandler);
+
+  const sendTransportRef = useRef(sendTransport);
+  const recvTransportRef = useRef(recvTransport);
+  const videoProducerRef = useRef(videoProducer);
+  const audioProducerRef = useRef(audioProducer);
+  const remoteStreamsRef = useRef(remoteStreams);
+  const localStreamRef = useRef(localStream);
+  const deviceSettingsRef = useRef(deviceSettings);
+
+  // 6. useEffects to update these refs when their source state/callback changes
+  useEffect(() => { newProducerHandlerRef.current = newProducerHandler; }, [newProducerHandler]);
+  useEffect(() => { producerClosedHandlerRef.current = producerClosedHandler; }, [producerClosedHandler]);
+  useEffect(() => { consumerClosedHandlerRef.current = consumerClosedHandler; }, [consumerClosedHandler]);
+
+  useEffect(() => { sendTransportRef.current = sendTransport; }, [sendTransport]);
+  useEffect(() => { recvTransportRef.current = recvTransport; }, [recvTransport]);
+  useEffect(() => { videoProducerRef.current = videoProducer; }, [videoProducer]);
+  useEffect(() => { audioProducerRef.current = audioProducer; }, [audioProducer]);
+  useEffect(() => { remoteStreamsRef.current = remoteStreams; }, [remoteStreams]);
+  useEffect(() => { localStreamRef.current = localStream; }, [localStream]);
+  useEffect(() => { deviceSettingsRef.current = deviceSettings; }, [deviceSettings]);
+
+  // 7. Main useEffect for Socket.IO instance lifecycle
+  useEffect(() => {
+    const socketInstance: SignalingSocket = io(SERVER_URL, { auth: { protocolVersion: SIGNALING_PROTOCOL_VERSION } });
+    setSocket(socketInstance);
+    console.log('Socket instance created (useEffect with []).');
+
+    const onConnect = () => {
+      console.log('Socket.IO connected:', socketInstance.id);
+      setIsConnected(true);
+      setSignalingProtocolError(null);
+    };
+    // A server of another protocol version refuses the handshake, and the socket stops trying after that
+    const onConnectError = (error: Error & { data?: unknown }) => {
+      console.error('Socket.IO connection error:', error.message);
+      if (isSignalingError(error.data) && error.data.code === 'unsupported-protocol') setSignalingProtocolError(error.data.error);
+    };
+    const onDisconnect = (reason: Socket.DisconnectReason) => {
+      console.log('Socket.IO disconnected:', reason);
+      setIsConnected(false);
+      setMediasoupDevice(null);
+      if (sendTransportRef.current && !sendTransportRef.current.closed) sendTransportRef.current.close();
+      if (recvTransportRef.current && !recvTransportRef.current.closed) recvTransportRef.current.close();
+      if (videoProducerRef.current && !videoProducerRef.current.closed) videoProducerRef.current.close();
+      if (audioProducerRef.current && !audioProducerRef.current.closed) audioProducerRef.current.close();
+      setSendTransport(null); setRecvTransport(null);
+      setVideoProducer(null); setAudioProducer(null);
+      remoteStreamsRef.current.forEach(rs => { if(rs.consumer && !rs.consumer.closed) rs.consumer.close(); removeRemoteVideo(rs.id); });
+      setRemoteStreams(new Map());
+      if (remoteVideosRef.current) remoteVideosRef.current.innerHTML = '';
+      socketInstance.close();
+      setSocket(null);
+      setIsConnected(false);
+    };
+
+    // The server lost the media worker behind our router: drop transports and rejoin.
+    // Clearing the device re-runs the loader effect; the send effect then re-publishes localStream.
+    const onReconnectRequired = ({ roomId: affectedRoomId, reason }: { roomId: string; reason: string }) => {
+      console.warn(`Server asked to reconnect media for room ${affectedRoomId}: ${reason}`);
+      if (sendTransportRef.current && !sendTransportRef.current.closed) sendTransportRef.current.close();
+      if (recvTransportRef.current && !recvTransportRef.current.closed) recvTransportRef.current.close();
+      if (videoProducerRef.current && !videoProducerRef.current.closed) videoProducerRef.current.close();
+      if (audioProducerRef.current && !audioProducerRef.current.closed) audioProducerRef.current.close();
+      setSendTransport(null); setRecvTransport(null);
+      setVideoProducer(null); setAudioProducer(null);
+      remoteStreamsRef.current.forEach(rs => { if(rs.consumer && !rs.consumer.closed) rs.consumer.close(); removeRemoteVideo(rs.id); });
+      setRemoteStreams(new Map());
+      setMediasoupDevice(null);
+    };
+
+    // null while the server forwards no layer of a simulcast/SVC video (e.g. not enough bandwidth)
+    const onConsumerLayersChanged = ({ consumerId, layers }: { consumerId: string; layers: { spatialLayer: number } | null }) => {
+      setCurrentLayers(prev => new Map(prev).set(consumerId, layers ? layers.spatialLayer : null));
+    };
+
+    const onProducerPaused = ({ producerId }: { producerId: string }) => {
+      setPausedProducerIds(prev => new Set(prev).add(producerId));
+    };
+    const onProducerResumed = ({ producerId }: { producerId: string }) => {
+      setPausedProducerIds(prev => { const next = new Set(prev); next.delete(producerId); return next; });
+    };
+
+    const onActiveSpeaker = ({ socketId }: { producerId: string; socketId: string }) => {
+      setActiveSpeakerId(socketId);
+    };
+    const onAudioLevels = ({ levels }: { levels: { producerId: string; socketId: string | null; volume: number }[] }) => {
+      setAudibleSocketIds(new Set(levels.map(level => level.socketId).filter((id): id is string => !!id)));
+    };
+
+    const wrappedNewProducer = (data: NewProducerEvent) => newProducerHandlerRef.current(data);
+    const wrappedProducerClosed = (data: { producerId: string }) => producerClosedHandlerRef.current(data);
+    const wrappedConsumerClosed = (data: { consumerId: string, producerId: string }) => consumerClosedHandlerRef.current(data);
+
+    socketInstance.on('connect', onConnect);
+    socketInstance.on('connect_error', onConnectError);
+    socketInstance.on('disconnect', onDisconnect);
+    socketInstance.on('new-producer', wrappedNewProducer);
+    socketInstance.on('producer-closed', wrappedProducerClosed);
+    socketInstance.on('consumer-closed', wrappedConsumerClosed);
+    socketInstance.on('reconnect-required', onReconnectRequired);
+    socketInstance.on('consumer-layers-changed', onConsumerLayersChanged);
+    socketInstance.on('producer-paused', onProducerPaused);
+    socketInstance.on('producer-resumed', onProducerResumed);
+    socketInstance.on('active-speaker', onActiveSpeaker);
+    socketInstance.on('audio-levels', onAudioLevels);
+
+    return () => {
+      console.log('Cleaning up socket instance.');
+      socketInstance.off('connect', onConnect);
+      socketInstance.off('connect_error', onConnectError);
+      socketInstance.off('disconnect', onDisconnect);
+      socketInstance.off('new-producer', wrappedNewProducer);
+      socketInstance.off('producer-closed', wrappedProducerClosed);
+      socketInstance.off('consumer-closed', wrappedConsumerClosed);
+      socketInstance.off('reconnect-required', onReconnectRequired);
+      socketInstance.off('consumer-layers-changed', onConsumerLayersChanged);
+      socketInstance.off('producer-paused', onProducerPaused);
+      socketInstance.off('producer-resumed', onProducerResumed);
+      socketInstance.off('active-speaker', onActiveSpeaker);
+      socketInstance.off('audio-levels', onAudioLevels);
+      socketInstance.close();
+      setSocket(null);
+    };
+  }, []); // Empty: runs only on mount/unmount
+
+  // 8. Other useEffects (dependent on socket, device, etc.)
+  useEffect(() => {
+    // Log the state this useEffect sees when it runs
+    console.log('[DeviceLoaderEffect Check] isConnected:', isConnected, 'mediasoupDevice loaded:', mediasoupDevice?.loaded);
+    
+    // This effect should run when the socket connects for the first time,
+    // or if the socket reconnects and the device isn't loaded yet.
+    if (socket && isConnected && !mediasoupDevice?.loaded) { // Use isConnected in condition
+      console.log('useEffect [isConnected, mediasoupDevice]: Socket connected and device not loaded, attempting to load device...');
+      loadDevice(); // loadDevice still uses the socket object from state internally
+    }
+  }, [socket, isConnected, mediasoupDevice, loadDevice]); // Add isConnected to dependencies
+
+  useEffect(() => {
+    if (
+        localStream &&
+        mediasoupDevice?.loaded &&
+        socket?.connected &&
+        isConnected &&
+        !sendTransport && 
+        !videoProducer && 
+        !audioProducer &&
+        !isCreatingSendTransport && !isProducingVideo && !isProducingAudio
+    ) {
+        console.log('useEffect: Conditions met, creating send transport & producers...');
+        createSendTransportAndProduce(localStream, mediasoupDevice, socket);
+    }
+  }, [
+    localStream,
+    mediasoupDevice,
+    socket,
+    isConnected,
+    sendTransport, 
+    videoProducer,
+    audioProducer,
+    createSendTransportAndProduce,
+    isCreatingSendTransport, isProducingVideo, isProducingAudio 
+]);
+  
+  // Restream targets belong to our broadcast; the server reports their status as it changes
+  const isBroadcasting = !!videoProducer || !!audioProducer;
+  useEffect(() => {
+    if (!socket || !isBroadcasting) {
+      setPushTargets([]);
+      return;
+    }
+    const onPushTargetStatus = (target: PushTargetInfo) => {
+      setPushTargets(prev => target.status === 'stopped'
+        ? prev.filter(entry => entry.id !== target.id)
+        : prev.some(entry => entry.id === target.id)
+          ? prev.map(entry => entry.id === target.id ? target : entry)
+          : [...prev, target]);
+    };
+    socket.on('push-target-status', onPushTargetStatus);
+    socket.emit('get-push-targets', {}, (response) => {
+      if ('pushTargets' in response) setPushTargets(response.pushTargets);
+    });
+    return () => { socket.off('push-target-status', onPushTargetStatus); };
+  }, [socket, isBroadcasting]);
+
+  const addPushTarget = () => {
+    socket?.emit('add-push-target', { url: pushTargetUrl, name: pushTargetName || undefined },
+      (response) => {
+        if ('error' in response) {
+          setPushTargetError(response.error);
+          return;
+        }
+        setPushTargetError(null);
+        setPushTargetUrl('');
+        setPushTargetName('');
+      });
+  };
+
+  const removePushTarget = (targetId: string) => {
+    socket?.emit('remove-push-target', { targetId }, (response) => {
+      if ('error' in response) setPushTargetError(response.error);
+    });
+  };
+
+  // A new broadcast starts with camera and microphone on
+  useEffect(() => { if (!videoProducer) setIsCameraOff(false); }, [videoProducer]);
+  useEffect(() => { if (!audioProducer) setIsMicMuted(false); }, [audioProducer]);
+
+  // Remote videos of a paused track are dimmed; they show their last frame until it resumes
+  useEffect(() => {
+    remoteStreams.forEach(remote => {
+      const element = document.getElementById(`remote-video-${remote.id}`);
+      if (element) element.style.opacity = pausedProducerIds.has(remote.producerId) ? '0.3' : '1';
+    });
+  }, [remoteStreams, pausedProducerIds]);
+
+  // The dominant speaker's tiles get a thick frame, anyone else audible a thin one
+  useEffect(() => {
+    const getBorder = (socketId: string | undefined, idleBorder: string) => !socketId ? idleBorder
+      : socketId === activeSpeakerId ? '3px solid orange'
+      : audibleSocketIds.has(socketId) ? '1px solid orange'
+      : idleBorder;
+    remoteStreams.forEach(remote => {
+      const element = document.getElementById(`remote-video-${remote.id}`);
+      if (element) element.style.border = getBorder(remote.socketId, '1px solid green');
+    });
+    if (localVideoRef.current) localVideoRef.current.style.border = getBorder(socket?.id, '1px solid black');
+  }, [remoteStreams, activeSpeakerId, audibleSocketIds, socket]);
+
+  // Stop sending the track and let the server tell peers and swap the HLS output to a slate
+  const toggleProducerPaused = (producer: mediasoupClient.types.Producer) => {
+    const paused = !producer.paused;
+    if (paused) producer.pause();
+    else producer.resume();
+    if (producer.kind === 'video') setIsCameraOff(paused);
+    else setIsMicMuted(paused);
+    socket?.emit(paused ? 'pause-producer' : 'resume-producer', { producerId: producer.id }, (response) => {
+      if ('error' in response) console.error(`Error ${paused ? 'pausing' : 'resuming'} ${producer.kind} producer:`, response.error);
+    });
+  };
+
+  const stopScreenShare = useCallback(() => {
+    screenProducersRef.current.forEach(producer => {
+      if (!producer.closed) producer.close();
+      socket?.emit('close-producer', { producerId: producer.id });
+    });
+    screenProducersRef.current = [];
+    screenStreamRef.current?.getTracks().forEach(track => track.stop());
+    screenStreamRef.current = null;
+    setScreenStream(null);
+  }, [socket]);
+
+  // Screen video (and system audio when the browser offers it) as extra producers on the send transport
+  const startScreenShare = async () => {
+    if (!sendTransport || sendTransport.closed || screenStreamRef.current) return;
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+    } catch (error) {
+      console.log('Screen share was not started:', error);
+      return;
+    }
+    screenStreamRef.current = stream;
+    setScreenStream(stream);
+    try {
+      for (const track of stream.getTracks()) {
+        // Keep text sharp rather than motion smooth
+        if (track.kind === 'video') track.contentHint = 'detail';
+        // The browser's own "Stop sharing" ends the video track
+        track.addEventListener('ended', stopScreenShare);
+        const producer = await sendTransport.produce({
+          track,
+          appData: { mediaType: track.kind, source: 'screen', transportId: sendTransport.id, hlsMode, segmentFormat, dvrWindowSeconds, recording: recordingFormat || undefined } as ExtendedAppData
+        });
+        screenProducersRef.current.push(producer);
+        producer.on('trackended', stopScreenShare);
+        producer.on('transportclose', stopScreenShare);
+        console.log(`Screen share ${track.kind} producer created:`, producer.id);
+      }
+    } catch (error) {
+      console.error('Error producing screen share:', error);
+      stopScreenShare();
+    }
+  };
+
+  useEffect(() => {
+    if (screenVideoRef.current) screenVideoRef.current.srcObject = screenStream;
+  }, [screenStream]);
+
+  useEffect(() => {
+    refreshMediaDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshMediaDevices);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshMediaDevices);
+  }, [refreshMediaDevices]);
+
+  // A new track from the picked device on the same producer: peers, HLS and recordings carry on without
+  // renegotiation or an FFmpeg restart. replaceTrack stops the old track.
+  const replaceProducerTrack = async (producer: mediasoupClient.types.Producer, settings: DeviceSettings) => {
+    const kind = producer.kind as mediasoupClient.types.MediaKind;
+    const stream = await navigator.mediaDevices.getUserMedia({ [kind]: getCaptureConstraints(settings, kind) });
+    const track = stream.getTracks()[0];
+    if (producer.closed) {
+      track.stop();
+      return;
+    }
+    await producer.replaceTrack({ track });
+    const local = localStreamRef.current;
+    if (local) {
+      local.getTracks().filter(localTrack => localTrack.kind === kind).forEach(localTrack => local.removeTrack(localTrack));
+      local.addTrack(track);
+    }
+    console.log(`Switched ${kind} producer ${producer.id} to ${track.label}`);
+  };
+
+  // An unplugged device ends its track; the producer carries on with the browser's default device
+  const recoverEndedTrack = async (producer: mediasoupClient.types.Producer) => {
+    const deviceKey = producer.kind === 'video' ? 'cameraId' : 'micId';
+    const settings = { ...deviceSettingsRef.current, [deviceKey]: '' };
+    setDeviceSettings(settings);
+    try {
+      await replaceProducerTrack(producer, settings);
+      setDeviceNotice(`The ${producer.kind === 'video' ? 'camera' : 'microphone'} was disconnected; switched to the default device`);
+    } catch (error) {
+      console.error(`No ${producer.kind} device left to stream from:`, error);
+      setDeviceNotice(`The ${producer.kind === 'video' ? 'camera' : 'microphone'} was disconnected and no other one is available`);
+      if (!producer.closed) producer.close();
+      socket?.emit('close-producer', { producerId: producer.id });
+      if (producer.kind === 'video') setVideoProducer(null);
+      else setAudioProducer(null);
+    }
+    refreshMediaDevices();
+  };
+  useEffect(() => { recoverEndedTrackRef.current = recoverEndedTrack; });
+
+  const startPreview = async (settings: DeviceSettings) => {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: getCaptureConstraints(settings, 'video'),
+      audio: getCaptureConstraints(settings, 'audio')
+    });
+    previewStream?.getTracks().forEach(track => track.stop());
+    setPreviewStream(stream);
+    if (localVideoRef.current) localVideoRef.current.srcObject = stream;
+    refreshMediaDevices();
+  };
+
+  const applySpeaker = async (speakerId: string) => {
+    const elements = Array.from(remoteVideosRef.current?.querySelectorAll('video') ?? []);
+    await Promise.all(elements.map(element => element.setSinkId(speakerId)));
+  };
+
+  // Changes apply at once: to the live producers while streaming, otherwise to the preview
+  const changeDeviceSettings = async (changes: Partial<DeviceSettings>) => {
+    const settings = { ...deviceSettings, ...changes };
+    setDeviceSettings(settings);
+    setDeviceNotice(null);
+    try {
+      if (changes.speakerId !== undefined) await applySpeaker(settings.speakerId);
+      const kind = changes.cameraId !== undefined || changes.resolution !== undefined || changes.frameRate !== undefined ? 'video'
+        : changes.micId !== undefined ? 'audio'
+        : null;
+      if (!kind) return;
+      const producer = kind === 'video' ? videoProducerRef.current : audioProducerRef.current;
+      if (producer && !producer.closed) await replaceProducerTrack(producer, settings);
+      else if (previewStream) await startPreview(settings);
+    } catch (error) {
+      console.error('Error applying device settings:', error);
+      setDeviceNotice(`Could not switch devices: ${(error as Error).message}`);
+    }
+  };
+
+  // Remote videos stay muted on this page, so a short tone checks the picked speaker
+  const playTestTone = async () => {
+    const context = new AudioContext();
+    const oscillator = context.createOscillator();
+    const destination = context.createMediaStreamDestination();
+    oscillator.connect(destination);
+    const audio = new Audio();
+    audio.srcObject = destination.stream;
+    try {
+      if (deviceSettings.speakerId) await audio.setSinkId(deviceSettings.speakerId);
+      await audio.play();
+      oscillator.onended = () => { audio.pause(); context.close(); };
+      oscillator.start();
+      oscillator.stop(context.currentTime + 0.5);
+    } catch (error) {
+      console.error('Error playing the test tone:', error);
+      context.close();
+    }
+  };
+
+  const setPreferredLayers = (consumerId: string, choice: LayerChoice) => {
+    socket?.emit('setPreferredLayers', { consumerId, spatialLayer: choice }, (response) => {
+      if ('error' in response) {
+        console.error(`Error setting layers of consumer ${consumerId}:`, response.error);
+        return;
+      }
+      setLayerChoices(prev => new Map(prev).set(consumerId, choice));
+    });
+  };
+
+  const createIngestKey = async () => {
+    try {
+      const response = await fetch(`${SERVER_URL}/api/rooms/${encodeURIComponent(roomId)}/ingest-keys`, { method: 'POST' });
+      const data: { success: boolean; ingestKey?: RtmpIngestKey; error?: string } = await response.json();
+      if (!data.success || !data.ingestKey) {
+        setIngestKeyError(data.error ?? 'Could not create a stream key');
+        return;
+      }
+      setIngestKey(data.ingestKey);
+      setIngestKeyError(null);
+    } catch (error) {
+      console.error('Error creating RTMP stream key:', error);
+      setIngestKeyError('Could not reach the server');
+    }
+  };
+
+  // JSX
+  return (
+    <div style={{ padding: '20px' }}>
+      <h1>Stream Page</h1>
+      <p>Room: <strong>{roomId}</strong> (viewers can watch at /watch/{roomId})</p>
+      {signalingProtocolError && <p style={{ color: 'red' }}>{signalingProtocolError}</p>}
+      <h2>Devices</h2>
+      <div>
+        <label style={{ marginRight: '10px' }}>
+          Camera:{' '}
+          <select value={deviceSettings.cameraId} onChange={(e) => changeDeviceSettings({ cameraId: e.target.value })}>
+            <option value="">Default</option>
+            {mediaDevices.filter(device => device.kind === 'videoinput' && device.deviceId).map((device, index) => (
+              <option key={device.deviceId} value={device.deviceId}>{device.label || `Camera ${index + 1}`}</option>
+            ))}
+          </select>
+        </label>
+        <label style={{ marginRight: '10px' }}>
+          Resolution:{' '}
+          <select value={deviceSettings.resolution} onChange={(e) => changeDeviceSettings({ resolution: e.target.value as VideoResolution })}>
+            {Object.keys(VIDEO_RESOLUTIONS).map(resolution => <option key={resolution} value={resolution}>{resolution}</option>)}
+          </select>
+        </label>
+        <label style={{ marginRight: '10px' }}>
+          Frame rate:{' '}
+          <select value={deviceSettings.frameRate} onChange={(e) => changeDeviceSettings({ frameRate: Number(e.target.value) })}>
+            {FRAME_RATES.map(frameRate => <option key={frameRate} value={frameRate}>{frameRate} fps</option>)}
+          </select>
+        </label>
+        <label style={{ marginRight: '10px' }}>
+          Microphone:{' '}
+          <select value={deviceSettings.micId} onChange={(e) => changeDeviceSettings({ micId: e.target.value })}>
+            <option value="">Default</option>
+            {mediaDevices.filter(device => device.kind === 'audioinput' && device.deviceId && device.deviceId !== 'default').map((device, index) => (
+              <option key={device.deviceId} value={device.deviceId}>{device.label || `Microphone ${index + 1}`}</option>
+            ))}
+          </select>
+        </label>
+        {/* Browsers without setSinkId list no speakers */}
+        {mediaDevices.some(device => device.kind === 'audiooutput') && (
+          <label style={{ marginRight: '10px' }}>
+            Speaker:{' '}
+            <select value={deviceSettings.speakerId} onChange={(e) => changeDeviceSettings({ speakerId: e.target.value })}>
+              <option value="">Default</option>
+              {mediaDevices.filter(device => device.kind === 'audiooutput' && device.deviceId && device.deviceId !== 'default').map((device, index) => (
+                <option key={device.deviceId} value={device.deviceId}>{device.label || `Speaker ${index + 1}`}</option>
+              ))}
+            </select>
+            {' '}<button onClick={playTestTone}>Test</button>
+          </label>
+        )}
+        {!localStream && (previewStream
+          ? <button onClick={() => {
+              previewStream.getTracks().forEach(track => track.stop());
+              setPreviewStream(null);
+              if (localVideoRef.current) localVideoRef.current.srcObject = null;
+            }}>Stop Preview</button>
+          : <button onClick={() => startPreview(deviceSettings).catch(error => setDeviceNotice(`Could not open camera or microphone: ${error.message}`))}>Preview</button>
+        )}
+        {deviceNotice && <p style={{ color: '#b45309' }}>{deviceNotice}</p>}
+      </div>
+      <div>
+        <label style={{ marginRight: '10px' }}>
+          HLS output:{' '}
+          <select value={hlsMode} onChange={(e) => setHlsMode(e.target.value as HlsMode)} disabled={!!localStream}>
+            <option value="classic">Classic HLS</option>
+            <option value="ll-hls">Low-Latency HLS</option>
+          </select>
+        </label>
+        <label style={{ marginRight: '10px' }}>
+          Segments:{' '}
+          <select
+            value={segmentFormat}
+            onChange={(e) => setSegmentFormat(e.target.value as HlsSegmentFormat)}
+            disabled={!!localStream || hlsMode !== 'classic'}
+          >
+            <option value="mpegts">MPEG-TS</option>
+            <option value="cmaf">CMAF + DASH</option>
+          </select>
+        </label>
+        <label style={{ marginRight: '10px' }}>
+          DVR:{' '}
+          <select value={dvrWindowSeconds} onChange={(e) => setDvrWindowSeconds(Number(e.target.value))} disabled={!!localStream}>
+            <option value={0}>Live only</option>
+            <option value={300}>5 minutes</option>
+            <option value={1800}>30 minutes</option>
+            <option value={7200}>2 hours</option>
+          </select>
+        </label>
+        <label style={{ marginRight: '10px' }}>
+          Record:{' '}
+          <select
+            value={recordingFormat}
+            onChange={(e) => setRecordingFormat(e.target.value as RecordingFormat | '')}
+            disabled={!!localStream}
+          >
+            <option value="">Off</option>
+            <option value="mp4">MP4</option>
+            <option value="hls">HLS (VOD)</option>
+          </select>
+        </label>
+        <label style={{ marginRight: '10px' }}>
+          Video:{' '}
+          <select value={videoCodec} onChange={(e) => setVideoCodec(e.target.value as VideoCodecChoice)} disabled={!!localStream}>
+            <option value="h264">H.264 simulcast</option>
+            <option value="vp8">VP8 simulcast</option>
+            <option value="vp9" disabled={!mediasoupDevice?.rtpCapabilities.codecs?.some(codec => codec.mimeType.toLowerCase() === 'video/vp9')}>
+              VP9 SVC
+            </option>
+          </select>
+        </label>
+        <button onClick={startMediaAndProduce} disabled={!!localStream || !mediasoupDevice?.loaded || !isConnected}>
+          {!localStream ? 'Start Camera/Mic & Stream' : 'Streaming Active'}
+        </button>
+        {localStream && (
+           <button onClick={() => {
+               stopScreenShare();
+               localStream.getTracks().forEach(track => track.stop());
+               setLocalStream(null);
+               if (videoProducerRef.current) { 
+                 if (!videoProducerRef.current.closed) videoProducerRef.current.close(); 
+                 socket?.emit('close-producer', { producerId: videoProducerRef.current.id }); 
+                 setVideoProducer(null); 
+               }
+               if (audioProducerRef.current) { 
+                 if (!audioProducerRef.current.closed) audioProducerRef.current.close(); 
+                 socket?.emit('close-producer', { producerId: audioProducerRef.current.id }); 
+                 setAudioProducer(null); 
+               }
+           }}>Stop My Stream</button>
+        )}
+        {videoProducer && (
+          <button onClick={() => toggleProducerPaused(videoProducer)}>{isCameraOff ? 'Turn Camera On' : 'Turn Camera Off'}</button>
+        )}
+        {audioProducer && (
+          <button onClick={() => toggleProducerPaused(audioProducer)}>{isMicMuted ? 'Unmute Mic' : 'Mute Mic'}</button>
+        )}
+        {sendTransport && (screenStream
+          ? <button onClick={stopScreenShare}>Stop Sharing</button>
+          : <button onClick={startScreenShare}>Share Screen</button>
+        )}
+      </div>
+      
+      <h2>Broadcast from OBS</h2>
+      <div>
+        <button onClick={createIngestKey}>{ingestKey ? 'Create Another Stream Key' : 'Create RTMP Stream Key'}</button>
+        {ingestKeyError && <p style={{ color: 'red' }}>{ingestKeyError}</p>}
+        {ingestKey && (
+          <p>
+            Server: <code>{ingestKey.rtmpUrl.slice(0, ingestKey.rtmpUrl.lastIndexOf('/'))}</code><br />
+            Stream key: <code>{ingestKey.key}</code>
+          </p>
+        )}
+        <p>
+          Or publish over WHIP (OBS 30+, GStreamer) to <code>{`${SERVER_URL}/whip/${encodeURIComponent(roomId)}`}</code>
+        </p>
+      </div>
+
+      <h2>Restream</h2>
+      {isBroadcasting ? (
+        <div>
+          <input
+            value={pushTargetUrl}
+            onChange={(e) => setPushTargetUrl(e.target.value)}
+            placeholder="rtmp://live.example.com/app/stream-key"
+            style={{ width: '320px', marginRight: '5px' }}
+          />
+          <input
+            value={pushTargetName}
+            onChange={(e) => setPushTargetName(e.target.value)}
+            placeholder="Name (optional)"
+            style={{ marginRight: '5px' }}
+          />
+          <button onClick={addPushTarget} disabled={!pushTargetUrl}>Add Target</button>
+          {pushTargetError && <p style={{ color: 'red' }}>{pushTargetError}</p>}
+          <ul>
+            {pushTargets.map(target => (
+              <li key={target.id}>
+                <strong>{target.name}</strong> <code>{target.url}</code> {target.status}
+                {' '}({(target.bytesSent / 1e6).toFixed(1)} MB sent)
+                {target.status === 'retrying' && target.lastError && <span style={{ color: 'red' }}> {target.lastError}</span>}
+                {' '}<button onClick={() => removePushTarget(target.id)}>Remove</button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p>Start streaming to push your broadcast to other RTMP platforms.</p>
+      )}
+
+      <h2>My Video</h2>
+      <video ref={localVideoRef} autoPlay playsInline muted style={{ width: '320px', border: '1px solid black' }} />
+      {screenStream && (
+        <video ref={screenVideoRef} autoPlay playsInline muted style={{ width: '320px', border: '1px solid black', marginLeft: '10px' }} />
+      )}
+
+      <h2>Remote Videos</h2>
+      {activeSpeakerId && (
+        <p>Speaking: <strong>{activeSpeakerId === socket?.id ? 'You' : activeSpeakerId.slice(0, 6)}</strong></p>
+      )}
+      {Array.from(remoteStreams.values())
+        .filter(remote => pausedProducerIds.has(remote.producerId))
+        .map(remote => (
+          <p key={remote.id}>
+            {remote.socketId.slice(0, 6)} {remote.consumer.kind === 'video' ? 'turned the camera off' : 'muted the microphone'}
+          </p>
+        ))}
+      {Array.from(remoteStreams.values())
+        .filter(remote => remote.consumer.kind === 'video' && (remote.consumer.rtpParameters.encodings?.[0]?.scalabilityMode ?? '').search(/^[LS][2-9]/) === 0)
+        .map(remote => (
+          <label key={remote.id} style={{ marginRight: '10px' }}>
+            Quality of {remote.socketId.slice(0, 6)}:{' '}
+            <select
+              value={String(layerChoices.get(remote.id) ?? 'auto')}
+              onChange={(e) => setPreferredLayers(remote.id, e.target.value === 'auto' ? 'auto' : Number(e.target.value) as LayerChoice)}
+            >
+              <option value="auto">Auto</option>
+              {LAYER_LABELS.map((label, index) => <option key={label} value={index}>{label}</option>)}
+            </select>
+            {currentLayers.has(remote.id) && (currentLayers.get(remote.id) === null
+              ? ' (no layer)'
+              : ` (now ${LAYER_LABELS[currentLayers.get(remote.id)!] ?? 'High'})`)}
+          </label>
+        ))}
+      <div id="remote-videos-container" ref={remoteVideosRef} style={{ display: 'flex', flexWrap: 'wrap' }}>
+        {/* Remote video elements will be appended here by addRemoteVideo */}
+      </div>
+
+      {/* Debug info - can be removed later */}
+      {/*
+      <div>
+        <h3>Debug Info:</h3>
+        <p>Socket ID: {socket?.id}</p>
+        <p>Socket Connected: {socket?.connected ? 'Yes' : 'No'}</p>
+        <p>Mediasoup Device Loaded: {mediasoupDevice?.loaded ? 'Yes' : 'No'}</p>
+        <p>Send Transport ID: {sendTransport?.id} ({sendTransport?.connectionState})</p>
+        <p>Video Producer ID: {videoProducer?.id} ({videoProducer?.paused ? 'Paused' : 'Active'})</p>
+        <p>Audio Producer ID: {audioProducer?.id} ({audioProducer?.paused ? 'Paused' : 'Active'})</p>
+      </div>
+      */}
+    </div>
+  );
+} 
\ No newline at end of file
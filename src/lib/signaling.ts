@@ -0,0 +1,223 @@
+import type { types as mediasoupTypes } from 'mediasoup-client';
+
+// Socket.IO signaling between the stream page and the server. Both sides type their sockets with the
+// event maps below; the server also checks every request at runtime (server/signaling.ts), since any
+// Socket.IO client can connect and send whatever it likes.
+
+// Bumped whenever an event or payload changes incompatibly. Clients send theirs in the handshake,
+// io(url, { auth: { protocolVersion } }), and the server refuses any other.
+export const SIGNALING_PROTOCOL_VERSION = 1;
+
+export const SIGNALING_ERROR_CODES = [
+  // The client speaks another protocol version; only in a refused handshake
+  'unsupported-protocol',
+  // The request does not have the shape its event expects
+  'invalid-request',
+  // joinRoom has to come first
+  'not-in-room',
+  // Unknown or closed transport, producer, consumer or push target
+  'not-found',
+  // Restream targets belong to a broadcast of one's own
+  'not-broadcasting',
+  // Well-formed, but the server will not do it (e.g. consume a producer the client has no codec for)
+  'rejected',
+  // mediasoup or the server failed
+  'internal'
+] as const;
+export type SignalingErrorCode = typeof SIGNALING_ERROR_CODES[number];
+
+// What a failed request is acknowledged with; also the data of a refused handshake's connect_error
+export interface SignalingError {
+  error: string;
+  code: SignalingErrorCode;
+}
+
+export function isSignalingError(value: unknown): value is SignalingError {
+  return typeof value === 'object' && value !== null
+    && typeof (value as SignalingError).error === 'string'
+    && (SIGNALING_ERROR_CODES as readonly unknown[]).includes((value as SignalingError).code);
+}
+
+// Every request is acknowledged with its result or a SignalingError
+export type SignalingAck<T> = (response: T | SignalingError) => void;
+
+// Requests and results without fields
+export type EmptyPayload = Record<string, never>;
+
+export interface JoinRoomRequest {
+  // 1-64 letters, digits, '-' or '_'
+  roomId: string;
+}
+
+export interface JoinRoomResult {
+  roomId: string;
+}
+
+export interface RouterRtpCapabilitiesResult {
+  rtpCapabilities: mediasoupTypes.RtpCapabilities;
+}
+
+export interface CreateWebRtcTransportRequest {
+  producing: boolean;
+  consuming: boolean;
+  // Receiving transports only: the viewer's bandwidth guess in bits/s, the starting point of layer selection
+  estimatedBitrate?: number;
+}
+
+export interface WebRtcTransportResult {
+  id: string;
+  iceParameters: mediasoupTypes.IceParameters;
+  iceCandidates: mediasoupTypes.IceCandidate[];
+  dtlsParameters: mediasoupTypes.DtlsParameters;
+  sctpParameters?: mediasoupTypes.SctpParameters;
+}
+
+export interface ConnectTransportRequest {
+  transportId: string;
+  dtlsParameters: mediasoupTypes.DtlsParameters;
+}
+
+export interface ProduceRequest {
+  transportId: string;
+  kind: mediasoupTypes.MediaKind;
+  rtpParameters: mediasoupTypes.RtpParameters;
+  // source: 'screen' marks a screen share; the first producer of a broadcast also carries its HLS options
+  appData?: mediasoupTypes.AppData;
+}
+
+export interface ProduceResult {
+  id: string;
+}
+
+export interface ConsumeRequest {
+  producerId: string;
+  transportId: string;
+  rtpCapabilities: mediasoupTypes.RtpCapabilities;
+}
+
+export interface ConsumeResult {
+  id: string;
+  producerId: string;
+  kind: mediasoupTypes.MediaKind;
+  rtpParameters: mediasoupTypes.RtpParameters;
+  appData: mediasoupTypes.AppData;
+  // The broadcaster has this track paused (camera off or microphone muted)
+  producerPaused: boolean;
+}
+
+export interface ProducerRequest {
+  producerId: string;
+}
+
+export interface ProducerPausedResult {
+  paused: boolean;
+}
+
+export interface ConsumerRequest {
+  consumerId: string;
+}
+
+export interface ConsumerLayers {
+  spatialLayer: number;
+  temporalLayer?: number;
+}
+
+// spatialLayer 'auto' follows the bandwidth estimate again
+export interface SetPreferredLayersRequest {
+  consumerId: string;
+  spatialLayer: number | 'auto';
+  temporalLayer?: number;
+}
+
+export interface PreferredLayersResult {
+  preferredLayers: ConsumerLayers;
+  auto: boolean;
+}
+
+// Restream destination as the server reports it; the stream key is masked in url
+export interface PushTargetInfo {
+  id: string;
+  roomId: string;
+  streamId: string;
+  name: string;
+  url: string;
+  status: 'starting' | 'live' | 'retrying' | 'stopped';
+  createdAt: number;
+  liveSince: number | null;
+  attempts: number;
+  lastError: string | null;
+  bytesSent: number;
+  nextRetryAt: number | null;
+}
+
+export interface AddPushTargetRequest {
+  // rtmp(s)://host/app/<streamKey>
+  url: string;
+  name?: string;
+}
+
+export interface PushTargetRequest {
+  targetId: string;
+}
+
+export interface PushTargetResult {
+  pushTarget: PushTargetInfo;
+}
+
+export interface PushTargetsResult {
+  pushTargets: PushTargetInfo[];
+}
+
+export interface ClientToServerEvents {
+  joinRoom: (request: JoinRoomRequest, ack: SignalingAck<JoinRoomResult>) => void;
+  getRouterRtpCapabilities: (request: EmptyPayload, ack: SignalingAck<RouterRtpCapabilitiesResult>) => void;
+  // The device is loaded; the server announces the room's existing producers with new-producer
+  clientReadyForExistingProducers: (request: EmptyPayload) => void;
+  createWebRtcTransport: (request: CreateWebRtcTransportRequest, ack: SignalingAck<WebRtcTransportResult>) => void;
+  connectTransport: (request: ConnectTransportRequest, ack: SignalingAck<EmptyPayload>) => void;
+  produce: (request: ProduceRequest, ack: SignalingAck<ProduceResult>) => void;
+  consume: (request: ConsumeRequest, ack: SignalingAck<ConsumeResult>) => void;
+  'resume-consumer': (request: ConsumerRequest, ack: SignalingAck<EmptyPayload>) => void;
+  'pause-consumer': (request: ConsumerRequest, ack: SignalingAck<EmptyPayload>) => void;
+  setPreferredLayers: (request: SetPreferredLayersRequest, ack: SignalingAck<PreferredLayersResult>) => void;
+  // One of the caller's own producers; peers get producer-paused / producer-resumed
+  'pause-producer': (request: ProducerRequest, ack: SignalingAck<ProducerPausedResult>) => void;
+  'resume-producer': (request: ProducerRequest, ack: SignalingAck<ProducerPausedResult>) => void;
+  'close-producer': (request: ProducerRequest) => void;
+  'get-push-targets': (request: EmptyPayload, ack: SignalingAck<PushTargetsResult>) => void;
+  'add-push-target': (request: AddPushTargetRequest, ack: SignalingAck<PushTargetResult>) => void;
+  'remove-push-target': (request: PushTargetRequest, ack: SignalingAck<PushTargetResult>) => void;
+}
+
+export interface NewProducerEvent {
+  producerId: string;
+  // The publishing socket, or the ingest that publishes outside Socket.IO
+  socketId: string;
+  kind: mediasoupTypes.MediaKind;
+  appData: mediasoupTypes.AppData;
+  // Set for producers that existed before clientReadyForExistingProducers
+  paused?: boolean;
+}
+
+export interface ProducerPausedEvent {
+  producerId: string;
+  socketId: string;
+  kind: mediasoupTypes.MediaKind;
+}
+
+export interface ServerToClientEvents {
+  // The media worker behind the client's router died; drop transports and join again
+  'reconnect-required': (event: { roomId: string; reason: 'media-worker-died' }) => void;
+  'new-producer': (event: NewProducerEvent) => void;
+  'producer-closed': (event: { producerId: string }) => void;
+  'producer-paused': (event: ProducerPausedEvent) => void;
+  'producer-resumed': (event: ProducerPausedEvent) => void;
+  'consumer-closed': (event: { consumerId: string; producerId: string }) => void;
+  // null while the server forwards no layer of a simulcast/SVC video (e.g. not enough bandwidth)
+  'consumer-layers-changed': (event: { consumerId: string; layers: ConsumerLayers | null }) => void;
+  // socketId is the stream of the dominant speaker
+  'active-speaker': (event: { producerId: string; socketId: string }) => void;
+  'audio-levels': (event: { levels: Array<{ producerId: string; volume: number; socketId: string | null }> }) => void;
+  // Sent to the broadcaster whenever one of its restream targets changes state
+  'push-target-status': (target: PushTargetInfo) => void;
+}
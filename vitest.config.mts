@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  // The PostCSS setup belongs to Next.js; the server modules under test have no CSS
+  css: { postcss: {} },
+  test: {
+    include: ['server/**/*.test.ts'],
+    environment: 'node'
+  }
+});